@@ -2,7 +2,9 @@
  * AdvancedAnalyzer - Enhanced audio analysis with pre-analysis and beat grid
  *
  * Combines offline BPM detection, beat grid generation, section detection,
- * and real-time spectral analysis for comprehensive audio analysis.
+ * and real-time spectral analysis for comprehensive audio analysis. In live
+ * input mode the same frames are built from a MediaStream, with the beat
+ * grid and sections tracked incrementally instead of pre-analyzed.
  */
 
 import { analyze } from 'web-audio-beat-detector';
@@ -11,6 +13,14 @@ import * as Tone from 'tone';
 // import Meyda from 'meyda';
 import { BeatGrid } from './BeatGrid';
 import { CueScheduler, PreAnalysisResult, LightingCue } from './CueScheduler';
+import { LiveBeat, LiveSectionTracker, RollingBeatTracker } from './LiveTracker';
+import { analyzeTrack, mixToMono } from './TrackAnalysis';
+
+/**
+ * Most recent beat and downbeat times kept in live input mode; older ones
+ * are dropped so long sets do not grow the results without bound
+ */
+const LIVE_BEAT_HISTORY = 1024;
 
 /**
  * Enhanced audio frame with additional frequency band information
@@ -54,6 +64,8 @@ export interface AdvancedAnalyzerConfig {
   windowingFunction?: 'blackman' | 'sine' | 'hann' | 'hamming';
   sampleRate?: number;
   enableCueGeneration?: boolean;
+  /** Beats per bar assumed in live input mode, where no meter is pre-analyzed */
+  liveBeatsPerBar?: number;
 }
 
 /**
@@ -78,6 +90,14 @@ export class AdvancedAnalyzer {
   private pauseTime: number = 0;
   private audioMimeType: string = 'audio/mpeg';
 
+  // Live input state
+  private liveSource: MediaStreamAudioSourceNode | null = null;
+  private liveStartTime: number = 0;
+  private liveFrames: number = 0;
+  private liveBeat: LiveBeat | null = null;
+  private beatTracker: RollingBeatTracker = new RollingBeatTracker();
+  private sectionTracker: LiveSectionTracker = new LiveSectionTracker();
+
   // Event callbacks
   private beatCallbacks: Set<(beatNumber: number, isDownbeat: boolean) => void> = new Set();
   private sectionCallbacks: Set<(section: PreAnalysisResult['sections'][0]) => void> = new Set();
@@ -90,6 +110,7 @@ export class AdvancedAnalyzer {
       windowingFunction: 'hann',
       sampleRate: 44100,
       enableCueGeneration: true,
+      liveBeatsPerBar: 4,
       ...config
     };
 
@@ -153,43 +174,26 @@ export class AdvancedAnalyzer {
     // Perform BPM analysis
     console.log('[AdvancedAnalyzer] Starting BPM analysis...');
     onProgress?.('bpm', 20);
-    const bpm = await this.analyzeBPM();
-    console.log('[AdvancedAnalyzer] BPM analysis complete:', bpm);
+    const detectedBpm = await this.analyzeBPM();
+    console.log('[AdvancedAnalyzer] BPM analysis complete:', detectedBpm);
     onProgress?.('bpm', 40);
 
-    // Generate beat grid
-    console.log('[AdvancedAnalyzer] Generating beat grid...');
-    onProgress?.('beats', 40);
-    const { beats, downbeats } = this.generateBeatGrid(bpm);
-    console.log('[AdvancedAnalyzer] Beat grid generated:', beats.length, 'beats,', downbeats.length, 'downbeats');
-    onProgress?.('beats', 60);
-
-    // Detect sections
-    console.log('[AdvancedAnalyzer] Detecting sections...');
-    onProgress?.('sections', 60);
-    const sections = await this.detectSections();
-    console.log('[AdvancedAnalyzer] Sections detected:', sections.length, 'sections');
-    onProgress?.('sections', 80);
-
-    // Calculate average energy
-    console.log('[AdvancedAnalyzer] Calculating average energy...');
-    onProgress?.('finalizing', 80);
-    const averageEnergy = this.calculateAverageEnergy();
-    console.log('[AdvancedAnalyzer] Average energy:', averageEnergy);
-
-    // Store pre-analysis results
-    this.preAnalysis = {
-      bpm,
-      beats,
-      downbeats,
-      sections,
-      averageEnergy,
-      keySignature: undefined // TODO: Implement key detection
-    };
+    // Beats, meter, sections, drops and energy share the Node pipeline's code
+    // path (see analyzeTrack); only the tempo hint above is browser-specific
+    console.log('[AdvancedAnalyzer] Analyzing beats, meter and sections...');
+    this.preAnalysis = analyzeTrack(this.getMonoSamples()!, this.audioBuffer.sampleRate, {
+      bpm: detectedBpm,
+      // Loading continues after the analysis, so hold back its final 100%
+      onProgress: (stage, progress) => onProgress?.(stage, Math.min(progress, 80)),
+    });
+    const { bpm, beats, downbeats, beatsPerBar, sections, drops } = this.preAnalysis;
+    console.log('[AdvancedAnalyzer] Beats tracked:', beats.length, 'beats, confidence', this.preAnalysis.beatConfidence?.toFixed(2));
+    console.log('[AdvancedAnalyzer] Meter detected:', this.preAnalysis.timeSignature, 'with', downbeats.length, 'downbeats');
+    console.log('[AdvancedAnalyzer] Sections detected:', sections.length, 'sections,', drops?.length ?? 0, 'drops');
     console.log('[AdvancedAnalyzer] Pre-analysis results stored');
 
     // Create beat grid
-    this.beatGrid = new BeatGrid(bpm, beats, downbeats);
+    this.beatGrid = new BeatGrid(bpm, beats, downbeats, beatsPerBar);
     console.log('[AdvancedAnalyzer] BeatGrid created');
 
     // Create cue scheduler
@@ -236,147 +240,8 @@ export class AdvancedAnalyzer {
       return bpm;
     } catch (error) {
       console.error('BPM detection failed:', error);
-      // Fallback to 120 BPM
-      return 120;
-    }
-  }
-
-  /**
-   * Generate beat grid from BPM
-   * @param bpm - Beats per minute
-   * @returns Beat and downbeat timestamps
-   */
-  private generateBeatGrid(bpm: number): { beats: number[]; downbeats: number[] } {
-    if (!this.audioBuffer) {
-      return { beats: [], downbeats: [] };
-    }
-
-    const duration = this.audioBuffer.duration;
-    const beatInterval = 60 / bpm;
-    const beats: number[] = [];
-    const downbeats: number[] = [];
-
-    // Generate beat positions
-    for (let t = 0; t < duration; t += beatInterval) {
-      beats.push(t);
-      // Every 4th beat is a downbeat (4/4 time signature)
-      if (beats.length % 4 === 1) {
-        downbeats.push(t);
-      }
-    }
-
-    return { beats, downbeats };
-  }
-
-  /**
-   * Detect song sections using energy analysis
-   * @returns Array of detected sections
-   */
-  private async detectSections(): Promise<PreAnalysisResult['sections']> {
-    if (!this.audioBuffer) {
-      return [];
-    }
-
-    const sections: PreAnalysisResult['sections'] = [];
-    const duration = this.audioBuffer.duration;
-    const windowSize = 2; // 2 second windows
-    const hopSize = 0.5; // 0.5 second hop
-
-    // Analyze energy in windows
-    const energyProfile: number[] = [];
-    const channelData = this.audioBuffer.getChannelData(0);
-    const sampleRate = this.audioBuffer.sampleRate;
-
-    for (let t = 0; t < duration - windowSize; t += hopSize) {
-      const startSample = Math.floor(t * sampleRate);
-      const endSample = Math.floor((t + windowSize) * sampleRate);
-
-      let energy = 0;
-      for (let i = startSample; i < endSample && i < channelData.length; i++) {
-        energy += channelData[i] * channelData[i];
-      }
-      energy = Math.sqrt(energy / (endSample - startSample));
-      energyProfile.push(energy);
-    }
-
-    // Normalize energy
-    const maxEnergy = Math.max(...energyProfile);
-    const normalizedEnergy = energyProfile.map(e => e / maxEnergy);
-
-    // Detect sections based on energy patterns
-    let currentSection: PreAnalysisResult['sections'][0] | null = null;
-    let _sectionStartTime = 0; // Track section start (prefixed to avoid unused warning)
-
-    for (let i = 0; i < normalizedEnergy.length; i++) {
-      const time = i * hopSize;
-      const energy = normalizedEnergy[i];
-      const position = time / duration;
-
-      let sectionType: PreAnalysisResult['sections'][0]['type'] | null = null;
-
-      // Determine section type based on position and energy
-      if (position < 0.1) {
-        sectionType = 'intro';
-      } else if (position > 0.9) {
-        sectionType = 'outro';
-      } else if (energy > 0.7) {
-        // High energy - chorus or drop
-        if (i > 0 && normalizedEnergy[i - 1] < 0.5) {
-          sectionType = 'drop'; // Sudden energy increase
-        } else {
-          sectionType = 'chorus';
-        }
-      } else if (energy < 0.3) {
-        sectionType = 'breakdown';
-      } else {
-        sectionType = 'verse';
-      }
-
-      // Check for section change
-      if (!currentSection || currentSection.type !== sectionType) {
-        // Save previous section
-        if (currentSection) {
-          currentSection.end = time;
-          sections.push(currentSection);
-        }
-
-        // Start new section
-        currentSection = {
-          start: time,
-          end: duration, // Will be updated
-          type: sectionType,
-          energy
-        };
-        _sectionStartTime = time;
-      }
-    }
-
-    // Add final section
-    if (currentSection) {
-      currentSection.end = duration;
-      sections.push(currentSection);
-    }
-
-    return sections;
-  }
-
-  /**
-   * Calculate average energy of the track
-   * @returns Average energy (0-1)
-   */
-  private calculateAverageEnergy(): number {
-    if (!this.audioBuffer) {
-      return 0.5;
-    }
-
-    const channelData = this.audioBuffer.getChannelData(0);
-    let energy = 0;
-
-    for (let i = 0; i < channelData.length; i++) {
-      energy += channelData[i] * channelData[i];
+      return 120; // Fallback BPM
     }
-
-    return Math.sqrt(energy / channelData.length);
   }
 
   /**
@@ -411,19 +276,11 @@ export class AdvancedAnalyzer {
 
     try {
       console.log('[AdvancedAnalyzer] Creating analyser node...');
-      // Create analyser node
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = this.config.fftSize;
-      this.analyser.smoothingTimeConstant = 0.8;
-
-      console.log('[AdvancedAnalyzer] Initializing FFT data arrays...');
-      // Initialize FFT data arrays
-      this.fftData = new Float32Array(this.analyser.frequencyBinCount) as Float32Array<ArrayBuffer>;
-      this.previousSpectrum = new Float32Array(this.analyser.frequencyBinCount);
+      this.createAnalyser();
 
       console.log('[AdvancedAnalyzer] Connecting Tone.js player to analyser...');
       // Connect Tone.js to analyser
-      Tone.connect(this.player, this.analyser);
+      Tone.connect(this.player, this.analyser!);
       console.log('[AdvancedAnalyzer] Analyser connected successfully');
     } catch (error) {
       console.error('[AdvancedAnalyzer] Failed to setup analyser:', error);
@@ -431,11 +288,103 @@ export class AdvancedAnalyzer {
     }
   }
 
+  /**
+   * Create the analyser node and its FFT data arrays
+   */
+  private createAnalyser(): void {
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = this.config.fftSize;
+    this.analyser.smoothingTimeConstant = 0.8;
+
+    // Initialize FFT data arrays
+    this.fftData = new Float32Array(this.analyser.frequencyBinCount) as Float32Array<ArrayBuffer>;
+    this.previousSpectrum = new Float32Array(this.analyser.frequencyBinCount);
+  }
+
+  /**
+   * Start analyzing a live input instead of a loaded file
+   * @param stream - Microphone or line-in stream (e.g. from getUserMedia)
+   * @returns Live analysis results, updated as frames are processed
+   */
+  async startLiveInput(stream: MediaStream): Promise<PreAnalysisResult> {
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('Stream has no audio track');
+    }
+
+    // Stop file playback and any previous live input
+    this.stop();
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    // The input only feeds the analyser; it is never played back
+    if (!this.analyser) {
+      this.createAnalyser();
+    }
+    this.liveSource = this.audioContext.createMediaStreamSource(stream);
+    this.liveSource.connect(this.analyser!);
+    this.previousSpectrum?.fill(0);
+
+    this.beatTracker.reset();
+    this.sectionTracker.reset();
+    this.liveBeat = null;
+    this.liveFrames = 0;
+    this.liveStartTime = this.audioContext.currentTime;
+    this.currentSectionIndex = -1;
+
+    // Live results have no pre-analyzed grid or cues
+    this.beatGrid = null;
+    this.cueScheduler = null;
+    this.preAnalysis = {
+      bpm: this.beatTracker.getTempo(),
+      beats: [],
+      downbeats: [],
+      beatsPerBar: this.config.liveBeatsPerBar,
+      beatConfidence: 0,
+      sections: [],
+      averageEnergy: 0,
+      keySignature: undefined
+    };
+
+    this.isPlaying = true;
+    console.log('[AdvancedAnalyzer] Live input started');
+    return this.preAnalysis;
+  }
+
+  /**
+   * Stop analyzing the live input; the stream itself is left running
+   */
+  stopLiveInput(): void {
+    if (!this.liveSource) {
+      return;
+    }
+
+    this.liveSource.disconnect();
+    this.liveSource = null;
+    this.liveBeat = null;
+    this.isPlaying = false;
+    this.pauseTime = 0;
+    console.log('[AdvancedAnalyzer] Live input stopped');
+  }
+
+  /**
+   * Check if analyzing a live input
+   * @returns True in live input mode
+   */
+  isLive(): boolean {
+    return this.liveSource !== null;
+  }
+
   /**
    * Get current frame with enhanced analysis
    * @returns Enhanced audio frame
    */
   getCurrentFrame(): EnhancedAudioFrame {
+    if (this.liveSource) {
+      return this.getLiveFrame();
+    }
+
     const timestamp = this.getCurrentTime() * 1000; // Convert to ms
 
     // Get beat information
@@ -501,7 +450,7 @@ export class AdvancedAnalyzer {
       beatNumber: beatInfo.beatNumber,
       barNumber: beatInfo.barNumber,
       beatPhase: beatInfo.beatPhase,
-      tempo: this.preAnalysis?.bpm || 120,
+      tempo: this.beatGrid?.getTempoAt(timestamp / 1000) ?? (this.preAnalysis?.bpm || 120),
       // Energy
       rms: spectralFeatures.rms,
       energy,
@@ -524,6 +473,76 @@ export class AdvancedAnalyzer {
     };
   }
 
+  /**
+   * Build a frame from the live input, updating the rolling trackers
+   * @returns Enhanced audio frame
+   */
+  private getLiveFrame(): EnhancedAudioFrame {
+    const time = this.getCurrentTime();
+    const bands = this.getFrequencyBands();
+    const spectralFeatures = this.getSpectralFeatures();
+    const energy = (bands.sub + bands.bass * 2 + bands.lowMid + bands.mid + bands.highMid * 0.5 + bands.high * 0.3) / 6;
+    const analysis = this.preAnalysis!;
+
+    // Spectral flux is the onset strength for beat tracking
+    const beat = this.beatTracker.process(time, spectralFeatures.flux);
+    const beatsPerBar = analysis.beatsPerBar ?? 4;
+    const isDownbeat = beat.isBeat && beat.beatNumber % beatsPerBar === 0;
+    this.liveBeat = beat;
+
+    analysis.bpm = Math.round(beat.tempo * 10) / 10;
+    analysis.beatConfidence = beat.confidence;
+    this.liveFrames++;
+    analysis.averageEnergy += (energy - analysis.averageEnergy) / this.liveFrames;
+
+    if (beat.isBeat) {
+      pushBounded(analysis.beats, time);
+      if (isDownbeat) {
+        pushBounded(analysis.downbeats, time);
+      }
+      this.beatCallbacks.forEach(cb => cb(beat.beatNumber, isDownbeat));
+    }
+
+    // Sections grow as the music plays; the last one is still open
+    const newSection = this.sectionTracker.process(time, energy);
+    analysis.sections = this.sectionTracker.getSections();
+    const currentSection = analysis.sections[analysis.sections.length - 1];
+    if (newSection && currentSection) {
+      this.currentSectionIndex = analysis.sections.length - 1;
+      this.sectionCallbacks.forEach(cb => cb(currentSection));
+    }
+
+    return {
+      timestamp: time * 1000,
+      // Beat information
+      isBeat: beat.isBeat,
+      isDownbeat,
+      beatNumber: beat.beatNumber,
+      barNumber: Math.floor(beat.beatNumber / beatsPerBar),
+      beatPhase: beat.phase,
+      tempo: analysis.bpm,
+      // Energy
+      rms: spectralFeatures.rms,
+      energy,
+      peak: spectralFeatures.peak,
+      // Frequency bands
+      sub: bands.sub,
+      bass: bands.bass,
+      lowMid: bands.lowMid,
+      mid: bands.mid,
+      highMid: bands.highMid,
+      high: bands.high,
+      // Spectral features
+      spectralCentroid: spectralFeatures.centroid,
+      spectralFlux: spectralFeatures.flux,
+      spectralRolloff: spectralFeatures.rolloff,
+      // Section
+      section: currentSection,
+      // No scheduled cues without pre-analysis
+      cues: []
+    };
+  }
+
   /**
    * Get frequency bands with musical meaning
    * @returns Normalized frequency band levels
@@ -656,6 +675,9 @@ export class AdvancedAnalyzer {
    * @returns Current beat number
    */
   getCurrentBeat(): number {
+    if (this.liveSource) {
+      return this.liveBeat?.beatNumber ?? 0;
+    }
     if (!this.beatGrid) {
       return 0;
     }
@@ -667,6 +689,9 @@ export class AdvancedAnalyzer {
    * @returns Current bar number
    */
   getCurrentBar(): number {
+    if (this.liveSource) {
+      return Math.floor((this.liveBeat?.beatNumber ?? 0) / (this.preAnalysis?.beatsPerBar ?? 4));
+    }
     if (!this.beatGrid) {
       return 0;
     }
@@ -678,6 +703,9 @@ export class AdvancedAnalyzer {
    * @returns Beat phase (0-1)
    */
   getBeatPhase(): number {
+    if (this.liveSource) {
+      return this.liveBeat?.phase ?? 0;
+    }
     if (!this.beatGrid) {
       return 0;
     }
@@ -712,7 +740,7 @@ export class AdvancedAnalyzer {
    * Pause playback
    */
   pause(): void {
-    if (!this.player || !this.isPlaying) {
+    if (!this.player || !this.isPlaying || this.liveSource) {
       return;
     }
 
@@ -725,6 +753,8 @@ export class AdvancedAnalyzer {
    * Stop playback
    */
   stop(): void {
+    this.stopLiveInput();
+
     if (!this.player) {
       return;
     }
@@ -745,6 +775,10 @@ export class AdvancedAnalyzer {
    * @param time - Time in seconds
    */
   seek(time: number): void {
+    if (this.liveSource) {
+      return;
+    }
+
     const wasPlaying = this.isPlaying;
 
     if (wasPlaying) {
@@ -759,10 +793,13 @@ export class AdvancedAnalyzer {
   }
 
   /**
-   * Get current playback time in seconds
+   * Get current playback time in seconds (time since start in live mode)
    * @returns Current time in seconds
    */
-  private getCurrentTime(): number {
+  getCurrentTime(): number {
+    if (this.liveSource) {
+      return this.audioContext.currentTime - this.liveStartTime;
+    }
     if (!this.isPlaying) {
       return this.pauseTime;
     }
@@ -812,6 +849,26 @@ export class AdvancedAnalyzer {
     return this.cueScheduler;
   }
 
+  /**
+   * Get the decoded audio of the loaded track
+   * @returns Audio buffer or null
+   */
+  getAudioBuffer(): AudioBuffer | null {
+    return this.audioBuffer;
+  }
+
+  /**
+   * Get the loaded track mixed down to mono, as the pre-analysis sees it
+   * @returns Mono samples or null
+   */
+  getMonoSamples(): Float32Array | null {
+    const buffer = this.audioBuffer;
+    if (!buffer) {
+      return null;
+    }
+    return mixToMono(Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i)));
+  }
+
   /**
    * Get pre-analysis results
    * @returns Pre-analysis results or null
@@ -849,4 +906,14 @@ export class AdvancedAnalyzer {
       this.audioContext.close();
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Appends a time, dropping the oldest once LIVE_BEAT_HISTORY is reached
+ */
+function pushBounded(times: number[], time: number): void {
+  times.push(time);
+  if (times.length > LIVE_BEAT_HISTORY) {
+    times.splice(0, times.length - LIVE_BEAT_HISTORY);
+  }
+}
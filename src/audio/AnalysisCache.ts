@@ -10,7 +10,7 @@ import { PreAnalysisResult } from './CueScheduler';
 /**
  * Cache version - increment to invalidate old caches
  */
-const CACHE_VERSION = 1;
+const CACHE_VERSION = 5;
 
 /**
  * IndexedDB database name
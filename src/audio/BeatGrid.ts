@@ -2,7 +2,12 @@
  * BeatGrid - Manages beat timing and grid calculations for audio tracks
  *
  * Provides beat quantization, phase calculations, and bar tracking
- * based on pre-analyzed beat positions.
+ * based on pre-analyzed beat positions. Beats may be unevenly spaced, as
+ * tracked from a performance with tempo drift; phases and tempo follow the
+ * local beat interval, and the grid is extrapolated beyond the last beat
+ * with the final interval. Bars follow the downbeats, so bars of different
+ * lengths (meter changes) are counted correctly; without downbeats every
+ * beatsPerBar-th beat starts a bar.
  */
 
 /**
@@ -25,13 +30,15 @@ export class BeatGrid {
   private beats: number[];
   private downbeats: number[];
   private beatsPerBar: number;
+  /** Indices of the beats that are downbeats, in order */
+  private downbeatIndices: number[];
 
   /**
    * Create a new beat grid
-   * @param bpm - Beats per minute
+   * @param bpm - Nominal beats per minute, used when there are too few beats
    * @param beats - Array of beat timestamps in seconds
    * @param downbeats - Array of downbeat timestamps in seconds
-   * @param beatsPerBar - Number of beats per bar (default: 4)
+   * @param beatsPerBar - Number of beats per bar without downbeats (default: 4)
    */
   constructor(
     bpm: number,
@@ -43,6 +50,13 @@ export class BeatGrid {
     this.beats = [...beats].sort((a, b) => a - b);
     this.downbeats = [...downbeats].sort((a, b) => a - b);
     this.beatsPerBar = beatsPerBar;
+    this.downbeatIndices = this.matchDownbeats();
+
+    // Extrapolated bars keep the length of the last analyzed bar
+    const count = this.downbeatIndices.length;
+    if (count >= 2) {
+      this.beatsPerBar = this.downbeatIndices[count - 1] - this.downbeatIndices[count - 2];
+    }
   }
 
   /**
@@ -51,6 +65,17 @@ export class BeatGrid {
    * @returns Beat information including number, phase, and downbeat status
    */
   getBeatAt(timeSeconds: number): BeatInfo {
+    // Without beats the grid starts at zero at the nominal tempo
+    if (this.beats.length === 0) {
+      const position = Math.max(0, timeSeconds) * this.bpm / 60;
+      const beat = Math.floor(position);
+      return {
+        beat,
+        phase: position - beat,
+        isDownbeat: beat % this.beatsPerBar === 0
+      };
+    }
+
     // Handle time before first beat
     if (timeSeconds < this.beats[0]) {
       const phase = Math.max(0, timeSeconds / this.beats[0]);
@@ -61,36 +86,25 @@ export class BeatGrid {
       };
     }
 
-    // Find current beat index
-    let beatIndex = 0;
-    for (let i = 0; i < this.beats.length - 1; i++) {
-      if (timeSeconds >= this.beats[i] && timeSeconds < this.beats[i + 1]) {
-        beatIndex = i;
-        break;
-      }
-    }
-
     // Handle time after last beat
-    if (timeSeconds >= this.beats[this.beats.length - 1]) {
-      beatIndex = this.beats.length - 1;
-      const beatInterval = 60 / this.bpm;
-      const timeSinceLastBeat = timeSeconds - this.beats[beatIndex];
+    const lastIndex = this.beats.length - 1;
+    if (timeSeconds >= this.beats[lastIndex]) {
+      const beatInterval = this.getIntervalAfter(lastIndex);
+      const timeSinceLastBeat = timeSeconds - this.beats[lastIndex];
       const extraBeats = Math.floor(timeSinceLastBeat / beatInterval);
       const phase = (timeSinceLastBeat % beatInterval) / beatInterval;
 
       return {
-        beat: beatIndex + extraBeats,
+        beat: lastIndex + extraBeats,
         phase,
-        isDownbeat: (beatIndex + extraBeats) % this.beatsPerBar === 0
+        isDownbeat: this.isDownbeatIndex(lastIndex + extraBeats)
       };
     }
 
     // Calculate phase within current beat
+    const beatIndex = this.findBeatIndex(timeSeconds);
     const currentBeatTime = this.beats[beatIndex];
-    const nextBeatTime = beatIndex < this.beats.length - 1
-      ? this.beats[beatIndex + 1]
-      : currentBeatTime + (60 / this.bpm);
-
+    const nextBeatTime = this.beats[beatIndex + 1];
     const phase = (timeSeconds - currentBeatTime) / (nextBeatTime - currentBeatTime);
 
     return {
@@ -100,6 +114,52 @@ export class BeatGrid {
     };
   }
 
+  /**
+   * Get the time of a beat, extrapolating past the analyzed beats
+   * @param beat - Beat number (may be fractional)
+   * @returns Time in seconds
+   */
+  getBeatTime(beat: number): number {
+    if (this.beats.length === 0) {
+      return Math.max(0, beat) * 60 / this.bpm;
+    }
+
+    const lastIndex = this.beats.length - 1;
+    if (beat <= 0) {
+      return this.beats[0];
+    }
+    if (beat >= lastIndex) {
+      return this.beats[lastIndex] + (beat - lastIndex) * this.getIntervalAfter(lastIndex);
+    }
+
+    const index = Math.floor(beat);
+    return this.beats[index] + (beat - index) * (this.beats[index + 1] - this.beats[index]);
+  }
+
+  /**
+   * Get the length of the beat playing at a given time
+   * @param timeSeconds - Time in seconds
+   * @returns Beat interval in seconds
+   */
+  getBeatIntervalAt(timeSeconds: number): number {
+    if (this.beats.length < 2) {
+      return 60 / this.bpm;
+    }
+    if (timeSeconds < this.beats[0]) {
+      return this.beats[1] - this.beats[0];
+    }
+    return this.getIntervalAfter(this.findBeatIndex(timeSeconds));
+  }
+
+  /**
+   * Get the local tempo at a given time
+   * @param timeSeconds - Time in seconds
+   * @returns Tempo in beats per minute
+   */
+  getTempoAt(timeSeconds: number): number {
+    return 60 / this.getBeatIntervalAt(timeSeconds);
+  }
+
   /**
    * Get all beats within a time range
    * @param startTime - Start time in seconds
@@ -109,18 +169,20 @@ export class BeatGrid {
   getBeatsInRange(startTime: number, endTime: number): number[] {
     const result: number[] = [];
 
-    for (const beat of this.beats) {
-      if (beat >= startTime && beat <= endTime) {
-        result.push(beat);
-      }
+    let index = this.beats.length > 0 && startTime > this.beats[0] ? this.findBeatIndex(startTime) : 0;
+    for (; index < this.beats.length; index++) {
+      const beat = this.beats[index];
       if (beat > endTime) {
         break;
       }
+      if (beat >= startTime) {
+        result.push(beat);
+      }
     }
 
     // If range extends beyond analyzed beats, extrapolate
     if (this.beats.length > 0 && endTime > this.beats[this.beats.length - 1]) {
-      const beatInterval = 60 / this.bpm;
+      const beatInterval = this.getIntervalAfter(this.beats.length - 1);
       let nextBeat = this.beats[this.beats.length - 1] + beatInterval;
 
       while (nextBeat <= endTime) {
@@ -145,35 +207,29 @@ export class BeatGrid {
       return timeSeconds;
     }
 
-    // Find nearest beat
-    let nearestBeat = this.beats[0];
-    let minDistance = Math.abs(timeSeconds - nearestBeat);
-
-    for (const beat of this.beats) {
-      const distance = Math.abs(timeSeconds - beat);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestBeat = beat;
-      }
+    // Nearest of the beats either side, extrapolating past the last one
+    const lastIndex = this.beats.length - 1;
+    let before: number;
+    let after: number;
+    if (timeSeconds <= this.beats[0]) {
+      before = this.beats[0];
+      after = this.beats[0];
+    } else if (timeSeconds >= this.beats[lastIndex]) {
+      const beatInterval = this.getIntervalAfter(lastIndex);
+      const beatsSinceLast = Math.floor((timeSeconds - this.beats[lastIndex]) / beatInterval);
+      before = this.beats[lastIndex] + beatsSinceLast * beatInterval;
+      after = before + beatInterval;
+    } else {
+      const index = this.findBeatIndex(timeSeconds);
+      before = this.beats[index];
+      after = this.beats[index + 1];
     }
 
-    // Check if beyond last beat
-    if (timeSeconds > this.beats[this.beats.length - 1]) {
-      const beatInterval = 60 / this.bpm;
-      const lastBeat = this.beats[this.beats.length - 1];
-      const beatsSinceLast = Math.round((timeSeconds - lastBeat) / beatInterval);
-      const extrapolatedBeat = lastBeat + (beatsSinceLast * beatInterval);
-      const distance = Math.abs(timeSeconds - extrapolatedBeat);
-
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestBeat = extrapolatedBeat;
-      }
-    }
+    const nearestBeat = timeSeconds - before <= after - timeSeconds ? before : after;
+    const minDistance = Math.abs(timeSeconds - nearestBeat);
 
-    // Apply threshold
-    const beatInterval = 60 / this.bpm;
-    const maxSnapDistance = beatInterval * threshold;
+    // Apply threshold relative to the local beat length
+    const maxSnapDistance = this.getBeatIntervalAt(timeSeconds) * threshold;
 
     if (minDistance <= maxSnapDistance) {
       return nearestBeat;
@@ -188,8 +244,24 @@ export class BeatGrid {
    * @returns Bar number (0-indexed)
    */
   getBarAt(timeSeconds: number): number {
-    const beatInfo = this.getBeatAt(timeSeconds);
-    return Math.floor(beatInfo.beat / this.beatsPerBar);
+    const beat = this.getBeatAt(timeSeconds).beat;
+    const indices = this.downbeatIndices;
+    if (indices.length === 0) {
+      return Math.floor(beat / this.beatsPerBar);
+    }
+
+    // Beats before the first downbeat form a pickup bar 0
+    const pickup = indices[0] > 0 ? 1 : 0;
+    const last = indices[indices.length - 1];
+    if (beat >= last) {
+      return indices.length - 1 + pickup + Math.floor((beat - last) / this.beatsPerBar);
+    }
+
+    let bar = 0;
+    while (bar + 1 < indices.length && indices[bar + 1] <= beat) {
+      bar++;
+    }
+    return beat < indices[0] ? 0 : bar + pickup;
   }
 
   /**
@@ -198,21 +270,96 @@ export class BeatGrid {
    * @returns True if the beat is a downbeat
    */
   private isDownbeatIndex(beatIndex: number): boolean {
-    if (this.downbeats.length === 0) {
+    const indices = this.downbeatIndices;
+    if (indices.length === 0) {
       // Fallback: assume every Nth beat is a downbeat
       return beatIndex % this.beatsPerBar === 0;
     }
 
-    const beatTime = this.beats[beatIndex];
+    // Past the last downbeat, bars keep the last bar length
+    const last = indices[indices.length - 1];
+    if (beatIndex >= last) {
+      return (beatIndex - last) % this.beatsPerBar === 0;
+    }
+    return indices.includes(beatIndex);
+  }
+
+  /**
+   * Matches each downbeat to the beat it falls on
+   * @returns Sorted beat indices of the downbeats
+   */
+  private matchDownbeats(): number[] {
     const tolerance = 0.05; // 50ms tolerance
+    const indices: number[] = [];
 
-    return this.downbeats.some(downbeat =>
-      Math.abs(downbeat - beatTime) < tolerance
-    );
+    for (const downbeat of this.downbeats) {
+      if (this.beats.length === 0 || downbeat < this.beats[0] - tolerance) {
+        continue;
+      }
+      let index = this.findBeatIndex(Math.max(downbeat, this.beats[0]));
+      if (index + 1 < this.beats.length && this.beats[index + 1] - downbeat < downbeat - this.beats[index]) {
+        index++;
+      }
+      if (Math.abs(this.beats[index] - downbeat) < tolerance && indices[indices.length - 1] !== index) {
+        indices.push(index);
+      }
+    }
+    return indices;
   }
 
   /**
-   * Get the BPM
+   * Find the last beat at or before a time (binary search)
+   * @param timeSeconds - Time in seconds, at or after the first beat
+   * @returns Beat index
+   */
+  private findBeatIndex(timeSeconds: number): number {
+    let low = 0;
+    let high = this.beats.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.beats[mid] <= timeSeconds) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Get the interval from a beat to the next; the last beat reuses the
+   * previous interval and a lone beat the nominal tempo
+   * @param beatIndex - Index of the beat
+   * @returns Interval in seconds
+   */
+  private getIntervalAfter(beatIndex: number): number {
+    if (beatIndex + 1 < this.beats.length) {
+      return this.beats[beatIndex + 1] - this.beats[beatIndex];
+    }
+    if (beatIndex > 0) {
+      return this.beats[beatIndex] - this.beats[beatIndex - 1];
+    }
+    return 60 / this.bpm;
+  }
+
+  /**
+   * Get the number of beats in the bar playing at a given time
+   * @param timeSeconds - Time in seconds
+   * @returns Beats per bar
+   */
+  getBeatsPerBarAt(timeSeconds: number): number {
+    const indices = this.downbeatIndices;
+    const beat = this.getBeatAt(timeSeconds).beat;
+    for (let i = 0; i + 1 < indices.length; i++) {
+      if (beat < indices[i + 1]) {
+        return indices[i + 1] - indices[i];
+      }
+    }
+    return this.beatsPerBar;
+  }
+
+  /**
+   * Get the nominal BPM (see getTempoAt for the local tempo)
    * @returns Beats per minute
    */
   getBPM(): number {
@@ -253,4 +400,4 @@ export class BeatGrid {
     }
     return this.beats[this.beats.length - 1];
   }
-}
\ No newline at end of file
+}
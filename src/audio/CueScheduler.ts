@@ -6,6 +6,8 @@
  */
 
 import { BeatGrid } from './BeatGrid';
+import type { DropEvent } from './DropDetector';
+import type { MeterSegment, TimeSignature } from './MeterDetector';
 
 /**
  * Lighting cue action types
@@ -29,7 +31,7 @@ export interface LightingCue {
   atBeat: number;
   /** Type of lighting action */
   action: CueAction;
-  /** Fixture IDs or types to target */
+  /** Fixture IDs, types, groups or selections to target */
   targets: string[];
   /** Parameters for the action */
   params: Record<string, any>;
@@ -55,12 +57,24 @@ export interface PreAnalysisResult {
   bpm: number;
   beats: number[];
   downbeats: number[];
+  /** How well the beats line up with onsets, 0-1 (0 for a fixed grid) */
+  beatConfidence?: number;
+  /** Meter covering most of the track */
+  timeSignature?: TimeSignature;
+  /** Beats per bar of that meter (4 when not detected) */
+  beatsPerBar?: number;
+  /** Meter segments in time order; more than one means the meter changes */
+  meters?: MeterSegment[];
   sections: {
     start: number;
     end: number;
     type: 'intro' | 'verse' | 'chorus' | 'drop' | 'breakdown' | 'outro';
     energy: number;
+    /** Sections with the same label repeat the same material (A, B, ...) */
+    label?: string;
   }[];
+  /** Drops and the build-ups leading into them */
+  drops?: DropEvent[];
   keySignature?: string;
   averageEnergy: number;
 }
@@ -194,6 +208,8 @@ export class CueScheduler {
       }
     }
 
+    const beatsPerBar = analysis.beatsPerBar ?? 4;
+
     // Process each section
     for (const section of analysis.sections) {
       const startBeat = this.beatGrid.getBeatAt(section.start).beat;
@@ -218,7 +234,7 @@ export class CueScheduler {
             action: 'intensity_pulse',
             targets: ['wash', 'par'],
             params: { intensity: 0.4, pulseTime: 100 },
-            repeat: 4, // Every bar
+            repeat: beatsPerBar, // Every bar
             name: 'auto_verse_pulse'
           });
           break;
@@ -239,7 +255,7 @@ export class CueScheduler {
             action: 'flash',
             targets: ['strobe'],
             params: { intensity: 0.8, duration: 50 },
-            repeat: 4, // Every bar
+            repeat: beatsPerBar, // Every bar
             name: 'auto_chorus_flash'
           });
 
@@ -253,9 +269,9 @@ export class CueScheduler {
               toPan: 0.8,
               fromTilt: 0.3,
               toTilt: 0.5,
-              duration: 8 // 8 beats
+              duration: beatsPerBar * 2 // 2 bars
             },
-            repeat: 8,
+            repeat: beatsPerBar * 2,
             name: 'auto_chorus_sweep'
           });
           break;
@@ -290,7 +306,7 @@ export class CueScheduler {
               speed: 0.8,
               size: 0.7
             },
-            repeat: 4,
+            repeat: beatsPerBar,
             name: 'auto_drop_movement'
           });
           break;
@@ -314,7 +330,7 @@ export class CueScheduler {
               color: { r: 0.2, g: 0.2, b: 0.8 },
               transition: 4000
             },
-            repeat: 8,
+            repeat: beatsPerBar * 2,
             name: 'auto_breakdown_color'
           });
           break;
@@ -327,7 +343,7 @@ export class CueScheduler {
             targets: ['all'],
             params: {
               intensity: 0,
-              duration: (endBeat - startBeat) * (60 / analysis.bpm) * 1000
+              duration: (this.beatGrid.getBeatTime(endBeat) - this.beatGrid.getBeatTime(startBeat)) * 1000
             },
             name: 'auto_outro_fade'
           });
@@ -356,7 +372,7 @@ export class CueScheduler {
         action: 'strobe',
         targets: ['strobe'],
         params: { frequency: 5, intensity: 0.3, duration: 100 },
-        repeat: 16, // Every 4 bars
+        repeat: beatsPerBar * 4, // Every 4 bars
         name: 'auto_global_strobe'
       });
     }
@@ -0,0 +1,404 @@
+/**
+ * DropDetector - Drops, the build-ups before them, and look-ahead
+ *
+ * A drop is a section start where the energy jumps into chorus or drop
+ * material. The beats before it are searched for a build-up: a stretch
+ * ending at the drop over which the spectral centroid rises (risers and
+ * filter sweeps), onsets get denser (snare rolls) or the level climbs
+ * (crescendos). DropForecast answers "drop in N beats" for any time, so
+ * the lighting can build tension and land exactly on the drop.
+ */
+
+import type { PreAnalysisResult } from './CueScheduler';
+import type { FeatureTrack } from './FrameSynthesizer';
+
+/**
+ * What rises during a build-up
+ */
+export type RiserKind = 'brightness' | 'density' | 'level';
+
+/**
+ * A detected drop
+ */
+export interface DropEvent {
+  /** Time of the drop in seconds (the beat it lands on) */
+  time: number;
+  /** Index of that beat in the beat list */
+  beatIndex: number;
+  /** Start of the build-up before the drop, or null without one */
+  buildupStart: number | null;
+  /** Beat index of the build-up start, or null without one */
+  buildupBeatIndex: number | null;
+  /** Features rising through the build-up */
+  risers: RiserKind[];
+  /** Energy jump into the drop, 0-1 */
+  strength: number;
+}
+
+/**
+ * Where the next drop is, seen from a point in time
+ */
+export interface DropAnticipation {
+  drop: DropEvent;
+  /** Seconds until the drop */
+  timeToDrop: number;
+  /** Beats until the drop, fractional between beats */
+  beatsToDrop: number;
+  /** Whether the time is inside the drop's build-up */
+  inBuildup: boolean;
+  /** Progress through the build-up, 0-1 (0 outside it) */
+  buildupProgress: number;
+}
+
+/**
+ * Section energy rise that makes a chorus start a drop
+ */
+const MIN_DROP_RISE = 0.2;
+
+/**
+ * Beats either side of a section start searched for the drop itself (the
+ * downbeat where the bass comes back in), and beats compared either side
+ */
+const DROP_SEARCH_BEATS = 16;
+const DROP_COMPARE_BEATS = 4;
+
+/**
+ * Shortest and longest build-up in beats
+ */
+const MIN_BUILDUP_BEATS = 8;
+const MAX_BUILDUP_BEATS = 32;
+
+/**
+ * Correlation with time a feature needs to count as rising, and how far it
+ * must rise from the first to the last quarter of the build-up, in
+ * standard deviations of the feature over the whole track
+ */
+const RISE_CORRELATION = 0.6;
+const MIN_RISE = 1;
+
+/**
+ * Features searched for a rise, in order of preference
+ */
+const RISERS: RiserKind[] = ['brightness', 'density', 'level'];
+
+/**
+ * Flux above which a frame counts as an onset
+ */
+const ONSET_THRESHOLD = 0.2;
+
+/**
+ * Find drops and their build-ups
+ * @param features - Band levels of the track (see extractFeatureTrack)
+ * @param analysis - Pre-analysis with beats, downbeats and sections
+ * @returns Drops in time order
+ */
+export function detectDrops(
+  features: FeatureTrack,
+  analysis: Pick<PreAnalysisResult, 'beats' | 'downbeats' | 'sections'>
+): DropEvent[] {
+  const { beats, sections } = analysis;
+  if (beats.length < 2) {
+    return [];
+  }
+
+  const curves = computeBeatCurves(features, beats);
+  const downbeats = new Set(analysis.downbeats.map((time) => nearestBeat(beats, time)));
+  const drops: DropEvent[] = [];
+
+  for (let i = 1; i < sections.length; i++) {
+    const section = sections[i];
+    const rise = section.energy - sections[i - 1].energy;
+    const isDrop = section.type === 'drop' || (section.type === 'chorus' && rise >= MIN_DROP_RISE);
+    if (!isDrop) {
+      continue;
+    }
+
+    const beatIndex = findDropBeat(curves.bass, downbeats, nearestBeat(beats, section.start));
+    const earliest = Math.max(
+      drops.length > 0 ? drops[drops.length - 1].beatIndex : 0,
+      nearestBeat(beats, sections[i - 1].start),
+      beatIndex - MAX_BUILDUP_BEATS
+    );
+    if (drops.length > 0 && beatIndex <= drops[drops.length - 1].beatIndex) {
+      continue;
+    }
+    const buildup = findBuildup(curves, downbeats, earliest, beatIndex);
+
+    drops.push({
+      time: beats[beatIndex],
+      beatIndex,
+      buildupStart: buildup ? beats[buildup.start] : null,
+      buildupBeatIndex: buildup?.start ?? null,
+      risers: buildup?.risers ?? [],
+      strength: Math.max(0, Math.min(1, rise)),
+    });
+  }
+  return drops;
+}
+
+/**
+ * Look-ahead over the drops of a track
+ */
+export class DropForecast {
+  private drops: DropEvent[];
+  private beats: number[];
+
+  /**
+   * Create a drop forecast
+   * @param drops - Drops in time order (see detectDrops)
+   * @param beats - Beat timestamps the drops index into
+   */
+  constructor(drops: DropEvent[], beats: number[]) {
+    this.drops = drops;
+    this.beats = beats;
+  }
+
+  /**
+   * Get the next drop at or after a time
+   * @param time - Time in seconds
+   * @param horizonBeats - Ignore drops further away than this many beats
+   * @returns The next drop and the distance to it, or null if none
+   */
+  getNextDrop(time: number, horizonBeats: number = Infinity): DropAnticipation | null {
+    const drop = this.drops.find((d) => d.time > time);
+    if (!drop) {
+      return null;
+    }
+
+    const beatsToDrop = drop.beatIndex - this.getBeatPosition(time);
+    if (beatsToDrop > horizonBeats) {
+      return null;
+    }
+
+    const inBuildup = drop.buildupStart !== null && time >= drop.buildupStart;
+    const length = drop.buildupStart !== null ? drop.time - drop.buildupStart : 0;
+    return {
+      drop,
+      timeToDrop: drop.time - time,
+      beatsToDrop,
+      inBuildup,
+      buildupProgress: inBuildup && length > 0 ? (time - (drop.buildupStart as number)) / length : 0,
+    };
+  }
+
+  /**
+   * Get all drops
+   */
+  getDrops(): DropEvent[] {
+    return this.drops;
+  }
+
+  /**
+   * Gets a fractional beat index for a time
+   */
+  private getBeatPosition(time: number): number {
+    const beats = this.beats;
+    if (beats.length < 2) {
+      return 0;
+    }
+
+    let low = 0;
+    let high = beats.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (beats[middle] <= time) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const next = Math.min(low + 1, beats.length - 1);
+    const interval = beats[next] - beats[low] || beats[1] - beats[0];
+    return low + (time - beats[low]) / interval;
+  }
+}
+
+/**
+ * Per-beat feature curves: the risers plus the bass level that marks the
+ * drop itself
+ */
+type BeatCurves = Record<RiserKind | 'bass', Float64Array>;
+
+/**
+ * Averages brightness (spectral centroid), onset count, level and bass over
+ * each beat
+ */
+function computeBeatCurves(features: FeatureTrack, beats: number[]): BeatCurves {
+  const count = beats.length;
+  const curves: BeatCurves = {
+    brightness: new Float64Array(count),
+    density: new Float64Array(count),
+    level: new Float64Array(count),
+    bass: new Float64Array(count),
+  };
+  const rate = features.frameRate;
+  const frames = features.rms.length;
+
+  for (let k = 0; k < count; k++) {
+    const end = k + 1 < count ? beats[k + 1] : beats[k] + (beats[k] - beats[k - 1]);
+    const from = Math.min(frames, Math.round(beats[k] * rate));
+    const to = Math.min(frames, Math.max(from + 1, Math.round(end * rate)));
+
+    let brightness = 0;
+    let onsets = 0;
+    let level = 0;
+    let bass = 0;
+    for (let f = from; f < to; f++) {
+      const total = features.low[f] + features.mid[f] + features.high[f];
+      brightness += total > 0 ? (features.mid[f] * 0.5 + features.high[f]) / total : 0;
+      level += features.rms[f];
+      bass += features.low[f];
+      if (
+        features.flux[f] > ONSET_THRESHOLD &&
+        features.flux[f] >= (features.flux[f - 1] ?? 0) &&
+        features.flux[f] > (features.flux[f + 1] ?? 0)
+      ) {
+        onsets++;
+      }
+    }
+    const length = Math.max(1, to - from);
+    curves.brightness[k] = brightness / length;
+    curves.density[k] = onsets;
+    curves.level[k] = level / length;
+    curves.bass[k] = bass / length;
+  }
+  return curves;
+}
+
+/**
+ * Finds the beat near a section start where the bass rises most, preferring
+ * downbeats
+ */
+function findDropBeat(bass: Float64Array, downbeats: Set<number>, around: number): number {
+  const candidates: number[] = [];
+  for (let k = Math.max(1, around - DROP_SEARCH_BEATS); k <= around + DROP_SEARCH_BEATS && k < bass.length; k++) {
+    candidates.push(k);
+  }
+  const onBar = candidates.filter((k) => downbeats.has(k));
+
+  let best = around;
+  let bestRise = -Infinity;
+  for (const k of onBar.length > 0 ? onBar : candidates) {
+    const rise =
+      meanOf(bass, k, Math.min(bass.length, k + DROP_COMPARE_BEATS)) -
+      meanOf(bass, Math.max(0, k - DROP_COMPARE_BEATS), k);
+    if (rise > bestRise) {
+      bestRise = rise;
+      best = k;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the stretch ending at the drop over which some feature rises most
+ * steadily (highest correlation with time) and by a clear amount; starts
+ * are tried on downbeats first, then every beat
+ */
+function findBuildup(
+  curves: BeatCurves,
+  downbeats: Set<number>,
+  earliest: number,
+  drop: number
+): { start: number; risers: RiserKind[] } | null {
+  const candidates: number[] = [];
+  for (let start = Math.max(0, earliest); start <= drop - MIN_BUILDUP_BEATS; start++) {
+    candidates.push(start);
+  }
+  const onBar = candidates.filter((start) => downbeats.has(start));
+  const spread = Object.fromEntries(
+    RISERS.map((kind) => [kind, deviationOf(curves[kind])])
+  ) as Record<RiserKind, number>;
+
+  for (const list of [onBar, candidates]) {
+    let best: { start: number; risers: RiserKind[] } | null = null;
+    let bestCorrelation = 0;
+    for (const start of list) {
+      const quarter = Math.max(1, Math.floor((drop - start) / 4));
+      const risers: RiserKind[] = [];
+      let correlation = 0;
+      for (const kind of RISERS) {
+        const values = curves[kind];
+        const rise = meanOf(values, drop - quarter, drop) - meanOf(values, start, start + quarter);
+        const r = correlationWithTime(values, start, drop);
+        if (rise >= MIN_RISE * spread[kind] && r >= RISE_CORRELATION) {
+          risers.push(kind);
+          correlation = Math.max(correlation, r);
+        }
+      }
+      if (risers.length > 0 && correlation > bestCorrelation) {
+        best = { start, risers };
+        bestCorrelation = correlation;
+      }
+    }
+    if (best) {
+      return best;
+    }
+  }
+  return null;
+}
+
+/**
+ * Pearson correlation of values[from, to) with their index
+ */
+function correlationWithTime(values: Float64Array, from: number, to: number): number {
+  const count = to - from;
+  const meanIndex = (count - 1) / 2;
+  let meanValue = 0;
+  for (let k = from; k < to; k++) {
+    meanValue += values[k];
+  }
+  meanValue /= count;
+
+  let covariance = 0;
+  let indexVariance = 0;
+  let valueVariance = 0;
+  for (let k = from; k < to; k++) {
+    const x = k - from - meanIndex;
+    const y = values[k] - meanValue;
+    covariance += x * y;
+    indexVariance += x * x;
+    valueVariance += y * y;
+  }
+  return indexVariance > 0 && valueVariance > 0 ? covariance / Math.sqrt(indexVariance * valueVariance) : 0;
+}
+
+/**
+ * Mean of values[from, to)
+ */
+function meanOf(values: Float64Array, from: number, to: number): number {
+  let sum = 0;
+  for (let k = from; k < to; k++) {
+    sum += values[k];
+  }
+  return to > from ? sum / (to - from) : 0;
+}
+
+/**
+ * Standard deviation of all values
+ */
+function deviationOf(values: Float64Array): number {
+  const average = meanOf(values, 0, values.length);
+  let variance = 0;
+  for (let k = 0; k < values.length; k++) {
+    variance += (values[k] - average) ** 2;
+  }
+  return Math.sqrt(variance / Math.max(1, values.length));
+}
+
+/**
+ * Index of the beat nearest to a time
+ */
+function nearestBeat(beats: number[], time: number): number {
+  let low = 0;
+  let high = beats.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (beats[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low > 0 && time - beats[low - 1] < beats[low] - time ? low - 1 : low;
+}
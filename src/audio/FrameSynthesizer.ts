@@ -0,0 +1,254 @@
+/**
+ * FrameSynthesizer - Builds audio frames from a pre-analysis
+ *
+ * Live playback reads frames from the analyser node. Offline rendering has
+ * no running audio graph, so frames are synthesized instead: rhythm and
+ * structure come from the pre-analysis beat grid and sections, levels come
+ * from a feature track extracted from the decoded samples in one pass. The
+ * result is deterministic, so rendering the same track twice produces the
+ * same frames.
+ */
+
+import type { AudioFrame } from '../shared/types';
+import { BeatGrid } from './BeatGrid';
+import type { PreAnalysisResult } from './CueScheduler';
+
+/**
+ * Per-frame levels extracted from decoded audio, all normalized 0-1
+ */
+export interface FeatureTrack {
+  /** Frames per second */
+  frameRate: number;
+  rms: Float32Array;
+  peak: Float32Array;
+  low: Float32Array;
+  mid: Float32Array;
+  high: Float32Array;
+  flux: Float32Array;
+}
+
+/**
+ * Crossover frequencies of the band split in Hz
+ */
+const LOW_CROSSOVER = 200;
+const HIGH_CROSSOVER = 4000;
+
+/**
+ * Extract a feature track from mono samples
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @param frameRate - Frames per second
+ * @returns Normalized per-frame levels
+ */
+export function extractFeatureTrack(
+  samples: Float32Array,
+  sampleRate: number,
+  frameRate: number
+): FeatureTrack {
+  const frameSize = sampleRate / frameRate;
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const track: FeatureTrack = {
+    frameRate,
+    rms: new Float32Array(frameCount),
+    peak: new Float32Array(frameCount),
+    low: new Float32Array(frameCount),
+    mid: new Float32Array(frameCount),
+    high: new Float32Array(frameCount),
+    flux: new Float32Array(frameCount),
+  };
+
+  // One-pole low-pass filters split the signal into three bands
+  const lowCoeff = 1 - Math.exp((-2 * Math.PI * LOW_CROSSOVER) / sampleRate);
+  const highCoeff = 1 - Math.exp((-2 * Math.PI * HIGH_CROSSOVER) / sampleRate);
+  let lowState = 0;
+  let highState = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.floor(frame * frameSize);
+    const end = Math.min(samples.length, Math.floor((frame + 1) * frameSize));
+    let sum = 0;
+    let peak = 0;
+    let low = 0;
+    let mid = 0;
+    let high = 0;
+
+    for (let i = start; i < end; i++) {
+      const x = samples[i];
+      lowState += lowCoeff * (x - lowState);
+      highState += highCoeff * (x - highState);
+      sum += x * x;
+      peak = Math.max(peak, Math.abs(x));
+      low += lowState * lowState;
+      mid += (highState - lowState) * (highState - lowState);
+      high += (x - highState) * (x - highState);
+    }
+
+    const count = Math.max(1, end - start);
+    track.rms[frame] = Math.sqrt(sum / count);
+    track.peak[frame] = peak;
+    track.low[frame] = Math.sqrt(low / count);
+    track.mid[frame] = Math.sqrt(mid / count);
+    track.high[frame] = Math.sqrt(high / count);
+  }
+
+  // Flux is the rise in band levels from the previous frame
+  for (let frame = 1; frame < frameCount; frame++) {
+    track.flux[frame] =
+      Math.max(0, track.low[frame] - track.low[frame - 1]) +
+      Math.max(0, track.mid[frame] - track.mid[frame - 1]) +
+      Math.max(0, track.high[frame] - track.high[frame - 1]);
+  }
+
+  normalize(track.rms);
+  normalize(track.peak);
+  normalize(track.low);
+  normalize(track.mid);
+  normalize(track.high);
+  normalize(track.flux);
+  return track;
+}
+
+/**
+ * Synthesizes audio frames at arbitrary times from a pre-analysis
+ */
+export class FrameSynthesizer {
+  private analysis: PreAnalysisResult;
+  private features: FeatureTrack | null;
+  private beatGrid: BeatGrid | null;
+
+  /**
+   * Create a frame synthesizer
+   * @param analysis - Pre-analysis of the track
+   * @param features - Levels extracted from the samples; without them levels
+   *   are estimated from section energy and the beat grid
+   */
+  constructor(analysis: PreAnalysisResult, features: FeatureTrack | null = null) {
+    this.analysis = analysis;
+    this.features = features;
+    this.beatGrid =
+      analysis.beats.length > 0
+        ? new BeatGrid(analysis.bpm, analysis.beats, analysis.downbeats, analysis.beatsPerBar)
+        : null;
+  }
+
+  /**
+   * Get the track length in seconds
+   */
+  getDuration(): number {
+    const sections = this.analysis.sections;
+    const lastSection = sections.length > 0 ? sections[sections.length - 1].end : 0;
+    const lastBeat = this.analysis.beats.length > 0 ? this.analysis.beats[this.analysis.beats.length - 1] : 0;
+    const featureLength = this.features ? this.features.rms.length / this.features.frameRate : 0;
+    return Math.max(lastSection, lastBeat, featureLength);
+  }
+
+  /**
+   * Synthesize the frame at a time
+   * @param timeMs - Time in milliseconds
+   * @param frameMs - Length of the frame in milliseconds; a beat is reported
+   *   on the one frame whose window (timeMs - frameMs, timeMs] contains it
+   * @returns Audio frame
+   */
+  frameAt(timeMs: number, frameMs: number): AudioFrame {
+    const time = timeMs / 1000;
+    const beat = this.findBeatIn(time - frameMs / 1000, time);
+    const info = this.beatGrid?.getBeatAt(time);
+    const section = this.analysis.sections.find((s) => time >= s.start && time < s.end);
+    const sectionEnergy = section?.energy ?? this.analysis.averageEnergy;
+    const beatPhase = info?.phase ?? 0;
+
+    let rms: number;
+    let peak: number;
+    let low: number;
+    let mid: number;
+    let high: number;
+    let flux: number;
+
+    const index = this.features ? Math.floor(time * this.features.frameRate) : -1;
+    if (this.features && index >= 0 && index < this.features.rms.length) {
+      rms = this.features.rms[index];
+      peak = this.features.peak[index];
+      low = this.features.low[index];
+      mid = this.features.mid[index];
+      high = this.features.high[index];
+      flux = this.features.flux[index];
+    } else {
+      // Section energy with a pulse that decays over each beat
+      const pulse = Math.exp(-beatPhase * 6);
+      rms = clamp01(sectionEnergy * (0.7 + 0.3 * pulse));
+      peak = clamp01(rms * 1.2);
+      low = clamp01(sectionEnergy * (0.5 + 0.5 * pulse));
+      mid = clamp01(sectionEnergy * 0.8);
+      high = clamp01(sectionEnergy * (0.4 + 0.3 * pulse));
+      flux = beat ? clamp01(sectionEnergy) : 0;
+    }
+
+    const total = low + mid + high;
+
+    return {
+      timestamp: timeMs,
+      isBeat: beat !== null,
+      isDownbeat: beat !== null && this.isDownbeat(beat),
+      tempo: this.beatGrid?.getTempoAt(time) ?? (this.analysis.bpm || 120),
+      beatPhase,
+      beatNumber: info?.beat ?? 0,
+      rms,
+      energy: clamp01((low * 2 + mid + high * 0.5) / 3.5 + rms * 0.3),
+      peak,
+      spectralCentroid: total > 0 ? (mid * 0.5 + high) / total : 0,
+      spectralFlux: flux,
+      lowEnergy: low,
+      midEnergy: mid,
+      highEnergy: high,
+      section: section?.type ?? 'verse',
+      sectionConfidence: 0.8,
+    };
+  }
+
+  /**
+   * Finds the beat time in (start, end], if any
+   */
+  private findBeatIn(start: number, end: number): number | null {
+    const beats = this.analysis.beats;
+    let low = 0;
+    let high = beats.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (beats[middle] <= start) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low < beats.length && beats[low] <= end ? beats[low] : null;
+  }
+
+  /**
+   * Checks if a beat time is one of the downbeats
+   */
+  private isDownbeat(beatTime: number): boolean {
+    return this.analysis.downbeats.some((d) => Math.abs(d - beatTime) < 1e-3);
+  }
+}
+
+/**
+ * Scales values so the largest is 1
+ */
+function normalize(values: Float32Array): void {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    max = Math.max(max, values[i]);
+  }
+  if (max > 0) {
+    for (let i = 0; i < values.length; i++) {
+      values[i] /= max;
+    }
+  }
+}
+
+/**
+ * Clamps a level to 0-1
+ */
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,445 @@
+/**
+ * LiveTracker - Incremental beat, tempo and section tracking
+ *
+ * For live input there is no complete buffer to pre-analyze. The beat
+ * tracker keeps a rolling onset envelope, re-estimates the tempo from its
+ * autocorrelation a few times per second and locks the beat phase to the
+ * onsets with a comb filter. The section tracker classifies smoothed energy
+ * against a slowly decaying maximum and only switches sections once a
+ * change has held for a while, so the section list grows as the music plays.
+ */
+
+import type { PreAnalysisResult } from './CueScheduler';
+import { estimateTempo } from './TrackAnalysis';
+
+/**
+ * Beat state at one point in time
+ */
+export interface LiveBeat {
+  /** True on the first update at or after a beat */
+  isBeat: boolean;
+  /** Beats since tracking started */
+  beatNumber: number;
+  /** Position within the current beat, 0-1 */
+  phase: number;
+  /** Current tempo estimate in BPM */
+  tempo: number;
+  /** Confidence of the tempo estimate, 0-1 */
+  confidence: number;
+}
+
+/**
+ * Configuration for the rolling beat tracker
+ */
+export interface BeatTrackerConfig {
+  /** Onset history used for tempo and phase estimation in seconds */
+  windowSeconds?: number;
+  /** Onset envelope frames per second */
+  envelopeRate?: number;
+  /** Seconds between tempo re-estimations */
+  updateInterval?: number;
+  /** Tempo range in BPM */
+  minBpm?: number;
+  maxBpm?: number;
+  /** Confidence below which no beats are reported */
+  minConfidence?: number;
+  /** Fraction of the phase error corrected per update, 0-1 */
+  phaseGain?: number;
+}
+
+/**
+ * Tracks beats and tempo from a stream of onset strengths
+ */
+export class RollingBeatTracker {
+  private config: Required<BeatTrackerConfig>;
+  private envelope: Float32Array;
+  /** Envelope frames written so far */
+  private written: number = 0;
+  private startTime: number | null = null;
+  private lastUpdate: number = -Infinity;
+
+  private tempo: number = 120;
+  private confidence: number = 0;
+  /** Tempo seen once that differs from the current one */
+  private pendingTempo: number | null = null;
+  private nextBeat: number | null = null;
+  private lastBeat: number = 0;
+  private beatNumber: number = -1;
+
+  /**
+   * Create a rolling beat tracker
+   * @param config - Tracker configuration
+   */
+  constructor(config: BeatTrackerConfig = {}) {
+    this.config = {
+      windowSeconds: 8,
+      envelopeRate: 50,
+      updateInterval: 0.5,
+      minBpm: 90,
+      maxBpm: 180,
+      minConfidence: 0.1,
+      phaseGain: 0.3,
+      ...config,
+    };
+    this.envelope = new Float32Array(Math.round(this.config.windowSeconds * this.config.envelopeRate));
+  }
+
+  /**
+   * Feed an onset strength and get the beat state
+   * @param time - Time in seconds (non-decreasing)
+   * @param onset - Onset strength (e.g. spectral flux), >= 0
+   * @returns Beat state at the time
+   */
+  process(time: number, onset: number): LiveBeat {
+    this.pushOnset(time, onset);
+
+    if (time - this.lastUpdate >= this.config.updateInterval) {
+      this.lastUpdate = time;
+      this.updateTempo();
+      this.updatePhase(time);
+    }
+
+    let isBeat = false;
+    const period = 60 / this.tempo;
+    if (this.nextBeat !== null && this.confidence >= this.config.minConfidence) {
+      if (time >= this.nextBeat) {
+        isBeat = true;
+        this.beatNumber++;
+        this.lastBeat = this.nextBeat;
+        this.nextBeat += period;
+
+        // Resynchronize after gaps instead of reporting a burst of beats
+        if (time >= this.nextBeat) {
+          this.lastBeat = time;
+          this.nextBeat = time + period;
+        }
+      }
+    }
+
+    return {
+      isBeat,
+      beatNumber: Math.max(0, this.beatNumber),
+      phase: this.beatNumber >= 0 ? Math.max(0, Math.min(1, (time - this.lastBeat) / period)) : 0,
+      tempo: this.tempo,
+      confidence: this.confidence,
+    };
+  }
+
+  /**
+   * Get the current tempo estimate in BPM
+   */
+  getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * Get the confidence of the tempo estimate, 0-1
+   */
+  getConfidence(): number {
+    return this.confidence;
+  }
+
+  /**
+   * Forget all history
+   */
+  reset(): void {
+    this.envelope.fill(0);
+    this.written = 0;
+    this.startTime = null;
+    this.lastUpdate = -Infinity;
+    this.tempo = 120;
+    this.confidence = 0;
+    this.pendingTempo = null;
+    this.nextBeat = null;
+    this.lastBeat = 0;
+    this.beatNumber = -1;
+  }
+
+  /**
+   * Writes the onset into every envelope frame up to the time
+   */
+  private pushOnset(time: number, onset: number): void {
+    if (this.startTime === null) {
+      this.startTime = time;
+    }
+    const target = Math.floor((time - this.startTime) * this.config.envelopeRate);
+    const size = this.envelope.length;
+
+    // Several updates within one frame keep the strongest onset
+    if (target < this.written) {
+      const last = (this.written - 1) % size;
+      this.envelope[last] = Math.max(this.envelope[last], onset);
+      return;
+    }
+    // Frames skipped by slow updates hold no onset
+    const from = Math.max(this.written, target - size + 1);
+    for (let frame = from; frame <= target; frame++) {
+      this.envelope[frame % size] = frame === target ? onset : 0;
+    }
+    this.written = target + 1;
+  }
+
+  /**
+   * Gets the envelope in time order with its mean removed
+   */
+  private getHistory(): Float32Array {
+    const size = this.envelope.length;
+    const length = Math.min(this.written, size);
+    const history = new Float32Array(length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      history[i] = this.envelope[(this.written - length + i) % size];
+      sum += history[i];
+    }
+    const mean = length > 0 ? sum / length : 0;
+    for (let i = 0; i < length; i++) {
+      history[i] -= mean;
+    }
+    return history;
+  }
+
+  /**
+   * Re-estimates the tempo; a different tempo must be seen twice in a row
+   */
+  private updateTempo(): void {
+    const estimate = estimateTempo(
+      this.getHistory(),
+      this.config.envelopeRate,
+      this.config.minBpm,
+      this.config.maxBpm
+    );
+    if (!estimate) {
+      return;
+    }
+    this.confidence = estimate.confidence;
+
+    if (Math.abs(estimate.bpm - this.tempo) / this.tempo < 0.04) {
+      this.tempo += (estimate.bpm - this.tempo) * 0.5;
+      this.pendingTempo = null;
+      return;
+    }
+    if (
+      this.nextBeat === null ||
+      (this.pendingTempo !== null && Math.abs(estimate.bpm - this.pendingTempo) / this.pendingTempo < 0.04)
+    ) {
+      this.tempo = estimate.bpm;
+      this.pendingTempo = null;
+      return;
+    }
+    this.pendingTempo = estimate.bpm;
+  }
+
+  /**
+   * Locks the predicted beat to the onsets with a comb filter
+   */
+  private updatePhase(time: number): void {
+    const history = this.getHistory();
+    const rate = this.config.envelopeRate;
+    const period = (60 / this.tempo) * rate;
+    if (history.length < period * 2) {
+      return;
+    }
+
+    // Score every offset back from the newest frame
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = 0; offset < Math.ceil(period); offset++) {
+      let score = 0;
+      for (let position = history.length - 1 - offset; position >= 0; position -= period) {
+        score += history[Math.round(position)] ?? 0;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+
+    const seconds = 60 / this.tempo;
+    const newest = this.startTime! + (this.written - 1) / rate;
+    const observed = newest - bestOffset / rate + seconds;
+
+    if (this.nextBeat === null) {
+      this.nextBeat = observed > time ? observed : observed + seconds;
+      this.lastBeat = this.nextBeat - seconds;
+      return;
+    }
+
+    // Correct part of the phase error, wrapped to half a beat
+    let error = (observed - this.nextBeat) % seconds;
+    if (error > seconds / 2) {
+      error -= seconds;
+    } else if (error < -seconds / 2) {
+      error += seconds;
+    }
+    this.nextBeat += error * this.config.phaseGain;
+  }
+}
+
+/**
+ * A section found by the live section tracker
+ */
+export type LiveSection = PreAnalysisResult['sections'][0];
+
+/**
+ * Configuration for the live section tracker
+ */
+export interface SectionTrackerConfig {
+  /** Seconds at the start labelled intro */
+  introSeconds?: number;
+  /** Shortest section in seconds */
+  minSectionSeconds?: number;
+  /** Seconds a new classification must hold before the section changes */
+  holdSeconds?: number;
+  /** Time constant of the energy smoothing in seconds */
+  smoothingSeconds?: number;
+  /** Time constant of the energy maximum's decay in seconds */
+  decaySeconds?: number;
+}
+
+/**
+ * Infers song sections incrementally from energy
+ */
+export class LiveSectionTracker {
+  private config: Required<SectionTrackerConfig>;
+  private sections: LiveSection[] = [];
+  private lastTime: number | null = null;
+  private smoothed: number = 0;
+  private maximum: number = 0;
+  private energySum: number = 0;
+  private energyCount: number = 0;
+  private candidate: { type: LiveSection['type']; since: number } | null = null;
+
+  /**
+   * Create a live section tracker
+   * @param config - Tracker configuration
+   */
+  constructor(config: SectionTrackerConfig = {}) {
+    this.config = {
+      introSeconds: 15,
+      minSectionSeconds: 8,
+      holdSeconds: 2,
+      smoothingSeconds: 2,
+      decaySeconds: 120,
+      ...config,
+    };
+  }
+
+  /**
+   * Feed an energy level
+   * @param time - Time in seconds (non-decreasing)
+   * @param energy - Energy level, >= 0
+   * @returns Whether a new section started
+   */
+  process(time: number, energy: number): boolean {
+    const first = this.lastTime === null;
+    const dt = first ? 0 : Math.max(0, time - this.lastTime!);
+    this.lastTime = time;
+
+    // Smoothed energy against a slowly decaying maximum
+    const alpha = first ? 1 : 1 - Math.exp(-dt / this.config.smoothingSeconds);
+    this.smoothed += (energy - this.smoothed) * alpha;
+    this.maximum = Math.max(this.smoothed, this.maximum * Math.exp(-dt / this.config.decaySeconds));
+    const level = this.maximum > 0 ? this.smoothed / this.maximum : 0;
+
+    const type = this.classify(time, level);
+    const current = this.sections[this.sections.length - 1];
+
+    if (!current) {
+      this.startSection(time, type, level);
+      return true;
+    }
+    current.end = time;
+
+    if (type === current.type) {
+      this.candidate = null;
+      this.addEnergy(current, level);
+      return false;
+    }
+    if (!this.candidate || this.candidate.type !== type) {
+      this.candidate = { type, since: time };
+    }
+
+    // Change once the new label has held, but never cut a section short
+    const switchAt =
+      current.type === 'intro'
+        ? this.candidate.since
+        : Math.max(this.candidate.since, current.start + this.config.minSectionSeconds);
+    if (time - this.candidate.since >= this.config.holdSeconds && time >= switchAt) {
+      current.end = switchAt;
+      this.startSection(switchAt, type, level);
+      return true;
+    }
+    this.addEnergy(current, level);
+    return false;
+  }
+
+  /**
+   * Get the sections so far; the last one is still open and ends now
+   */
+  getSections(): LiveSection[] {
+    return this.sections.map((section) => ({ ...section }));
+  }
+
+  /**
+   * Get the open section
+   */
+  getCurrentSection(): LiveSection | undefined {
+    const current = this.sections[this.sections.length - 1];
+    return current ? { ...current } : undefined;
+  }
+
+  /**
+   * Forget all sections
+   */
+  reset(): void {
+    this.sections = [];
+    this.lastTime = null;
+    this.smoothed = 0;
+    this.maximum = 0;
+    this.energySum = 0;
+    this.energyCount = 0;
+    this.candidate = null;
+  }
+
+  /**
+   * Classifies a normalized level by energy alone. Pre-analysis labels
+   * sections from repetition instead (see StructureAnalyzer), which needs
+   * the whole track, so these thresholds are specific to live tracking.
+   */
+  private classify(time: number, level: number): LiveSection['type'] {
+    if (time < this.config.introSeconds) {
+      return 'intro';
+    }
+    if (level > 0.7) {
+      // High energy keeps its label; reached from a quiet section it is a drop
+      const current = this.sections[this.sections.length - 1];
+      if (current?.type === 'drop' || current?.type === 'chorus') {
+        return current.type;
+      }
+      return current && current.energy < 0.5 ? 'drop' : 'chorus';
+    }
+    if (level < 0.3) {
+      return 'breakdown';
+    }
+    return 'verse';
+  }
+
+  /**
+   * Opens a new section
+   */
+  private startSection(time: number, type: LiveSection['type'], level: number): void {
+    this.sections.push({ start: time, end: time, type, energy: level });
+    this.energySum = level;
+    this.energyCount = 1;
+    this.candidate = null;
+  }
+
+  /**
+   * Updates the mean energy of the open section
+   */
+  private addEnergy(section: LiveSection, level: number): void {
+    this.energySum += level;
+    this.energyCount++;
+    section.energy = this.energySum / this.energyCount;
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * MeterDetector - Downbeat and time signature detection
+ *
+ * Beats that start a bar tend to carry more accent: a kick or bass note, a
+ * stronger onset, and a change of sound as chords and patterns turn over.
+ * Every tracked beat gets an accent score from these cues. For each
+ * candidate meter and bar phase the detector measures how much stronger
+ * the accents on bar one are than on the other beats, in overlapping
+ * windows along the track, so a meter change shows up as a run of windows
+ * that prefer another meter.
+ */
+
+import type { FeatureTrack } from './FrameSynthesizer';
+
+/**
+ * Time signatures the detector can report
+ */
+export type TimeSignature = '3/4' | '4/4' | '6/8' | '7/8';
+
+/**
+ * A stretch of the track in one meter
+ */
+export interface MeterSegment {
+  /** Time of the first downbeat in seconds */
+  time: number;
+  /** Index of the first downbeat in the beat list */
+  beatIndex: number;
+  /** Beats (tracked pulses) per bar */
+  beatsPerBar: number;
+  timeSignature: TimeSignature;
+}
+
+/**
+ * Meter detection result
+ */
+export interface MeterAnalysis {
+  /** Meter covering most of the track */
+  timeSignature: TimeSignature;
+  beatsPerBar: number;
+  /** Downbeat timestamps in seconds */
+  downbeats: number[];
+  /** Meter segments in time order; more than one means the meter changes */
+  segments: MeterSegment[];
+  /** How clearly the chosen meters beat the alternatives, 0-1 */
+  confidence: number;
+}
+
+/**
+ * Candidate meters with a score penalty favouring the common ones
+ */
+const METERS: { timeSignature: TimeSignature; beatsPerBar: number; penalty: number }[] = [
+  { timeSignature: '4/4', beatsPerBar: 4, penalty: 0 },
+  { timeSignature: '3/4', beatsPerBar: 3, penalty: 0.1 },
+  { timeSignature: '6/8', beatsPerBar: 6, penalty: 0.2 },
+  { timeSignature: '7/8', beatsPerBar: 7, penalty: 0.2 },
+];
+
+/**
+ * Beats per analysis window and between window starts
+ */
+const WINDOW_BEATS = 24;
+const HOP_BEATS = 12;
+
+/**
+ * Accent contrast (in standard deviations) a window's best meter needs, and
+ * its lead over 4/4, to be chosen; evenly accented beats fit every meter by
+ * chance, so unclear windows stay in 4/4
+ */
+const MIN_CONTRAST = 0.5;
+
+/**
+ * Confidence below which the meter changes found are not trusted and the
+ * whole track is read as 4/4
+ */
+const MIN_CONFIDENCE = 0.2;
+
+/**
+ * Fraction of a beat after it in which bass energy counts as its accent
+ */
+const BASS_SPAN = 0.25;
+
+/**
+ * A run of beats in one meter
+ */
+interface MeterRun {
+  /** Index into METERS */
+  meter: number;
+  /** First and last-plus-one beat index */
+  from: number;
+  to: number;
+  /** Beat index of the first downbeat */
+  first: number;
+}
+
+/**
+ * Best phase of one meter over a range of beats
+ */
+interface MeterFit {
+  meter: number;
+  phase: number;
+  score: number;
+}
+
+/**
+ * Detect meter and downbeats from tracked beats
+ * @param features - Band levels of the track (see extractFeatureTrack)
+ * @param beats - Beat timestamps in seconds, in order
+ * @returns Meter analysis
+ */
+export function detectMeter(features: FeatureTrack, beats: number[]): MeterAnalysis {
+  if (beats.length < METERS[0].beatsPerBar * 2) {
+    return {
+      timeSignature: '4/4',
+      beatsPerBar: 4,
+      downbeats: beats.filter((_, i) => i % 4 === 0),
+      segments: beats.length > 0 ? [{ time: beats[0], beatIndex: 0, beatsPerBar: 4, timeSignature: '4/4' }] : [],
+      confidence: 0,
+    };
+  }
+
+  const accents = computeAccents(features, beats);
+
+  // Best meter of each window
+  const starts: number[] = [];
+  for (let start = 0; start + WINDOW_BEATS < beats.length; start += HOP_BEATS) {
+    starts.push(start);
+  }
+  starts.push(Math.max(0, beats.length - WINDOW_BEATS));
+  const labels = starts.map((start) => {
+    const end = Math.min(beats.length, start + WINDOW_BEATS);
+    const fit = fitBest(accents, start, end);
+    const lead = fit.score - fitMeter(accents, start, end, 0).score;
+    return fit.score >= MIN_CONTRAST && (fit.meter === 0 || lead >= MIN_CONTRAST) ? fit.meter : 0;
+  });
+
+  // A different meter must hold for two windows in a row
+  for (let i = 1; i < labels.length - 1; i++) {
+    if (labels[i - 1] === labels[i + 1] && labels[i] !== labels[i - 1]) {
+      labels[i] = labels[i - 1];
+    }
+  }
+
+  // Runs of equal labels become segments
+  const runs: MeterRun[] = [];
+  labels.forEach((meter, i) => {
+    if (runs.length === 0 || runs[runs.length - 1].meter !== meter) {
+      const from = runs.length === 0 ? 0 : starts[i];
+      if (runs.length > 0) {
+        runs[runs.length - 1].to = from;
+      }
+      runs.push({ meter, from, to: beats.length, first: from });
+    }
+  });
+
+  const analysis = buildAnalysis(accents, beats, runs);
+  if (analysis.confidence >= MIN_CONFIDENCE || runs.every((run) => run.meter === 0)) {
+    return analysis;
+  }
+  return buildAnalysis(accents, beats, [{ meter: 0, from: 0, to: beats.length, first: 0 }]);
+}
+
+/**
+ * Places the bar lines of a list of meter runs and scores them
+ */
+function buildAnalysis(accents: Float64Array, beats: number[], runs: MeterRun[]): MeterAnalysis {
+  // The first run starts on its best phase; every change moves to the beat
+  // where the bar grids either side fit the accents best
+  runs[0].first = fitMeter(accents, 0, runs[0].to, runs[0].meter).phase;
+  for (let r = 1; r < runs.length; r++) {
+    const change = findChange(accents, runs[r - 1], runs[r]);
+    runs[r - 1].to = change;
+    runs[r].from = change;
+    runs[r].first = change;
+  }
+
+  const segments: MeterSegment[] = [];
+  const downbeats: number[] = [];
+  const beatsIn = new Map<number, number>();
+  let margin = 0;
+  let weight = 0;
+
+  for (const run of runs) {
+    const { beatsPerBar, timeSignature } = METERS[run.meter];
+    if (run.first >= run.to) {
+      continue;
+    }
+    segments.push({ time: beats[run.first], beatIndex: run.first, beatsPerBar, timeSignature });
+    for (let k = run.first; k < run.to; k += beatsPerBar) {
+      downbeats.push(beats[k]);
+    }
+    beatsIn.set(run.meter, (beatsIn.get(run.meter) ?? 0) + (run.to - run.from));
+
+    // Confidence from the margin over the best unrelated meter; 3/4 and 6/8
+    // share every other downbeat, so they do not count against each other
+    const score = fitMeter(accents, run.from, run.to, run.meter).score;
+    let other = -Infinity;
+    for (let m = 0; m < METERS.length; m++) {
+      const longer = Math.max(beatsPerBar, METERS[m].beatsPerBar);
+      const shorter = Math.min(beatsPerBar, METERS[m].beatsPerBar);
+      if (longer % shorter !== 0) {
+        other = Math.max(other, fitMeter(accents, run.from, run.to, m).score);
+      }
+    }
+    if (score > 0) {
+      margin += Math.max(0, Math.min(1, (score - other) / score)) * (run.to - run.from);
+    }
+    weight += run.to - run.from;
+  }
+
+  let dominant = runs[0].meter;
+  beatsIn.forEach((count, meter) => {
+    if (count > (beatsIn.get(dominant) ?? 0)) {
+      dominant = meter;
+    }
+  });
+
+  return {
+    timeSignature: METERS[dominant].timeSignature,
+    beatsPerBar: METERS[dominant].beatsPerBar,
+    downbeats,
+    segments,
+    confidence: weight > 0 ? margin / weight : 0,
+  };
+}
+
+/**
+ * Places a meter change: the beat starting the next run's first bar that
+ * maximizes the accents on the previous run's downbeats before it plus the
+ * next run's downbeats from it
+ */
+function findChange(accents: Float64Array, previous: MeterRun, next: MeterRun): number {
+  const previousBar = METERS[previous.meter].beatsPerBar;
+  const nextBar = METERS[next.meter].beatsPerBar;
+  const low = Math.max(previous.first + 1, next.from - HOP_BEATS);
+  const high = Math.min(next.to - 1, next.from + HOP_BEATS);
+  const windowStart = Math.max(previous.from, next.from - WINDOW_BEATS);
+  const windowEnd = Math.min(next.to, next.from + WINDOW_BEATS);
+
+  let best = next.from;
+  let bestScore = -Infinity;
+  for (let change = low; change <= high; change++) {
+    let score = 0;
+    for (let k = previous.first; k < change; k += previousBar) {
+      if (k >= windowStart) {
+        score += accents[k];
+      }
+    }
+    for (let k = change; k < windowEnd; k += nextBar) {
+      score += accents[k];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = change;
+    }
+  }
+  return best;
+}
+
+/**
+ * Scores each beat's accent from bass energy, onset strength and the change
+ * of band balance across it (each in units of its standard deviation)
+ */
+function computeAccents(features: FeatureTrack, beats: number[]): Float64Array {
+  const rate = features.frameRate;
+  const count = beats.length;
+  const bass = new Float64Array(count);
+  const onset = new Float64Array(count);
+  const change = new Float64Array(count);
+
+  for (let k = 0; k < count; k++) {
+    const interval = k + 1 < count ? beats[k + 1] - beats[k] : beats[k] - beats[k - 1];
+    const frame = Math.round(beats[k] * rate);
+
+    bass[k] = mean(features.low, frame, frame + Math.max(1, Math.round(interval * BASS_SPAN * rate)));
+
+    let peak = 0;
+    for (let f = Math.max(0, frame - 2); f <= frame + 2 && f < features.flux.length; f++) {
+      peak = Math.max(peak, features.flux[f]);
+    }
+    onset[k] = peak;
+
+    // Band balance over the beat before against the beat after
+    if (k > 0 && k + 1 < count) {
+      const before = Math.round(beats[k - 1] * rate);
+      const after = Math.round(beats[k + 1] * rate);
+      for (const band of [features.low, features.mid, features.high]) {
+        change[k] += Math.abs(
+          Math.log(mean(band, frame, after) + 1e-3) - Math.log(mean(band, before, frame) + 1e-3)
+        );
+      }
+    }
+  }
+
+  const accents = new Float64Array(count);
+  for (const values of [bass, onset, change]) {
+    standardize(values);
+    for (let k = 0; k < count; k++) {
+      accents[k] += values[k];
+    }
+  }
+  return accents;
+}
+
+/**
+ * Finds the best meter and phase for a range of beats
+ */
+function fitBest(accents: Float64Array, from: number, to: number): MeterFit {
+  let best = fitMeter(accents, from, to, 0);
+  for (let m = 1; m < METERS.length; m++) {
+    const fit = fitMeter(accents, from, to, m);
+    if (fit.score > best.score) {
+      best = fit;
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds the best phase of one meter for a range of beats; the score is the
+ * mean accent on bar one minus the mean on the other beats, less the
+ * meter's penalty
+ */
+function fitMeter(accents: Float64Array, from: number, to: number, meter: number): MeterFit {
+  const { beatsPerBar, penalty } = METERS[meter];
+  let best: MeterFit = { meter, phase: 0, score: -Infinity };
+
+  for (let phase = 0; phase < beatsPerBar; phase++) {
+    let onSum = 0;
+    let onCount = 0;
+    let offSum = 0;
+    let offCount = 0;
+    for (let k = from; k < to; k++) {
+      if ((k - phase) % beatsPerBar === 0) {
+        onSum += accents[k];
+        onCount++;
+      } else {
+        offSum += accents[k];
+        offCount++;
+      }
+    }
+    if (onCount === 0 || offCount === 0) {
+      continue;
+    }
+
+    const score = onSum / onCount - offSum / offCount - penalty;
+    if (score > best.score) {
+      best = { meter, phase, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Mean of values[from, to), clamped to the array
+ */
+function mean(values: Float32Array, from: number, to: number): number {
+  const start = Math.max(0, from);
+  const end = Math.min(values.length, Math.max(to, start + 1));
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += values[i];
+  }
+  return end > start ? sum / (end - start) : 0;
+}
+
+/**
+ * Rescales values to zero mean and unit standard deviation
+ */
+function standardize(values: Float64Array): void {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  const average = sum / values.length;
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) {
+    variance += (values[i] - average) ** 2;
+  }
+  const deviation = Math.sqrt(variance / values.length);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = deviation > 0 ? (values[i] - average) / deviation : 0;
+  }
+}
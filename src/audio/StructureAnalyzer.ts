@@ -0,0 +1,570 @@
+/**
+ * StructureAnalyzer - Song structure from self-similarity
+ *
+ * Every bar gets a harmony vector (chroma) and a timbre vector (mel
+ * cepstrum plus loudness). Comparing all bars with each other gives a
+ * self-similarity matrix; a checkerboard kernel slid along its diagonal
+ * peaks where the music before a bar line differs from the music after it,
+ * and the strongest peaks become section boundaries, so boundaries always
+ * fall on downbeats. Segments whose bars match along a diagonal of the
+ * matrix repeat the same material and are clustered under one label, so
+ * every chorus gets the same label and the section types are assigned per
+ * cluster rather than per segment.
+ */
+
+import type { PreAnalysisResult } from './CueScheduler';
+
+/**
+ * A detected section with its repeat label
+ */
+export type StructureSection = PreAnalysisResult['sections'][0];
+
+/**
+ * Spectral frame size in samples; frames do not overlap
+ */
+const FFT_SIZE = 4096;
+
+/**
+ * Frequency range of the chroma and mel bands in Hz
+ */
+const MIN_FREQUENCY = 55;
+const MAX_CHROMA_FREQUENCY = 5000;
+const MAX_MEL_FREQUENCY = 8000;
+
+/**
+ * Mel bands and cepstral coefficients (the first, loudness, is dropped)
+ */
+const MEL_BANDS = 24;
+const CEPSTRAL_COEFFICIENTS = 12;
+
+/**
+ * Half width of the novelty kernel in bars
+ */
+const KERNEL_BARS = 4;
+
+/**
+ * Shortest section in bars
+ */
+const MIN_SECTION_BARS = 4;
+
+/**
+ * Novelty a boundary needs, in median absolute deviations above the median
+ * (robust against the few large peaks of a track's biggest changes)
+ */
+const BOUNDARY_THRESHOLD = 2;
+
+/**
+ * Similarity two segments need, in standard deviations above the mean
+ * similarity of all bar pairs, to count as a repeat
+ */
+const REPEAT_THRESHOLD = 1;
+
+/**
+ * Bar length used when no downbeats are known, in seconds
+ */
+const FALLBACK_BAR = 2;
+
+/**
+ * A run of bars between two boundaries
+ */
+interface Segment {
+  /** First and last-plus-one bar index */
+  from: number;
+  to: number;
+  /** Loudness relative to the loudest bar, 0-1 */
+  energy: number;
+  /** Index of the repeat cluster */
+  cluster: number;
+}
+
+/**
+ * Per-bar features
+ */
+interface BarFeatures {
+  chroma: Float64Array[];
+  timbre: Float64Array[];
+  /** RMS level of each bar */
+  level: number[];
+}
+
+/**
+ * Detect song sections from the self-similarity of bars
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @param downbeats - Downbeat timestamps in seconds; without them the track
+ *   is split into fixed two-second bars
+ * @returns Sections covering the whole track, each with a repeat label
+ */
+export function analyzeStructure(
+  samples: Float32Array,
+  sampleRate: number,
+  downbeats: number[] = []
+): StructureSection[] {
+  const duration = samples.length / sampleRate;
+  if (duration <= 0) {
+    return [];
+  }
+
+  const bars = barStarts(downbeats, duration);
+  const features = extractBarFeatures(samples, sampleRate, bars);
+  const loudest = Math.max(...features.level, 1e-9);
+
+  if (bars.length < MIN_SECTION_BARS * 2) {
+    return [{ start: 0, end: duration, type: 'verse', energy: 1, label: 'A' }];
+  }
+
+  const similarity = selfSimilarity(features);
+  const boundaries = findBoundaries(computeNovelty(similarity));
+
+  const segments: Segment[] = [];
+  const edges = [0, ...boundaries, bars.length];
+  for (let i = 0; i + 1 < edges.length; i++) {
+    const from = edges[i];
+    const to = edges[i + 1];
+    let level = 0;
+    for (let b = from; b < to; b++) {
+      level += features.level[b];
+    }
+    segments.push({ from, to, energy: level / (to - from) / loudest, cluster: -1 });
+  }
+
+  clusterSegments(segments, similarity);
+  const types = assignTypes(segments);
+
+  return segments.map((segment, i) => ({
+    start: i === 0 ? 0 : bars[segment.from],
+    end: i === segments.length - 1 ? duration : bars[segment.to],
+    type: types[i],
+    energy: segment.energy,
+    label: clusterLabel(segment.cluster),
+  }));
+}
+
+/**
+ * Bar start times: the downbeats, extended at the bar length of the first
+ * and last bars over any stretch before or after them (beats are often
+ * not tracked through a quiet intro or outro)
+ */
+function barStarts(downbeats: number[], duration: number): number[] {
+  const starts = downbeats.filter((time) => time >= 0 && time < duration);
+  if (starts.length < 2) {
+    const fixed: number[] = [];
+    for (let time = 0; time < duration; time += FALLBACK_BAR) {
+      fixed.push(time);
+    }
+    return fixed;
+  }
+
+  const first = starts[1] - starts[0];
+  const last = starts[starts.length - 1] - starts[starts.length - 2];
+  const before: number[] = [];
+  for (let time = starts[0] - first; time > first / 2; time -= first) {
+    before.unshift(time);
+  }
+  const after: number[] = [];
+  for (let time = starts[starts.length - 1] + last; time < duration - last / 2; time += last) {
+    after.push(time);
+  }
+  return [...before, ...starts, ...after];
+}
+
+/**
+ * Averages chroma and timbre over the spectral frames of each bar
+ */
+function extractBarFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+  bars: number[]
+): BarFeatures {
+  const binHz = sampleRate / FFT_SIZE;
+  const pitchClass = new Int8Array(FFT_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < FFT_SIZE / 2; bin++) {
+    const frequency = bin * binHz;
+    if (frequency >= MIN_FREQUENCY && frequency <= MAX_CHROMA_FREQUENCY) {
+      const midi = Math.round(12 * Math.log2(frequency / 440) + 69);
+      pitchClass[bin] = ((midi % 12) + 12) % 12;
+    }
+  }
+  const melFilters = createMelFilters(sampleRate);
+  const window = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE);
+  }
+
+  const count = bars.length;
+  const features: BarFeatures = {
+    chroma: Array.from({ length: count }, () => new Float64Array(12)),
+    timbre: Array.from({ length: count }, () => new Float64Array(CEPSTRAL_COEFFICIENTS + 1)),
+    level: new Array<number>(count).fill(0),
+  };
+  const frames = new Array<number>(count).fill(0);
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  const power = new Float64Array(FFT_SIZE / 2);
+  const mel = new Float64Array(MEL_BANDS);
+
+  let bar = 0;
+  for (let start = 0; start + FFT_SIZE <= samples.length; start += FFT_SIZE) {
+    const centre = (start + FFT_SIZE / 2) / sampleRate;
+    while (bar + 1 < count && bars[bar + 1] <= centre) {
+      bar++;
+    }
+
+    let energy = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const x = samples[start + i];
+      energy += x * x;
+      real[i] = x * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+    for (let bin = 0; bin < FFT_SIZE / 2; bin++) {
+      power[bin] = real[bin] * real[bin] + imag[bin] * imag[bin];
+    }
+
+    const chroma = features.chroma[bar];
+    for (let bin = 1; bin < FFT_SIZE / 2; bin++) {
+      if (pitchClass[bin] >= 0) {
+        chroma[pitchClass[bin]] += Math.sqrt(power[bin]);
+      }
+    }
+
+    mel.fill(0);
+    for (const filter of melFilters) {
+      for (let bin = filter.from; bin < filter.to; bin++) {
+        mel[filter.band] += power[bin] * filter.weights[bin - filter.from];
+      }
+    }
+    const timbre = features.timbre[bar];
+    for (let c = 1; c <= CEPSTRAL_COEFFICIENTS; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_BANDS; m++) {
+        sum += Math.log(mel[m] + 1e-10) * Math.cos((Math.PI * c * (m + 0.5)) / MEL_BANDS);
+      }
+      timbre[c - 1] += sum;
+    }
+
+    features.level[bar] += energy / FFT_SIZE;
+    frames[bar]++;
+  }
+
+  for (let b = 0; b < count; b++) {
+    const n = Math.max(1, frames[b]);
+    for (let c = 0; c < CEPSTRAL_COEFFICIENTS; c++) {
+      features.timbre[b][c] /= n;
+    }
+    features.level[b] = Math.sqrt(features.level[b] / n);
+    // Loudness joins the timbre vector so level changes split sections too
+    features.timbre[b][CEPSTRAL_COEFFICIENTS] = Math.log(features.level[b] + 1e-6);
+  }
+
+  // Bars shorter than a frame (or past the end) borrow their neighbour's
+  for (let b = 0; b < count; b++) {
+    if (frames[b] === 0) {
+      const source = b > 0 ? b - 1 : Math.min(count - 1, b + 1);
+      features.chroma[b] = features.chroma[source].slice();
+      features.timbre[b] = features.timbre[source].slice();
+      features.level[b] = features.level[source];
+    }
+  }
+
+  // Timbre dimensions are compared in units of their spread across the track
+  for (let d = 0; d <= CEPSTRAL_COEFFICIENTS; d++) {
+    let sum = 0;
+    for (let b = 0; b < count; b++) {
+      sum += features.timbre[b][d];
+    }
+    const average = sum / count;
+    let variance = 0;
+    for (let b = 0; b < count; b++) {
+      variance += (features.timbre[b][d] - average) ** 2;
+    }
+    const deviation = Math.sqrt(variance / count);
+    for (let b = 0; b < count; b++) {
+      features.timbre[b][d] = deviation > 0 ? (features.timbre[b][d] - average) / deviation : 0;
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Similarity of every pair of bars, 0-1: the mean of chroma and timbre
+ * cosine similarity
+ */
+function selfSimilarity(features: BarFeatures): Float64Array[] {
+  const count = features.level.length;
+  const matrix = Array.from({ length: count }, () => new Float64Array(count));
+  for (let i = 0; i < count; i++) {
+    for (let j = i; j < count; j++) {
+      const chroma = cosine(features.chroma[i], features.chroma[j]);
+      const timbre = (1 + cosine(features.timbre[i], features.timbre[j])) / 2;
+      matrix[i][j] = matrix[j][i] = (chroma + timbre) / 2;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Novelty of each bar line: a Gaussian-tapered checkerboard kernel
+ * correlated along the diagonal of the similarity matrix
+ */
+function computeNovelty(similarity: Float64Array[]): number[] {
+  const count = similarity.length;
+  const novelty = new Array<number>(count).fill(0);
+
+  for (let i = 1; i < count; i++) {
+    let sum = 0;
+    let weight = 0;
+    for (let a = -KERNEL_BARS; a < KERNEL_BARS; a++) {
+      for (let b = -KERNEL_BARS; b < KERNEL_BARS; b++) {
+        const row = i + a;
+        const column = i + b;
+        if (row < 0 || column < 0 || row >= count || column >= count) {
+          continue;
+        }
+        const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (KERNEL_BARS * KERNEL_BARS));
+        const sign = a < 0 === b < 0 ? 1 : -1;
+        sum += sign * taper * similarity[row][column];
+        weight += taper;
+      }
+    }
+    novelty[i] = weight > 0 ? sum / weight : 0;
+  }
+  return novelty;
+}
+
+/**
+ * Picks the strongest novelty peaks at least MIN_SECTION_BARS apart
+ * @returns Bar indices of section starts after the first, in order
+ */
+function findBoundaries(novelty: number[]): number[] {
+  const count = novelty.length;
+  const typical = median(novelty.slice(1));
+  const spread = median(novelty.slice(1).map((v) => Math.abs(v - typical)));
+  const threshold = typical + BOUNDARY_THRESHOLD * spread;
+
+  const peaks: number[] = [];
+  for (let i = MIN_SECTION_BARS; i <= count - MIN_SECTION_BARS; i++) {
+    const previous = novelty[i - 1];
+    const next = i + 1 < count ? novelty[i + 1] : -Infinity;
+    if (novelty[i] >= threshold && novelty[i] > previous && novelty[i] >= next) {
+      peaks.push(i);
+    }
+  }
+  peaks.sort((a, b) => novelty[b] - novelty[a]);
+
+  const accepted: number[] = [];
+  for (const peak of peaks) {
+    if (accepted.every((other) => Math.abs(other - peak) >= MIN_SECTION_BARS)) {
+      accepted.push(peak);
+    }
+  }
+  return accepted.sort((a, b) => a - b);
+}
+
+/**
+ * Groups segments that repeat the same material; each segment joins the
+ * earlier cluster it matches best, or starts a new one
+ */
+function clusterSegments(segments: Segment[], similarity: Float64Array[]): void {
+  // Baseline from all pairs of different bars
+  const count = similarity.length;
+  let sum = 0;
+  let sumSquares = 0;
+  let pairs = 0;
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      sum += similarity[i][j];
+      sumSquares += similarity[i][j] ** 2;
+      pairs++;
+    }
+  }
+  const average = sum / Math.max(1, pairs);
+  const deviation = Math.sqrt(Math.max(0, sumSquares / Math.max(1, pairs) - average * average));
+  const threshold = average + REPEAT_THRESHOLD * deviation;
+
+  let clusters = 0;
+  for (let s = 0; s < segments.length; s++) {
+    let best = -1;
+    let bestScore = threshold;
+    for (let t = 0; t < s; t++) {
+      const score = segmentSimilarity(segments[s], segments[t], similarity);
+      if (score >= bestScore) {
+        bestScore = score;
+        best = segments[t].cluster;
+      }
+    }
+    segments[s].cluster = best >= 0 ? best : clusters++;
+  }
+}
+
+/**
+ * Similarity of two segments: the mean bar similarity along the best
+ * aligned diagonal, so a repeat matches bar for bar
+ */
+function segmentSimilarity(a: Segment, b: Segment, similarity: Float64Array[]): number {
+  const [short, long] = a.to - a.from <= b.to - b.from ? [a, b] : [b, a];
+  const length = short.to - short.from;
+  let best = -Infinity;
+  for (let offset = 0; offset <= long.to - long.from - length; offset++) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += similarity[short.from + i][long.from + offset + i];
+    }
+    best = Math.max(best, sum / length);
+  }
+  return best;
+}
+
+/**
+ * Names the segments: the loudest repeated cluster is the chorus, quiet
+ * segments are breakdowns and everything else is verse. A chorus entered
+ * from a much quieter segment is a drop, and the ends of the track are
+ * intro and outro unless they are chorus material
+ */
+function assignTypes(segments: Segment[]): StructureSection['type'][] {
+  const members = new Map<number, Segment[]>();
+  for (const segment of segments) {
+    members.set(segment.cluster, [...(members.get(segment.cluster) ?? []), segment]);
+  }
+
+  let chorus = -1;
+  let chorusEnergy = -Infinity;
+  members.forEach((list, cluster) => {
+    const energy = list.reduce((sum, s) => sum + s.energy, 0) / list.length;
+    if (list.length > 1 && energy > chorusEnergy) {
+      chorus = cluster;
+      chorusEnergy = energy;
+    }
+  });
+
+  const types = segments.map((segment): StructureSection['type'] => {
+    const repeated = (members.get(segment.cluster)?.length ?? 0) > 1;
+    if (segment.cluster === chorus || (!repeated && segment.energy >= Math.max(0.8, chorusEnergy))) {
+      return 'chorus';
+    }
+    if (segment.energy < 0.45) {
+      return 'breakdown';
+    }
+    return 'verse';
+  });
+
+  for (let i = 1; i < segments.length; i++) {
+    if (types[i] === 'chorus' && segments[i - 1].energy < segments[i].energy * 0.5) {
+      types[i] = 'drop';
+    }
+  }
+
+  const last = segments.length - 1;
+  if (last > 0 && types[0] !== 'chorus' && types[0] !== 'drop') {
+    types[0] = 'intro';
+  }
+  if (last > 0 && types[last] !== 'chorus' && types[last] !== 'drop') {
+    types[last] = 'outro';
+  }
+  return types;
+}
+
+/**
+ * Label of a cluster: A, B, ... Z, then A2, B2, ...
+ */
+function clusterLabel(cluster: number): string {
+  const letter = String.fromCharCode(65 + (cluster % 26));
+  return cluster < 26 ? letter : `${letter}${Math.floor(cluster / 26) + 1}`;
+}
+
+/**
+ * Triangular mel filters over the power spectrum
+ */
+function createMelFilters(sampleRate: number): { band: number; from: number; to: number; weights: Float64Array }[] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+  const binHz = sampleRate / FFT_SIZE;
+  const low = toMel(MIN_FREQUENCY);
+  const high = toMel(Math.min(MAX_MEL_FREQUENCY, sampleRate / 2));
+  const edges: number[] = [];
+  for (let i = 0; i < MEL_BANDS + 2; i++) {
+    edges.push(toHz(low + ((high - low) * i) / (MEL_BANDS + 1)) / binHz);
+  }
+
+  const filters = [];
+  for (let band = 0; band < MEL_BANDS; band++) {
+    const [left, centre, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    const from = Math.max(1, Math.ceil(left));
+    const to = Math.min(FFT_SIZE / 2, Math.floor(right) + 1);
+    const weights = new Float64Array(Math.max(0, to - from));
+    for (let bin = from; bin < to; bin++) {
+      weights[bin - from] = bin <= centre
+        ? (bin - left) / Math.max(1e-9, centre - left)
+        : (right - bin) / Math.max(1e-9, right - centre);
+    }
+    filters.push({ band, from, to, weights });
+  }
+  return filters;
+}
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Cosine similarity of two vectors (0 if either is zero)
+ */
+function cosine(a: Float64Array, b: Float64Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Median of a list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,432 @@
+/**
+ * TrackAnalysis - Pre-analysis of decoded samples
+ *
+ * Pure functions behind AdvancedAnalyzer's pre-analysis: tempo estimation,
+ * beat tracking, meter detection, section and drop detection and average
+ * energy. They work on plain sample arrays, so the same analysis runs in
+ * the browser on a decoded AudioBuffer and in Node on a decoded WAV file.
+ */
+
+import type { PreAnalysisResult } from './CueScheduler';
+import { detectDrops } from './DropDetector';
+import { extractFeatureTrack } from './FrameSynthesizer';
+import { detectMeter } from './MeterDetector';
+import { analyzeStructure } from './StructureAnalyzer';
+
+/**
+ * Onset envelope frames per second used for tempo estimation
+ */
+const ONSET_RATE = 100;
+
+/**
+ * Default tempo range for tempo estimation
+ */
+const MIN_BPM = 90;
+const MAX_BPM = 180;
+
+/**
+ * Feature frames per second used for meter detection
+ */
+export const METER_FEATURE_RATE = 100;
+
+/**
+ * How strongly beat tracking holds the tempo; higher values allow less
+ * deviation of beat intervals from the target period
+ */
+const BEAT_TIGHTNESS = 100;
+
+/**
+ * Tracked beats
+ */
+export interface BeatTrackingResult {
+  /** Tempo from the median beat interval */
+  bpm: number;
+  /** Beat timestamps in seconds */
+  beats: number[];
+  /** How well the beats line up with onsets, 0-1 */
+  confidence: number;
+}
+
+/**
+ * Options for analyzeTrack
+ */
+export interface TrackAnalysisOptions {
+  /** Known tempo; skips tempo estimation but still tracks beats */
+  bpm?: number;
+  /** Progress callback with the same stages as AdvancedAnalyzer */
+  onProgress?: (stage: string, progress: number) => void;
+}
+
+/**
+ * Run the full pre-analysis on mono samples
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @param options - Analysis options
+ * @returns Pre-analysis results
+ */
+export function analyzeTrack(
+  samples: Float32Array,
+  sampleRate: number,
+  options: TrackAnalysisOptions = {}
+): PreAnalysisResult {
+  const { onProgress } = options;
+
+  onProgress?.('bpm', 20);
+  const { bpm, beats, confidence } = trackBeatGrid(samples, sampleRate, options.bpm);
+
+  onProgress?.('beats', 40);
+  const features = extractFeatureTrack(samples, sampleRate, METER_FEATURE_RATE);
+  const meter = detectMeter(features, beats);
+
+  onProgress?.('sections', 60);
+  const sections = detectSections(samples, sampleRate, meter.downbeats);
+  const drops = detectDrops(features, { beats, downbeats: meter.downbeats, sections });
+
+  onProgress?.('finalizing', 80);
+  const averageEnergy = calculateAverageEnergy(samples);
+  onProgress?.('finalizing', 100);
+
+  return {
+    bpm,
+    beats,
+    downbeats: meter.downbeats,
+    sections,
+    drops,
+    averageEnergy,
+    beatConfidence: confidence,
+    timeSignature: meter.timeSignature,
+    beatsPerBar: meter.beatsPerBar,
+    meters: meter.segments,
+    keySignature: undefined,
+  };
+}
+
+/**
+ * Estimate the tempo from the autocorrelation of an onset envelope
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @returns Tempo in BPM (120 if no periodicity is found)
+ */
+export function estimateBPM(samples: Float32Array, sampleRate: number): number {
+  return estimateTempo(computeOnsetEnvelope(samples, sampleRate), ONSET_RATE)?.bpm ?? 120;
+}
+
+/**
+ * Estimate the tempo of an onset envelope by autocorrelation
+ * @param envelope - Onset strength per frame, mean removed
+ * @param rate - Envelope frames per second
+ * @param minBpm - Slowest tempo considered
+ * @param maxBpm - Fastest tempo considered
+ * @returns Tempo in BPM and confidence 0-1, or null if no periodicity is found
+ */
+export function estimateTempo(
+  envelope: ArrayLike<number>,
+  rate: number,
+  minBpm: number = MIN_BPM,
+  maxBpm: number = MAX_BPM
+): { bpm: number; confidence: number } | null {
+  const minLag = Math.max(1, Math.floor((60 * rate) / maxBpm));
+  const maxLag = Math.ceil((60 * rate) / minBpm);
+  if (envelope.length <= maxLag * 2) {
+    return null;
+  }
+
+  // Autocorrelation over the lags of the tempo range
+  const scores = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i] * envelope[i - lag];
+    }
+    scores[lag] = sum / (envelope.length - lag);
+  }
+
+  let bestLag = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[bestLag]) {
+      bestLag = lag;
+    }
+  }
+  if (scores[bestLag] <= 0) {
+    return null;
+  }
+
+  // Parabolic interpolation between neighbouring lags
+  const left = scores[bestLag - 1];
+  const right = scores[bestLag + 1];
+  const curvature = left - 2 * scores[bestLag] + right;
+  const offset = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+
+  // Confidence relative to the zero-lag energy
+  let energy = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    energy += envelope[i] * envelope[i];
+  }
+  energy /= envelope.length;
+
+  const bpm = (60 * rate) / (bestLag + offset);
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    confidence: energy > 0 ? Math.min(1, scores[bestLag] / energy) : 0,
+  };
+}
+
+/**
+ * Track the beats of a track, falling back to a fixed grid
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @param bpm - Known tempo (estimated if omitted)
+ * @returns Tempo, beats and tracking confidence (0 for the fixed grid)
+ */
+export function trackBeatGrid(
+  samples: Float32Array,
+  sampleRate: number,
+  bpm?: number
+): BeatTrackingResult {
+  const tracked = trackBeats(computeOnsetEnvelope(samples, sampleRate), ONSET_RATE, bpm);
+  if (!tracked) {
+    const fallback = bpm ?? 120;
+    const { beats } = generateBeatGrid(fallback, samples.length / sampleRate);
+    return { bpm: fallback, beats, confidence: 0 };
+  }
+  return tracked;
+}
+
+/**
+ * Track beats in an onset envelope by dynamic programming
+ *
+ * Every frame scores its onset strength plus the best score of a previous
+ * beat, penalized by how far the interval between them strays from the
+ * target period. Backtracking from the best final beat yields the beat
+ * sequence that best balances strong onsets against a steady tempo, so
+ * beats follow tempo drift instead of a fixed grid.
+ * @param envelope - Onset strength per frame, mean removed
+ * @param rate - Envelope frames per second
+ * @param bpm - Target tempo (estimated from the envelope if omitted)
+ * @param tightness - Penalty weight for tempo deviation
+ * @returns Tracked beats, or null if no tempo is found
+ */
+export function trackBeats(
+  envelope: ArrayLike<number>,
+  rate: number,
+  bpm?: number,
+  tightness: number = BEAT_TIGHTNESS
+): BeatTrackingResult | null {
+  const targetBpm = bpm ?? estimateTempo(envelope, rate)?.bpm;
+  if (!targetBpm || envelope.length === 0) {
+    return null;
+  }
+  const period = (60 * rate) / targetBpm;
+
+  // Onsets in units of their standard deviation
+  let variance = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    variance += envelope[i] * envelope[i];
+  }
+  const deviation = Math.sqrt(variance / envelope.length);
+  if (deviation === 0) {
+    return null;
+  }
+  const local = Float64Array.from(envelope, (v) => v / deviation);
+
+  // Best score of a beat sequence ending at each frame
+  const score = new Float64Array(local.length);
+  const backlink = new Int32Array(local.length).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let i = 0; i < local.length; i++) {
+    let best = 0;
+    for (let gap = minGap; gap <= maxGap && gap <= i; gap++) {
+      const stray = Math.log(gap / period);
+      const candidate = score[i - gap] - tightness * stray * stray;
+      if (candidate > best || backlink[i] < 0) {
+        best = candidate;
+        backlink[i] = i - gap;
+      }
+    }
+    score[i] = local[i] + best;
+  }
+
+  // Backtrack from the best beat within the final period
+  let last = Math.max(0, local.length - Math.ceil(period));
+  for (let i = last + 1; i < local.length; i++) {
+    if (score[i] > score[last]) {
+      last = i;
+    }
+  }
+  const frames: number[] = [];
+  for (let i = last; i >= 0; i = backlink[i]) {
+    frames.push(i);
+  }
+  frames.reverse();
+
+  // Drop beats placed in silence before the music starts or after it ends
+  const strength = frames.map((frame) => peakAround(local, frame, 2));
+  const meanStrength = strength.reduce((sum, v) => sum + v, 0) / strength.length;
+  let first = 0;
+  let end = frames.length;
+  while (first < end && strength[first] < meanStrength * 0.5) {
+    first++;
+  }
+  while (end > first && strength[end - 1] < meanStrength * 0.5) {
+    end--;
+  }
+  const kept = frames.slice(first, end);
+  if (kept.length < 2) {
+    return null;
+  }
+
+  // Confidence: onset strength at the beats relative to the strongest
+  // onset within half a beat of each
+  let onBeat = 0;
+  let nearby = 0;
+  for (const frame of kept) {
+    onBeat += peakAround(local, frame, 2);
+    nearby += peakAround(local, frame, Math.floor(period / 2));
+  }
+
+  const intervals = kept.slice(1).map((frame, i) => frame - kept[i]).sort((a, b) => a - b);
+  const median = intervals[Math.floor(intervals.length / 2)];
+
+  // Beats placed on random peaks of noise line up with onsets too, so scale
+  // by how periodic the onsets are at the beat interval, widened by a few
+  // frames so drifting beats still correlate
+  const widened = local.map((_, frame) => peakAround(local, frame, 2));
+  const widenedMean = widened.reduce((sum, v) => sum + v, 0) / widened.length;
+  for (let i = 0; i < widened.length; i++) {
+    widened[i] -= widenedMean;
+  }
+  let correlation = 0;
+  let energy = 0;
+  for (let i = 0; i < widened.length; i++) {
+    energy += widened[i] * widened[i];
+    if (i >= median) {
+      correlation += widened[i] * widened[i - median];
+    }
+  }
+  const periodicity = energy > 0 ? correlation / energy : 0;
+  const alignment = nearby > 0 ? onBeat / nearby : 0;
+
+  return {
+    bpm: Math.round(((60 * rate) / median) * 10) / 10,
+    beats: kept.map((frame) => frame / rate),
+    confidence: alignment * Math.max(0, Math.min(1, periodicity)),
+  };
+}
+
+/**
+ * Generate beat grid from BPM
+ * @param bpm - Beats per minute
+ * @param duration - Track length in seconds
+ * @returns Beat and downbeat timestamps
+ */
+export function generateBeatGrid(bpm: number, duration: number): { beats: number[]; downbeats: number[] } {
+  const beatInterval = 60 / bpm;
+  const beats: number[] = [];
+  const downbeats: number[] = [];
+
+  // Generate beat positions
+  for (let t = 0; t < duration; t += beatInterval) {
+    beats.push(t);
+    // Every 4th beat is a downbeat (4/4 time signature)
+    if (beats.length % 4 === 1) {
+      downbeats.push(t);
+    }
+  }
+
+  return { beats, downbeats };
+}
+
+/**
+ * Detect song sections from the self-similarity of bars
+ * @param samples - Channel data
+ * @param sampleRate - Sample rate in Hz
+ * @param downbeats - Downbeat timestamps; section boundaries snap to them
+ * @returns Array of detected sections, repeats sharing a label
+ */
+export function detectSections(
+  samples: Float32Array,
+  sampleRate: number,
+  downbeats: number[] = []
+): PreAnalysisResult['sections'] {
+  return analyzeStructure(samples, sampleRate, downbeats);
+}
+
+/**
+ * Calculate average energy of the track
+ * @param samples - Channel data
+ * @returns Average energy (RMS, 0-1)
+ */
+export function calculateAverageEnergy(samples: Float32Array): number {
+  if (samples.length === 0) {
+    return 0.5;
+  }
+
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+  }
+
+  return Math.sqrt(energy / samples.length);
+}
+
+/**
+ * Mix channels down to mono
+ * @param channels - Channel data, all the same length
+ * @returns Mono samples
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Gets the strongest positive value within a radius of a frame
+ */
+function peakAround(values: ArrayLike<number>, frame: number, radius: number): number {
+  let peak = 0;
+  const end = Math.min(values.length - 1, frame + radius);
+  for (let i = Math.max(0, frame - radius); i <= end; i++) {
+    peak = Math.max(peak, values[i]);
+  }
+  return peak;
+}
+
+/**
+ * Computes a half-wave rectified log-energy difference at ONSET_RATE
+ */
+function computeOnsetEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+  const hop = sampleRate / ONSET_RATE;
+  const frameCount = Math.floor(samples.length / hop);
+  const envelope = new Float32Array(frameCount);
+  let previous = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.floor(frame * hop);
+    const end = Math.floor((frame + 1) * hop);
+    let energy = 0;
+    for (let i = start; i < end; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const level = Math.log1p(1000 * (energy / (end - start)));
+    envelope[frame] = Math.max(0, level - previous);
+    previous = level;
+  }
+
+  // Remove the mean so silence does not correlate
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / Math.max(1, frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    envelope[i] -= mean;
+  }
+  return envelope;
+}
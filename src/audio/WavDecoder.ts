@@ -0,0 +1,123 @@
+/**
+ * WavDecoder - Decodes RIFF/WAVE files without Web Audio
+ *
+ * Supports integer PCM (8, 16, 24 and 32 bit) and IEEE float (32 and 64
+ * bit), including WAVE_FORMAT_EXTENSIBLE headers. Used where no
+ * AudioContext exists, such as the headless Node pipeline.
+ */
+
+/**
+ * Decoded audio
+ */
+export interface DecodedAudio {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Samples per channel, -1 to 1 */
+  channels: Float32Array[];
+  /** Length in seconds */
+  duration: number;
+}
+
+/**
+ * WAVE format tags
+ */
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Decode a WAV file
+ * @param bytes - File contents
+ * @returns Decoded audio
+ */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || readTag(bytes, 0) !== 'RIFF' || readTag(bytes, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: number | null = null;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: { offset: number; length: number } | null = null;
+
+  // Walk the chunks; chunks are padded to an even length
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      data = { offset: body, length: Math.min(size, bytes.length - body) };
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (format === null || data === null) {
+    throw new Error('WAV file is missing its fmt or data chunk');
+  }
+  if (channelCount < 1 || sampleRate < 1) {
+    throw new Error('Invalid WAV format chunk');
+  }
+
+  const read = getSampleReader(view, format, bitsPerSample);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(data.length / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  let position = data.offset;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][i] = read(position);
+      position += bytesPerSample;
+    }
+  }
+
+  return { sampleRate, channels, duration: frameCount / sampleRate };
+}
+
+/**
+ * Gets a function reading one sample as a float
+ */
+function getSampleReader(view: DataView, format: number, bits: number): (offset: number) => number {
+  if (format === FORMAT_FLOAT) {
+    if (bits === 32) {
+      return (offset) => view.getFloat32(offset, true);
+    }
+    if (bits === 64) {
+      return (offset) => view.getFloat64(offset, true);
+    }
+  } else if (format === FORMAT_PCM) {
+    switch (bits) {
+      case 8:
+        return (offset) => (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return (offset) => view.getInt16(offset, true) / 32768;
+      case 24:
+        return (offset) => {
+          const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+          return value / 8388608;
+        };
+      case 32:
+        return (offset) => view.getInt32(offset, true) / 2147483648;
+    }
+  }
+  throw new Error(`Unsupported WAV encoding: format ${format}, ${bits} bit`);
+}
+
+/**
+ * Reads a four-character chunk tag
+ */
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
@@ -5,9 +5,15 @@
  * - Loading and decoding audio files
  * - Real-time audio feature extraction
  * - Beat and tempo detection
+ * - Downbeat and time signature detection
+ * - Song structure from bar self-similarity with repeat clustering
+ * - Drop and build-up detection with look-ahead
  * - Producing AudioFrame objects for the mapping engine
  * - Advanced pre-analysis with BPM detection and beat grid
  * - Frequency band analysis and cue scheduling
+ * - Synthesizing frames from a pre-analysis for offline rendering
+ * - WAV decoding and pre-analysis without Web Audio (Node)
+ * - Live input with rolling beat and section tracking
  */
 
 // Original analyzers
@@ -21,6 +27,36 @@ export type { EnhancedAudioFrame, AdvancedAnalyzerConfig } from './AdvancedAnaly
 
 export { AnalysisCache } from './AnalysisCache';
 
+export {
+  analyzeTrack,
+  estimateBPM,
+  estimateTempo,
+  trackBeats,
+  trackBeatGrid,
+  generateBeatGrid,
+  detectSections,
+  calculateAverageEnergy,
+  mixToMono,
+} from './TrackAnalysis';
+export type { TrackAnalysisOptions, BeatTrackingResult } from './TrackAnalysis';
+export { decodeWav } from './WavDecoder';
+export type { DecodedAudio } from './WavDecoder';
+
+export { detectMeter } from './MeterDetector';
+export type { MeterAnalysis, MeterSegment, TimeSignature } from './MeterDetector';
+
+export { analyzeStructure } from './StructureAnalyzer';
+export type { StructureSection } from './StructureAnalyzer';
+
+export { detectDrops, DropForecast } from './DropDetector';
+export type { DropEvent, DropAnticipation, RiserKind } from './DropDetector';
+
+export { RollingBeatTracker, LiveSectionTracker } from './LiveTracker';
+export type { LiveBeat, LiveSection, BeatTrackerConfig, SectionTrackerConfig } from './LiveTracker';
+
+export { FrameSynthesizer, extractFeatureTrack } from './FrameSynthesizer';
+export type { FeatureTrack } from './FrameSynthesizer';
+
 export { BeatGrid } from './BeatGrid';
 export type { BeatInfo } from './BeatGrid';
 
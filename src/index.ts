@@ -11,11 +11,31 @@
 // Import from each workstream
 import { AdvancedAnalyzer, EnhancedAudioFrame } from '@audio/AdvancedAnalyzer';
 import { AnalysisCache } from '@audio/AnalysisCache';
+import { FrameSynthesizer, extractFeatureTrack } from '@audio/FrameSynthesizer';
 import { Stage } from '@stage/Stage';
+import { LightingController } from '@stage/LightingController';
 // import { StyleLearner } from '@style/StyleLearner';
 import { MappingEngine } from '@mapping/MappingEngine';
-
-import type { LightingCommand } from '@shared/types';
+import {
+  ShowRecorder,
+  ShowPlayer,
+  encodeRecording,
+  decodeRecording,
+  RECORDING_EXTENSION,
+} from '@mapping/ShowRecorder';
+import {
+  renderShow,
+  getTimelineFrame,
+  getTimelineStates,
+  timelineStatesToCommands,
+  timelineToJSON,
+} from '@mapping/OfflineRenderer';
+import { DmxMapper } from '@output/DmxMapper';
+import { DmxPatch } from '@output/DmxPatch';
+import { encodeDmxDump } from '@output/DmxDump';
+import * as THREE from 'three';
+
+import type { AudioFrame, LightingCommand, MappingConfig, ShowTimeline } from '@shared/types';
 
 console.log('Lightshow Generator initializing...');
 
@@ -30,6 +50,22 @@ interface TrackMetadata {
   duration: number;
 }
 
+/**
+ * Mapping engine settings, shared by live playback and offline rendering
+ */
+const MAPPING_CONFIG: Partial<MappingConfig> = {
+  intensityScale: 1.0,
+  reactivity: 0.7,
+  beatSync: true,
+  strobeMinInterval: 100,
+};
+
+/**
+ * How long a download's object URL stays valid after the link is clicked (ms);
+ * some browsers only start reading the blob after click() returns
+ */
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
 /**
  * Main application class
  */
@@ -42,6 +78,13 @@ class LightshowApp {
   private progressInterval: number | null = null;
   private isDragging = false;
   private animationFrameId: number | null = null;
+  private recorder = new ShowRecorder();
+  private showPlayer: ShowPlayer | null = null;
+  private replayFrameId: number | null = null;
+  private timeline: ShowTimeline | null = null;
+  private frameSynthesizer: FrameSynthesizer | null = null;
+  private liveStream: MediaStream | null = null;
+  private liveSectionUnsubscribe: (() => void) | null = null;
 
   // UI Elements
   private playPauseBtn!: HTMLButtonElement;
@@ -88,19 +131,30 @@ class LightshowApp {
 
     // Make stage available globally for debugging
     (window as any).stage = this.stage;
+
+    // Make recordings available from the console
+    (window as any).lightshow = {
+      saveRecording: () => this.saveRecording(),
+      loadRecording: (file: File) => this.loadRecording(file),
+      renderTimeline: (frameRate?: number) => this.renderTimeline(frameRate),
+      clearTimeline: () => this.clearTimeline(),
+      exportTimeline: () => this.exportTimeline(),
+      exportDmxDump: () => this.exportDmxDump(),
+      startLiveInput: () => this.startLiveInput(),
+      stopLiveInput: () => this.stopLiveInput(),
+      reroll: () => this.reroll(),
+    };
   }
 
   private setupMappingEngine(): void {
-    this.mappingEngine = new MappingEngine({
-      intensityScale: 1.0,
-      reactivity: 0.7,
-      beatSync: true,
-      strobeMinInterval: 100,
-    });
+    this.mappingEngine = new MappingEngine(MAPPING_CONFIG);
 
     // Register fixtures with the mapping engine
     const fixtures = this.stage.getAllFixtures();
-    this.mappingEngine.registerFixtures(fixtures);
+    this.mappingEngine.registerFixtures(
+      fixtures,
+      this.stage.getLightingController().getGroups()
+    );
   }
 
   private setupUI(): void {
@@ -160,17 +214,28 @@ class LightshowApp {
       this.dropZone.classList.remove('dragging');
       const files = e.dataTransfer?.files;
       if (files && files.length > 0) {
-        this.loadAudio(files[0]);
+        this.loadFile(files[0]);
       }
     });
 
     audioInput.addEventListener('change', () => {
       if (audioInput.files && audioInput.files.length > 0) {
-        this.loadAudio(audioInput.files[0]);
+        this.loadFile(audioInput.files[0]);
       }
     });
   }
 
+  /**
+   * Load a dropped file as a show recording or an audio track
+   */
+  private loadFile(file: File): void {
+    if (file.name.toLowerCase().endsWith(RECORDING_EXTENSION)) {
+      this.loadRecording(file);
+    } else {
+      this.loadAudio(file);
+    }
+  }
+
   /**
    * Extract metadata from audio file using jsmediatags
    */
@@ -228,6 +293,11 @@ class LightshowApp {
 
   private async loadAudio(file: File): Promise<void> {
     console.log(`Loading audio file: ${file.name}`);
+    this.stopLiveInput();
+    this.stopReplay();
+    this.clearTimeline();
+    this.mappingEngine.clearShowPlan();
+    this.mappingEngine.reset();
 
     // Extract metadata first
     const metadata = await this.extractMetadata(file);
@@ -276,6 +346,11 @@ class LightshowApp {
         sections: preAnalysis.sections.length
       });
 
+      // Plan the show from the analysis, as the headless pipeline does
+      const plan = this.mappingEngine.getShowPlanner().createPlan(preAnalysis);
+      this.mappingEngine.loadShowPlan(plan);
+      console.log(`Show plan: ${plan.scenes.length} scenes, theme ${plan.globalTheme.name}, seed ${this.mappingEngine.getSeed()}`);
+
       // Update duration
       const duration = this.advancedAnalyzer.getPreAnalysis()?.beats[preAnalysis.beats.length - 1] || 0;
       this.totalTimeEl.textContent = this.formatTime(duration);
@@ -283,6 +358,9 @@ class LightshowApp {
       // Hide loading overlay
       this.hideLoadingOverlay();
 
+      // Record the generated command stream for this track
+      this.recorder.start(metadata.title);
+
       // Start animation loop for frame updates
       this.startAnimationLoop();
 
@@ -345,6 +423,13 @@ class LightshowApp {
 
       frameCount++;
 
+      // A rendered timeline replaces live analysis and mapping
+      if (this.timeline && this.frameSynthesizer) {
+        this.playTimelineFrame(this.timeline, this.frameSynthesizer);
+        this.animationFrameId = requestAnimationFrame(updateFrame);
+        return;
+      }
+
       // Get enhanced audio frame
       const frame: EnhancedAudioFrame = this.advancedAnalyzer.getCurrentFrame();
 
@@ -386,8 +471,13 @@ class LightshowApp {
         sectionConfidence: 0.8
       };
 
+      // Keep beat-synced effects on tempo
+      if (frame.tempo > 0) {
+        this.stage.getLightingController()?.setTempo(frame.tempo);
+      }
+
       // Process audio frame through mapping engine
-      let commands: LightingCommand[] = this.mappingEngine.process(legacyFrame as any);
+      const commands: LightingCommand[] = this.mappingEngine.process(legacyFrame as any);
 
       // Debug: Log commands on beats
       if (frame.isBeat && commands.length > 0) {
@@ -399,35 +489,340 @@ class LightshowApp {
         console.log(`Firing ${frame.cues.length} cues:`, frame.cues.map(c => c.action));
       }
 
-      // Get dim factor from lighting controller
-      const dimFactor = this.stage.getLightingController()?.getPostEffectDimFactor() ?? 1.0;
+      // Capture the batch so the show can be replayed without audio
+      this.recorder.record(legacyFrame as AudioFrame, commands);
 
-      // Apply dim factor to commands if not in manual override
-      if (dimFactor < 1.0) {
-        commands = commands.map(cmd => ({
-          ...cmd,
-          updates: {
-            ...cmd.updates,
-            intensity: (cmd.updates.intensity ?? 1) * dimFactor
-          }
-        }));
+      this.applyFrame(legacyFrame as AudioFrame, commands);
+
+      this.animationFrameId = requestAnimationFrame(updateFrame);
+    };
+
+    updateFrame();
+  }
+
+  /**
+   * Show the rendered timeline frame at the current playback position
+   */
+  private playTimelineFrame(timeline: ShowTimeline, synthesizer: FrameSynthesizer): void {
+    const timeMs = this.advancedAnalyzer!.getCurrentTime() * 1000;
+    const frame = synthesizer.frameAt(timeMs, 1000 / timeline.frameRate);
+
+    this.stage.getLightingController()?.setTempo(frame.tempo);
+    this.applyFrame(frame, timelineStatesToCommands(getTimelineStates(timeline, timeMs)));
+  }
+
+  /**
+   * Apply one frame's commands and audio-reactive visuals to the stage
+   */
+  private applyFrame(frame: AudioFrame, commands: LightingCommand[]): void {
+    // Execute commands on stage (the controller merges them with manual
+    // and cue sources and applies the post-effect dim factor)
+    if (commands.length > 0) {
+      this.stage.executeCommands(commands, 'mapping');
+    }
+
+    // Update flake lights based on audio
+    this.stage.updateFlakeLights(frame as any);
+
+    // Update LED particle panel based on audio
+    this.stage.updateLEDPanel(frame as any);
+  }
+
+  /**
+   * Download the command stream recorded for the current track
+   */
+  async saveRecording(): Promise<void> {
+    const recording = this.recorder.getRecording();
+    if (!recording || recording.frames.length === 0) {
+      console.warn('Nothing recorded yet. Play a track first.');
+      return;
+    }
+
+    const bytes = await encodeRecording(recording);
+    this.download(
+      new Blob([bytes], { type: 'application/gzip' }),
+      `${recording.title || 'lightshow'}${RECORDING_EXTENSION}`
+    );
+  }
+
+  /**
+   * Replay a saved recording on the stage without audio analysis
+   */
+  async loadRecording(file: File): Promise<void> {
+    console.log(`Loading recording: ${file.name}`);
+
+    try {
+      const recording = await decodeRecording(new Uint8Array(await file.arrayBuffer()));
+
+      // Silence any track or live input that is playing
+      this.stopLiveInput();
+      if (this.isPlaying) {
+        this.pause();
       }
+      this.stopReplay();
+
+      this.showPlayer = new ShowPlayer(recording, (entry) => {
+        if (entry.frame.tempo > 0) {
+          this.stage.getLightingController()?.setTempo(entry.frame.tempo);
+        }
+        this.applyFrame(entry.frame, entry.commands);
+      });
+
+      this.updateTrackInfo({
+        title: recording.title || file.name.replace(/\.[^/.]+$/, ''),
+        artist: 'Recorded show',
+        album: '',
+        artwork: null,
+        duration: recording.duration / 1000,
+      });
+      this.totalTimeEl.textContent = this.formatTime(recording.duration / 1000);
+      this.dropZone.classList.add('hidden');
 
-      // Execute commands on stage
-      if (commands.length > 0) {
-        this.stage.executeCommands(commands);
+      this.showPlayer.play();
+      this.playPauseBtn.innerHTML = '❚❚';
+      this.startReplayLoop();
+    } catch (error) {
+      console.error('Failed to load recording:', error);
+      alert('Failed to load recording. Please try another file.');
+    }
+  }
+
+  /**
+   * Drive the show player from the animation clock
+   */
+  private startReplayLoop(): void {
+    let lastTime = performance.now();
+
+    const tick = (now: number) => {
+      if (!this.showPlayer) {
+        return;
       }
 
-      // Update flake lights based on audio
-      this.stage.updateFlakeLights(legacyFrame as any);
+      this.showPlayer.update(now - lastTime);
+      lastTime = now;
 
-      // Update LED particle panel based on audio
-      this.stage.updateLEDPanel(legacyFrame as any);
+      const position = this.showPlayer.getPosition() / 1000;
+      this.updateProgressUI(position, this.showPlayer.getDuration() / 1000);
 
-      this.animationFrameId = requestAnimationFrame(updateFrame);
+      if (!this.showPlayer.isPlaying()) {
+        this.playPauseBtn.innerHTML = '▶';
+        this.replayFrameId = null;
+        return;
+      }
+      this.replayFrameId = requestAnimationFrame(tick);
     };
 
-    updateFrame();
+    this.replayFrameId = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Precompute the lighting of the whole track; playback then follows the
+   * timeline instead of analyzing audio and running the mapping engine
+   * @param frameRate Frames per second
+   */
+  async renderTimeline(frameRate: number = 30): Promise<void> {
+    const analysis = this.advancedAnalyzer?.getPreAnalysis();
+    const buffer = this.advancedAnalyzer?.getAudioBuffer();
+    const samples = this.advancedAnalyzer?.getMonoSamples();
+    if (!analysis || !buffer || !samples) {
+      console.warn('No audio loaded. Please load an audio file first.');
+      return;
+    }
+
+    const features = extractFeatureTrack(samples, buffer.sampleRate, frameRate);
+    const synthesizer = new FrameSynthesizer(analysis, features);
+
+    // Render on a headless rig with the same layout and a fresh engine
+    const rig = new LightingController(new THREE.Scene());
+    rig.createDefaultLayout();
+    const engine = new MappingEngine({ ...MAPPING_CONFIG, seed: this.mappingEngine.getSeed() });
+    engine.registerFixtures(rig.getFixtureStates(), rig.getGroups());
+    engine.loadShowPlan(engine.getShowPlanner().createPlan(analysis));
+
+    const started = performance.now();
+    try {
+      this.timeline = await renderShow(synthesizer, engine, rig, {
+        frameRate,
+        title: this.trackTitleEl.textContent || undefined,
+        onProgress: (progress) => console.log(`Rendering timeline: ${Math.round(progress * 100)}%`),
+      });
+      this.frameSynthesizer = synthesizer;
+    } finally {
+      await rig.dispose();
+    }
+
+    console.log(
+      `Timeline rendered: ${this.timeline.frameCount} frames in ${Math.round(performance.now() - started)}ms`
+    );
+  }
+
+  /**
+   * Try an alternative show for the current track (new looks, variations
+   * and rule choices)
+   * @returns The new seed
+   */
+  reroll(): number | string {
+    const seed = this.mappingEngine.reroll();
+    console.log(`Show seed: ${seed}`);
+    if (this.timeline) {
+      console.log('Call lightshow.renderTimeline() again to render the new show.');
+    }
+    return seed;
+  }
+
+  /**
+   * Return to live analysis and mapping
+   */
+  clearTimeline(): void {
+    this.timeline = null;
+    this.frameSynthesizer = null;
+  }
+
+  /**
+   * Download the rendered timeline as JSON
+   */
+  exportTimeline(): void {
+    if (!this.timeline) {
+      console.warn('No timeline rendered yet. Call lightshow.renderTimeline() first.');
+      return;
+    }
+    this.download(
+      new Blob([timelineToJSON(this.timeline)], { type: 'application/json' }),
+      `${this.timeline.title || 'lightshow'}.timeline.json`
+    );
+  }
+
+  /**
+   * Download the rendered timeline as raw DMX frames. Uses the patch of the
+   * first DMX output, or patches every fixture in order from universe 1.
+   */
+  exportDmxDump(): void {
+    const timeline = this.timeline;
+    if (!timeline) {
+      console.warn('No timeline rendered yet. Call lightshow.renderTimeline() first.');
+      return;
+    }
+
+    let mapper = this.stage.getLightingController().getOutputs()[0]?.getMapper();
+    if (!mapper) {
+      mapper = new DmxMapper();
+      new DmxPatch(mapper).patchSequentially(timeline.tracks);
+    }
+
+    const bytes = encodeDmxDump(mapper, timeline.frameRate, timeline.frameCount, (index) =>
+      getTimelineFrame(timeline, index)
+    );
+    this.download(
+      new Blob([bytes], { type: 'application/octet-stream' }),
+      `${timeline.title || 'lightshow'}.dmx`
+    );
+  }
+
+  /**
+   * Drive the show from the microphone or line-in. Sections and the show
+   * plan grow as the music plays.
+   */
+  async startLiveInput(): Promise<void> {
+    if (this.liveStream) {
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      // Processing meant for speech would flatten the music
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+    } catch (error) {
+      console.error('Failed to open audio input:', error);
+      alert('Could not access the audio input.');
+      return;
+    }
+
+    this.stopReplay();
+    this.clearTimeline();
+    if (this.isPlaying) {
+      this.pause();
+    }
+
+    if (!this.advancedAnalyzer) {
+      this.advancedAnalyzer = new AdvancedAnalyzer({
+        fftSize: 2048,
+        enableCueGeneration: true,
+      });
+    }
+    const analysis = await this.advancedAnalyzer.startLiveInput(stream);
+    this.liveStream = stream;
+
+    // Start from an empty plan and add a scene for every section found
+    const planner = this.mappingEngine.getShowPlanner();
+    this.mappingEngine.loadShowPlan(planner.createPlan(analysis));
+    this.liveSectionUnsubscribe = this.advancedAnalyzer.onSection((section) => {
+      const plan = planner.extendPlan(analysis);
+      console.log(`Live section: ${section.type} at ${section.start.toFixed(1)}s (${plan.scenes.length} scenes)`);
+    });
+
+    const label = stream.getAudioTracks()[0]?.label;
+    this.updateTrackInfo({
+      title: 'Live input',
+      artist: label || '',
+      album: '',
+      artwork: null,
+      duration: 0,
+    });
+    this.dropZone.classList.add('hidden');
+    this.recorder.start('Live input');
+
+    this.isPlaying = true;
+    this.playPauseBtn.innerHTML = '❚❚';
+    this.startProgressUpdates();
+    this.startAnimationLoop();
+    console.log('Live input started');
+  }
+
+  /**
+   * Stop driving the show from the audio input
+   */
+  stopLiveInput(): void {
+    if (!this.liveStream) {
+      return;
+    }
+
+    this.liveSectionUnsubscribe?.();
+    this.liveSectionUnsubscribe = null;
+    this.advancedAnalyzer?.stopLiveInput();
+    this.liveStream.getTracks().forEach((track) => track.stop());
+    this.liveStream = null;
+    this.mappingEngine.clearShowPlan();
+
+    this.isPlaying = false;
+    this.playPauseBtn.innerHTML = '▶';
+    this.stopProgressUpdates();
+    this.stopAnimationLoop();
+    console.log('Live input stopped');
+  }
+
+  /**
+   * Save a blob through a temporary download link
+   */
+  private download(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+  }
+
+  /**
+   * Stop replaying a recording
+   */
+  private stopReplay(): void {
+    if (this.replayFrameId !== null) {
+      cancelAnimationFrame(this.replayFrameId);
+      this.replayFrameId = null;
+    }
+    this.showPlayer = null;
   }
 
   /**
@@ -495,9 +890,9 @@ class LightshowApp {
       const preAnalysis = this.advancedAnalyzer.getPreAnalysis();
       if (!preAnalysis) return;
 
-      const currentFrame = this.advancedAnalyzer.getCurrentFrame();
-      const currentTime = currentFrame.timestamp / 1000;
-      const duration = preAnalysis.beats[preAnalysis.beats.length - 1];
+      // Live input has no end; only the elapsed time is shown
+      const currentTime = this.advancedAnalyzer.getCurrentTime();
+      const duration = this.advancedAnalyzer.isLive() ? 0 : preAnalysis.beats[preAnalysis.beats.length - 1];
 
       this.updateProgressUI(currentTime, duration);
     }, 50);
@@ -613,6 +1008,26 @@ class LightshowApp {
    * Toggle play/pause
    */
   private togglePlayPause(): void {
+    // Replaying a recording
+    if (this.showPlayer) {
+      if (this.showPlayer.isPlaying()) {
+        this.showPlayer.pause();
+      } else {
+        this.showPlayer.play();
+        if (this.replayFrameId === null) {
+          this.startReplayLoop();
+        }
+      }
+      this.playPauseBtn.innerHTML = this.showPlayer.isPlaying() ? '❚❚' : '▶';
+      return;
+    }
+
+    // Live input cannot pause, only stop
+    if (this.liveStream) {
+      this.stopLiveInput();
+      return;
+    }
+
     if (this.isPlaying) {
       this.pause();
     } else {
@@ -631,6 +1046,11 @@ class LightshowApp {
     this.isPlaying = true;
     this.playPauseBtn.innerHTML = '❚❚';
 
+    // Playing from the top replays the same show for the same seed
+    if (this.advancedAnalyzer.getCurrentTime() === 0) {
+      this.mappingEngine.reset();
+    }
+
     // Start audio playback
     this.advancedAnalyzer.play();
 
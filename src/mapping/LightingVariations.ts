@@ -8,23 +8,24 @@
 
 import { AudioFrame, LightingCommand, RGB, EasingType } from '../shared/types';
 import { Scene } from './ShowPlanner';
+import { Random } from '../shared/Random';
 
 export interface LightingVariation {
   name: string;
   weight: number; // Probability weight (higher = more likely)
-  respond: (frame: AudioFrame, scene: Scene) => Partial<LightingCommand>[];
+  respond: (frame: AudioFrame, scene: Scene, random: Random) => Partial<LightingCommand>[];
 }
 
 /**
  * Selects a variation based on weights
  */
-function selectVariation(variations: LightingVariation[]): LightingVariation {
+function selectVariation(variations: LightingVariation[], random: Random): LightingVariation {
   const totalWeight = variations.reduce((sum, v) => sum + v.weight, 0);
-  let random = Math.random() * totalWeight;
+  let remaining = random.next() * totalWeight;
 
   for (const variation of variations) {
-    random -= variation.weight;
-    if (random <= 0) {
+    remaining -= variation.weight;
+    if (remaining <= 0) {
       return variation;
     }
   }
@@ -87,9 +88,8 @@ export const BEAT_VARIATIONS: LightingVariation[] = [
   {
     name: 'color-shift',
     weight: 2.0,
-    respond: (frame, scene) => {
-      const colorIndex = Math.floor(Math.random() * scene.palette.length);
-      const color = scene.palette[colorIndex];
+    respond: (frame, scene, random) => {
+      const color = random.pick(scene.palette);
 
       return [
         {
@@ -104,17 +104,16 @@ export const BEAT_VARIATIONS: LightingVariation[] = [
   {
     name: 'moving-head-snap',
     weight: 2.5,
-    respond: (frame, scene) => {
+    respond: (frame, scene, random) => {
       const positions = scene.look.movingHeadPositions;
-      const posIndex = Math.floor(Math.random() * positions.length);
-      const pos = positions[posIndex];
+      const pos = random.pick(positions);
 
       return [
         {
           targetId: 'moving_head',
           updates: {
-            pan: pos.pan + (Math.random() - 0.5) * 0.1,
-            tilt: pos.tilt + (Math.random() - 0.5) * 0.1,
+            pan: pos.pan + (random.next() - 0.5) * 0.1,
+            tilt: pos.tilt + (random.next() - 0.5) * 0.1,
           },
           transitionMs: 100,
           easing: 'easeOut' as EasingType,
@@ -425,6 +424,21 @@ export class VariationSelector {
   private lastBeatVariation: string = '';
   private lastEnergyVariation: string = '';
   private beatCounter: number = 0;
+  private random: Random;
+
+  /**
+   * @param random Source of variation choices
+   */
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
+  /**
+   * Replace the source of variation choices
+   */
+  setRandom(random: Random): void {
+    this.random = random;
+  }
 
   /**
    * Get beat response with variation
@@ -441,10 +455,10 @@ export class VariationSelector {
       v => v.name !== this.lastBeatVariation
     );
 
-    const variation = selectVariation(availableVariations);
+    const variation = selectVariation(availableVariations, this.random);
     this.lastBeatVariation = variation.name;
 
-    return variation.respond(frame, scene);
+    return variation.respond(frame, scene, this.random);
   }
 
   /**
@@ -460,10 +474,10 @@ export class VariationSelector {
       v => v.name !== this.lastEnergyVariation
     );
 
-    const variation = selectVariation(availableVariations);
+    const variation = selectVariation(availableVariations, this.random);
     this.lastEnergyVariation = variation.name;
 
-    return variation.respond(frame, scene);
+    return variation.respond(frame, scene, this.random);
   }
 
   /**
@@ -475,8 +489,8 @@ export class VariationSelector {
       return [];
     }
 
-    const variation = selectVariation(SPECTRAL_VARIATIONS);
-    return variation.respond(frame, scene);
+    const variation = selectVariation(SPECTRAL_VARIATIONS, this.random);
+    return variation.respond(frame, scene, this.random);
   }
 
   /**
@@ -488,8 +502,8 @@ export class VariationSelector {
       return [];
     }
 
-    const variation = selectVariation(SECTION_VARIATIONS);
-    return variation.respond(frame, scene);
+    const variation = selectVariation(SECTION_VARIATIONS, this.random);
+    return variation.respond(frame, scene, this.random);
   }
 
   /**
@@ -499,5 +513,6 @@ export class VariationSelector {
     this.lastBeatVariation = '';
     this.lastEnergyVariation = '';
     this.beatCounter = 0;
+    this.random.reset();
   }
 }
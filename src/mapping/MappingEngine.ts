@@ -14,9 +14,24 @@ import {
   RGB,
   EasingType,
 } from '../shared/types';
+import { FixtureGroups } from '../shared/FixtureSelector';
+import { Random, Seed } from '../shared/Random';
 import { RuleEvaluator } from './rules/RuleEvaluator';
+import { RuleArbiter, RuleTrace } from './rules/RuleArbiter';
 import { ShowPlanner, ShowPlan, Scene } from './ShowPlanner';
 import { VariationSelector } from './LightingVariations';
+import type { DropEvent } from '../audio/DropDetector';
+
+/**
+ * Beats before a drop that are blacked out
+ */
+const DROP_BLACKOUT_BEATS = 1;
+
+/**
+ * Strobe rate at the start and end of a build-up in Hz
+ */
+const BUILDUP_STROBE_START_RATE = 2;
+const BUILDUP_STROBE_END_RATE = 20;
 
 // Utility functions for smoothing and color conversion
 export function lerp(a: number, b: number, t: number): number {
@@ -78,10 +93,14 @@ export function lerpColor(a: RGB, b: RGB, t: number): RGB {
 export class MappingEngine implements IMappingEngine {
   private config: MappingConfig;
   private fixtures: Fixture[] = [];
+  private fixtureGroups?: FixtureGroups;
   private ruleEvaluator: RuleEvaluator;
+  private ruleArbiter: RuleArbiter = new RuleArbiter();
+  private random: Random;
+  private probabilityRandom: Random;
   private lastFrame: AudioFrame | null = null;
   private commandHistory: { timestamp: number; count: number }[] = [];
-  private lastStrobeTime: number = 0;
+  private lastStrobeTime: number = -Infinity;
   private currentColorIndex: number = 0;
   private smoothedIntensity: number = 0;
   private smoothedPan: number = 0.5;
@@ -93,6 +112,7 @@ export class MappingEngine implements IMappingEngine {
   private showPlanner: ShowPlanner;
   private currentPlan: ShowPlan | null = null;
   private variationSelector: VariationSelector;
+  private blackedOutDrop: DropEvent | null = null;
 
   constructor(config?: Partial<MappingConfig>) {
     this.config = {
@@ -103,6 +123,12 @@ export class MappingEngine implements IMappingEngine {
       ...config,
     };
 
+    // Every random choice derives from the seed, each component with its
+    // own stream
+    this.config.seed ??= Random.randomSeed();
+    this.random = new Random(this.config.seed);
+    this.probabilityRandom = this.random.fork('probability');
+
     const defaultPalette: RGB[] = [
       { r: 1, g: 0, b: 0 },       // Red
       { r: 0, g: 0.5, b: 1 },     // Blue
@@ -113,12 +139,15 @@ export class MappingEngine implements IMappingEngine {
     ];
 
     this.ruleEvaluator = new RuleEvaluator(
-      this.config.styleProfile?.palette.primary || defaultPalette
+      this.config.styleProfile?.palette.primary || defaultPalette,
+      this.random.fork('rules')
     );
+    this.ruleEvaluator.compileRules(this.config.styleProfile?.rules ?? []);
+    this.ruleArbiter.setPolicies(this.config.ruleConflicts);
 
     // Initialize show planning system
-    this.showPlanner = new ShowPlanner();
-    this.variationSelector = new VariationSelector();
+    this.showPlanner = new ShowPlanner(this.random.fork('planner'));
+    this.variationSelector = new VariationSelector(this.random.fork('variations'));
   }
 
   /**
@@ -126,22 +155,22 @@ export class MappingEngine implements IMappingEngine {
    */
   process(frame: AudioFrame): LightingCommand[] {
     const commands: LightingCommand[] = [];
-    const now = Date.now();
+    const now = frame.timestamp;
 
     // Update command history for rate calculation
     this.commandHistory.push({ timestamp: now, count: 0 });
-    this.commandHistory = this.commandHistory.filter(h => now - h.timestamp < 1000);
+    this.commandHistory = this.commandHistory.filter(h => now - h.timestamp >= 0 && now - h.timestamp < 1000);
 
     // If we have a show plan, use intelligent planning system
     if (this.currentPlan) {
       commands.push(...this.processWithShowPlan(frame));
     }
-    // If we have a style profile, process rules
-    else if (this.config.styleProfile) {
+    // If we have a style profile, process rules (over the plan, if any)
+    if (this.config.styleProfile) {
       commands.push(...this.processStyleRules(frame));
     }
     // Use default mapping behavior
-    else {
+    else if (!this.currentPlan) {
       commands.push(...this.processDefaultMapping(frame));
     }
 
@@ -170,6 +199,68 @@ export class MappingEngine implements IMappingEngine {
     // Add variation responses
     commands.push(...this.applyVariations(frame, scene));
 
+    // Build tension towards the next drop
+    commands.push(...this.applyDropAnticipation(frame));
+
+    return commands;
+  }
+
+  /**
+   * Builds up to drops: a crescendo and accelerating strobes through the
+   * build-up, a blackout on the last beat and a full hit on the drop
+   */
+  private applyDropAnticipation(frame: AudioFrame): LightingCommand[] {
+    const commands: LightingCommand[] = [];
+    const time = frame.timestamp / 1000;
+    const ahead = this.showPlanner.getDropAhead(time);
+
+    // Land the drop that was blacked out
+    if (this.blackedOutDrop && ahead?.drop !== this.blackedOutDrop) {
+      if (time >= this.blackedOutDrop.time) {
+        commands.push({
+          targetId: 'all',
+          updates: { intensity: 1.0 },
+          transitionMs: 0,
+          easing: 'snap',
+        });
+      }
+      this.blackedOutDrop = null;
+    }
+
+    if (!ahead) {
+      return commands;
+    }
+
+    if (ahead.beatsToDrop <= DROP_BLACKOUT_BEATS) {
+      this.blackedOutDrop = ahead.drop;
+      commands.push({
+        targetId: 'all',
+        updates: { intensity: 0 },
+        transitionMs: 0,
+        easing: 'snap',
+      });
+      return commands;
+    }
+
+    if (ahead.inBuildup) {
+      const progress = ahead.buildupProgress;
+      commands.push({
+        targetId: 'wash',
+        updates: { intensity: lerp(0.4, 1.0, easeIn(progress)) },
+        transitionMs: 100,
+        easing: 'linear',
+      });
+      commands.push({
+        targetId: 'strobe',
+        updates: {
+          intensity: easeIn(progress),
+          rate: BUILDUP_STROBE_START_RATE * (BUILDUP_STROBE_END_RATE / BUILDUP_STROBE_START_RATE) ** progress,
+        },
+        transitionMs: 0,
+        easing: 'snap',
+      });
+    }
+
     return commands;
   }
 
@@ -280,6 +371,7 @@ export class MappingEngine implements IMappingEngine {
    */
   loadShowPlan(plan: ShowPlan): void {
     this.currentPlan = plan;
+    this.blackedOutDrop = null;
     this.variationSelector.reset();
   }
 
@@ -288,6 +380,7 @@ export class MappingEngine implements IMappingEngine {
    */
   clearShowPlan(): void {
     this.currentPlan = null;
+    this.blackedOutDrop = null;
     this.variationSelector.reset();
   }
 
@@ -313,23 +406,33 @@ export class MappingEngine implements IMappingEngine {
       (a, b) => b.priority - a.priority
     );
 
-    // Evaluate each rule
+    // Evaluate each rule; the arbiter settles exclusive groups and
+    // attributes set by more than one rule
+    this.ruleArbiter.beginFrame(frame);
     for (const rule of sortedRules) {
       if (this.ruleEvaluator.evaluate(rule, frame, this.lastFrame || undefined)) {
         // Check probability
-        if (Math.random() <= rule.probability) {
+        if (this.probabilityRandom.next() > rule.probability) {
+          this.ruleArbiter.skip(rule);
+          continue;
+        }
+
+        if (this.ruleArbiter.claim(rule, frame)) {
+          this.ruleEvaluator.recordTrigger(rule, frame);
+
           // Execute action
           const ruleCommands = this.ruleEvaluator.executeAction(
             rule.action,
             frame,
-            this.fixtures
+            this.fixtures,
+            this.fixtureGroups
           );
-          commands.push(...ruleCommands);
+          this.ruleArbiter.add(rule, ruleCommands);
         }
       }
     }
 
-    return commands;
+    return this.ruleArbiter.endFrame(frame);
   }
 
   /**
@@ -428,11 +531,13 @@ export class MappingEngine implements IMappingEngine {
       });
     }
 
-    // 7. Add strobe on high spectral flux (with rate limiting)
-    const now = Date.now();
+    // 7. Add strobe on high spectral flux (rate limited on the audio clock,
+    // so offline renders match playback; seeking backwards resets the limit)
+    const now = frame.timestamp;
+    const sinceStrobe = now - this.lastStrobeTime;
     if (
       frame.spectralFlux > 0.7 &&
-      now - this.lastStrobeTime > this.config.strobeMinInterval
+      (sinceStrobe < 0 || sinceStrobe > this.config.strobeMinInterval)
     ) {
       const strobeCommands = this.fixtures
         .filter(f => f.type === 'strobe')
@@ -505,10 +610,14 @@ export class MappingEngine implements IMappingEngine {
 
   /**
    * Load a style profile
+   * @throws Error if a rule's custom condition does not compile
    */
   loadStyle(profile: StyleProfile): void {
+    const ruleEvaluator = new RuleEvaluator(profile.palette.primary, this.random.fork('rules'));
+    ruleEvaluator.compileRules(profile.rules);
     this.config.styleProfile = profile;
-    this.ruleEvaluator = new RuleEvaluator(profile.palette.primary);
+    this.ruleEvaluator = ruleEvaluator;
+    this.ruleArbiter.reset();
   }
 
   /**
@@ -524,19 +633,95 @@ export class MappingEngine implements IMappingEngine {
       { r: 0, g: 1, b: 0.5 },
       { r: 1, g: 0, b: 0.5 },
     ];
-    this.ruleEvaluator = new RuleEvaluator(defaultPalette);
+    this.ruleEvaluator = new RuleEvaluator(defaultPalette, this.random.fork('rules'));
+    this.ruleArbiter.reset();
   }
 
   /**
    * Update configuration
+   * @throws Error if a new style profile's custom conditions do not compile
    */
   configure(config: Partial<MappingConfig>): void {
-    this.config = { ...this.config, ...config };
-
     // Update rule evaluator palette if style profile changed
     if (config.styleProfile) {
-      this.ruleEvaluator = new RuleEvaluator(config.styleProfile.palette.primary);
+      const ruleEvaluator = new RuleEvaluator(config.styleProfile.palette.primary, this.random.fork('rules'));
+      ruleEvaluator.compileRules(config.styleProfile.rules);
+      this.ruleEvaluator = ruleEvaluator;
+      this.ruleArbiter.reset();
     }
+
+    const seedChanged = config.seed !== undefined && config.seed !== this.config.seed;
+    this.config = { ...this.config, ...config };
+    this.ruleArbiter.setPolicies(this.config.ruleConflicts);
+    if (seedChanged) {
+      this.setSeed(config.seed as Seed);
+    }
+  }
+
+  /**
+   * Get the seed of the current show
+   */
+  getSeed(): Seed {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Restart every random choice from a seed and re-plan the loaded show
+   */
+  setSeed(seed: Seed): void {
+    this.config.seed = seed;
+    this.random = new Random(seed);
+    this.reset();
+
+    const plan = this.currentPlan ? this.showPlanner.replan() : null;
+    if (plan) {
+      this.loadShowPlan(plan);
+    }
+  }
+
+  /**
+   * Restart the show from its seed: every random stream, rule cooldowns and
+   * the smoothed state start over, so playing the same audio again gives
+   * the same output. Call when a track is loaded or playback restarts.
+   */
+  reset(): void {
+    this.probabilityRandom = this.random.fork('probability');
+    this.ruleEvaluator.setRandom(this.random.fork('rules'));
+    this.ruleEvaluator.reset();
+    this.ruleArbiter.reset();
+    this.variationSelector.setRandom(this.random.fork('variations'));
+    this.variationSelector.reset();
+    this.showPlanner.setRandom(this.random.fork('planner'));
+
+    this.lastFrame = null;
+    this.commandHistory = [];
+    this.lastStrobeTime = -Infinity;
+    this.currentColorIndex = 0;
+    this.smoothedIntensity = 0;
+    this.smoothedPan = 0.5;
+    this.smoothedTilt = 0.5;
+    this.baseColor = { r: 0, g: 0.5, b: 1 };
+    this.lastBeatNumber = 0;
+    this.blackedOutDrop = null;
+  }
+
+  /**
+   * Try an alternative show: switch to a new seed derived from the current
+   * one (so repeated rerolls are reproducible too) and re-plan
+   * @returns The new seed, to reproduce this alternative later
+   */
+  reroll(): Seed {
+    const seed = this.random.fork('reroll').int(0x100000000);
+    this.setSeed(seed);
+    return seed;
+  }
+
+  /**
+   * Get which style rules fired, were skipped or were overruled in the last
+   * frame processed with a style profile
+   */
+  getRuleTrace(): RuleTrace | null {
+    return this.ruleArbiter.getTrace();
   }
 
   /**
@@ -556,8 +741,10 @@ export class MappingEngine implements IMappingEngine {
 
   /**
    * Register fixtures so the engine knows what fixtures exist
+   * @param groups Named groups that style actions can target as "@name"
    */
-  registerFixtures(fixtures: Fixture[]): void {
+  registerFixtures(fixtures: Fixture[], groups?: FixtureGroups): void {
     this.fixtures = fixtures;
+    this.fixtureGroups = groups;
   }
 }
\ No newline at end of file
@@ -0,0 +1,418 @@
+/**
+ * OfflineRenderer - Precomputes a full-track lighting timeline
+ *
+ * The renderer walks a track at a fixed frame rate, feeds synthesized audio
+ * frames through the mapping engine into a lighting controller and samples
+ * every fixture's state after each frame. The resulting timeline stores one
+ * column per fixture attribute, so playback is a lookup instead of a frame
+ * of audio analysis and rule evaluation, and it can be exported as JSON or
+ * rendered into DMX channel dumps.
+ */
+
+import type {
+  AudioFrame,
+  Fixture,
+  FixtureUpdates,
+  LightingCommand,
+  ShowTimeline,
+  TimelineTrack,
+} from '../shared/types';
+
+/**
+ * Current timeline format version
+ */
+export const TIMELINE_VERSION = 1;
+
+/**
+ * Format identifier written into exported timelines
+ */
+const TIMELINE_FORMAT = 'lightshow-timeline';
+
+/**
+ * Fixture fields that never change during a show
+ */
+const STATIC_KEYS = new Set(['id', 'type', 'position']);
+
+/**
+ * Frames rendered between yields to the event loop
+ */
+const FRAMES_PER_YIELD = 300;
+
+/**
+ * Produces the audio frames to render
+ */
+export interface FrameSource {
+  /** Track length in seconds */
+  getDuration(): number;
+  /** Audio frame at a time, covering frameMs before it */
+  frameAt(timeMs: number, frameMs: number): AudioFrame;
+}
+
+/**
+ * Mapping stage the renderer drives (satisfied by MappingEngine)
+ */
+export interface FrameMapper {
+  process(frame: AudioFrame): LightingCommand[];
+}
+
+/**
+ * Lighting rig the renderer drives (satisfied by LightingController)
+ */
+export interface TimelineTarget {
+  executeCommands(commands: LightingCommand[], source?: string): void;
+  update(deltaTime: number): void;
+  setTempo(bpm: number): void;
+  getFixtureStates(): Fixture[];
+}
+
+/**
+ * Offline render options
+ */
+export interface RenderOptions {
+  /** Frames per second (default 30) */
+  frameRate?: number;
+  /** Length to render in seconds (defaults to the source's duration) */
+  duration?: number;
+  /** Track title stored in the timeline */
+  title?: string;
+  /** Called with progress 0-1 as frames are rendered */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Render a show into a timeline
+ * @param source Audio frames to render
+ * @param mapper Mapping engine turning frames into commands
+ * @param target Lighting rig executing the commands; it should be fresh,
+ *   since its state at the start becomes the first frame
+ * @param options Render options
+ * @returns Timeline with one sample per frame
+ */
+export async function renderShow(
+  source: FrameSource,
+  mapper: FrameMapper,
+  target: TimelineTarget,
+  options: RenderOptions = {}
+): Promise<ShowTimeline> {
+  const frameRate = options.frameRate ?? 30;
+  if (!(frameRate > 0)) {
+    throw new Error(`Invalid frame rate: ${frameRate}`);
+  }
+
+  const frameMs = 1000 / frameRate;
+  const duration = options.duration ?? source.getDuration();
+  const frameCount = Math.max(1, Math.ceil(duration * frameRate));
+  const builders = new Map<string, TrackBuilder>();
+
+  for (let i = 0; i < frameCount; i++) {
+    const frame = source.frameAt(i * frameMs, frameMs);
+    if (frame.tempo > 0) {
+      target.setTempo(frame.tempo);
+    }
+
+    const commands = mapper.process(frame);
+    if (commands.length > 0) {
+      target.executeCommands(commands, 'mapping');
+    }
+    target.update(frameMs);
+
+    for (const state of target.getFixtureStates()) {
+      let builder = builders.get(state.id);
+      if (!builder) {
+        builder = new TrackBuilder(state, i);
+        builders.set(state.id, builder);
+      }
+      builder.sample(state, i);
+    }
+
+    if ((i + 1) % FRAMES_PER_YIELD === 0 && i + 1 < frameCount) {
+      options.onProgress?.((i + 1) / frameCount);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+  options.onProgress?.(1);
+
+  return {
+    version: TIMELINE_VERSION,
+    title: options.title,
+    frameRate,
+    frameCount,
+    duration: frameCount * frameMs,
+    tracks: Array.from(builders.values()).map((builder) => builder.build(frameCount)),
+  };
+}
+
+/**
+ * Get the frame index shown at a time
+ * @param timeline Timeline
+ * @param timeMs Time in milliseconds
+ */
+export function getTimelineFrameIndex(timeline: ShowTimeline, timeMs: number): number {
+  const index = Math.floor((timeMs * timeline.frameRate) / 1000);
+  return Math.max(0, Math.min(timeline.frameCount - 1, index));
+}
+
+/**
+ * Reconstruct every fixture's state at a frame
+ * @param timeline Timeline
+ * @param index Frame index
+ * @returns Fixture states
+ */
+export function getTimelineFrame(timeline: ShowTimeline, index: number): Fixture[] {
+  return timeline.tracks.map((track) => {
+    const state = JSON.parse(JSON.stringify(track.base)) as Record<string, unknown>;
+    const width = track.attributes.length;
+    const offset = index * width;
+
+    for (let a = 0; a < width; a++) {
+      const value = track.data[offset + a];
+      if (Number.isNaN(value)) {
+        continue;
+      }
+      setPath(state, track.attributes[a], decodeValue(track, a, value));
+    }
+    return state as unknown as Fixture;
+  });
+}
+
+/**
+ * Reconstruct every fixture's state at a time
+ * @param timeline Timeline
+ * @param timeMs Time in milliseconds
+ * @returns Fixture states
+ */
+export function getTimelineStates(timeline: ShowTimeline, timeMs: number): Fixture[] {
+  return getTimelineFrame(timeline, getTimelineFrameIndex(timeline, timeMs));
+}
+
+/**
+ * Turn sampled fixture states into commands that snap a rig to them
+ * @param states Fixture states from the timeline
+ * @returns One snap command per fixture
+ */
+export function timelineStatesToCommands(states: Fixture[]): LightingCommand[] {
+  return states.map((state) => {
+    const { id, type, position: _position, ...rest } = state;
+    const updates = rest as FixtureUpdates & { length?: number };
+
+    // Sampled cells already contain the rendered pixel effect
+    if (type === 'pixel_bar') {
+      updates.effect = 'none';
+      delete updates.length;
+    }
+    return { targetId: id, updates, transitionMs: 0, easing: 'snap' };
+  });
+}
+
+/**
+ * Exported timeline file layout
+ */
+interface TimelineFile {
+  format: string;
+  version: number;
+  title?: string;
+  frameRate: number;
+  frameCount: number;
+  duration: number;
+  tracks: (Omit<TimelineTrack, 'data'> & { data: (number | null)[] })[];
+}
+
+/**
+ * Serialize a timeline to JSON
+ *
+ * Track samples are written with the fewest digits that read back as the
+ * same 32-bit value, so the export is compact but lossless; every other
+ * number (timing, base states) is written as is.
+ * @param timeline Timeline
+ * @returns JSON text (unset values are null)
+ */
+export function timelineToJSON(timeline: ShowTimeline): string {
+  const file: TimelineFile = {
+    format: TIMELINE_FORMAT,
+    version: timeline.version,
+    title: timeline.title,
+    frameRate: timeline.frameRate,
+    frameCount: timeline.frameCount,
+    duration: timeline.duration,
+    tracks: timeline.tracks.map((track) => ({
+      ...track,
+      data: Array.from(track.data, (v) => (Number.isNaN(v) ? null : shortestFloat32(v))),
+    })),
+  };
+
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse a timeline exported with timelineToJSON
+ * @param json JSON text
+ * @returns Timeline
+ */
+export function timelineFromJSON(json: string): ShowTimeline {
+  const file = JSON.parse(json) as TimelineFile;
+  if (file.format !== TIMELINE_FORMAT) {
+    throw new Error('Not a lightshow timeline');
+  }
+  if (file.version > TIMELINE_VERSION) {
+    throw new Error(`Unsupported timeline version: ${file.version}`);
+  }
+
+  return {
+    version: file.version,
+    title: file.title,
+    frameRate: file.frameRate,
+    frameCount: file.frameCount,
+    duration: file.duration,
+    tracks: file.tracks.map((track) => ({
+      ...track,
+      data: Float32Array.from(track.data, (v) => (v === null ? NaN : v)),
+    })),
+  };
+}
+
+/**
+ * Shortest decimal that converts back to the same 32-bit float
+ * (e.g. 0.3 instead of 0.30000001192092896)
+ */
+function shortestFloat32(value: number): number {
+  for (let digits = 1; digits < 9; digits++) {
+    const short = Number(value.toPrecision(digits));
+    if (Math.fround(short) === value) {
+      return short;
+    }
+  }
+  return value;
+}
+
+/**
+ * Collects the samples of one fixture while rendering
+ */
+class TrackBuilder {
+  private base: Fixture;
+  private startFrame: number;
+  private attributes: Map<string, number> = new Map();
+  private kinds: TimelineTrack['kinds'] = [];
+  private strings: Map<string, number> = new Map();
+  private rows: number[][] = [];
+
+  constructor(base: Fixture, startFrame: number) {
+    this.base = JSON.parse(JSON.stringify(base));
+    this.startFrame = startFrame;
+  }
+
+  /**
+   * Records the state of the fixture at a frame
+   */
+  sample(state: Fixture, frame: number): void {
+    const row: number[] = [];
+    flatten(state as unknown as Record<string, unknown>, '', (path, value) => {
+      let index = this.attributes.get(path);
+      if (index === undefined) {
+        index = this.attributes.size;
+        this.attributes.set(path, index);
+        this.kinds.push(typeof value as TimelineTrack['kinds'][0]);
+      }
+      row[index] = this.encodeValue(index, value);
+    });
+    this.rows[frame - this.startFrame] = row;
+  }
+
+  /**
+   * Packs the samples into a track
+   */
+  build(frameCount: number): TimelineTrack {
+    const width = this.attributes.size;
+    const data = new Float32Array(frameCount * width).fill(NaN);
+
+    this.rows.forEach((row, i) => {
+      const offset = (i + this.startFrame) * width;
+      row.forEach((value, a) => {
+        data[offset + a] = value;
+      });
+    });
+
+    return {
+      id: this.base.id,
+      type: this.base.type,
+      base: this.base,
+      attributes: Array.from(this.attributes.keys()),
+      kinds: this.kinds,
+      strings: Array.from(this.strings.keys()),
+      data,
+    };
+  }
+
+  /**
+   * Encodes a leaf value as a number of the attribute's kind
+   */
+  private encodeValue(index: number, value: number | boolean | string): number {
+    switch (this.kinds[index]) {
+      case 'boolean':
+        return value ? 1 : 0;
+      case 'string': {
+        const text = String(value);
+        let id = this.strings.get(text);
+        if (id === undefined) {
+          id = this.strings.size;
+          this.strings.set(text, id);
+        }
+        return id;
+      }
+      default:
+        return typeof value === 'number' ? value : NaN;
+    }
+  }
+}
+
+/**
+ * Visits the leaf values of a fixture state (static fields are skipped)
+ */
+function flatten(
+  value: Record<string, unknown> | unknown[],
+  prefix: string,
+  visit: (path: string, value: number | boolean | string) => void
+): void {
+  for (const [key, inner] of Object.entries(value)) {
+    if (prefix === '' && STATIC_KEYS.has(key)) {
+      continue;
+    }
+    const path = `${prefix}${key}`;
+    if (typeof inner === 'number' || typeof inner === 'boolean' || typeof inner === 'string') {
+      visit(path, inner);
+    } else if (inner !== null && typeof inner === 'object') {
+      flatten(inner as Record<string, unknown>, `${path}.`, visit);
+    }
+  }
+}
+
+/**
+ * Decodes a stored number back to the attribute's kind
+ */
+function decodeValue(track: TimelineTrack, attribute: number, value: number): unknown {
+  switch (track.kinds[attribute]) {
+    case 'boolean':
+      return value !== 0;
+    case 'string':
+      return track.strings[value];
+    default:
+      return value;
+  }
+}
+
+/**
+ * Sets a dotted path, creating objects and arrays along the way
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target as Record<string, unknown>;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    let next = node[keys[i]];
+    if (next === null || typeof next !== 'object') {
+      next = /^\d+$/.test(keys[i + 1]) ? [] : {};
+      node[keys[i]] = next;
+    }
+    node = next as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
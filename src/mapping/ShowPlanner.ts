@@ -5,10 +5,13 @@
  * - Dramatic scene changes based on song sections
  * - Predefined lighting looks with variation
  * - Contextual feature usage (flakes, strobes, movement patterns)
+ * - Build-up scenes before drops, and look-ahead to the next drop
  */
 
 import { PreAnalysisResult } from '../audio/CueScheduler';
+import { DropAnticipation, DropEvent, DropForecast } from '../audio/DropDetector';
 import { RGB } from '../shared/types';
+import { Random } from '../shared/Random';
 
 export type SongSection = 'intro' | 'verse' | 'chorus' | 'drop' | 'breakdown' | 'buildup' | 'bridge' | 'outro';
 
@@ -16,6 +19,8 @@ export interface ShowPlan {
   scenes: Scene[];
   transitions: Transition[];
   globalTheme: LightingTheme;
+  /** Drops the plan builds up to */
+  drops?: DropEvent[];
 }
 
 export interface Scene {
@@ -167,11 +172,35 @@ const SECTION_LOOK_TEMPLATES: Record<SongSection, string[]> = {
  */
 export class ShowPlanner {
   private currentPlan: ShowPlan | null = null;
+  private analysis: PreAnalysisResult | null = null;
+  private dropForecast: DropForecast | null = null;
+  private plannedSections = 0;
+  private random: Random;
+
+  /**
+   * @param random Source of look and palette choices
+   */
+  constructor(random: Random = new Random()) {
+    this.random = random;
+  }
+
+  /**
+   * Replace the source of look and palette choices
+   */
+  setRandom(random: Random): void {
+    this.random = random;
+  }
 
   /**
    * Creates a show plan from pre-analysis results
+   *
+   * Choices restart from the seed on every call, so the same analysis and
+   * seed always give the same plan.
    */
   createPlan(analysis: PreAnalysisResult): ShowPlan {
+    this.random.reset();
+    this.analysis = analysis;
+
     // Determine global theme based on average energy
     const globalTheme = this.selectGlobalTheme(analysis);
 
@@ -180,9 +209,27 @@ export class ShowPlanner {
     for (let i = 0; i < analysis.sections.length; i++) {
       const section = analysis.sections[i];
       const scene = this.createSceneFromSection(section, i, analysis.bpm);
+
+      // A repeat of earlier material of the same type gets the same look
+      const repeat = section.label
+        ? analysis.sections.findIndex((s, j) => j < i && s.label === section.label && s.type === section.type)
+        : -1;
+      if (repeat >= 0) {
+        scene.look = scenes[repeat].look;
+        scene.palette = scenes[repeat].palette;
+      }
       scenes.push(scene);
     }
 
+    // Build-ups become scenes of their own that end on the drop
+    const drops = analysis.drops ?? [];
+    for (const drop of drops) {
+      if (drop.buildupStart !== null) {
+        this.insertBuildup(scenes, drop.buildupStart, drop.time, analysis);
+      }
+    }
+    this.dropForecast = new DropForecast(drops, analysis.beats);
+
     // Create transitions between scenes
     const transitions: Transition[] = [];
     for (let i = 0; i < scenes.length - 1; i++) {
@@ -194,7 +241,47 @@ export class ShowPlanner {
       scenes,
       transitions,
       globalTheme,
+      drops,
     };
+    this.plannedSections = analysis.sections.length;
+
+    return this.currentPlan;
+  }
+
+  /**
+   * Extends the current plan with sections found since it was created
+   *
+   * For live input the section list grows while the show runs. Scenes that
+   * already exist keep their looks; only their end times follow the
+   * sections, and new sections are appended with transitions into them.
+   */
+  extendPlan(analysis: PreAnalysisResult): ShowPlan {
+    if (!this.currentPlan) {
+      return this.createPlan(analysis);
+    }
+    this.analysis = analysis;
+
+    const { scenes, transitions } = this.currentPlan;
+    for (let i = 0; i < analysis.sections.length; i++) {
+      const section = analysis.sections[i];
+      if (i < this.plannedSections) {
+        // Build-up scenes shift the indexes, so find the scene ending the
+        // section by time; a build-up keeps ending on its drop
+        const last = this.getLastSceneIn(section);
+        if (last) {
+          last.endTime = Math.max(last.endTime, section.end);
+        }
+        continue;
+      }
+
+      const index = scenes.length;
+      const scene = this.createSceneFromSection(section, index, analysis.bpm);
+      scenes.push(scene);
+      if (index > 0) {
+        transitions.push(this.createTransition(scenes[index - 1], scene, index - 1, index));
+      }
+    }
+    this.plannedSections = analysis.sections.length;
 
     return this.currentPlan;
   }
@@ -224,6 +311,16 @@ export class ShowPlanner {
     return null;
   }
 
+  /**
+   * Looks ahead to the next drop of the planned track
+   * @param time Time in seconds
+   * @param horizonBeats Ignore drops further away than this many beats
+   * @returns The next drop and the beats until it, or null if none
+   */
+  getDropAhead(time: number, horizonBeats?: number): DropAnticipation | null {
+    return this.dropForecast?.getNextDrop(time, horizonBeats) ?? null;
+  }
+
   /**
    * Gets the current plan
    */
@@ -231,6 +328,27 @@ export class ShowPlanner {
     return this.currentPlan;
   }
 
+  /**
+   * Recreates the current plan from the same analysis, with the current
+   * source of choices (after a new seed, to try alternative looks)
+   */
+  replan(): ShowPlan | null {
+    return this.analysis ? this.createPlan(this.analysis) : null;
+  }
+
+  /**
+   * Gets the last planned scene starting inside a section
+   */
+  private getLastSceneIn(section: { start: number; end: number }): Scene | null {
+    let last: Scene | null = null;
+    for (const scene of this.currentPlan?.scenes ?? []) {
+      if (scene.startTime === section.start || (scene.startTime > section.start && scene.startTime < section.end)) {
+        last = scene;
+      }
+    }
+    return last;
+  }
+
   /**
    * Selects a global theme based on analysis
    */
@@ -287,17 +405,46 @@ export class ShowPlanner {
     }
   }
 
+  /**
+   * Replaces the scenes between a build-up start and its drop with a
+   * build-up scene; a scene running through the drop is split there
+   */
+  private insertBuildup(scenes: Scene[], start: number, drop: number, analysis: PreAnalysisResult): void {
+    const through = scenes.find((s) => s.startTime < drop && s.endTime > drop);
+    if (through) {
+      scenes.push({ ...through, startTime: drop });
+      through.endTime = drop;
+    }
+
+    for (let i = scenes.length - 1; i >= 0; i--) {
+      const scene = scenes[i];
+      if (scene.startTime >= drop || scene.endTime <= start) {
+        continue;
+      }
+      if (scene.startTime >= start) {
+        scenes.splice(i, 1);
+      } else {
+        scene.endTime = start;
+      }
+    }
+
+    const section = analysis.sections.find((s) => start >= s.start && start < s.end);
+    const energy = section?.energy ?? analysis.averageEnergy;
+    scenes.push(this.createSceneFromSection({ start, end: drop, type: 'buildup', energy }, scenes.length, analysis.bpm));
+    scenes.sort((a, b) => a.startTime - b.startTime);
+  }
+
   /**
    * Creates a scene from a section
    */
   private createSceneFromSection(
-    section: PreAnalysisResult['sections'][0],
+    section: { start: number; end: number; type: SongSection; energy: number },
     index: number,
     bpm: number
   ): Scene {
     // Select random look from section templates
     const lookTemplates = SECTION_LOOK_TEMPLATES[section.type] || ['minimal'];
-    const lookName = lookTemplates[Math.floor(Math.random() * lookTemplates.length)];
+    const lookName = this.random.pick(lookTemplates);
     const look = PREDEFINED_LOOKS[lookName];
 
     // Determine intensity based on section type and energy
@@ -373,9 +520,9 @@ export class ShowPlanner {
    */
   private colorVariation(color: RGB, amount: number): RGB {
     return {
-      r: Math.max(0, Math.min(1, color.r + (Math.random() - 0.5) * amount)),
-      g: Math.max(0, Math.min(1, color.g + (Math.random() - 0.5) * amount)),
-      b: Math.max(0, Math.min(1, color.b + (Math.random() - 0.5) * amount)),
+      r: Math.max(0, Math.min(1, color.r + (this.random.next() - 0.5) * amount)),
+      g: Math.max(0, Math.min(1, color.g + (this.random.next() - 0.5) * amount)),
+      b: Math.max(0, Math.min(1, color.b + (this.random.next() - 0.5) * amount)),
     };
   }
 
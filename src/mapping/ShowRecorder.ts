@@ -0,0 +1,343 @@
+/**
+ * ShowRecorder - Capture and replay of the lighting command stream
+ *
+ * The recorder stores every command batch the mapping engine emits along
+ * with the audio frame that produced it. Recordings are saved as gzipped,
+ * column-packed JSON and replayed frame by frame, so a show can be reviewed,
+ * diffed against another generator version or demoed without the track.
+ */
+
+import { AudioFrame, LightingCommand, RecordedFrame, ShowRecording } from '../shared/types';
+
+/**
+ * Format identifier written into recording files
+ */
+const RECORDING_FORMAT = 'lightshow-recording';
+
+/**
+ * Current recording format version
+ */
+export const RECORDING_VERSION = 1;
+
+/**
+ * File extension used for saved recordings
+ */
+export const RECORDING_EXTENSION = '.lsrec';
+
+/**
+ * Audio frame fields stored per frame, in column order
+ */
+const FRAME_KEYS: (keyof AudioFrame)[] = [
+  'isBeat',
+  'isDownbeat',
+  'tempo',
+  'beatPhase',
+  'beatNumber',
+  'rms',
+  'energy',
+  'peak',
+  'spectralCentroid',
+  'spectralFlux',
+  'lowEnergy',
+  'midEnergy',
+  'highEnergy',
+  'section',
+  'sectionConfidence',
+];
+
+/**
+ * Packed command: [targetId, updates, transitionMs, easing]
+ */
+type PackedCommand = [string, LightingCommand['updates'], number, LightingCommand['easing']];
+
+/**
+ * Packed frame: [time, frame values in FRAME_KEYS order, commands]
+ */
+type PackedFrame = [number, unknown[], PackedCommand[]];
+
+/**
+ * Recording file contents before compression
+ */
+interface RecordingFile {
+  format: string;
+  version: number;
+  title?: string;
+  createdAt: string;
+  duration: number;
+  frameKeys: string[];
+  frames: PackedFrame[];
+}
+
+/**
+ * Captures command batches as they are generated
+ */
+export class ShowRecorder {
+  private recording: ShowRecording | null = null;
+
+  /**
+   * Start a new recording, discarding any recording in progress
+   * @param title Track title
+   */
+  start(title?: string): void {
+    this.recording = {
+      version: RECORDING_VERSION,
+      title,
+      createdAt: new Date().toISOString(),
+      duration: 0,
+      frames: [],
+    };
+  }
+
+  /**
+   * Stop recording
+   * @returns The finished recording, or null if nothing was recording
+   */
+  stop(): ShowRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+
+  /**
+   * Check if a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Record the commands generated for a frame. Seeking backwards while
+   * recording overwrites everything after the new position.
+   * @param frame Audio frame that produced the commands
+   * @param commands Commands generated for the frame
+   */
+  record(frame: AudioFrame, commands: LightingCommand[]): void {
+    if (!this.recording) {
+      return;
+    }
+
+    const frames = this.recording.frames;
+    while (frames.length > 0 && frames[frames.length - 1].time > frame.timestamp) {
+      frames.pop();
+    }
+
+    frames.push({
+      time: frame.timestamp,
+      frame: { ...frame },
+      commands: JSON.parse(JSON.stringify(commands)),
+    });
+    this.recording.duration = frame.timestamp;
+  }
+
+  /**
+   * Get a copy of the recording in progress
+   */
+  getRecording(): ShowRecording | null {
+    return this.recording ? JSON.parse(JSON.stringify(this.recording)) : null;
+  }
+}
+
+/**
+ * Replays a recording frame by frame. Every frame is delivered exactly once
+ * and in order, however the playback clock is ticked.
+ */
+export class ShowPlayer {
+  private recording: ShowRecording;
+  private onFrame: (entry: RecordedFrame) => void;
+  private position: number = 0;
+  private index: number = 0;
+  private playing: boolean = false;
+
+  /**
+   * Creates a player
+   * @param recording Recording to play
+   * @param onFrame Called with each recorded frame when its time is reached
+   */
+  constructor(recording: ShowRecording, onFrame: (entry: RecordedFrame) => void) {
+    this.recording = recording;
+    this.onFrame = onFrame;
+  }
+
+  /**
+   * Start or resume playback
+   */
+  play(): void {
+    if (this.isFinished()) {
+      this.seek(0);
+    }
+    this.playing = true;
+  }
+
+  /**
+   * Pause playback
+   */
+  pause(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Stop playback and rewind
+   */
+  stop(): void {
+    this.playing = false;
+    this.seek(0);
+  }
+
+  /**
+   * Check if playback is running
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Check if every frame has been delivered
+   */
+  isFinished(): boolean {
+    return this.index >= this.recording.frames.length;
+  }
+
+  /**
+   * Jump to a position without delivering the frames in between
+   * @param timeMs Position in milliseconds
+   */
+  seek(timeMs: number): void {
+    this.position = Math.max(0, timeMs);
+
+    // First frame at or after the position
+    const frames = this.recording.frames;
+    let low = 0;
+    let high = frames.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (frames[mid].time < this.position) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.index = low;
+  }
+
+  /**
+   * Advance the playback clock
+   * @param deltaTime Time since last tick in milliseconds
+   */
+  update(deltaTime: number): void {
+    if (!this.playing) {
+      return;
+    }
+    this.advanceTo(this.position + deltaTime);
+  }
+
+  /**
+   * Deliver every frame up to a position
+   * @param timeMs Position in milliseconds
+   */
+  advanceTo(timeMs: number): void {
+    this.position = timeMs;
+    const frames = this.recording.frames;
+
+    while (this.index < frames.length && frames[this.index].time <= timeMs) {
+      this.onFrame(frames[this.index]);
+      this.index++;
+    }
+
+    if (this.isFinished()) {
+      this.playing = false;
+    }
+  }
+
+  /**
+   * Get the playback position in milliseconds
+   */
+  getPosition(): number {
+    return this.position;
+  }
+
+  /**
+   * Get the recording length in milliseconds
+   */
+  getDuration(): number {
+    return this.recording.duration;
+  }
+}
+
+/**
+ * Encodes a recording as a gzipped file
+ * @param recording Recording to save
+ * @returns File bytes
+ */
+export async function encodeRecording(recording: ShowRecording): Promise<Uint8Array<ArrayBuffer>> {
+  const file: RecordingFile = {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    title: recording.title,
+    createdAt: recording.createdAt,
+    duration: recording.duration,
+    frameKeys: FRAME_KEYS,
+    frames: recording.frames.map((entry) => [
+      entry.time,
+      FRAME_KEYS.map((key) => entry.frame[key] ?? null),
+      entry.commands.map((c): PackedCommand => [c.targetId, c.updates, c.transitionMs, c.easing]),
+    ]),
+  };
+
+  // Numbers keep full precision so replay reproduces the live output exactly
+  const json = JSON.stringify(file);
+  return transform(new TextEncoder().encode(json), new CompressionStream('gzip'));
+}
+
+/**
+ * Decodes a recording file (gzipped or plain JSON)
+ * @param bytes File bytes
+ * @returns Recording
+ */
+export async function decodeRecording(bytes: Uint8Array): Promise<ShowRecording> {
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  const data = isGzip ? await transform(bytes, new DecompressionStream('gzip')) : bytes;
+  const file = JSON.parse(new TextDecoder().decode(data)) as RecordingFile;
+
+  if (file.format !== RECORDING_FORMAT) {
+    throw new Error('Not a lightshow recording');
+  }
+  if (file.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${file.version}`);
+  }
+
+  return {
+    version: file.version,
+    title: file.title,
+    createdAt: file.createdAt,
+    duration: file.duration,
+    frames: file.frames.map(([time, values, commands]) => {
+      const frame: Record<string, unknown> = { timestamp: time };
+      file.frameKeys.forEach((key, i) => {
+        if (values[i] !== null && values[i] !== undefined) {
+          frame[key] = values[i];
+        }
+      });
+      return {
+        time,
+        frame: frame as unknown as AudioFrame,
+        commands: commands.map(([targetId, updates, transitionMs, easing]) => ({
+          targetId,
+          updates,
+          transitionMs,
+          easing,
+        })),
+      };
+    }),
+  };
+}
+
+/**
+ * Pipes bytes through a compression or decompression stream
+ */
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes.slice()]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
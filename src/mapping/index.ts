@@ -7,10 +7,14 @@
  * - Rule evaluation and action generation
  * - Intelligent show planning
  * - Lighting variations and responses
+ * - Recording and replaying the command stream
+ * - Offline rendering of full-track fixture timelines
  */
 
 export { MappingEngine } from './MappingEngine';
+export { Random, type Seed } from '../shared/Random';
 export { RuleEvaluator } from './rules/RuleEvaluator';
+export { RuleArbiter, type RuleTrace, type RuleTraceEntry } from './rules/RuleArbiter';
 export {
   getDefaultRules,
   getGenreRules,
@@ -19,6 +23,14 @@ export {
   mergeRuleSets,
   DEFAULT_PALETTES
 } from './rules/DefaultRules';
+export {
+  parseRuleText,
+  parseRules,
+  formatRule,
+  formatRules,
+  type RuleTextError,
+  type RuleTextResult,
+} from './rules/RuleText';
 export {
   ShowPlanner,
   type ShowPlan,
@@ -35,3 +47,25 @@ export {
   SPECTRAL_VARIATIONS,
   SECTION_VARIATIONS,
 } from './LightingVariations';
+export {
+  ShowRecorder,
+  ShowPlayer,
+  encodeRecording,
+  decodeRecording,
+  RECORDING_VERSION,
+  RECORDING_EXTENSION,
+} from './ShowRecorder';
+export {
+  renderShow,
+  getTimelineFrame,
+  getTimelineFrameIndex,
+  getTimelineStates,
+  timelineStatesToCommands,
+  timelineToJSON,
+  timelineFromJSON,
+  TIMELINE_VERSION,
+  type FrameSource,
+  type FrameMapper,
+  type TimelineTarget,
+  type RenderOptions,
+} from './OfflineRenderer';
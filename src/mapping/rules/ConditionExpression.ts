@@ -0,0 +1,447 @@
+/**
+ * Condition expressions for StyleTrigger.customCondition.
+ *
+ * A small expression language over AudioFrame fields, compiled once into
+ * closures. Nothing is evaluated as JavaScript: the parser only accepts
+ * known fields, helpers and operators, and checks types while compiling, so
+ * a broken condition fails when the profile is loaded instead of on every
+ * frame.
+ *
+ * Grammar (loosest binding first):
+ *   or      := and ('||' and)*
+ *   and     := compare ('&&' compare)*
+ *   compare := sum (('==' | '!=' | '<' | '<=' | '>' | '>=') sum)?
+ *   sum     := product (('+' | '-') product)*
+ *   product := unary (('*' | '/' | '%') unary)*
+ *   unary   := ('!' | '-') unary | primary
+ *   primary := number | string | 'true' | 'false' | name | name '(' args ')' | '(' or ')'
+ *
+ * Example: `lowEnergy > 0.7 && beatNumber % 8 == 0 && rising(energy)`
+ */
+
+import { AudioFrame } from '../../shared/types';
+
+/**
+ * Values a condition sees for one frame
+ */
+export interface ConditionContext {
+  frame: AudioFrame;
+  /** The frame before, if any */
+  previous?: AudioFrame;
+  /** Beats since the last downbeat, fractional (0 on the downbeat) */
+  barPos: number;
+  /** Seconds since the current section started */
+  sectionTime: number;
+}
+
+/**
+ * A compiled condition
+ */
+export type CompiledCondition = (context: ConditionContext) => boolean;
+
+type ValueType = 'number' | 'boolean' | 'string';
+type Value = number | boolean | string;
+
+/**
+ * A compiled sub-expression with its static type
+ */
+interface Compiled {
+  type: ValueType;
+  evaluate: (context: ConditionContext) => Value;
+}
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+/**
+ * AudioFrame fields usable in conditions and their types
+ */
+const FRAME_FIELDS: Record<string, ValueType> = {
+  timestamp: 'number',
+  isBeat: 'boolean',
+  isDownbeat: 'boolean',
+  tempo: 'number',
+  beatPhase: 'number',
+  beatNumber: 'number',
+  rms: 'number',
+  energy: 'number',
+  peak: 'number',
+  spectralCentroid: 'number',
+  spectralFlux: 'number',
+  lowEnergy: 'number',
+  midEnergy: 'number',
+  highEnergy: 'number',
+  section: 'string',
+  sectionConfidence: 'number',
+};
+
+/**
+ * Values derived from the frame sequence
+ */
+const DERIVED_FIELDS: Record<string, (context: ConditionContext) => number> = {
+  barPos: (context) => context.barPos,
+  sectionTime: (context) => context.sectionTime,
+};
+
+/**
+ * Helpers that look at a numeric frame field in the previous frame; the
+ * argument must be a field name
+ */
+const HISTORY_HELPERS: Record<string, { type: ValueType; apply: (current: number, previous: number) => Value }> = {
+  prev: { type: 'number', apply: (_current, previous) => previous },
+  delta: { type: 'number', apply: (current, previous) => current - previous },
+  rising: { type: 'boolean', apply: (current, previous) => current > previous },
+  falling: { type: 'boolean', apply: (current, previous) => current < previous },
+};
+
+/**
+ * Numeric helpers and their argument counts
+ */
+const MATH_HELPERS: Record<string, { arity: number; apply: (...args: number[]) => number }> = {
+  abs: { arity: 1, apply: Math.abs },
+  floor: { arity: 1, apply: Math.floor },
+  ceil: { arity: 1, apply: Math.ceil },
+  round: { arity: 1, apply: Math.round },
+  min: { arity: 2, apply: Math.min },
+  max: { arity: 2, apply: Math.max },
+  clamp: { arity: 3, apply: (x, low, high) => Math.max(low, Math.min(high, x)) },
+};
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+
+/**
+ * Compile a condition expression
+ * @param source Expression text
+ * @returns Function testing the condition against a frame context
+ * @throws Error with the position of the problem if the expression is invalid
+ */
+export function compileCondition(source: string): CompiledCondition {
+  const parser = new Parser(source);
+  const root = parser.parse();
+  if (root.type !== 'boolean') {
+    parser.fail(`Condition must be true or false, not a ${root.type}`, 0);
+  }
+  return (context) => root.evaluate(context) as boolean;
+}
+
+/**
+ * Recursive-descent parser producing typed closures
+ */
+class Parser {
+  private source: string;
+  private tokens: Token[];
+  private index: number = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = this.tokenize();
+  }
+
+  /**
+   * Parses the whole expression
+   */
+  parse(): Compiled {
+    if (this.peek().kind === 'end') {
+      this.fail('Empty condition', 0);
+    }
+    const root = this.parseOr();
+    const rest = this.peek();
+    if (rest.kind !== 'end') {
+      this.fail(`Unexpected '${rest.text}'`, rest.position);
+    }
+    return root;
+  }
+
+  /**
+   * Throws a compile error pointing at a position in the source
+   */
+  fail(message: string, position: number): never {
+    throw new Error(`Invalid condition "${this.source}" at ${position + 1}: ${message}`);
+  }
+
+  private parseOr(): Compiled {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      const position = this.previousPosition();
+      const right = this.parseAnd();
+      this.expect(left, 'boolean', '||', position);
+      this.expect(right, 'boolean', '||', position);
+      const [a, b] = [left, right];
+      left = { type: 'boolean', evaluate: (c) => (a.evaluate(c) as boolean) || (b.evaluate(c) as boolean) };
+    }
+    return left;
+  }
+
+  private parseAnd(): Compiled {
+    let left = this.parseCompare();
+    while (this.accept('&&')) {
+      const position = this.previousPosition();
+      const right = this.parseCompare();
+      this.expect(left, 'boolean', '&&', position);
+      this.expect(right, 'boolean', '&&', position);
+      const [a, b] = [left, right];
+      left = { type: 'boolean', evaluate: (c) => (a.evaluate(c) as boolean) && (b.evaluate(c) as boolean) };
+    }
+    return left;
+  }
+
+  private parseCompare(): Compiled {
+    const left = this.parseSum();
+    const token = this.peek();
+    if (token.kind !== 'operator' || !['==', '!=', '<', '<=', '>', '>='].includes(token.text)) {
+      return left;
+    }
+    this.index++;
+    const right = this.parseSum();
+
+    if (token.text === '==' || token.text === '!=') {
+      if (left.type !== right.type) {
+        this.fail(`Cannot compare a ${left.type} with a ${right.type}`, token.position);
+      }
+      const equal = token.text === '==';
+      return { type: 'boolean', evaluate: (c) => (left.evaluate(c) === right.evaluate(c)) === equal };
+    }
+
+    this.expect(left, 'number', token.text, token.position);
+    this.expect(right, 'number', token.text, token.position);
+    const compare = {
+      '<': (a: number, b: number) => a < b,
+      '<=': (a: number, b: number) => a <= b,
+      '>': (a: number, b: number) => a > b,
+      '>=': (a: number, b: number) => a >= b,
+    }[token.text as '<' | '<=' | '>' | '>='];
+    return { type: 'boolean', evaluate: (c) => compare(left.evaluate(c) as number, right.evaluate(c) as number) };
+  }
+
+  private parseSum(): Compiled {
+    let left = this.parseProduct();
+    for (let token = this.peek(); this.accept('+') || this.accept('-'); token = this.peek()) {
+      const right = this.parseProduct();
+      left = this.arithmetic(left, right, token);
+    }
+    return left;
+  }
+
+  private parseProduct(): Compiled {
+    let left = this.parseUnary();
+    for (let token = this.peek(); this.accept('*') || this.accept('/') || this.accept('%'); token = this.peek()) {
+      const right = this.parseUnary();
+      left = this.arithmetic(left, right, token);
+    }
+    return left;
+  }
+
+  private parseUnary(): Compiled {
+    const token = this.peek();
+    if (this.accept('!')) {
+      const operand = this.parseUnary();
+      this.expect(operand, 'boolean', '!', token.position);
+      return { type: 'boolean', evaluate: (c) => !operand.evaluate(c) };
+    }
+    if (this.accept('-')) {
+      const operand = this.parseUnary();
+      this.expect(operand, 'number', '-', token.position);
+      return { type: 'number', evaluate: (c) => -(operand.evaluate(c) as number) };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Compiled {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.kind) {
+      case 'number': {
+        const value = Number(token.text);
+        return { type: 'number', evaluate: () => value };
+      }
+      case 'string': {
+        const value = token.text;
+        return { type: 'string', evaluate: () => value };
+      }
+      case 'name':
+        return this.parseName(token);
+      case 'operator':
+        if (token.text === '(') {
+          const inner = this.parseOr();
+          if (!this.accept(')')) {
+            this.fail("Missing ')'", this.peek().position);
+          }
+          return inner;
+        }
+        return this.fail(`Unexpected '${token.text}'`, token.position);
+      default:
+        return this.fail('Unexpected end of condition', token.position);
+    }
+  }
+
+  /**
+   * Parses a literal, field or helper call starting with a name
+   */
+  private parseName(token: Token): Compiled {
+    const name = token.text;
+    if (name === 'true' || name === 'false') {
+      const value = name === 'true';
+      return { type: 'boolean', evaluate: () => value };
+    }
+
+    if (!this.accept('(')) {
+      if (Object.hasOwn(FRAME_FIELDS, name)) {
+        const type = FRAME_FIELDS[name];
+        const fallback = type === 'string' ? '' : 0;
+        return { type, evaluate: (c) => (c.frame[name as keyof AudioFrame] as Value | undefined) ?? fallback };
+      }
+      if (Object.hasOwn(DERIVED_FIELDS, name)) {
+        return { type: 'number', evaluate: DERIVED_FIELDS[name] };
+      }
+      if (Object.hasOwn(HISTORY_HELPERS, name) || Object.hasOwn(MATH_HELPERS, name)) {
+        this.fail(`'${name}' is a function; call it as ${name}(...)`, token.position);
+      }
+      this.fail(`Unknown name '${name}'`, token.position);
+    }
+
+    if (Object.hasOwn(HISTORY_HELPERS, name)) {
+      const field = this.peek();
+      this.index++;
+      if (field.kind !== 'name' || !Object.hasOwn(FRAME_FIELDS, field.text) || FRAME_FIELDS[field.text] !== 'number') {
+        this.fail(`${name}() takes a numeric frame field such as energy`, field.position);
+      }
+      if (!this.accept(')')) {
+        this.fail("Missing ')'", this.peek().position);
+      }
+      const key = field.text as keyof AudioFrame;
+      const helper = HISTORY_HELPERS[name];
+      return {
+        type: helper.type,
+        evaluate: (c) => {
+          const current = (c.frame[key] as number | undefined) ?? 0;
+          const previous = c.previous ? ((c.previous[key] as number | undefined) ?? 0) : current;
+          return helper.apply(current, previous);
+        },
+      };
+    }
+
+    if (Object.hasOwn(MATH_HELPERS, name)) {
+      const helper = MATH_HELPERS[name];
+      const args: Compiled[] = [];
+      if (!this.accept(')')) {
+        do {
+          const arg = this.parseOr();
+          this.expect(arg, 'number', `${name}()`, token.position);
+          args.push(arg);
+        } while (this.accept(','));
+        if (!this.accept(')')) {
+          this.fail("Missing ')'", this.peek().position);
+        }
+      }
+      if (args.length !== helper.arity) {
+        this.fail(`${name}() takes ${helper.arity} argument(s), got ${args.length}`, token.position);
+      }
+      return {
+        type: 'number',
+        evaluate: (c) => helper.apply(...args.map((arg) => arg.evaluate(c) as number)),
+      };
+    }
+
+    return this.fail(`Unknown function '${name}'`, token.position);
+  }
+
+  /**
+   * Builds an arithmetic node after checking both sides are numbers
+   */
+  private arithmetic(left: Compiled, right: Compiled, token: Token): Compiled {
+    this.expect(left, 'number', token.text, token.position);
+    this.expect(right, 'number', token.text, token.position);
+    const apply = {
+      '+': (a: number, b: number) => a + b,
+      '-': (a: number, b: number) => a - b,
+      '*': (a: number, b: number) => a * b,
+      '/': (a: number, b: number) => (b === 0 ? 0 : a / b),
+      '%': (a: number, b: number) => (b === 0 ? 0 : a % b),
+    }[token.text as '+' | '-' | '*' | '/' | '%'];
+    return { type: 'number', evaluate: (c) => apply(left.evaluate(c) as number, right.evaluate(c) as number) };
+  }
+
+  /**
+   * Fails unless an operand has the type an operator needs
+   */
+  private expect(operand: Compiled, type: ValueType, operator: string, position: number): void {
+    if (operand.type !== type) {
+      this.fail(`'${operator}' needs a ${type}, got a ${operand.type}`, position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private previousPosition(): number {
+    return this.tokens[this.index - 1].position;
+  }
+
+  /**
+   * Consumes an operator token if it is next
+   */
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.text === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Splits the source into tokens
+   */
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+      if (number) {
+        tokens.push({ kind: 'number', text: number[0], position: i });
+        i += number[0].length;
+        continue;
+      }
+
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+      if (name) {
+        tokens.push({ kind: 'name', text: name[0], position: i });
+        i += name[0].length;
+        continue;
+      }
+
+      if (char === "'" || char === '"') {
+        const end = source.indexOf(char, i + 1);
+        if (end < 0) {
+          this.fail('Unterminated string', i);
+        }
+        tokens.push({ kind: 'string', text: source.slice(i + 1, end), position: i });
+        i = end + 1;
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => source.startsWith(op, i));
+      if (!operator) {
+        this.fail(`Unexpected character '${char}'`, i);
+      }
+      tokens.push({ kind: 'operator', text: operator, position: i });
+      i += operator.length;
+    }
+
+    tokens.push({ kind: 'end', text: '', position: source.length });
+    return tokens;
+  }
+}
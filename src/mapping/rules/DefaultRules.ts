@@ -4,6 +4,8 @@
  */
 
 import { StyleRule, RGB } from '../../shared/types';
+import { validateStyleRule } from '../../shared/StyleSchema';
+import { compileCondition } from './ConditionExpression';
 
 /**
  * Default color palettes for different moods/genres
@@ -356,25 +358,18 @@ export function createCustomRule(
  * Validate a style rule
  */
 export function validateRule(rule: StyleRule): boolean {
-  // Check required fields
-  if (!rule.id || !rule.name || !rule.trigger || !rule.action) {
+  // Check every field against the style profile schema
+  if (validateStyleRule(rule).length > 0) {
     return false;
   }
 
-  // Check probability range
-  if (rule.probability < 0 || rule.probability > 1) {
-    return false;
-  }
-
-  // Check action type
-  const validActionTypes = ['strobe', 'color_change', 'intensity_pulse', 'movement', 'blackout', 'all_on'];
-  if (!validActionTypes.includes(rule.action.type)) {
-    return false;
-  }
-
-  // Check duration
-  if (rule.action.durationMs <= 0) {
-    return false;
+  // Check the custom condition compiles
+  if (rule.trigger.customCondition !== undefined) {
+    try {
+      compileCondition(rule.trigger.customCondition);
+    } catch {
+      return false;
+    }
   }
 
   return true;
@@ -0,0 +1,266 @@
+/**
+ * Rule arbiter - resolves style rules that fire in the same frame.
+ *
+ * Rules are offered in priority order (highest first). Each frame the
+ * arbiter:
+ * - keeps rules in an exclusive group from overlapping: the rule that fires
+ *   holds the group for its action duration, and only a rule of strictly
+ *   higher priority can take the group over
+ * - resolves fixture attributes set by several rules with the configured
+ *   policy ('priority', 'blend' or 'queue', see ConflictPolicy)
+ * - records a trace of which rules fired, were skipped or were overruled
+ */
+
+import {
+  AudioFrame,
+  ConflictPolicy,
+  LightingCommand,
+  RGB,
+  StyleRule,
+} from '../../shared/types';
+
+/**
+ * Queued values that would wait longer than this are dropped (ms), so
+ * rules that keep conflicting cannot build an ever-growing backlog
+ */
+const MAX_QUEUE_WAIT_MS = 2000;
+
+/**
+ * What happened to a rule whose trigger matched
+ */
+export interface RuleTraceEntry {
+  ruleId: string;
+  priority: number;
+  /** 'skipped' when the probability roll failed */
+  outcome: 'fired' | 'skipped' | 'excluded';
+  /** Rule holding the exclusive group, when excluded */
+  excludedBy?: string;
+  /** Attributes the rule lost to a higher-priority rule */
+  overruled: { targetId: string; attribute: string; policy: ConflictPolicy; winner: string }[];
+}
+
+/**
+ * Decisions made for one frame
+ */
+export interface RuleTrace {
+  /** Frame timestamp in ms */
+  timestamp: number;
+  entries: RuleTraceEntry[];
+}
+
+/**
+ * An attribute value set by a rule this frame
+ */
+interface Claim {
+  rule: StyleRule;
+  command: LightingCommand;
+  /** Values from lower-priority rules, averaged in when blending */
+  blended: unknown[];
+}
+
+/**
+ * Resolves exclusive groups and attribute conflicts between style rules
+ */
+export class RuleArbiter {
+  private policies: { [attribute: string]: ConflictPolicy } = {};
+  private holds: Map<string, { rule: StyleRule; until: number }> = new Map();
+  private queue: { at: number; until: number; command: LightingCommand }[] = [];
+  private fired: { rule: StyleRule; commands: LightingCommand[]; entry: RuleTraceEntry }[] = [];
+  private trace: RuleTrace | null = null;
+  private lastTimestamp: number = -Infinity;
+
+  /**
+   * Set the conflict policy per attribute (unlisted attributes use 'priority')
+   */
+  setPolicies(policies: { [attribute: string]: ConflictPolicy } = {}): void {
+    this.policies = policies;
+  }
+
+  /**
+   * Drop exclusive group holds and queued commands
+   */
+  reset(): void {
+    this.holds.clear();
+    this.queue = [];
+    this.fired = [];
+    this.trace = null;
+    this.lastTimestamp = -Infinity;
+  }
+
+  /**
+   * Start a frame; seeking backwards resets the arbiter
+   */
+  beginFrame(frame: AudioFrame): void {
+    if (frame.timestamp < this.lastTimestamp) {
+      this.reset();
+    }
+    this.lastTimestamp = frame.timestamp;
+    this.fired = [];
+    this.trace = { timestamp: frame.timestamp, entries: [] };
+  }
+
+  /**
+   * Record a rule whose trigger matched but whose probability roll failed
+   */
+  skip(rule: StyleRule): void {
+    this.addEntry(rule, 'skipped');
+  }
+
+  /**
+   * Claim a rule's exclusive group
+   * @returns False if another rule holds the group (the rule must not fire)
+   */
+  claim(rule: StyleRule, frame: AudioFrame): boolean {
+    const group = rule.exclusiveGroup;
+    if (group === undefined) {
+      return true;
+    }
+
+    const hold = this.holds.get(group);
+    if (hold && hold.rule.id !== rule.id && frame.timestamp < hold.until && rule.priority <= hold.rule.priority) {
+      this.addEntry(rule, 'excluded').excludedBy = hold.rule.id;
+      return false;
+    }
+
+    this.holds.set(group, { rule, until: frame.timestamp + rule.action.durationMs });
+    return true;
+  }
+
+  /**
+   * Add the commands of a rule that fired
+   */
+  add(rule: StyleRule, commands: LightingCommand[]): void {
+    this.fired.push({ rule, commands, entry: this.addEntry(rule, 'fired') });
+  }
+
+  /**
+   * Finish the frame
+   * @returns Released queued commands followed by the resolved commands
+   */
+  endFrame(frame: AudioFrame): LightingCommand[] {
+    const released = this.queue.filter((entry) => entry.at <= frame.timestamp).map((entry) => entry.command);
+    this.queue = this.queue.filter((entry) => entry.at > frame.timestamp);
+
+    const claims: Map<string, Claim> = new Map();
+    const resolved: LightingCommand[] = [];
+
+    for (const { rule, commands, entry } of this.fired) {
+      for (const command of commands) {
+        const kept: Record<string, unknown> = {};
+        const queued: Record<string, unknown> = {};
+
+        for (const [attribute, value] of Object.entries(command.updates)) {
+          const key = `${command.targetId}:${attribute}`;
+          const claim = claims.get(key);
+          if (!claim || claim.rule === rule) {
+            kept[attribute] = value;
+            continue;
+          }
+
+          const policy = this.policies[attribute] ?? 'priority';
+          entry.overruled.push({ targetId: command.targetId, attribute, policy, winner: claim.rule.id });
+          if (policy === 'blend') {
+            claim.blended.push(value);
+          } else if (policy === 'queue') {
+            queued[attribute] = value;
+          }
+        }
+
+        if (Object.keys(queued).length > 0) {
+          const at = this.getQueueTime(frame.timestamp, command.targetId, queued, claims);
+          if (at - frame.timestamp <= MAX_QUEUE_WAIT_MS) {
+            this.queue.push({ at, until: at + rule.action.durationMs, command: { ...command, updates: queued } });
+          }
+        }
+        if (Object.keys(kept).length > 0) {
+          const claimed: LightingCommand = { ...command, updates: kept };
+          for (const attribute of Object.keys(kept)) {
+            const key = `${command.targetId}:${attribute}`;
+            if (!claims.has(key)) {
+              claims.set(key, { rule, command: claimed, blended: [] });
+            }
+          }
+          resolved.push(claimed);
+        }
+      }
+    }
+
+    // Average blended values into the winning commands
+    claims.forEach((claim, key) => {
+      if (claim.blended.length > 0) {
+        const attribute = key.slice(key.indexOf(':') + 1);
+        const updates = claim.command.updates as Record<string, unknown>;
+        updates[attribute] = blendValues([updates[attribute], ...claim.blended]);
+      }
+    });
+
+    this.fired = [];
+    return [...released, ...resolved];
+  }
+
+  /**
+   * Get the decisions made in the last frame
+   */
+  getTrace(): RuleTrace | null {
+    return this.trace;
+  }
+
+  /**
+   * Time when queued attributes are free: after the winning actions and
+   * any values already queued for them end
+   */
+  private getQueueTime(
+    timestamp: number,
+    targetId: string,
+    queued: Record<string, unknown>,
+    claims: Map<string, Claim>
+  ): number {
+    let at = timestamp;
+    for (const attribute of Object.keys(queued)) {
+      const claim = claims.get(`${targetId}:${attribute}`);
+      if (claim) {
+        at = Math.max(at, timestamp + claim.rule.action.durationMs);
+      }
+      for (const entry of this.queue) {
+        if (entry.command.targetId === targetId && attribute in entry.command.updates) {
+          at = Math.max(at, entry.until);
+        }
+      }
+    }
+    return at;
+  }
+
+  /**
+   * Adds a trace entry for a rule
+   */
+  private addEntry(rule: StyleRule, outcome: RuleTraceEntry['outcome']): RuleTraceEntry {
+    const entry: RuleTraceEntry = { ruleId: rule.id, priority: rule.priority, outcome, overruled: [] };
+    this.trace?.entries.push(entry);
+    return entry;
+  }
+}
+
+/**
+ * Averages numbers or colors; other values keep the first (winning) value
+ */
+function blendValues(values: unknown[]): unknown {
+  if (values.every((v) => typeof v === 'number')) {
+    return (values as number[]).reduce((sum, v) => sum + v, 0) / values.length;
+  }
+  if (values.every(isColor)) {
+    const colors = values as RGB[];
+    return {
+      r: colors.reduce((sum, c) => sum + c.r, 0) / colors.length,
+      g: colors.reduce((sum, c) => sum + c.g, 0) / colors.length,
+      b: colors.reduce((sum, c) => sum + c.b, 0) / colors.length,
+    };
+  }
+  return values[0];
+}
+
+/**
+ * Checks if a value is an RGB color
+ */
+function isColor(value: unknown): value is RGB {
+  return typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value;
+}
@@ -12,16 +12,42 @@ import {
   RGB,
   FixtureType,
   EasingType,
+  FixtureUpdates,
 } from '../../shared/types';
+import { FixtureGroups, selectFixtures } from '../../shared/FixtureSelector';
+import { Random } from '../../shared/Random';
+import { CompiledCondition, ConditionContext, compileCondition } from './ConditionExpression';
+
+/**
+ * Minimum time between triggers of a rule without a beat cooldown (ms)
+ */
+const MIN_TRIGGER_INTERVAL_MS = 50;
+
+/**
+ * Slack on beat cooldowns, so jitter in the beat phase cannot push a
+ * rule firing every N beats just short of its cooldown
+ */
+const COOLDOWN_TOLERANCE_BEATS = 0.1;
 
 /**
  * Evaluates style rules against audio frames and generates lighting commands
  */
 export class RuleEvaluator {
   private palette: RGB[];
+  private random: Random;
   private lastTriggerTimes: Map<string, number> = new Map();
+  private lastTriggerBeats: Map<string, number> = new Map();
+  private conditions: Map<string, CompiledCondition> = new Map();
+  private context: ConditionContext | null = null;
+  private downbeatNumber: number | null = null;
+  private sectionStart: number = 0;
 
-  constructor(palette?: RGB[]) {
+  /**
+   * @param palette Colors for 'random_from_palette'
+   * @param random Source of random palette picks and movement
+   */
+  constructor(palette?: RGB[], random: Random = new Random()) {
+    this.random = random;
     // Default palette if none provided
     this.palette = palette || [
       { r: 1, g: 0, b: 0 },       // Red
@@ -36,10 +62,30 @@ export class RuleEvaluator {
   }
 
   /**
-   * Check if a rule's trigger conditions are met
+   * Compile the custom conditions of a rule set up front
+   * @throws Error naming the rule if a condition is invalid
+   */
+  compileRules(rules: StyleRule[]): void {
+    for (const rule of rules) {
+      const source = rule.trigger.customCondition;
+      if (source === undefined) {
+        continue;
+      }
+      try {
+        this.conditions.set(source, compileCondition(source));
+      } catch (error) {
+        throw new Error(`Rule "${rule.id}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Check if a rule's trigger conditions are met. Does not start the
+   * rule's cooldown: call recordTrigger once the rule actually fires.
    */
-  evaluate(rule: StyleRule, frame: AudioFrame, _previousFrame?: AudioFrame): boolean {
+  evaluate(rule: StyleRule, frame: AudioFrame, previousFrame?: AudioFrame): boolean {
     const trigger = rule.trigger;
+    const context = this.getContext(frame, previousFrame);
 
     // Check beat conditions
     if (trigger.onBeat !== undefined && trigger.onBeat !== frame.isBeat) {
@@ -76,25 +122,40 @@ export class RuleEvaluator {
       }
     }
 
-    // Check custom condition (if implemented)
-    if (trigger.customCondition) {
-      // For now, we'll skip custom conditions
-      // In a full implementation, this could use a safe expression evaluator
-      return false;
+    // Check custom condition
+    if (trigger.customCondition !== undefined) {
+      const condition = this.getCondition(trigger.customCondition, rule.id);
+      if (!condition(context)) {
+        return false;
+      }
     }
 
-    // Rate limiting: prevent the same rule from triggering too frequently
-    const now = Date.now();
-    const lastTrigger = this.lastTriggerTimes.get(rule.id) || 0;
-    const minInterval = 50; // Minimum 50ms between same rule triggers
-
-    if (now - lastTrigger < minInterval) {
-      return false;
+    // Rate limiting: prevent the same rule from triggering too frequently.
+    // Uses the audio clock (or beat count with a beat cooldown); seeking
+    // backwards resets the limit.
+    if (rule.cooldownBeats !== undefined) {
+      const beat = frame.beatNumber + frame.beatPhase;
+      const sinceTrigger = beat - (this.lastTriggerBeats.get(rule.id) ?? -Infinity);
+      return !(sinceTrigger >= 0 && sinceTrigger < rule.cooldownBeats - COOLDOWN_TOLERANCE_BEATS);
     }
 
-    // All conditions met
-    this.lastTriggerTimes.set(rule.id, now);
-    return true;
+    const now = frame.timestamp;
+    const lastTrigger = this.lastTriggerTimes.get(rule.id) ?? -Infinity;
+
+    // All conditions met unless the rule fired too recently
+    return !(now - lastTrigger >= 0 && now - lastTrigger < MIN_TRIGGER_INTERVAL_MS);
+  }
+
+  /**
+   * Start a rule's cooldown: call when the rule fires, not when it is
+   * skipped by its probability or loses to another rule
+   */
+  recordTrigger(rule: StyleRule, frame: AudioFrame): void {
+    if (rule.cooldownBeats !== undefined) {
+      this.lastTriggerBeats.set(rule.id, frame.beatNumber + frame.beatPhase);
+    } else {
+      this.lastTriggerTimes.set(rule.id, frame.timestamp);
+    }
   }
 
   /**
@@ -103,12 +164,13 @@ export class RuleEvaluator {
   executeAction(
     action: StyleAction,
     frame: AudioFrame,
-    fixtures: Fixture[]
+    fixtures: Fixture[],
+    groups?: FixtureGroups
   ): LightingCommand[] {
     const commands: LightingCommand[] = [];
 
     // Determine target fixtures
-    const targetFixtures = this.resolveTargets(action.targets, fixtures);
+    const targetFixtures = this.resolveTargets(action.targets, fixtures, groups);
 
     // Generate commands based on action type
     switch (action.type) {
@@ -149,8 +211,7 @@ export class RuleEvaluator {
     }
 
     if (colorSpec === 'random_from_palette') {
-      const index = Math.floor(Math.random() * this.palette.length);
-      return this.palette[index];
+      return this.random.pick(this.palette);
     }
 
     return colorSpec;
@@ -171,6 +232,57 @@ export class RuleEvaluator {
     return Math.max(0, Math.min(1, spec));
   }
 
+  /**
+   * Gets a compiled condition; conditions not compiled with the profile
+   * are compiled on first use and never match if invalid
+   */
+  private getCondition(source: string, ruleId: string): CompiledCondition {
+    let condition = this.conditions.get(source);
+    if (!condition) {
+      try {
+        condition = compileCondition(source);
+      } catch (error) {
+        console.warn(`Rule "${ruleId}": ${(error as Error).message}`);
+        condition = () => false;
+      }
+      this.conditions.set(source, condition);
+    }
+    return condition;
+  }
+
+  /**
+   * Gets the condition context of a frame, tracking bar position and
+   * section start across frames (once per frame, shared by all rules)
+   */
+  private getContext(frame: AudioFrame, previousFrame?: AudioFrame): ConditionContext {
+    if (this.context && this.context.frame === frame) {
+      return this.context;
+    }
+
+    const time = frame.timestamp / 1000;
+    const previous = this.context?.frame;
+    if (!previous || frame.timestamp < previous.timestamp) {
+      // First frame, or a seek backwards
+      this.downbeatNumber = null;
+      this.sectionStart = time;
+    } else if (frame.section !== previous.section) {
+      this.sectionStart = time;
+    }
+    if (frame.isDownbeat) {
+      this.downbeatNumber = frame.beatNumber;
+    }
+
+    const beatsIntoBar =
+      this.downbeatNumber !== null ? frame.beatNumber - this.downbeatNumber : frame.beatNumber % 4;
+    this.context = {
+      frame,
+      previous: previousFrame,
+      barPos: Math.max(0, beatsIntoBar) + frame.beatPhase,
+      sectionTime: time - this.sectionStart,
+    };
+    return this.context;
+  }
+
   /**
    * Get energy for a specific frequency band
    */
@@ -189,27 +301,18 @@ export class RuleEvaluator {
 
   /**
    * Resolve target fixtures from action targets
+   * (IDs, types, groups or spatial selections, in selection order)
    */
   private resolveTargets(
     targets: FixtureType[] | string[],
-    fixtures: Fixture[]
+    fixtures: Fixture[],
+    groups?: FixtureGroups
   ): Fixture[] {
     if (targets.length === 0) {
       return fixtures; // All fixtures
     }
 
-    // Check if targets are fixture types or IDs
-    const firstTarget = targets[0];
-
-    // If it's a fixture type
-    if (['moving_head', 'strobe', 'wash', 'laser', 'par'].includes(firstTarget)) {
-      const types = targets as FixtureType[];
-      return fixtures.filter(f => types.includes(f.type));
-    }
-
-    // Otherwise, treat as fixture IDs
-    const ids = targets as string[];
-    return fixtures.filter(f => ids.includes(f.id));
+    return selectFixtures(targets, fixtures, groups);
   }
 
   /**
@@ -294,7 +397,7 @@ export class RuleEvaluator {
 
     // Pulse up
     fixtures.forEach(fixture => {
-      const updates: any = { intensity };
+      const updates: FixtureUpdates = { intensity };
       if (color) {
         updates.color = color;
       }
@@ -327,17 +430,17 @@ export class RuleEvaluator {
 
     fixtures.forEach(fixture => {
       if (fixture.type === 'moving_head') {
-        const updates: any = {};
+        const updates: FixtureUpdates = {};
 
         if (movement.pan !== undefined) {
           updates.pan = movement.pan === 'random'
-            ? Math.random()
+            ? this.random.next()
             : movement.pan;
         }
 
         if (movement.tilt !== undefined) {
           updates.tilt = movement.tilt === 'random'
-            ? Math.random()
+            ? this.random.next()
             : movement.tilt;
         }
 
@@ -345,6 +448,28 @@ export class RuleEvaluator {
           updates.speed = movement.speed;
         }
 
+        commands.push({
+          targetId: fixture.id,
+          updates,
+          transitionMs: action.durationMs,
+          easing: 'easeInOut',
+        });
+      } else if (fixture.type === 'laser') {
+        // Lasers scan instead of panning/tilting
+        const updates: FixtureUpdates = {};
+
+        if (movement.pan !== undefined) {
+          updates.xPosition = movement.pan === 'random'
+            ? this.random.next()
+            : movement.pan;
+        }
+
+        if (movement.tilt !== undefined) {
+          updates.yPosition = movement.tilt === 'random'
+            ? this.random.next()
+            : movement.tilt;
+        }
+
         commands.push({
           targetId: fixture.id,
           updates,
@@ -396,6 +521,24 @@ export class RuleEvaluator {
     }));
   }
 
+  /**
+   * Forget when rules last fired and the bar and section being tracked
+   */
+  reset(): void {
+    this.lastTriggerTimes.clear();
+    this.lastTriggerBeats.clear();
+    this.context = null;
+    this.downbeatNumber = null;
+    this.sectionStart = 0;
+  }
+
+  /**
+   * Replace the source of random palette picks and movement
+   */
+  setRandom(random: Random): void {
+    this.random = random;
+  }
+
   /**
    * Update the color palette
    */
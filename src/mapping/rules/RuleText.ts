@@ -0,0 +1,534 @@
+/**
+ * Text format for style rules.
+ *
+ * One rule per line; blank lines and lines starting with '#' are ignored:
+ *
+ *   [id ["Name"]:] trigger => action
+ *
+ * Trigger clauses, in any order, with 'when' last (or 'always' alone):
+ *   on beat | on downbeat | on offbeat
+ *   in [chorus, drop]          song sections (brackets optional for one)
+ *   band low | mid | high      frequency band
+ *   when <condition>           in a condition joined only by '&&', the
+ *                              'energy >= N' and 'flux >= N' parts become
+ *                              the inclusive energy and flux thresholds;
+ *                              everything else (strict '>' comparisons,
+ *                              conditions with a top-level '||') is the
+ *                              custom condition, where flux is named
+ *                              spectralFlux (see ConditionExpression)
+ *
+ * Action: type, targets ('all' or a comma list of types, IDs, @groups and
+ * selections), then in any order:
+ *   from palette | rgb(r, g, b) | #rrggbb    color
+ *   at N | at energy                         intensity
+ *   pan N|random  tilt N|random  speed N     movement
+ *   400ms | 2s                               duration (required, may be 0ms)
+ *   p=N                                      probability (default 1)
+ *   priority=N                               priority (default 0)
+ *   group=name                               exclusive group
+ *   cooldown=N                               cooldown in beats
+ *
+ * Example:
+ *   drop-color: on downbeat in [chorus, drop] when energy >= .7 => color_change moving_head from palette 400ms p=.8
+ */
+
+import { RGB, SongSection, StyleAction, StyleRule, StyleTrigger } from '../../shared/types';
+import { compileCondition } from './ConditionExpression';
+
+/**
+ * A problem found while parsing rule text
+ */
+export interface RuleTextError {
+  /** 1-based line number */
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing rule text
+ */
+export interface RuleTextResult {
+  rules: StyleRule[];
+  errors: RuleTextError[];
+}
+
+const ACTION_TYPES: StyleAction['type'][] = ['strobe', 'color_change', 'intensity_pulse', 'movement', 'blackout', 'all_on'];
+
+const SECTIONS: SongSection[] = ['intro', 'verse', 'chorus', 'drop', 'breakdown', 'buildup', 'bridge', 'outro'];
+
+const BANDS: NonNullable<StyleTrigger['frequencyBand']>[] = ['low', 'mid', 'high'];
+
+/**
+ * Words that end the target list of an action
+ */
+const ACTION_KEYWORDS = ['from', 'at', 'pan', 'tilt', 'speed'];
+
+/**
+ * A non-negative number as JavaScript prints it ('.5', '400', '1e-7')
+ */
+const NUMBER = String.raw`(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?`;
+
+const NUMBER_PATTERN = new RegExp(`^-?${NUMBER}$`);
+
+const DURATION_PATTERN = new RegExp(`^(${NUMBER})(ms|s)$`);
+
+const SETTING_PATTERN = new RegExp(`^(p|priority|cooldown)=(-?${NUMBER})$`);
+
+const RGB_PATTERN = new RegExp(`^rgb\\((${NUMBER}),(${NUMBER}),(${NUMBER})\\)$`);
+
+/**
+ * A 'when' part that becomes the energy or flux threshold
+ */
+const THRESHOLD_PATTERN = new RegExp(`^(energy|flux)\\s*>=\\s*(-?${NUMBER})$`);
+
+/**
+ * Parse rule text, collecting every error instead of stopping at the first
+ * @param text Rule text, one rule per line
+ * @returns Rules from the valid lines and errors for the others
+ */
+export function parseRuleText(text: string): RuleTextResult {
+  const rules: StyleRule[] = [];
+  const errors: RuleTextError[] = [];
+  const ids = new Set<string>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const source = raw.trim();
+    if (source === '' || source.startsWith('#')) {
+      return;
+    }
+
+    try {
+      const rule = parseRuleLine(source, line);
+      if (ids.has(rule.id)) {
+        throw new Error(`Duplicate rule id '${rule.id}'`);
+      }
+      ids.add(rule.id);
+      rules.push(rule);
+    } catch (error) {
+      errors.push({ line, message: (error as Error).message });
+    }
+  });
+
+  return { rules, errors };
+}
+
+/**
+ * Parse rule text
+ * @param text Rule text, one rule per line
+ * @returns Parsed rules
+ * @throws Error listing every invalid line
+ */
+export function parseRules(text: string): StyleRule[] {
+  const { rules, errors } = parseRuleText(text);
+  if (errors.length > 0) {
+    throw new Error(errors.map((e) => `line ${e.line}: ${e.message}`).join('\n'));
+  }
+  return rules;
+}
+
+/**
+ * Format rules as text, one per line
+ * @param rules Rules to format
+ * @returns Text that parses back to the same rules
+ */
+export function formatRules(rules: StyleRule[]): string {
+  return rules.map(formatRule).join('\n') + (rules.length > 0 ? '\n' : '');
+}
+
+/**
+ * Format one rule as a line of rule text
+ */
+export function formatRule(rule: StyleRule): string {
+  const header = rule.name && rule.name !== rule.id ? `${rule.id} "${rule.name}":` : `${rule.id}:`;
+  return `${header} ${formatTrigger(rule.trigger)} => ${formatAction(rule)}`;
+}
+
+/**
+ * Parses one non-empty line
+ */
+function parseRuleLine(source: string, line: number): StyleRule {
+  let id = `rule-${line}`;
+  let name = id;
+  let body = source;
+
+  const header = /^([A-Za-z0-9_.-]+)(?:\s+"([^"]*)")?\s*:\s*/.exec(source);
+  if (header) {
+    id = header[1];
+    name = header[2] ?? id;
+    body = source.slice(header[0].length);
+  }
+
+  const arrow = body.indexOf('=>');
+  if (arrow < 0) {
+    throw new Error("Missing '=>' between trigger and action");
+  }
+
+  const trigger = parseTrigger(body.slice(0, arrow).trim());
+  return { id, name, trigger, ...parseAction(body.slice(arrow + 2).trim()) };
+}
+
+/**
+ * Parses the trigger clauses before '=>'
+ */
+function parseTrigger(source: string): StyleTrigger {
+  const trigger: StyleTrigger = {};
+  if (source === 'always') {
+    return trigger;
+  }
+  if (source === '') {
+    throw new Error("Missing trigger (use 'always' to fire on every frame)");
+  }
+
+  let rest = source;
+  while (rest !== '') {
+    const on = /^on\s+(\w+)\s*/.exec(rest);
+    const sections = /^in\s+(\[[^\]]*\]|\w+)\s*/.exec(rest);
+    const band = /^band\s+(\w+)\s*/.exec(rest);
+    const when = /^when\s+(.+)$/.exec(rest);
+
+    if (on) {
+      if (on[1] === 'beat') {
+        trigger.onBeat = true;
+      } else if (on[1] === 'offbeat') {
+        trigger.onBeat = false;
+      } else if (on[1] === 'downbeat') {
+        trigger.onDownbeat = true;
+      } else {
+        throw new Error(`Unknown event '${on[1]}' (expected beat, downbeat or offbeat)`);
+      }
+      rest = rest.slice(on[0].length);
+    } else if (sections) {
+      trigger.sections = parseList(sections[1]).map((section) => {
+        if (!SECTIONS.includes(section as SongSection)) {
+          throw new Error(`Unknown section '${section}' (expected ${SECTIONS.join(', ')})`);
+        }
+        return section as SongSection;
+      });
+      rest = rest.slice(sections[0].length);
+    } else if (band) {
+      if (!BANDS.includes(band[1] as 'low')) {
+        throw new Error(`Unknown band '${band[1]}' (expected low, mid or high)`);
+      }
+      trigger.frequencyBand = band[1] as StyleTrigger['frequencyBand'];
+      rest = rest.slice(band[0].length);
+    } else if (when) {
+      parseWhen(when[1].trim(), trigger);
+      rest = '';
+    } else {
+      throw new Error(`Unexpected '${rest.split(/\s+/)[0]}' in trigger`);
+    }
+  }
+  return trigger;
+}
+
+/**
+ * Splits a 'when' condition into thresholds and a custom condition
+ */
+function parseWhen(source: string, trigger: StyleTrigger): void {
+  // '&&' binds tighter than '||', so thresholds only come out of a plain
+  // conjunction; 'a || b && energy >= .7' stays whole
+  const parts = splitTopLevel(source, '||').length > 1 ? [source] : splitTopLevel(source, '&&');
+  const custom: string[] = [];
+  for (const part of parts) {
+    const threshold = THRESHOLD_PATTERN.exec(part);
+    if (threshold && threshold[1] === 'energy' && trigger.energyThreshold === undefined) {
+      trigger.energyThreshold = Number(threshold[2]);
+    } else if (threshold && threshold[1] === 'flux' && trigger.fluxThreshold === undefined) {
+      trigger.fluxThreshold = Number(threshold[2]);
+    } else {
+      custom.push(part);
+    }
+  }
+
+  if (custom.length > 0) {
+    // A lone parenthesized part is how formatTrigger protects a condition
+    const condition = custom.length === 1 && isWrapped(custom[0]) ? custom[0].slice(1, -1).trim() : custom.join(' && ');
+    compileCondition(condition);
+    trigger.customCondition = condition;
+  }
+}
+
+/**
+ * Splits an expression on an operator outside parentheses and strings
+ */
+function splitTopLevel(source: string, operator: '&&' | '||'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && source.startsWith(operator, i)) {
+      parts.push(source.slice(start, i).trim());
+      start = i + 2;
+      i++;
+    }
+  }
+  parts.push(source.slice(start).trim());
+  return parts;
+}
+
+/**
+ * Checks if a whole expression is enclosed in one pair of parentheses
+ */
+function isWrapped(source: string): boolean {
+  if (!source.startsWith('(') || !source.endsWith(')')) {
+    return false;
+  }
+
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < source.length - 1; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return false; // '(a) && (b)'
+    }
+  }
+  return true;
+}
+
+/**
+ * Parses the action after '=>'
+ */
+function parseAction(source: string): Omit<StyleRule, 'id' | 'name' | 'trigger'> {
+  // Drop spaces inside brackets and parentheses so each part is one word
+  const words = source
+    .replace(/[[(][^\])]*[\])]/g, (group) => group.replace(/\s+/g, ''))
+    .split(/\s+/)
+    .filter((word) => word !== '');
+
+  const type = words.shift();
+  if (!type) {
+    throw new Error('Missing action');
+  }
+  if (!ACTION_TYPES.includes(type as StyleAction['type'])) {
+    throw new Error(`Unknown action '${type}' (expected ${ACTION_TYPES.join(', ')})`);
+  }
+
+  const action: StyleAction = { type: type as StyleAction['type'], targets: [], durationMs: 0 };
+  let hasDuration = false;
+  const rule: Omit<StyleRule, 'id' | 'name' | 'trigger'> = { action, probability: 1, priority: 0 };
+
+  const next = words[0];
+  if (next !== undefined && !isActionOption(next)) {
+    words.shift();
+    action.targets = next === 'all' || next === '*' ? [] : parseList(next);
+  }
+
+  while (words.length > 0) {
+    const word = words.shift() as string;
+    const duration = DURATION_PATTERN.exec(word);
+    const setting = SETTING_PATTERN.exec(word);
+    const group = /^group=([^\s,]+)$/.exec(word);
+
+    if (duration) {
+      action.durationMs = Number(duration[1]) * (duration[2] === 's' ? 1000 : 1);
+      hasDuration = true;
+    } else if (setting) {
+      const value = Number(setting[2]);
+      if (setting[1] === 'p') {
+        if (value < 0 || value > 1) {
+          throw new Error(`Probability ${setting[2]} is outside 0-1`);
+        }
+        rule.probability = value;
+      } else if (setting[1] === 'cooldown') {
+        if (value < 0) {
+          throw new Error(`Cooldown ${setting[2]} must not be negative`);
+        }
+        rule.cooldownBeats = value;
+      } else {
+        rule.priority = value;
+      }
+    } else if (group) {
+      rule.exclusiveGroup = group[1];
+    } else if (word === 'from') {
+      if (words.shift() !== 'palette') {
+        throw new Error("Expected 'palette' after 'from'");
+      }
+      action.color = 'random_from_palette';
+    } else if (word.startsWith('rgb(') || word.startsWith('#')) {
+      action.color = parseColor(word);
+    } else if (word === 'at') {
+      const value = words.shift();
+      action.intensity = value === 'energy' ? 'from_energy' : parseNumber(value, 'at');
+    } else if (word === 'pan' || word === 'tilt') {
+      const value = words.shift();
+      action.movement = { ...action.movement, [word]: value === 'random' ? 'random' : parseNumber(value, word) };
+    } else if (word === 'speed') {
+      action.movement = { ...action.movement, speed: parseNumber(words.shift(), 'speed') };
+    } else {
+      throw new Error(`Unexpected '${word}' in action`);
+    }
+  }
+
+  if (!hasDuration) {
+    throw new Error('Missing duration (such as 200ms or 2s)');
+  }
+  return rule;
+}
+
+/**
+ * Checks if an action word is an option rather than the target list
+ */
+function isActionOption(word: string): boolean {
+  return (
+    ACTION_KEYWORDS.includes(word) ||
+    DURATION_PATTERN.test(word) ||
+    /^(p|priority|cooldown|group)=/.test(word) ||
+    word.startsWith('rgb(') ||
+    word.startsWith('#')
+  );
+}
+
+/**
+ * Parses 'a', 'a,b' or '[a, b]'
+ */
+function parseList(source: string): string[] {
+  const list = source.replace(/^\[|\]$/g, '').split(',').map((item) => item.trim()).filter((item) => item !== '');
+  if (list.length === 0) {
+    throw new Error('Empty list');
+  }
+  return list;
+}
+
+/**
+ * Parses 'rgb(r,g,b)' with 0-1 channels or '#rrggbb'
+ */
+function parseColor(source: string): RGB {
+  const hex = /^#([0-9a-fA-F]{6})$/.exec(source);
+  if (hex) {
+    const value = parseInt(hex[1], 16);
+    return { r: ((value >> 16) & 255) / 255, g: ((value >> 8) & 255) / 255, b: (value & 255) / 255 };
+  }
+
+  const rgb = RGB_PATTERN.exec(source);
+  if (!rgb) {
+    throw new Error(`Invalid color '${source}' (expected rgb(r, g, b) with 0-1 channels or #rrggbb)`);
+  }
+  const [r, g, b] = [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+  if ([r, g, b].some((channel) => channel > 1)) {
+    throw new Error(`Color channels in '${source}' must be 0-1`);
+  }
+  return { r, g, b };
+}
+
+/**
+ * Parses the number after an option word
+ */
+function parseNumber(source: string | undefined, option: string): number {
+  if (source === undefined || !NUMBER_PATTERN.test(source)) {
+    throw new Error(`Expected a number after '${option}'`);
+  }
+  return Number(source);
+}
+
+/**
+ * Formats the trigger clauses of a rule
+ */
+function formatTrigger(trigger: StyleTrigger): string {
+  const clauses: string[] = [];
+  if (trigger.onBeat !== undefined) {
+    clauses.push(trigger.onBeat ? 'on beat' : 'on offbeat');
+  }
+  if (trigger.onDownbeat) {
+    clauses.push('on downbeat');
+  }
+  if (trigger.sections && trigger.sections.length > 0) {
+    clauses.push(`in [${trigger.sections.join(', ')}]`);
+  }
+  if (trigger.frequencyBand) {
+    clauses.push(`band ${trigger.frequencyBand}`);
+  }
+
+  const conditions: string[] = [];
+  if (trigger.energyThreshold !== undefined) {
+    conditions.push(`energy >= ${trigger.energyThreshold}`);
+  }
+  if (trigger.fluxThreshold !== undefined) {
+    conditions.push(`flux >= ${trigger.fluxThreshold}`);
+  }
+  if (trigger.customCondition !== undefined) {
+    const condition = trigger.customCondition;
+    conditions.push(needsParens(condition, conditions.length > 0) ? `(${condition})` : condition);
+  }
+  if (conditions.length > 0) {
+    clauses.push(`when ${conditions.join(' && ')}`);
+  }
+
+  return clauses.length > 0 ? clauses.join(' ') : 'always';
+}
+
+/**
+ * Checks if parseWhen would read a custom condition differently unless it
+ * is parenthesized: a top-level '||' after the thresholds, a part that
+ * looks like a threshold, or outer parentheses it would strip
+ * @param condition Custom condition
+ * @param afterThresholds True if threshold parts come before it
+ */
+function needsParens(condition: string, afterThresholds: boolean): boolean {
+  if (splitTopLevel(condition, '||').length > 1) {
+    return afterThresholds;
+  }
+  return isWrapped(condition) || splitTopLevel(condition, '&&').some((part) => THRESHOLD_PATTERN.test(part));
+}
+
+/**
+ * Formats the action of a rule with its probability and priority
+ */
+function formatAction(rule: StyleRule): string {
+  const { action } = rule;
+  const words: string[] = [action.type, action.targets.length > 0 ? action.targets.join(',') : 'all'];
+
+  if (action.color === 'random_from_palette') {
+    words.push('from palette');
+  } else if (action.color) {
+    words.push(`rgb(${action.color.r}, ${action.color.g}, ${action.color.b})`);
+  }
+  if (action.intensity !== undefined) {
+    words.push(`at ${action.intensity === 'from_energy' ? 'energy' : action.intensity}`);
+  }
+  if (action.movement?.pan !== undefined) {
+    words.push(`pan ${action.movement.pan}`);
+  }
+  if (action.movement?.tilt !== undefined) {
+    words.push(`tilt ${action.movement.tilt}`);
+  }
+  if (action.movement?.speed !== undefined) {
+    words.push(`speed ${action.movement.speed}`);
+  }
+
+  words.push(action.durationMs % 1000 === 0 && action.durationMs >= 1000 ? `${action.durationMs / 1000}s` : `${action.durationMs}ms`);
+  if (rule.probability !== 1) {
+    words.push(`p=${rule.probability}`);
+  }
+  if (rule.priority !== 0) {
+    words.push(`priority=${rule.priority}`);
+  }
+  if (rule.exclusiveGroup !== undefined) {
+    words.push(`group=${rule.exclusiveGroup}`);
+  }
+  if (rule.cooldownBeats !== undefined) {
+    words.push(`cooldown=${rule.cooldownBeats}`);
+  }
+  return words.join(' ');
+}
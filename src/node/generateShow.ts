@@ -0,0 +1,162 @@
+/**
+ * generateShow - Headless show generation from the command line
+ *
+ * Decodes a PCM WAV file, runs the same pre-analysis as AdvancedAnalyzer,
+ * builds a show plan and renders the lighting timeline on a headless rig
+ * with the default stage layout. No browser, AudioContext or DOM needed.
+ *
+ * Both pipelines analyze the first channel with analyzeTrack. The one
+ * difference is the tempo hint given to beat tracking: the browser takes it
+ * from web-audio-beat-detector, which needs Web Audio, while Node estimates
+ * it from the onset envelope (or takes --bpm). Tempo, and so beats and
+ * sections, can therefore differ slightly between the two on some tracks.
+ *
+ * Usage:
+ *   npm run generate-show -- <track.wav> [options]
+ *
+ * Options:
+ *   --out <file>    Timeline JSON path (default: <track>.timeline.json)
+ *   --fps <n>       Timeline frame rate (default: 30)
+ *   --bpm <n>       Use this tempo instead of estimating it
+ *   --dmx <file>    Also write a binary DMX dump (fixtures patched in order)
+ *   --plan <file>   Also write the show plan as JSON
+ *   --seed <value>  Seed for random choices (default: random, printed so
+ *                   the same show can be generated again)
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import * as THREE from 'three';
+import { decodeWav } from '../audio/WavDecoder';
+import { analyzeTrack, mixToMono } from '../audio/TrackAnalysis';
+import { FrameSynthesizer, extractFeatureTrack } from '../audio/FrameSynthesizer';
+import { LightingController } from '../stage/LightingController';
+import { MappingEngine } from '../mapping/MappingEngine';
+import { renderShow, getTimelineFrame, timelineToJSON } from '../mapping/OfflineRenderer';
+import { DmxMapper } from '../output/DmxMapper';
+import { DmxPatch } from '../output/DmxPatch';
+import { encodeDmxDump } from '../output/DmxDump';
+
+/**
+ * Parsed command line
+ */
+interface GenerateOptions {
+  input: string;
+  out: string;
+  fps: number;
+  bpm?: number;
+  dmx?: string;
+  plan?: string;
+  seed?: string;
+}
+
+/**
+ * Parses the command line arguments
+ */
+function parseArgs(args: string[]): GenerateOptions {
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      values[arg.slice(2)] = value;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const input = positional[0];
+  if (!input) {
+    throw new Error('Usage: generate-show <track.wav> [--out file] [--fps n] [--bpm n] [--dmx file] [--plan file] [--seed value]');
+  }
+
+  const fps = values.fps !== undefined ? Number(values.fps) : 30;
+  const bpm = values.bpm !== undefined ? Number(values.bpm) : undefined;
+  if (!Number.isInteger(fps) || fps < 1) {
+    throw new Error(`Invalid --fps: ${values.fps}`);
+  }
+  if (bpm !== undefined && !(bpm > 0)) {
+    throw new Error(`Invalid --bpm: ${values.bpm}`);
+  }
+
+  return {
+    input,
+    out: values.out ?? `${input.slice(0, input.length - extname(input).length)}.timeline.json`,
+    fps,
+    bpm,
+    dmx: values.dmx,
+    plan: values.plan,
+    seed: values.seed,
+  };
+}
+
+/**
+ * Generates the show for one track
+ */
+async function generateShow(options: GenerateOptions): Promise<void> {
+  const title = basename(options.input, extname(options.input));
+
+  console.log(`Decoding ${options.input}...`);
+  const audio = decodeWav(new Uint8Array(await readFile(options.input)));
+  const samples = mixToMono(audio.channels);
+  console.log(`  ${audio.duration.toFixed(1)}s, ${audio.sampleRate} Hz, ${audio.channels.length} channel(s)`);
+
+  console.log('Analyzing...');
+  const analysis = analyzeTrack(samples, audio.sampleRate, { bpm: options.bpm });
+  console.log(
+    `  ${analysis.bpm} BPM, ${analysis.beats.length} beats (confidence ${(analysis.beatConfidence ?? 0).toFixed(2)}), ` +
+      `${analysis.timeSignature ?? '4/4'}, ${analysis.sections.length} sections ` +
+      `(${analysis.sections.map((s) => s.label ?? '?').join('')}), ${analysis.drops?.length ?? 0} drops`
+  );
+
+  // Headless rig with the default stage layout
+  const rig = new LightingController(new THREE.Scene());
+  rig.createDefaultLayout();
+
+  const engine = new MappingEngine({ seed: options.seed });
+  engine.registerFixtures(rig.getFixtureStates(), rig.getGroups());
+  const plan = engine.getShowPlanner().createPlan(analysis);
+  engine.loadShowPlan(plan);
+  console.log(`  Show plan: ${plan.scenes.length} scenes, theme ${plan.globalTheme.name}, seed ${engine.getSeed()}`);
+
+  console.log(`Rendering at ${options.fps} fps...`);
+  const features = extractFeatureTrack(samples, audio.sampleRate, options.fps);
+  const timeline = await renderShow(new FrameSynthesizer(analysis, features), engine, rig, {
+    frameRate: options.fps,
+    title,
+    onProgress: (progress) => process.stdout.write(`\r  ${Math.round(progress * 100)}%`),
+  });
+  process.stdout.write('\n');
+  await rig.dispose();
+
+  await writeFile(options.out, timelineToJSON(timeline));
+  console.log(`Wrote ${options.out} (${timeline.frameCount} frames, ${timeline.tracks.length} fixtures)`);
+
+  if (options.plan) {
+    await writeFile(options.plan, JSON.stringify(plan, null, 2));
+    console.log(`Wrote ${options.plan}`);
+  }
+
+  if (options.dmx) {
+    const mapper = new DmxMapper();
+    new DmxPatch(mapper).patchSequentially(timeline.tracks);
+    const dump = encodeDmxDump(mapper, timeline.frameRate, timeline.frameCount, (index) =>
+      getTimelineFrame(timeline, index)
+    );
+    await writeFile(options.dmx, dump);
+    console.log(`Wrote ${options.dmx}`);
+  }
+}
+
+// Argument errors go through the same handler as generation errors
+Promise.resolve()
+  .then(() => generateShow(parseArgs(process.argv.slice(2))))
+  .catch((error: Error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+  });
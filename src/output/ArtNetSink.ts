@@ -0,0 +1,158 @@
+/**
+ * ArtNetSink - Sends DMX universes as Art-Net ArtDmx packets over UDP
+ *
+ * Implements the ArtDmx (OpCode 0x5000) packet of Art-Net 4. Universe
+ * numbers are used directly as the 15-bit Port-Address (Net:SubNet:Universe).
+ */
+
+import { DmxSink, DMX_UNIVERSE_SIZE } from './DmxSink';
+import { RetryingSocket, UdpSocket, createUdpSocket } from './UdpSocket';
+
+/**
+ * Default Art-Net UDP port
+ */
+export const ARTNET_PORT = 6454;
+
+/**
+ * Art-Net protocol revision carried in every packet
+ */
+const ARTNET_PROTOCOL_VERSION = 14;
+
+/**
+ * ArtDmx opcode
+ */
+const OP_DMX = 0x5000;
+
+/**
+ * Size of the ArtDmx header preceding channel data
+ */
+const ARTDMX_HEADER_SIZE = 18;
+
+/**
+ * Configuration for the Art-Net sink
+ */
+export interface ArtNetSinkConfig {
+  /** Destination node IP or broadcast address */
+  host: string;
+  /** Destination UDP port */
+  port: number;
+  /** Enable broadcast sends (required for x.x.x.255 destinations) */
+  broadcast: boolean;
+  /** Physical input port reported in packets (informational) */
+  physical: number;
+  /** Pre-created socket; created lazily from Node's dgram when omitted */
+  socket?: UdpSocket;
+}
+
+/**
+ * Builds an ArtDmx packet
+ * @param universe - 15-bit Port-Address
+ * @param data - Channel data (up to 512 bytes)
+ * @param sequence - Sequence number 1-255 (0 disables sequencing)
+ * @param physical - Physical input port
+ * @returns Encoded packet
+ */
+export function buildArtDmxPacket(
+  universe: number,
+  data: Uint8Array,
+  sequence: number = 0,
+  physical: number = 0
+): Uint8Array {
+  if (universe < 0 || universe > 0x7fff) {
+    throw new Error(`Art-Net universe out of range: ${universe}`);
+  }
+
+  // Data length must be even and between 2 and 512
+  const channelCount = Math.min(data.length, DMX_UNIVERSE_SIZE);
+  const length = Math.max(2, channelCount + (channelCount % 2));
+
+  const packet = new Uint8Array(ARTDMX_HEADER_SIZE + length);
+  const view = new DataView(packet.buffer);
+
+  // ID: "Art-Net\0"
+  packet.set([0x41, 0x72, 0x74, 0x2d, 0x4e, 0x65, 0x74, 0x00], 0);
+  view.setUint16(8, OP_DMX, true); // OpCode (little endian)
+  view.setUint16(10, ARTNET_PROTOCOL_VERSION, false); // ProtVer (big endian)
+  packet[12] = sequence & 0xff;
+  packet[13] = physical & 0xff;
+  packet[14] = universe & 0xff; // SubUni
+  packet[15] = (universe >> 8) & 0x7f; // Net
+  view.setUint16(16, length, false); // Length (big endian)
+  packet.set(data.subarray(0, channelCount), ARTDMX_HEADER_SIZE);
+
+  return packet;
+}
+
+/**
+ * DMX sink that transmits Art-Net to a node
+ */
+export class ArtNetSink implements DmxSink {
+  readonly name = 'artnet';
+  private config: ArtNetSinkConfig;
+  private socket: RetryingSocket;
+  private sequences: Map<number, number> = new Map();
+
+  /**
+   * Create a new Art-Net sink
+   * @param config - Sink configuration
+   */
+  constructor(config: Partial<ArtNetSinkConfig> = {}) {
+    this.config = {
+      host: '255.255.255.255',
+      port: ARTNET_PORT,
+      broadcast: true,
+      physical: 0,
+      ...config,
+    };
+    this.socket = new RetryingSocket(
+      'ArtNetSink',
+      () => createUdpSocket({ broadcast: this.config.broadcast }),
+      config.socket
+    );
+  }
+
+  /**
+   * Transmit one universe as an ArtDmx packet
+   * @param universe - Port-Address
+   * @param data - Channel data
+   */
+  send(universe: number, data: Uint8Array): void {
+    const socket = this.socket.get();
+    if (!socket) {
+      return; // Waiting to retry a socket that failed to open
+    }
+
+    const packet = buildArtDmxPacket(
+      universe,
+      data,
+      this.nextSequence(universe),
+      this.config.physical
+    );
+
+    socket.then(
+      (socket) =>
+        socket.send(packet, this.config.port, this.config.host).catch((error) => {
+          console.error(`[ArtNetSink] Failed to send universe ${universe}:`, error);
+        }),
+      () => {
+        // Already reported when the socket failed to open
+      }
+    );
+  }
+
+  /**
+   * Close the socket
+   */
+  async close(): Promise<void> {
+    await this.socket.close();
+  }
+
+  /**
+   * Advance the per-universe sequence number (1-255, skipping 0)
+   */
+  private nextSequence(universe: number): number {
+    const next = ((this.sequences.get(universe) ?? 0) % 255) + 1;
+    this.sequences.set(universe, next);
+    return next;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * DmxDump - Binary recording of rendered DMX universes
+ *
+ * A dump holds the complete channel data of every frame of a show, ready to
+ * be streamed to a rig by a player that knows nothing about fixtures.
+ *
+ * Layout (little endian):
+ *   0   "LSDX" magic
+ *   4   u8  version
+ *   5   u8  reserved
+ *   6   u16 frame rate (frames per second)
+ *   8   u32 frame count
+ *   12  u16 universe count (U)
+ *   14  u16 universe numbers, U entries
+ *   ... frame data: frameCount x U x 512 bytes, universes in header order
+ */
+
+import type { Fixture } from '../shared/types';
+import type { DmxMapper } from './DmxMapper';
+import { DMX_UNIVERSE_SIZE } from './DmxSink';
+
+/**
+ * Current dump format version
+ */
+export const DMX_DUMP_VERSION = 1;
+
+/**
+ * File magic: "LSDX"
+ */
+const MAGIC = [0x4c, 0x53, 0x44, 0x58];
+
+/**
+ * Bytes before the universe list
+ */
+const HEADER_SIZE = 14;
+
+/**
+ * A decoded DMX dump
+ */
+export interface DmxDump {
+  frameRate: number;
+  frameCount: number;
+  /** Universe numbers, in storage order */
+  universes: number[];
+  /**
+   * Channel data of a frame
+   * @param index - Frame index
+   * @returns Map of universe number to 512-channel buffer (views into the dump)
+   */
+  getFrame(index: number): Map<number, Uint8Array>;
+}
+
+/**
+ * Render a sequence of fixture states into a dump
+ * @param mapper - Mapper holding the fixture addresses
+ * @param frameRate - Frames per second
+ * @param frameCount - Number of frames
+ * @param getFrame - Fixture states of a frame
+ * @returns Dump bytes
+ */
+export function encodeDmxDump(
+  mapper: DmxMapper,
+  frameRate: number,
+  frameCount: number,
+  getFrame: (index: number) => Fixture[]
+): Uint8Array<ArrayBuffer> {
+  if (!Number.isInteger(frameRate) || frameRate < 1 || frameRate > 0xffff) {
+    throw new Error(`Invalid frame rate for DMX dump: ${frameRate}`);
+  }
+
+  // Universes of every fixture patched at the first frame
+  const first = frameCount > 0 ? getFrame(0) : [];
+  const universes = Array.from(
+    new Set(
+      first
+        .map((fixture) => mapper.getAddress(fixture.id)?.universe)
+        .filter((universe): universe is number => universe !== undefined)
+    )
+  ).sort((a, b) => a - b);
+
+  const headerSize = HEADER_SIZE + universes.length * 2;
+  const frameSize = universes.length * DMX_UNIVERSE_SIZE;
+  const bytes = new Uint8Array(headerSize + frameCount * frameSize);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  bytes[4] = DMX_DUMP_VERSION;
+  view.setUint16(6, frameRate, true);
+  view.setUint32(8, frameCount, true);
+  view.setUint16(12, universes.length, true);
+  universes.forEach((universe, i) => view.setUint16(HEADER_SIZE + i * 2, universe, true));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const rendered = mapper.render(frame === 0 ? first : getFrame(frame));
+    universes.forEach((universe, u) => {
+      const data = rendered.get(universe);
+      if (data) {
+        bytes.set(data, headerSize + frame * frameSize + u * DMX_UNIVERSE_SIZE);
+      }
+    });
+  }
+
+  return bytes;
+}
+
+/**
+ * Read a dump written by encodeDmxDump
+ * @param bytes - Dump bytes
+ * @returns Decoded dump
+ */
+export function decodeDmxDump(bytes: Uint8Array): DmxDump {
+  if (bytes.length < HEADER_SIZE || MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new Error('Not a DMX dump');
+  }
+  if (bytes[4] > DMX_DUMP_VERSION) {
+    throw new Error(`Unsupported DMX dump version: ${bytes[4]}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frameRate = view.getUint16(6, true);
+  const frameCount = view.getUint32(8, true);
+  const universeCount = view.getUint16(12, true);
+  const universes: number[] = [];
+  for (let i = 0; i < universeCount; i++) {
+    universes.push(view.getUint16(HEADER_SIZE + i * 2, true));
+  }
+
+  const headerSize = HEADER_SIZE + universeCount * 2;
+  const frameSize = universeCount * DMX_UNIVERSE_SIZE;
+  if (bytes.length < headerSize + frameCount * frameSize) {
+    throw new Error('Truncated DMX dump');
+  }
+
+  return {
+    frameRate,
+    frameCount,
+    universes,
+    getFrame(index: number): Map<number, Uint8Array> {
+      if (index < 0 || index >= frameCount) {
+        throw new Error(`Frame out of range: ${index}`);
+      }
+      const frame = new Map<number, Uint8Array>();
+      universes.forEach((universe, u) => {
+        const start = headerSize + index * frameSize + u * DMX_UNIVERSE_SIZE;
+        frame.set(universe, bytes.subarray(start, start + DMX_UNIVERSE_SIZE));
+      });
+      return frame;
+    },
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * DmxMapper - Renders fixture states into DMX universe buffers
+ *
+ * Fixtures are encoded through a fixture profile mode. Fixtures bound to a
+ * device profile use its mode; all others use a generic profile built from
+ * the channel layout of their type, written from the fixture's start address.
+ */
+
+import { Fixture, FixtureType } from '../shared/types';
+import { DMX_UNIVERSE_SIZE } from './DmxSink';
+import {
+  ChannelAttribute,
+  FixtureMode,
+  FixtureProfile,
+  createGenericProfile,
+  getMode,
+} from './FixtureProfile';
+import { encodeChannels } from './ProfileEncoder';
+
+/**
+ * Location of a fixture in the DMX address space
+ */
+export interface DmxAddress {
+  /** Universe number */
+  universe: number;
+  /** Start address, 1-512 */
+  address: number;
+}
+
+/**
+ * Configuration for the DMX mapper
+ */
+export interface DmxMapperConfig {
+  /** Strobe rate in Hz that maps to channel value 255 */
+  maxStrobeRate: number;
+  /** Flash duration in ms that maps to channel value 255 */
+  maxStrobeDuration: number;
+}
+
+/**
+ * Default channel layouts for the built-in fixture types
+ */
+export const DEFAULT_CHANNEL_LAYOUTS: Record<FixtureType, ChannelAttribute[]> = {
+  moving_head: ['pan', 'tilt', 'speed', 'dimmer', 'red', 'green', 'blue', 'zoom'],
+  wash: ['dimmer', 'red', 'green', 'blue', 'zoom'],
+  strobe: ['dimmer', 'strobe', 'strobeDuration', 'red', 'green', 'blue'],
+  laser: ['dimmer', 'red', 'green', 'blue', 'xPosition', 'yPosition', 'pattern'],
+  par: ['dimmer', 'red', 'green', 'blue'],
+  // Whole-bar control; bind a pixel bar profile for per-cell channels
+  pixel_bar: ['dimmer', 'red', 'green', 'blue'],
+};
+
+/**
+ * Device profile and mode bound to a fixture
+ */
+export interface ProfileBinding {
+  /** Fixture profile */
+  profile: FixtureProfile;
+  /** Mode used by the device */
+  mode: FixtureMode;
+}
+
+/**
+ * Maps fixture states onto DMX universes
+ */
+export class DmxMapper {
+  private config: DmxMapperConfig;
+  private addresses: Map<string, DmxAddress> = new Map();
+  private layouts: Record<FixtureType, ChannelAttribute[]>;
+  private genericProfiles: Map<FixtureType, FixtureProfile> = new Map();
+  private bindings: Map<string, ProfileBinding> = new Map();
+  private overflowing: Set<string> = new Set();
+
+  /**
+   * Create a new DMX mapper
+   * @param config - Mapper configuration
+   * @param layouts - Channel layout overrides per fixture type
+   */
+  constructor(
+    config: Partial<DmxMapperConfig> = {},
+    layouts: Partial<Record<FixtureType, ChannelAttribute[]>> = {}
+  ) {
+    this.config = {
+      maxStrobeRate: 25,
+      maxStrobeDuration: 200,
+      ...config,
+    };
+    this.layouts = { ...DEFAULT_CHANNEL_LAYOUTS, ...layouts };
+
+    for (const type of Object.keys(this.layouts) as FixtureType[]) {
+      this.genericProfiles.set(type, createGenericProfile(type, this.layouts[type], this.config));
+    }
+  }
+
+  /**
+   * Assign a fixture to a DMX address
+   * @param fixtureId - Fixture ID
+   * @param address - Universe and start address
+   * @param footprint - Number of channels the fixture occupies
+   */
+  assign(fixtureId: string, address: DmxAddress, footprint: number = 1): void {
+    if (address.address < 1 || address.address > DMX_UNIVERSE_SIZE) {
+      throw new Error(`DMX address out of range for ${fixtureId}: ${address.address}`);
+    }
+    if (address.address + footprint - 1 > DMX_UNIVERSE_SIZE) {
+      throw new Error(`${fixtureId} (${footprint} channels) does not fit at address ${address.address}`);
+    }
+    this.addresses.set(fixtureId, { ...address });
+  }
+
+  /**
+   * Remove a fixture's address assignment
+   * @param fixtureId - Fixture ID
+   */
+  unassign(fixtureId: string): void {
+    this.addresses.delete(fixtureId);
+  }
+
+  /**
+   * Get a fixture's address assignment
+   * @param fixtureId - Fixture ID
+   * @returns Address or undefined if unassigned
+   */
+  getAddress(fixtureId: string): DmxAddress | undefined {
+    const address = this.addresses.get(fixtureId);
+    return address ? { ...address } : undefined;
+  }
+
+  /**
+   * Get the channel layout for a fixture type
+   * @param type - Fixture type
+   * @returns Ordered channel attributes
+   */
+  getLayout(type: FixtureType): ChannelAttribute[] {
+    return [...this.layouts[type]];
+  }
+
+  /**
+   * Bind a fixture to a device profile mode
+   * @param fixtureId - Fixture ID
+   * @param profile - Device profile
+   * @param modeName - Mode name; the profile's first mode when omitted
+   */
+  bindProfile(fixtureId: string, profile: FixtureProfile, modeName?: string): void {
+    this.bindings.set(fixtureId, { profile, mode: getMode(profile, modeName) });
+  }
+
+  /**
+   * Return a fixture to the generic profile of its type
+   * @param fixtureId - Fixture ID
+   */
+  unbindProfile(fixtureId: string): void {
+    this.bindings.delete(fixtureId);
+  }
+
+  /**
+   * Get a fixture's profile binding
+   * @param fixtureId - Fixture ID
+   * @returns Binding or undefined if the fixture uses the generic profile
+   */
+  getBinding(fixtureId: string): ProfileBinding | undefined {
+    return this.bindings.get(fixtureId);
+  }
+
+  /**
+   * Get the generic profile for a fixture type
+   * @param type - Fixture type
+   * @returns Single-mode profile built from the type's channel layout
+   */
+  getGenericProfile(type: FixtureType): FixtureProfile {
+    return this.genericProfiles.get(type)!;
+  }
+
+  /**
+   * Resolve the profile and mode used to encode a fixture
+   * @param fixtureId - Fixture ID
+   * @param type - Fixture type
+   * @returns Bound profile, or the generic profile for the type
+   */
+  resolveBinding(fixtureId: string, type: FixtureType): ProfileBinding {
+    const binding = this.bindings.get(fixtureId);
+    if (binding) {
+      return binding;
+    }
+    const profile = this.getGenericProfile(type);
+    return { profile, mode: profile.modes[0] };
+  }
+
+  /**
+   * Get the number of channels a fixture occupies
+   * @param fixtureId - Fixture ID
+   * @param type - Fixture type
+   * @returns Channel count
+   */
+  getFootprint(fixtureId: string, type: FixtureType): number {
+    return this.resolveBinding(fixtureId, type).mode.channels.length;
+  }
+
+  /**
+   * Render fixture states into universe buffers
+   * @param fixtures - Current fixture states
+   * @returns Map of universe number to 512-channel buffer
+   */
+  render(fixtures: Fixture[]): Map<number, Uint8Array> {
+    const universes = new Map<number, Uint8Array>();
+
+    for (const fixture of fixtures) {
+      const address = this.addresses.get(fixture.id);
+      if (!address) {
+        continue;
+      }
+
+      let buffer = universes.get(address.universe);
+      if (!buffer) {
+        buffer = new Uint8Array(DMX_UNIVERSE_SIZE);
+        universes.set(address.universe, buffer);
+      }
+
+      const { profile, mode } = this.resolveBinding(fixture.id, fixture.type);
+      const start = address.address - 1;
+      if (start + mode.channels.length > DMX_UNIVERSE_SIZE) {
+        // Refuse the fixture rather than drive a partial set of its channels
+        if (!this.overflowing.has(fixture.id)) {
+          this.overflowing.add(fixture.id);
+          console.error(
+            `[DmxMapper] ${fixture.id} (${mode.channels.length} channels) runs past the end of ` +
+            `universe ${address.universe} at address ${address.address}; not rendering it`
+          );
+        }
+        continue;
+      }
+
+      buffer.set(encodeChannels(fixture, mode, profile.physical), start);
+    }
+
+    return universes;
+  }
+}
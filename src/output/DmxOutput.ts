@@ -0,0 +1,176 @@
+/**
+ * DmxOutput - Periodically renders fixture states and sends them to DMX sinks
+ *
+ * DMX receivers expect a continuous stream, so output runs on its own timer
+ * at a fixed refresh rate rather than following the render loop.
+ */
+
+import { Fixture } from '../shared/types';
+import { DmxMapper } from './DmxMapper';
+import { DmxSink } from './DmxSink';
+
+/**
+ * Configuration for DMX output
+ */
+export interface DmxOutputConfig {
+  /** Frames per second sent to every sink */
+  refreshRate: number;
+}
+
+/**
+ * Drives one or more DMX sinks from fixture state
+ */
+export class DmxOutput {
+  private config: DmxOutputConfig;
+  private mapper: DmxMapper;
+  private sinks: DmxSink[] = [];
+  private source: (() => Fixture[]) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastFrame: Map<number, Uint8Array> = new Map();
+  private failedSends: Set<string> = new Set();
+
+  /**
+   * Create a new DMX output
+   * @param mapper - Mapper that renders fixtures into universes
+   * @param config - Output configuration
+   */
+  constructor(mapper: DmxMapper, config: Partial<DmxOutputConfig> = {}) {
+    this.mapper = mapper;
+    this.config = {
+      refreshRate: 40,
+      ...config,
+    };
+  }
+
+  /**
+   * Add a sink to receive rendered universes
+   * @param sink - DMX sink
+   */
+  addSink(sink: DmxSink): void {
+    if (!this.sinks.includes(sink)) {
+      this.sinks.push(sink);
+    }
+  }
+
+  /**
+   * Remove a sink
+   * @param sink - DMX sink
+   */
+  removeSink(sink: DmxSink): void {
+    this.sinks = this.sinks.filter((s) => s !== sink);
+  }
+
+  /**
+   * Get all attached sinks
+   */
+  getSinks(): DmxSink[] {
+    return [...this.sinks];
+  }
+
+  /**
+   * Get the mapper
+   */
+  getMapper(): DmxMapper {
+    return this.mapper;
+  }
+
+  /**
+   * Start transmitting at the configured refresh rate
+   * @param source - Function returning the current fixture states
+   */
+  start(source: () => Fixture[]): void {
+    this.source = source;
+    this.stopTimer();
+    this.timer = setInterval(() => this.transmit(), 1000 / this.config.refreshRate);
+  }
+
+  /**
+   * Stop transmitting and tell sinks the stream has ended
+   * @returns Resolves once the sinks have sent their termination messages
+   */
+  async stop(): Promise<void> {
+    const wasRunning = this.timer !== null;
+    this.stopTimer();
+
+    if (wasRunning && this.lastFrame.size > 0) {
+      const universes = Array.from(this.lastFrame.keys());
+      await Promise.all(this.sinks.map((sink) => sink.terminate?.(universes)));
+    }
+  }
+
+  /**
+   * Check if the refresh timer is running
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Change the refresh rate, restarting the timer if running
+   * @param refreshRate - Frames per second
+   */
+  setRefreshRate(refreshRate: number): void {
+    if (refreshRate <= 0) {
+      throw new Error(`Invalid DMX refresh rate: ${refreshRate}`);
+    }
+    this.config.refreshRate = refreshRate;
+    if (this.timer && this.source) {
+      this.start(this.source);
+    }
+  }
+
+  /**
+   * Render the current fixture states and send every universe once
+   */
+  transmit(): void {
+    if (!this.source) {
+      return;
+    }
+
+    this.lastFrame = this.mapper.render(this.source());
+
+    this.lastFrame.forEach((data, universe) => {
+      for (const sink of this.sinks) {
+        try {
+          sink.send(universe, data);
+        } catch (error) {
+          // Keep the other sinks and universes running; report each failure once
+          const key = `${sink.name}:${universe}`;
+          if (!this.failedSends.has(key)) {
+            this.failedSends.add(key);
+            console.error(`[DmxOutput] ${sink.name} cannot send universe ${universe}:`, error);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the most recently transmitted data for a universe
+   * @param universe - Universe number
+   * @returns Copy of the channel data or undefined
+   */
+  getUniverseData(universe: number): Uint8Array | undefined {
+    const data = this.lastFrame.get(universe);
+    return data ? new Uint8Array(data) : undefined;
+  }
+
+  /**
+   * Stop output and close all sinks
+   */
+  async dispose(): Promise<void> {
+    await this.stop();
+    await Promise.all(this.sinks.map((sink) => sink.close()));
+    this.sinks = [];
+  }
+
+  /**
+   * Clear the refresh timer
+   */
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
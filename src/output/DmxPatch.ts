@@ -0,0 +1,404 @@
+/**
+ * DmxPatch - Assigns fixtures to universes, start addresses and profile modes
+ *
+ * The patch is the source of truth for where each stage fixture lives in
+ * the DMX address space. It keeps the mapper's addresses and profile
+ * bindings in sync, rejects overlapping address ranges, reports unpatched
+ * fixtures, and serializes to JSON so a show can be re-patched for
+ * another venue without touching the programming.
+ */
+
+import { FixtureType } from '../shared/types';
+import { DmxMapper } from './DmxMapper';
+import { DMX_UNIVERSE_SIZE } from './DmxSink';
+import { FixtureProfile, getMode, getProfileKey } from './FixtureProfile';
+import { ProfileLibrary } from './ProfileLibrary';
+
+/**
+ * Version of the serialized patch format
+ */
+const PATCH_FORMAT_VERSION = 1;
+
+/**
+ * Where and how a fixture is patched
+ */
+export interface PatchLocation {
+  /** Universe number */
+  universe: number;
+  /** Start address, 1-512 */
+  address: number;
+  /** Library key of the device profile; the generic profile when omitted */
+  profile?: string;
+  /** Profile mode name; the profile's first mode when omitted */
+  mode?: string;
+}
+
+/**
+ * A single patched fixture
+ */
+export interface PatchEntry extends PatchLocation {
+  /** Fixture ID as registered with the stage */
+  fixtureId: string;
+  /** Stage fixture type */
+  fixtureType: FixtureType;
+  /** Number of channels occupied */
+  footprint: number;
+}
+
+/**
+ * Two fixtures whose address ranges overlap
+ */
+export interface PatchConflict {
+  /** Universe number */
+  universe: number;
+  /** IDs of the overlapping fixtures */
+  fixtureIds: [string, string];
+  /** Overlapping address range [first, last] */
+  range: [number, number];
+}
+
+/**
+ * Serialized patch
+ */
+export interface PatchData {
+  version: number;
+  entries: Omit<PatchEntry, 'footprint'>[];
+}
+
+/**
+ * A validated patch entry with its profile binding, not yet applied
+ */
+interface ResolvedEntry {
+  entry: PatchEntry;
+  binding: { profile: FixtureProfile; mode: string } | null;
+}
+
+/**
+ * Throws when an entry's address range overlaps one of the other entries
+ */
+function assertNoOverlap(entry: PatchEntry, others: PatchEntry[]): void {
+  const end = entry.address + entry.footprint - 1;
+  for (const other of others) {
+    const otherEnd = other.address + other.footprint - 1;
+    if (other.universe === entry.universe && other.address <= end && entry.address <= otherEnd) {
+      throw new Error(
+        `${entry.fixtureId} overlaps ${other.fixtureId} at ` +
+        `${entry.universe}.${Math.max(entry.address, other.address)}-${Math.min(end, otherEnd)}`
+      );
+    }
+  }
+}
+
+/**
+ * Fixture patch backed by a DMX mapper
+ */
+export class DmxPatch {
+  private mapper: DmxMapper;
+  private library: ProfileLibrary;
+  private entries: Map<string, PatchEntry> = new Map();
+
+  /**
+   * Create a new patch
+   * @param mapper - Mapper that renders the patched fixtures
+   * @param library - Profiles available for patching
+   */
+  constructor(mapper: DmxMapper, library: ProfileLibrary = new ProfileLibrary()) {
+    this.mapper = mapper;
+    this.library = library;
+  }
+
+  /**
+   * Patch a fixture, replacing any previous patch for it
+   * @param fixtureId - Fixture ID
+   * @param fixtureType - Stage fixture type
+   * @param location - Universe, start address and profile mode
+   * @returns Patch entry
+   */
+  patch(fixtureId: string, fixtureType: FixtureType, location: PatchLocation): PatchEntry {
+    const resolved = this.resolveEntry(fixtureId, fixtureType, location);
+    const others = Array.from(this.entries.values()).filter((entry) => entry.fixtureId !== fixtureId);
+    assertNoOverlap(resolved.entry, others);
+    this.applyEntry(resolved);
+    return { ...resolved.entry };
+  }
+
+  /**
+   * Patch a fixture at the first free address of a universe
+   * @param fixtureId - Fixture ID
+   * @param fixtureType - Stage fixture type
+   * @param universe - Universe number
+   * @param profile - Library key of the device profile
+   * @param mode - Profile mode name
+   * @returns Patch entry
+   */
+  patchNext(
+    fixtureId: string,
+    fixtureType: FixtureType,
+    universe: number,
+    profile?: string,
+    mode?: string
+  ): PatchEntry {
+    this.unpatch(fixtureId);
+
+    const footprint = profile !== undefined
+      ? this.resolveProfile(profile, mode).channels
+      : this.mapper.getGenericProfile(fixtureType).modes[0].channels.length;
+
+    const address = this.findFreeAddress(universe, footprint);
+    if (address === null) {
+      throw new Error(`No room for ${fixtureId} (${footprint} channels) in universe ${universe}`);
+    }
+
+    return this.patch(fixtureId, fixtureType, { universe, address, profile, mode });
+  }
+
+  /**
+   * Patch fixtures one after another with generic profiles, moving on to
+   * the next universe whenever the current one is full
+   * @param fixtures - Fixtures in patch order
+   * @param universe - First universe to fill
+   * @returns Patch entries
+   */
+  patchSequentially(
+    fixtures: { id: string; type: FixtureType }[],
+    universe: number = 1
+  ): PatchEntry[] {
+    return fixtures.map((fixture) => {
+      const footprint = this.mapper.getGenericProfile(fixture.type).modes[0].channels.length;
+      if (this.findFreeAddress(universe, footprint) === null) {
+        universe++;
+      }
+      return this.patchNext(fixture.id, fixture.type, universe);
+    });
+  }
+
+  /**
+   * Remove a fixture from the patch
+   * @param fixtureId - Fixture ID
+   */
+  unpatch(fixtureId: string): void {
+    this.entries.delete(fixtureId);
+    this.mapper.unassign(fixtureId);
+    this.mapper.unbindProfile(fixtureId);
+  }
+
+  /**
+   * Remove every fixture from the patch
+   */
+  clear(): void {
+    Array.from(this.entries.keys()).forEach((id) => this.unpatch(id));
+  }
+
+  /**
+   * Get a fixture's patch entry
+   * @param fixtureId - Fixture ID
+   * @returns Entry or undefined if unpatched
+   */
+  getEntry(fixtureId: string): PatchEntry | undefined {
+    const entry = this.entries.get(fixtureId);
+    return entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Get all patch entries ordered by universe and address
+   */
+  getEntries(): PatchEntry[] {
+    return Array.from(this.entries.values())
+      .map((entry) => ({ ...entry }))
+      .sort((a, b) => a.universe - b.universe || a.address - b.address);
+  }
+
+  /**
+   * Get the universes in use
+   */
+  getUniverses(): number[] {
+    return Array.from(new Set(this.getEntries().map((e) => e.universe)));
+  }
+
+  /**
+   * Get the fixtures patched into a universe, ordered by address
+   * @param universe - Universe number
+   */
+  getUniverseLayout(universe: number): PatchEntry[] {
+    return this.getEntries().filter((e) => e.universe === universe);
+  }
+
+  /**
+   * Find the lowest start address with enough free channels
+   * @param universe - Universe number
+   * @param footprint - Channels required
+   * @returns Start address or null if the universe is full
+   */
+  findFreeAddress(universe: number, footprint: number): number | null {
+    let candidate = 1;
+
+    for (const entry of this.getUniverseLayout(universe)) {
+      if (entry.address - candidate >= footprint) {
+        break;
+      }
+      candidate = Math.max(candidate, entry.address + entry.footprint);
+    }
+
+    return candidate + footprint - 1 <= DMX_UNIVERSE_SIZE ? candidate : null;
+  }
+
+  /**
+   * Find every pair of fixtures with overlapping address ranges
+   * @returns Conflicts ordered by universe and address
+   */
+  getConflicts(): PatchConflict[] {
+    const conflicts: PatchConflict[] = [];
+    const entries = this.getEntries();
+
+    for (let i = 0; i < entries.length; i++) {
+      const a = entries[i];
+      const aEnd = a.address + a.footprint - 1;
+
+      for (let j = i + 1; j < entries.length; j++) {
+        const b = entries[j];
+        if (b.universe !== a.universe || b.address > aEnd) {
+          break;
+        }
+        conflicts.push({
+          universe: a.universe,
+          fixtureIds: [a.fixtureId, b.fixtureId],
+          range: [b.address, Math.min(aEnd, b.address + b.footprint - 1)],
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Get the IDs of fixtures that have no patch entry
+   * @param fixtureIds - IDs of the fixtures on stage
+   */
+  getUnpatched(fixtureIds: string[]): string[] {
+    return fixtureIds.filter((id) => !this.entries.has(id));
+  }
+
+  /**
+   * Serialize the patch
+   * @returns JSON string
+   */
+  toJSON(): string {
+    const data: PatchData = {
+      version: PATCH_FORMAT_VERSION,
+      entries: this.getEntries().map(({ footprint: _footprint, ...entry }) => entry),
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Replace the patch with a serialized one
+   * @param json - JSON string produced by toJSON
+   */
+  fromJSON(json: string): void {
+    const data: PatchData = JSON.parse(json);
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('Invalid patch: expected an object with version and entries');
+    }
+    if (data.version !== PATCH_FORMAT_VERSION) {
+      throw new Error(`Unsupported patch format version: ${data.version}`);
+    }
+    if (!Array.isArray(data.entries)) {
+      throw new Error('Invalid patch: entries must be an array');
+    }
+
+    // Validate every entry before touching the current patch
+    const resolved = data.entries.map((entry, i) => {
+      if (
+        typeof entry !== 'object' ||
+        entry === null ||
+        typeof entry.fixtureId !== 'string' ||
+        typeof entry.fixtureType !== 'string' ||
+        (entry.profile !== undefined && typeof entry.profile !== 'string') ||
+        (entry.mode !== undefined && typeof entry.mode !== 'string')
+      ) {
+        throw new Error(`Invalid patch entry at index ${i}`);
+      }
+      return this.resolveEntry(entry.fixtureId, entry.fixtureType, entry);
+    });
+    resolved.forEach(({ entry }, i) => {
+      assertNoOverlap(entry, resolved.slice(0, i).map((other) => other.entry));
+    });
+
+    this.clear();
+    resolved.forEach((entry) => this.applyEntry(entry));
+  }
+
+  /**
+   * Validate a patch location and build its entry without applying it
+   */
+  private resolveEntry(fixtureId: string, fixtureType: FixtureType, location: PatchLocation): ResolvedEntry {
+    const generic = this.mapper.getGenericProfile(fixtureType);
+    if (!generic) {
+      throw new Error(`Unknown fixture type for ${fixtureId}: ${fixtureType}`);
+    }
+
+    const binding = location.profile !== undefined
+      ? this.resolveProfile(location.profile, location.mode)
+      : null;
+
+    const footprint = binding ? binding.channels : generic.modes[0].channels.length;
+
+    if (location.universe < 0 || !Number.isInteger(location.universe)) {
+      throw new Error(`Invalid universe for ${fixtureId}: ${location.universe}`);
+    }
+    if (
+      !Number.isInteger(location.address) ||
+      location.address < 1 ||
+      location.address + footprint - 1 > DMX_UNIVERSE_SIZE
+    ) {
+      throw new Error(
+        `${fixtureId} (${footprint} channels) does not fit at address ${location.address}`
+      );
+    }
+
+    const entry: PatchEntry = {
+      fixtureId,
+      fixtureType,
+      universe: location.universe,
+      address: location.address,
+      footprint,
+    };
+    if (binding) {
+      entry.profile = getProfileKey(binding.profile);
+      entry.mode = binding.mode;
+    }
+
+    return { entry, binding: binding && { profile: binding.profile, mode: binding.mode } };
+  }
+
+  /**
+   * Store an entry and sync the mapper's address and profile binding
+   */
+  private applyEntry({ entry, binding }: ResolvedEntry): void {
+    this.mapper.assign(
+      entry.fixtureId,
+      { universe: entry.universe, address: entry.address },
+      entry.footprint
+    );
+    if (binding) {
+      this.mapper.bindProfile(entry.fixtureId, binding.profile, binding.mode);
+    } else {
+      this.mapper.unbindProfile(entry.fixtureId);
+    }
+    this.entries.set(entry.fixtureId, entry);
+  }
+
+  /**
+   * Look up a profile mode in the library
+   */
+  private resolveProfile(key: string, modeName?: string) {
+    const profile = this.library.get(key);
+    if (!profile) {
+      throw new Error(`Fixture profile not found: ${key}`);
+    }
+    const mode = getMode(profile, modeName);
+    return { profile, mode: mode.name, channels: mode.channels.length };
+  }
+}
+
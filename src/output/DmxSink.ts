@@ -0,0 +1,33 @@
+/**
+ * DmxSink - Contract for anything that can transmit DMX universes
+ */
+
+/**
+ * Number of channels in a DMX512 universe
+ */
+export const DMX_UNIVERSE_SIZE = 512;
+
+/**
+ * Destination for rendered DMX universe buffers
+ */
+export interface DmxSink {
+  /** Human-readable sink name for logging */
+  readonly name: string;
+  /**
+   * Transmit one universe of channel data
+   * @param universe - Universe number
+   * @param data - Channel values (index 0 = channel 1)
+   */
+  send(universe: number, data: Uint8Array): void;
+  /**
+   * Signal receivers that the stream for these universes has ended.
+   * Protocols without an explicit termination message can omit this.
+   * @param universes - Universes that were being transmitted
+   * @returns Resolves once the messages have been sent
+   */
+  terminate?(universes: number[]): Promise<void>;
+  /**
+   * Release network resources
+   */
+  close(): Promise<void>;
+}
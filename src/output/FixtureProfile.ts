@@ -0,0 +1,237 @@
+/**
+ * FixtureProfile - Channel maps describing how real devices are controlled
+ *
+ * A profile lists one or more DMX modes. Each mode is an ordered list of
+ * channels, and each channel carries one attribute (dimmer, a color
+ * emitter, pan, tilt, ...). 16-bit attributes are described by a coarse
+ * channel plus a channel of the same attribute flagged as fine.
+ */
+
+import { FixtureType } from '../shared/types';
+
+/**
+ * Attribute carried by a single DMX channel
+ */
+export type ChannelAttribute =
+  | 'dimmer'
+  | 'red'
+  | 'green'
+  | 'blue'
+  | 'white'
+  | 'amber'
+  | 'uv'
+  | 'cyan'
+  | 'magenta'
+  | 'yellow'
+  | 'pan'
+  | 'tilt'
+  | 'speed'
+  | 'zoom'
+  | 'strobe'
+  | 'strobeDuration'
+  | 'xPosition'
+  | 'yPosition'
+  | 'pattern'
+  | 'generic';
+
+/**
+ * Color mixing system of a mode, derived from its color channels
+ */
+export type ColorMixing = 'none' | 'rgb' | 'rgbw' | 'rgba' | 'rgbaw' | 'cmy';
+
+/**
+ * A single channel within a mode
+ */
+export interface ProfileChannel {
+  /** Channel name as shown on the device */
+  name: string;
+  /** Attribute controlled by this channel */
+  attribute: ChannelAttribute;
+  /** True if this is the low byte of a 16-bit attribute */
+  fine?: boolean;
+  /** Value sent when the attribute is inactive (e.g. shutter open) */
+  defaultValue?: number;
+  /** DMX range carrying the attribute, default [0, 255] */
+  dmxRange?: [number, number];
+  /** Physical values mapped onto dmxRange (Hz for strobe, ms for duration) */
+  valueRange?: [number, number];
+  /** Reverse the mapping (e.g. speed channels where 0 is fastest) */
+  invert?: boolean;
+  /** Pixel bar cell (0-based) this channel belongs to */
+  cell?: number;
+}
+
+/**
+ * A DMX mode of a fixture profile
+ */
+export interface FixtureMode {
+  /** Mode name, e.g. "16-bit" */
+  name: string;
+  /** Channels in DMX order; null marks a channel the profile doesn't use */
+  channels: (ProfileChannel | null)[];
+}
+
+/**
+ * Physical properties relevant to encoding
+ */
+export interface FixturePhysical {
+  /** Total pan range in degrees */
+  panRange?: number;
+  /** Total tilt range in degrees */
+  tiltRange?: number;
+  /** Beam angle range in degrees [narrow, wide] */
+  beamAngle?: [number, number];
+}
+
+/**
+ * Description of a real (or generic) lighting device
+ */
+export interface FixtureProfile {
+  /** Manufacturer name */
+  manufacturer: string;
+  /** Model name */
+  model: string;
+  /** Stage fixture type this profile best matches */
+  fixtureType?: FixtureType;
+  /** Device categories, e.g. "Moving Head" */
+  categories: string[];
+  /** Physical properties */
+  physical: FixturePhysical;
+  /** Available DMX modes */
+  modes: FixtureMode[];
+}
+
+/**
+ * Gets the library key for a profile
+ * @param profile - Fixture profile
+ * @returns Key in the form "manufacturer/model"
+ */
+export function getProfileKey(profile: FixtureProfile): string {
+  return normalizeProfileKey(`${profile.manufacturer}/${profile.model}`);
+}
+
+/**
+ * Normalizes a "manufacturer/model" key the way getProfileKey builds it:
+ * each part trimmed and lowercased, with whitespace runs replaced by '-'
+ * @param key - Key as typed, e.g. " Acme / Spot  250 "
+ * @returns Library key, e.g. "acme/spot-250"
+ */
+export function normalizeProfileKey(key: string): string {
+  return key
+    .split('/')
+    .map((part) => part.trim().toLowerCase().replace(/\s+/g, '-'))
+    .join('/');
+}
+
+/**
+ * Finds a mode by name
+ * @param profile - Fixture profile
+ * @param modeName - Mode name; the first mode when omitted
+ * @returns Mode
+ */
+export function getMode(profile: FixtureProfile, modeName?: string): FixtureMode {
+  const mode = modeName === undefined
+    ? profile.modes[0]
+    : profile.modes.find((m) => m.name === modeName);
+
+  if (!mode) {
+    throw new Error(
+      `Mode "${modeName}" not found in ${profile.manufacturer} ${profile.model}`
+    );
+  }
+
+  return mode;
+}
+
+/**
+ * Determines the color mixing system of a mode
+ * @param mode - Fixture mode
+ * @returns Color mixing system
+ */
+export function getColorMixing(mode: FixtureMode): ColorMixing {
+  const attributes = new Set(mode.channels.map((c) => c?.attribute));
+
+  if (attributes.has('cyan') || attributes.has('magenta') || attributes.has('yellow')) {
+    return 'cmy';
+  }
+  if (!attributes.has('red') && !attributes.has('green') && !attributes.has('blue')) {
+    return 'none';
+  }
+
+  const hasWhite = attributes.has('white');
+  const hasAmber = attributes.has('amber');
+  if (hasWhite && hasAmber) return 'rgbaw';
+  if (hasAmber) return 'rgba';
+  if (hasWhite) return 'rgbw';
+  return 'rgb';
+}
+
+/**
+ * Options for generic profiles
+ */
+export interface GenericProfileOptions {
+  /** Strobe rate in Hz that maps to channel value 255 */
+  maxStrobeRate: number;
+  /** Flash duration in ms that maps to channel value 255 */
+  maxStrobeDuration: number;
+}
+
+/**
+ * Builds a single-mode generic profile from an attribute layout
+ * @param type - Stage fixture type
+ * @param layout - Ordered channel attributes
+ * @param options - Scaling for strobe channels
+ * @returns Generic profile
+ */
+export function createGenericProfile(
+  type: FixtureType,
+  layout: ChannelAttribute[],
+  options: GenericProfileOptions
+): FixtureProfile {
+  const channels: ProfileChannel[] = layout.map((attribute) => {
+    const channel: ProfileChannel = { name: attribute, attribute };
+    if (attribute === 'strobe') {
+      channel.valueRange = [0, options.maxStrobeRate];
+    } else if (attribute === 'strobeDuration') {
+      channel.valueRange = [0, options.maxStrobeDuration];
+    }
+    return channel;
+  });
+
+  return {
+    manufacturer: 'Generic',
+    model: type,
+    fixtureType: type,
+    categories: [],
+    physical: {},
+    modes: [{ name: `${channels.length}ch`, channels }],
+  };
+}
+
+/**
+ * Builds a pixel bar profile with a master dimmer and RGB per cell
+ * @param cellCount - Number of cells
+ * @param model - Model name
+ * @returns Profile with a single "<n>ch" mode
+ */
+export function createPixelBarProfile(
+  cellCount: number,
+  model: string = `Pixel Bar ${cellCount}`
+): FixtureProfile {
+  const channels: ProfileChannel[] = [{ name: 'dimmer', attribute: 'dimmer' }];
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    for (const attribute of ['red', 'green', 'blue'] as ChannelAttribute[]) {
+      channels.push({ name: `${attribute} ${cell + 1}`, attribute, cell });
+    }
+  }
+
+  return {
+    manufacturer: 'Generic',
+    model,
+    fixtureType: 'pixel_bar',
+    categories: ['Pixel Bar'],
+    physical: {},
+    modes: [{ name: `${channels.length}ch`, channels }],
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * OflImporter - Converts Open Fixture Library JSON into fixture profiles
+ *
+ * Supports the subset of the OFL schema that maps onto stage attributes:
+ * intensity, color emitters, pan/tilt (with fine channels), pan/tilt
+ * speed, zoom and shutter/strobe. Channels with other capabilities are
+ * kept as generic channels holding their default value. Modes that insert
+ * matrix channels are skipped since per-pixel control isn't modelled.
+ *
+ * @see https://github.com/OpenLightingProject/open-fixture-library/blob/master/docs/fixture-format.md
+ */
+
+import { FixtureType } from '../shared/types';
+import {
+  ChannelAttribute,
+  FixtureMode,
+  FixturePhysical,
+  FixtureProfile,
+  ProfileChannel,
+} from './FixtureProfile';
+
+/**
+ * OFL capability (only the fields used by the importer)
+ */
+export interface OflCapability {
+  type: string;
+  dmxRange?: [number, number];
+  color?: string;
+  angleStart?: string;
+  angleEnd?: string;
+  speedStart?: string;
+  speedEnd?: string;
+  shutterEffect?: string;
+}
+
+/**
+ * OFL channel definition
+ */
+export interface OflChannel {
+  defaultValue?: number | string;
+  fineChannelAliases?: string[];
+  capability?: OflCapability;
+  capabilities?: OflCapability[];
+}
+
+/**
+ * OFL mode definition; non-string entries are matrix channel insert blocks
+ */
+export interface OflMode {
+  name: string;
+  shortName?: string;
+  channels: (string | null | Record<string, unknown>)[];
+}
+
+/**
+ * OFL fixture definition
+ */
+export interface OflFixture {
+  name: string;
+  manufacturerKey?: string;
+  categories?: string[];
+  physical?: {
+    focus?: { panMax?: number | string; tiltMax?: number | string };
+    lens?: { degreesMinMax?: [number, number] };
+  };
+  availableChannels?: Record<string, OflChannel>;
+  modes: OflMode[];
+}
+
+/**
+ * Options for importing an OFL fixture
+ */
+export interface OflImportOptions {
+  /** Manufacturer name (OFL stores it in the directory, not the fixture file) */
+  manufacturer?: string;
+  /** Stage fixture type; inferred from categories when omitted */
+  fixtureType?: FixtureType;
+}
+
+/**
+ * OFL categories mapped to stage fixture types, in priority order
+ */
+const CATEGORY_TYPES: [string, FixtureType][] = [
+  ['Moving Head', 'moving_head'],
+  ['Scanner', 'moving_head'],
+  ['Laser', 'laser'],
+  ['Strobe', 'strobe'],
+  ['Blinder', 'strobe'],
+  ['Color Changer', 'wash'],
+];
+
+/**
+ * OFL color names mapped to emitter attributes
+ */
+const COLOR_ATTRIBUTES: Record<string, ChannelAttribute> = {
+  Red: 'red',
+  Green: 'green',
+  Blue: 'blue',
+  White: 'white',
+  'Warm White': 'white',
+  'Cold White': 'white',
+  Amber: 'amber',
+  UV: 'uv',
+  Cyan: 'cyan',
+  Magenta: 'magenta',
+  Yellow: 'yellow',
+};
+
+/**
+ * Imports an Open Fixture Library fixture definition
+ * @param source - OFL fixture JSON (object or string)
+ * @param options - Import options
+ * @returns Fixture profile
+ */
+export function importOflFixture(
+  source: OflFixture | string,
+  options: OflImportOptions = {}
+): FixtureProfile {
+  const fixture: OflFixture = typeof source === 'string' ? JSON.parse(source) : source;
+
+  if (!fixture?.name || !Array.isArray(fixture.modes)) {
+    throw new Error('Invalid OFL fixture: missing name or modes');
+  }
+
+  const available = fixture.availableChannels ?? {};
+  const physical = importPhysical(fixture);
+  const channels = new Map<string, ProfileChannel>();
+
+  for (const [name, channel] of Object.entries(available)) {
+    const coarse = importChannel(name, channel, physical);
+    channels.set(name, coarse);
+
+    // Only 16-bit is encoded; further aliases (24-bit) stay at zero
+    (channel.fineChannelAliases ?? []).forEach((alias, i) => {
+      channels.set(alias, i === 0
+        ? { name: alias, attribute: coarse.attribute, fine: true }
+        : { name: alias, attribute: 'generic', defaultValue: 0 });
+    });
+  }
+
+  const modes: FixtureMode[] = [];
+  for (const mode of fixture.modes) {
+    if (mode.channels.some((c) => c !== null && typeof c !== 'string')) {
+      console.warn(`[OflImporter] Skipping mode "${mode.name}" of ${fixture.name}: matrix channels are not supported`);
+      continue;
+    }
+
+    modes.push({
+      name: mode.name,
+      channels: (mode.channels as (string | null)[]).map((key) => {
+        if (key === null) {
+          return null;
+        }
+        const channel = channels.get(key);
+        if (!channel) {
+          console.warn(`[OflImporter] Unknown channel "${key}" in mode "${mode.name}" of ${fixture.name}`);
+          return null;
+        }
+        return channel;
+      }),
+    });
+  }
+
+  if (modes.length === 0) {
+    throw new Error(`No supported modes in OFL fixture ${fixture.name}`);
+  }
+
+  return {
+    manufacturer: options.manufacturer ?? fixture.manufacturerKey ?? 'Unknown',
+    model: fixture.name,
+    fixtureType: options.fixtureType ?? inferFixtureType(fixture.categories ?? []),
+    categories: [...(fixture.categories ?? [])],
+    physical,
+    modes,
+  };
+}
+
+/**
+ * Converts an OFL channel into a profile channel
+ */
+function importChannel(
+  name: string,
+  channel: OflChannel,
+  physical: FixturePhysical
+): ProfileChannel {
+  const capabilities = channel.capabilities ?? (channel.capability ? [channel.capability] : []);
+  const result: ProfileChannel = { name, attribute: 'generic' };
+
+  if (channel.defaultValue !== undefined) {
+    result.defaultValue = parseDmxValue(channel.defaultValue);
+  }
+
+  const primary = capabilities[0];
+  if (!primary) {
+    return result;
+  }
+
+  switch (primary.type) {
+    case 'Intensity':
+      result.attribute = 'dimmer';
+      break;
+
+    case 'ColorIntensity':
+      result.attribute = COLOR_ATTRIBUTES[primary.color ?? ''] ?? 'generic';
+      break;
+
+    case 'Pan':
+    case 'Tilt': {
+      result.attribute = primary.type === 'Pan' ? 'pan' : 'tilt';
+      const range = angleSpan(primary);
+      if (range !== undefined) {
+        if (result.attribute === 'pan') {
+          physical.panRange ??= range;
+        } else {
+          physical.tiltRange ??= range;
+        }
+      }
+      break;
+    }
+
+    case 'PanTiltSpeed':
+      result.attribute = 'speed';
+      // Stage speed 1 is fastest; most devices run fast to slow
+      result.invert = primary.speedStart === 'fast' || primary.speedEnd === 'slow';
+      break;
+
+    case 'Zoom':
+      result.attribute = 'zoom';
+      break;
+
+    case 'ShutterStrobe':
+      importShutter(result, capabilities);
+      break;
+  }
+
+  return result;
+}
+
+/**
+ * Fills in a strobe channel from its shutter capabilities
+ */
+function importShutter(channel: ProfileChannel, capabilities: OflCapability[]): void {
+  const open = capabilities.find((c) => c.shutterEffect === 'Open');
+  const strobe = capabilities.find((c) => c.shutterEffect === 'Strobe' && c.dmxRange);
+
+  if (!strobe) {
+    channel.defaultValue ??= open?.dmxRange?.[0];
+    return;
+  }
+
+  channel.attribute = 'strobe';
+  channel.dmxRange = strobe.dmxRange;
+  channel.defaultValue = open?.dmxRange?.[0] ?? channel.defaultValue ?? 0;
+
+  const start = parseUnit(strobe.speedStart, 'Hz');
+  const end = parseUnit(strobe.speedEnd, 'Hz');
+  if (start !== undefined && end !== undefined && start !== end) {
+    channel.valueRange = [Math.min(start, end), Math.max(start, end)];
+    channel.invert = start > end;
+  }
+}
+
+/**
+ * Reads the physical properties of an OFL fixture
+ */
+function importPhysical(fixture: OflFixture): FixturePhysical {
+  const physical: FixturePhysical = {};
+  const focus = fixture.physical?.focus;
+
+  if (typeof focus?.panMax === 'number') {
+    physical.panRange = focus.panMax;
+  }
+  if (typeof focus?.tiltMax === 'number') {
+    physical.tiltRange = focus.tiltMax;
+  }
+  if (fixture.physical?.lens?.degreesMinMax) {
+    physical.beamAngle = [...fixture.physical.lens.degreesMinMax];
+  }
+
+  return physical;
+}
+
+/**
+ * Infers the stage fixture type from OFL categories
+ */
+function inferFixtureType(categories: string[]): FixtureType | undefined {
+  return CATEGORY_TYPES.find(([category]) => categories.includes(category))?.[1];
+}
+
+/**
+ * Gets the angle covered by a Pan/Tilt capability in degrees
+ */
+function angleSpan(capability: OflCapability): number | undefined {
+  const start = parseUnit(capability.angleStart, 'deg');
+  const end = parseUnit(capability.angleEnd, 'deg');
+  return start !== undefined && end !== undefined ? Math.abs(end - start) : undefined;
+}
+
+/**
+ * Parses an OFL entity such as "540deg" or "25Hz"
+ */
+function parseUnit(value: string | undefined, unit: string): number | undefined {
+  if (value === undefined || !value.endsWith(unit)) {
+    return undefined;
+  }
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Parses an OFL DMX value, either a number or a percentage string
+ */
+function parseDmxValue(value: number | string): number {
+  if (typeof value === 'number') {
+    return Math.max(0, Math.min(255, Math.round(value)));
+  }
+  const percent = parseFloat(value);
+  return Number.isFinite(percent) ? Math.round(Math.max(0, Math.min(100, percent)) * 2.55) : 0;
+}
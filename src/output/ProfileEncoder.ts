@@ -0,0 +1,278 @@
+/**
+ * ProfileEncoder - Encodes fixture values into DMX bytes using a profile mode
+ *
+ * Handles 16-bit attributes (coarse + fine channels), color mixing for
+ * RGB/RGBW/RGBA/CMY engines, a virtual dimmer for modes without a dimmer
+ * channel, per-cell channels of pixel bars, and conversion from stage
+ * pan/tilt ranges to device ranges.
+ */
+
+import { FixtureUpdates, LaserPattern, PixelCell, RGB } from '../shared/types';
+import {
+  ChannelAttribute,
+  ColorMixing,
+  FixtureMode,
+  FixturePhysical,
+  ProfileChannel,
+  getColorMixing,
+} from './FixtureProfile';
+
+/**
+ * Pan range of the 3D stage moving heads in degrees (see MovingHead.maxPanAngle)
+ */
+export const STAGE_PAN_RANGE = 270;
+
+/**
+ * Tilt range of the 3D stage moving heads in degrees (see MovingHead.maxTiltAngle)
+ */
+export const STAGE_TILT_RANGE = 108;
+
+/**
+ * Laser patterns in channel order
+ */
+const LASER_PATTERNS: LaserPattern[] = ['beam', 'fan', 'tunnel', 'wave', 'cone'];
+
+/**
+ * Converts a 0-1 value to an 8-bit DMX value
+ */
+export function toDmxValue(value: number): number {
+  return Math.round(clamp01(value) * 255);
+}
+
+/**
+ * Encodes fixture values into the channels of a mode
+ * @param values - Fixture state or updates (0-1 attribute values)
+ * @param mode - Profile mode to encode for
+ * @param physical - Physical properties of the device
+ * @returns One byte per mode channel
+ */
+export function encodeChannels(
+  values: FixtureUpdates,
+  mode: FixtureMode,
+  physical: FixturePhysical = {}
+): Uint8Array {
+  const attributes = resolveAttributes(values, mode, physical);
+  const fineAttributes = new Set(
+    mode.channels.filter((c) => c?.fine).map((c) => channelKey(c!))
+  );
+
+  const bytes = new Uint8Array(mode.channels.length);
+
+  for (let i = 0; i < mode.channels.length; i++) {
+    const channel = mode.channels[i];
+    if (!channel) {
+      continue;
+    }
+
+    const value = attributes.get(channelKey(channel));
+    if (value === undefined) {
+      bytes[i] = channel.fine ? 0 : channel.defaultValue ?? 0;
+      continue;
+    }
+
+    const normalized = normalize(channel, value);
+
+    if (fineAttributes.has(channelKey(channel))) {
+      const word = Math.round(normalized * 65535);
+      bytes[i] = channel.fine ? word & 0xff : word >> 8;
+    } else {
+      const [low, high] = channel.dmxRange ?? [0, 255];
+      bytes[i] = low + Math.round(normalized * (high - low));
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Resolves every attribute used by a mode from the fixture values, keyed
+ * by channelKey. Returns 0-1 values, except strobe (Hz) and strobeDuration (ms).
+ */
+function resolveAttributes(
+  values: FixtureUpdates,
+  mode: FixtureMode,
+  physical: FixturePhysical
+): Map<string, number> {
+  const result = new Map<string, number>();
+  const used = new Set(mode.channels.filter((c) => c?.cell === undefined).map((c) => c?.attribute));
+  const intensity = values.enabled === false ? 0 : values.intensity;
+
+  if (intensity !== undefined) {
+    result.set('dimmer', intensity);
+  }
+
+  // Without a dimmer channel the color emitters carry the intensity
+  const scale = used.has('dimmer') ? 1 : intensity ?? 1;
+
+  if (values.color) {
+    mixColor(values.color, getColorMixing(mode), scale).forEach((v, k) => result.set(k, v));
+  }
+
+  // Explicit emitter levels (PARs) add on top of the mixed color
+  if (values.white !== undefined) {
+    result.set('white', Math.min(1, (result.get('white') ?? 0) + values.white * scale));
+  }
+  if (values.amber !== undefined) {
+    result.set('amber', Math.min(1, (result.get('amber') ?? 0) + values.amber * scale));
+  }
+
+  if (values.pan !== undefined) {
+    result.set('pan', toDeviceRange(values.pan, STAGE_PAN_RANGE, physical.panRange));
+  }
+  if (values.tilt !== undefined) {
+    result.set('tilt', toDeviceRange(values.tilt, STAGE_TILT_RANGE, physical.tiltRange));
+  }
+  if (values.speed !== undefined) {
+    result.set('speed', values.speed);
+  }
+
+  const zoom = values.beamWidth ?? values.spread;
+  if (zoom !== undefined) {
+    result.set('zoom', zoom);
+  }
+
+  // A rate of zero means the shutter is open: fall back to the default value
+  if (values.rate !== undefined && values.rate > 0) {
+    result.set('strobe', values.rate);
+  }
+  if (values.flashDuration !== undefined) {
+    result.set('strobeDuration', values.flashDuration);
+  }
+
+  if (values.xPosition !== undefined) {
+    result.set('xPosition', values.xPosition);
+  }
+  if (values.yPosition !== undefined) {
+    result.set('yPosition', values.yPosition);
+  }
+  if (values.pattern !== undefined) {
+    const index = Math.max(0, LASER_PATTERNS.indexOf(values.pattern));
+    result.set('pattern', index / (LASER_PATTERNS.length - 1));
+  }
+
+  values.cells?.forEach((cell, index) => {
+    resolveCellAttributes(cell, index, mode, scale).forEach((v, k) => result.set(k, v));
+  });
+
+  return result;
+}
+
+/**
+ * Resolves the attributes of one pixel bar cell, keyed by channelKey
+ */
+function resolveCellAttributes(
+  cell: Partial<PixelCell>,
+  index: number,
+  mode: FixtureMode,
+  scale: number
+): Map<string, number> {
+  const result = new Map<string, number>();
+  const hasCellDimmer = mode.channels.some((c) => c?.cell === index && c.attribute === 'dimmer');
+  const intensity = cell.intensity ?? 1;
+
+  if (hasCellDimmer) {
+    result.set(`${index}:dimmer`, intensity);
+  }
+  if (cell.color) {
+    // Without a cell dimmer the cell's emitters carry its intensity
+    const level = hasCellDimmer ? scale : scale * intensity;
+    mixColor(cell.color, getColorMixing(mode), level).forEach((v, k) => {
+      result.set(`${index}:${k}`, v);
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Gets the attribute key of a channel, prefixed by its cell for pixel channels
+ */
+function channelKey(channel: ProfileChannel): string {
+  return channel.cell === undefined ? channel.attribute : `${channel.cell}:${channel.attribute}`;
+}
+
+/**
+ * Splits an RGB color into the emitters of a color mixing system
+ * @param color - Target color
+ * @param mixing - Color mixing system
+ * @param scale - Multiplier applied to the emitted color
+ * @returns Emitter values 0-1
+ */
+export function mixColor(
+  color: RGB,
+  mixing: ColorMixing,
+  scale: number = 1
+): Map<ChannelAttribute, number> {
+  const result = new Map<ChannelAttribute, number>();
+  let r = clamp01(color.r);
+  let g = clamp01(color.g);
+  let b = clamp01(color.b);
+
+  switch (mixing) {
+    case 'none':
+      break;
+
+    case 'cmy':
+      // Subtractive: filters remove the complementary color from white, so
+      // a lower scale closes them further towards black
+      result.set('cyan', 1 - r * scale);
+      result.set('magenta', 1 - g * scale);
+      result.set('yellow', 1 - b * scale);
+      break;
+
+    default: {
+      if (mixing === 'rgba' || mixing === 'rgbaw') {
+        // Amber approximated as (1, 0.5, 0)
+        const amber = Math.min(r, g * 2);
+        result.set('amber', amber * scale);
+        r -= amber;
+        g -= amber / 2;
+      }
+      if (mixing === 'rgbw' || mixing === 'rgbaw') {
+        const white = Math.min(r, g, b);
+        result.set('white', white * scale);
+        r -= white;
+        g -= white;
+        b -= white;
+      }
+      result.set('red', r * scale);
+      result.set('green', g * scale);
+      result.set('blue', b * scale);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Maps a stage position (0-1 over stageRange degrees, centered) to a
+ * device position (0-1 over deviceRange degrees)
+ */
+function toDeviceRange(value: number, stageRange: number, deviceRange?: number): number {
+  if (!deviceRange) {
+    return value;
+  }
+  return clamp01(0.5 + (value - 0.5) * (stageRange / deviceRange));
+}
+
+/**
+ * Normalizes an attribute value to 0-1 for a channel
+ */
+function normalize(channel: ProfileChannel, value: number): number {
+  let normalized = value;
+
+  if (channel.valueRange) {
+    const [min, max] = channel.valueRange;
+    normalized = max === min ? 1 : (value - min) / (max - min);
+  }
+
+  normalized = clamp01(normalized);
+  return channel.invert ? 1 - normalized : normalized;
+}
+
+/**
+ * Clamps a value to 0-1
+ */
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
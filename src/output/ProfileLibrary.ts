@@ -0,0 +1,71 @@
+/**
+ * ProfileLibrary - Registry of fixture profiles keyed by manufacturer/model
+ */
+
+import { FixtureProfile, getProfileKey, normalizeProfileKey } from './FixtureProfile';
+import { OflFixture, OflImportOptions, importOflFixture } from './OflImporter';
+
+/**
+ * Collection of fixture profiles available for binding
+ */
+export class ProfileLibrary {
+  private profiles: Map<string, FixtureProfile> = new Map();
+
+  /**
+   * Create a new profile library
+   * @param profiles - Initial profiles
+   */
+  constructor(profiles: FixtureProfile[] = []) {
+    profiles.forEach((profile) => this.register(profile));
+  }
+
+  /**
+   * Add or replace a profile
+   * @param profile - Fixture profile
+   * @returns Library key of the profile
+   */
+  register(profile: FixtureProfile): string {
+    if (profile.modes.length === 0) {
+      throw new Error(`Profile ${profile.manufacturer} ${profile.model} has no modes`);
+    }
+    const key = getProfileKey(profile);
+    this.profiles.set(key, profile);
+    return key;
+  }
+
+  /**
+   * Import an Open Fixture Library definition and register it
+   * @param source - OFL fixture JSON (object or string)
+   * @param options - Import options
+   * @returns Imported profile
+   */
+  importOfl(source: OflFixture | string, options: OflImportOptions = {}): FixtureProfile {
+    const profile = importOflFixture(source, options);
+    this.register(profile);
+    return profile;
+  }
+
+  /**
+   * Get a profile by key
+   * @param key - Key in the form "manufacturer/model" (normalized like getProfileKey)
+   * @returns Profile or undefined if not registered
+   */
+  get(key: string): FixtureProfile | undefined {
+    return this.profiles.get(normalizeProfileKey(key));
+  }
+
+  /**
+   * Remove a profile
+   * @param key - Key in the form "manufacturer/model" (normalized like getProfileKey)
+   */
+  remove(key: string): void {
+    this.profiles.delete(normalizeProfileKey(key));
+  }
+
+  /**
+   * List the keys of all registered profiles
+   */
+  list(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+}
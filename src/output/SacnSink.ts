@@ -0,0 +1,347 @@
+/**
+ * SacnSink - Sends DMX universes as sACN (ANSI E1.31) data packets
+ *
+ * Supports multicast (239.255.x.x per universe) and unicast delivery,
+ * per-universe priority, per-universe sequence numbers, and stream
+ * termination packets when output stops.
+ */
+
+import { DmxSink, DMX_UNIVERSE_SIZE } from './DmxSink';
+import { RetryingSocket, UdpSocket, createUdpSocket } from './UdpSocket';
+
+/**
+ * Default sACN UDP port
+ */
+export const SACN_PORT = 5568;
+
+/**
+ * Default sACN priority
+ */
+export const SACN_DEFAULT_PRIORITY = 100;
+
+/**
+ * Offset of DMX slot data in a data packet
+ */
+const SACN_HEADER_SIZE = 126;
+
+/**
+ * Options bit signalling the source has stopped sending this universe
+ */
+const OPTION_STREAM_TERMINATED = 0x40;
+
+/**
+ * Number of termination packets sent per universe (E1.31 section 6.7.1)
+ */
+const TERMINATION_PACKET_COUNT = 3;
+
+/**
+ * Range of valid sACN universe numbers
+ */
+const SACN_MIN_UNIVERSE = 1;
+const SACN_MAX_UNIVERSE = 63999;
+
+/**
+ * Delivery mode for sACN packets
+ */
+export type SacnMode = 'multicast' | 'unicast';
+
+/**
+ * Configuration for the sACN sink
+ */
+export interface SacnSinkConfig {
+  /** Multicast to per-universe groups or unicast to a single host */
+  mode: SacnMode;
+  /** Destination host for unicast mode */
+  host: string;
+  /** Destination UDP port */
+  port: number;
+  /** Source name shown by receivers (max 63 bytes) */
+  sourceName: string;
+  /** Component identifier as a UUID string; random when omitted */
+  cid?: string;
+  /** Priority used for universes without an override, 0-200 */
+  priority: number;
+  /** Per-universe priority overrides */
+  universePriorities: Record<number, number>;
+  /**
+   * Added to patch universes to get sACN universes. sACN numbers universes
+   * from 1 while patches number them from 0, as Art-Net does, so this
+   * defaults to 1; use 0 for a patch that already numbers them from 1.
+   */
+  universeOffset: number;
+  /** Time-to-live for multicast datagrams */
+  multicastTtl: number;
+  /** Local interface address used for outgoing multicast */
+  multicastInterface?: string;
+  /** Pre-created socket; created lazily from Node's dgram when omitted */
+  socket?: UdpSocket;
+}
+
+/**
+ * Fields of an E1.31 data packet
+ */
+export interface SacnPacketOptions {
+  /** Universe number, 1-63999 */
+  universe: number;
+  /** Sequence number 0-255 */
+  sequence: number;
+  /** Priority 0-200 */
+  priority: number;
+  /** 16-byte component identifier */
+  cid: Uint8Array;
+  /** Source name */
+  sourceName: string;
+  /** Set the Stream_Terminated option bit */
+  terminated?: boolean;
+}
+
+/**
+ * Builds an E1.31 data packet
+ * @param data - Channel data (up to 512 bytes)
+ * @param options - Packet fields
+ * @returns Encoded packet
+ */
+export function buildSacnPacket(data: Uint8Array, options: SacnPacketOptions): Uint8Array {
+  if (options.universe < SACN_MIN_UNIVERSE || options.universe > SACN_MAX_UNIVERSE) {
+    throw new Error(`sACN universe out of range: ${options.universe}`);
+  }
+  if (options.cid.length !== 16) {
+    throw new Error('sACN CID must be 16 bytes');
+  }
+
+  const slotCount = Math.min(data.length, DMX_UNIVERSE_SIZE);
+  const packet = new Uint8Array(SACN_HEADER_SIZE + slotCount);
+  const view = new DataView(packet.buffer);
+
+  // Root layer
+  view.setUint16(0, 0x0010); // Preamble size
+  view.setUint16(2, 0x0000); // Postamble size
+  packet.set([0x41, 0x53, 0x43, 0x2d, 0x45, 0x31, 0x2e, 0x31, 0x37, 0x00, 0x00, 0x00], 4); // "ASC-E1.17"
+  view.setUint16(16, 0x7000 | (packet.length - 16)); // Flags & length
+  view.setUint32(18, 0x00000004); // VECTOR_ROOT_E131_DATA
+  packet.set(options.cid, 22);
+
+  // Framing layer
+  view.setUint16(38, 0x7000 | (packet.length - 38));
+  view.setUint32(40, 0x00000002); // VECTOR_E131_DATA_PACKET
+  const name = new TextEncoder().encode(options.sourceName).subarray(0, 63);
+  packet.set(name, 44); // Remaining bytes of the 64-byte field stay null
+  packet[108] = Math.max(0, Math.min(200, Math.round(options.priority)));
+  view.setUint16(109, 0); // Synchronization address (unused)
+  packet[111] = options.sequence & 0xff;
+  packet[112] = options.terminated ? OPTION_STREAM_TERMINATED : 0;
+  view.setUint16(113, options.universe);
+
+  // DMP layer
+  view.setUint16(115, 0x7000 | (packet.length - 115));
+  packet[117] = 0x02; // VECTOR_DMP_SET_PROPERTY
+  packet[118] = 0xa1; // Address type & data type
+  view.setUint16(119, 0x0000); // First property address
+  view.setUint16(121, 0x0001); // Address increment
+  view.setUint16(123, slotCount + 1); // Property value count (start code + slots)
+  packet[125] = 0x00; // DMX start code
+  packet.set(data.subarray(0, slotCount), SACN_HEADER_SIZE);
+
+  return packet;
+}
+
+/**
+ * Gets the multicast group for a universe
+ * @param universe - Universe number
+ * @returns IPv4 multicast address
+ */
+export function sacnMulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
+
+/**
+ * Parses a UUID string into 16 bytes
+ */
+function parseCid(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+    throw new Error(`Invalid sACN CID: ${uuid}`);
+  }
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Generates a random version 4 UUID as 16 bytes
+ */
+function generateCid(): Uint8Array {
+  const bytes = new Uint8Array(16);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return bytes;
+}
+
+/**
+ * DMX sink that transmits sACN to receivers
+ */
+export class SacnSink implements DmxSink {
+  readonly name = 'sacn';
+  private config: SacnSinkConfig;
+  private cid: Uint8Array;
+  private socket: RetryingSocket;
+  private sequences: Map<number, number> = new Map();
+  private skippedUniverses: Set<number> = new Set();
+
+  /**
+   * Create a new sACN sink
+   * @param config - Sink configuration
+   */
+  constructor(config: Partial<SacnSinkConfig> = {}) {
+    this.config = {
+      mode: 'multicast',
+      host: '127.0.0.1',
+      port: SACN_PORT,
+      sourceName: 'Lightshow',
+      priority: SACN_DEFAULT_PRIORITY,
+      multicastTtl: 1,
+      universeOffset: 1,
+      ...config,
+      universePriorities: { ...config.universePriorities },
+    };
+    if (!Number.isInteger(this.config.universeOffset) || this.config.universeOffset < 0) {
+      throw new Error(`Invalid sACN universe offset: ${this.config.universeOffset}`);
+    }
+    this.cid = this.config.cid ? parseCid(this.config.cid) : generateCid();
+    this.socket = new RetryingSocket(
+      'SacnSink',
+      () =>
+        createUdpSocket({
+          multicastTtl: this.config.mode === 'multicast' ? this.config.multicastTtl : undefined,
+          multicastInterface: this.config.multicastInterface,
+        }),
+      config.socket
+    );
+  }
+
+  /**
+   * Transmit one universe as an E1.31 data packet
+   * @param universe - Universe number
+   * @param data - Channel data
+   */
+  send(universe: number, data: Uint8Array): void {
+    this.sendPacket(universe, data, false);
+  }
+
+  /**
+   * Send termination packets for each universe
+   * @param universes - Universes that were being transmitted
+   * @returns Resolves once the packets have been sent
+   */
+  async terminate(universes: number[]): Promise<void> {
+    const blank = new Uint8Array(DMX_UNIVERSE_SIZE);
+    const sends: Promise<void>[] = [];
+    for (const universe of universes) {
+      for (let i = 0; i < TERMINATION_PACKET_COUNT; i++) {
+        sends.push(this.sendPacket(universe, blank, true));
+      }
+    }
+    await Promise.all(sends);
+  }
+
+  /**
+   * Set the priority for a single universe
+   * @param universe - Universe number
+   * @param priority - Priority 0-200
+   */
+  setPriority(universe: number, priority: number): void {
+    if (priority < 0 || priority > 200) {
+      throw new Error(`sACN priority out of range: ${priority}`);
+    }
+    this.config.universePriorities[universe] = priority;
+  }
+
+  /**
+   * Get the effective priority for a universe
+   * @param universe - Universe number
+   * @returns Priority 0-200
+   */
+  getPriority(universe: number): number {
+    return this.config.universePriorities[universe] ?? this.config.priority;
+  }
+
+  /**
+   * Get the component identifier as a UUID string
+   */
+  getCid(): string {
+    const hex = Array.from(this.cid).map((b) => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  /**
+   * Close the socket
+   */
+  async close(): Promise<void> {
+    await this.socket.close();
+  }
+
+  /**
+   * Encode and send a packet for a universe
+   * @returns Resolves once sent; failures are logged, never rejected
+   */
+  private sendPacket(universe: number, data: Uint8Array, terminated: boolean): Promise<void> {
+    const sacnUniverse = universe + this.config.universeOffset;
+    if (sacnUniverse < SACN_MIN_UNIVERSE || sacnUniverse > SACN_MAX_UNIVERSE) {
+      // Report once instead of on every refresh
+      if (!this.skippedUniverses.has(universe)) {
+        this.skippedUniverses.add(universe);
+        console.error(
+          `[SacnSink] Universe ${universe} maps to sACN universe ${sacnUniverse}, outside ` +
+          `${SACN_MIN_UNIVERSE}-${SACN_MAX_UNIVERSE}; not sending it (see universeOffset)`
+        );
+      }
+      return Promise.resolve();
+    }
+
+    const socket = this.socket.get();
+    if (!socket) {
+      return Promise.resolve(); // Waiting to retry a socket that failed to open
+    }
+
+    const packet = buildSacnPacket(data, {
+      universe: sacnUniverse,
+      sequence: this.nextSequence(universe),
+      priority: this.getPriority(universe),
+      cid: this.cid,
+      sourceName: this.config.sourceName,
+      terminated,
+    });
+
+    const host = this.config.mode === 'multicast'
+      ? sacnMulticastAddress(sacnUniverse)
+      : this.config.host;
+
+    return socket.then(
+      (socket) =>
+        socket.send(packet, this.config.port, host).catch((error) => {
+          console.error(`[SacnSink] Failed to send universe ${universe}:`, error);
+        }),
+      () => {
+        // Already reported when the socket failed to open
+      }
+    );
+  }
+
+  /**
+   * Advance the per-universe sequence number (0-255, wrapping)
+   */
+  private nextSequence(universe: number): number {
+    const next = ((this.sequences.get(universe) ?? -1) + 1) & 0xff;
+    this.sequences.set(universe, next);
+    return next;
+  }
+}
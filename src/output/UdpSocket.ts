@@ -0,0 +1,188 @@
+/**
+ * UdpSocket - Minimal UDP transport used by network DMX sinks
+ *
+ * Browsers cannot open UDP sockets, so the Node implementation is loaded
+ * lazily via dynamic import. Sinks accept any object implementing the
+ * UdpSocket interface, which keeps them usable with other transports.
+ */
+
+/**
+ * Datagram transport used by Art-Net and sACN sinks
+ */
+export interface UdpSocket {
+  /** Send a datagram to the given host and port */
+  send(data: Uint8Array, port: number, host: string): Promise<void>;
+  /** Close the underlying socket */
+  close(): Promise<void>;
+}
+
+/**
+ * Options for creating a Node UDP socket
+ */
+export interface UdpSocketOptions {
+  /** Enable sending to broadcast addresses */
+  broadcast?: boolean;
+  /** Local port to bind (0 = ephemeral) */
+  bindPort?: number;
+  /** Local address to bind */
+  bindAddress?: string;
+  /** Time-to-live for multicast datagrams */
+  multicastTtl?: number;
+  /** Local interface address used for outgoing multicast */
+  multicastInterface?: string;
+}
+
+/**
+ * Node's dgram module, loaded by name so browser builds neither bundle it
+ * nor need Node's type declarations
+ */
+const DGRAM_MODULE = 'node:dgram';
+
+/**
+ * The parts of a Node dgram socket used here
+ */
+interface DgramSocket {
+  bind(port: number, address: string | undefined, callback: () => void): void;
+  setBroadcast(flag: boolean): void;
+  setMulticastTTL(ttl: number): void;
+  setMulticastInterface(address: string): void;
+  send(data: Uint8Array, port: number, host: string, callback: (error: Error | null) => void): void;
+  close(callback: () => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+  once(event: 'error', listener: (error: Error) => void): void;
+  off(event: 'error', listener: (error: Error) => void): void;
+}
+
+/**
+ * The parts of Node's dgram module used here
+ */
+interface DgramModule {
+  createSocket(options: { type: 'udp4'; reuseAddr: boolean }): DgramSocket;
+}
+
+/**
+ * Creates a UDP socket backed by Node's dgram module
+ * @param options - Socket options
+ * @returns Bound UDP socket
+ */
+export async function createUdpSocket(options: UdpSocketOptions = {}): Promise<UdpSocket> {
+  const dgram: DgramModule = await import(/* @vite-ignore */ DGRAM_MODULE);
+  const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+  await new Promise<void>((resolve, reject) => {
+    socket.once('error', reject);
+    socket.bind(options.bindPort ?? 0, options.bindAddress, () => {
+      socket.off('error', reject);
+      if (options.broadcast) {
+        socket.setBroadcast(true);
+      }
+      if (options.multicastTtl !== undefined) {
+        socket.setMulticastTTL(options.multicastTtl);
+      }
+      if (options.multicastInterface) {
+        socket.setMulticastInterface(options.multicastInterface);
+      }
+      resolve();
+    });
+  });
+
+  // Log late socket errors instead of crashing the process
+  socket.on('error', (error) => {
+    console.error('[UdpSocket] Socket error:', error);
+  });
+
+  return {
+    send: (data, port, host) =>
+      new Promise((resolve, reject) => {
+        socket.send(data, port, host, (error) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      }),
+    close: () =>
+      new Promise((resolve) => {
+        socket.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * Delay before retrying a socket that failed to open, doubling per failure (ms)
+ */
+const SOCKET_RETRY_MIN_MS = 1000;
+const SOCKET_RETRY_MAX_MS = 30000;
+
+/**
+ * Opens a socket on first use and backs off after failed attempts, so a
+ * sink refreshing at frame rate neither reopens nor logs on every frame
+ */
+export class RetryingSocket {
+  private socket: UdpSocket | null;
+  private socketPromise: Promise<UdpSocket> | null = null;
+  private retryAt: number = 0;
+  private retryDelay: number = SOCKET_RETRY_MIN_MS;
+
+  /**
+   * Create a lazily opened socket
+   * @param label - Log prefix, e.g. the owning sink's class name
+   * @param open - Opens a new socket
+   * @param socket - Pre-created socket used instead of opening one
+   */
+  constructor(
+    private readonly label: string,
+    private readonly open: () => Promise<UdpSocket>,
+    socket?: UdpSocket
+  ) {
+    this.socket = socket ?? null;
+  }
+
+  /**
+   * Get the socket, opening it on first use
+   * @returns Null while backing off after the socket failed to open; the
+   * promise rejects when this attempt fails, which is already logged
+   */
+  get(): Promise<UdpSocket> | null {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+
+    if (!this.socketPromise) {
+      if (Date.now() < this.retryAt) {
+        return null;
+      }
+
+      this.socketPromise = this.open().then(
+        (socket) => {
+          this.socket = socket;
+          this.retryDelay = SOCKET_RETRY_MIN_MS;
+          return socket;
+        },
+        (error) => {
+          // Forget the failed attempt and back off before the next one
+          console.error(`[${this.label}] Failed to open socket, retrying in ${this.retryDelay}ms:`, error);
+          this.socketPromise = null;
+          this.retryAt = Date.now() + this.retryDelay;
+          this.retryDelay = Math.min(this.retryDelay * 2, SOCKET_RETRY_MAX_MS);
+          throw error;
+        }
+      );
+    }
+
+    return this.socketPromise;
+  }
+
+  /**
+   * Close the socket, waiting for one that is still opening
+   */
+  async close(): Promise<void> {
+    const socket = this.socket ?? (this.socketPromise ? await this.socketPromise.catch(() => null) : null);
+    this.socket = null;
+    this.socketPromise = null;
+    if (socket) {
+      await socket.close();
+    }
+  }
+}
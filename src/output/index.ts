@@ -0,0 +1,72 @@
+/**
+ * Workstream E: DMX Output
+ *
+ * This module is responsible for:
+ * - Rendering fixture states into DMX channel values
+ * - Fixture profiles (channel maps, modes) and Open Fixture Library import
+ * - Patching fixtures into universes and detecting address conflicts
+ * - Managing per-universe channel buffers
+ * - Recording rendered universes into binary dumps
+ * - Transmitting universes to real lighting rigs over the network
+ */
+
+export { DmxOutput, type DmxOutputConfig } from './DmxOutput';
+export { encodeDmxDump, decodeDmxDump, DMX_DUMP_VERSION, type DmxDump } from './DmxDump';
+export {
+  DmxMapper,
+  DEFAULT_CHANNEL_LAYOUTS,
+  type DmxAddress,
+  type DmxMapperConfig,
+  type ProfileBinding,
+} from './DmxMapper';
+export {
+  DmxPatch,
+  type PatchConflict,
+  type PatchData,
+  type PatchEntry,
+  type PatchLocation,
+} from './DmxPatch';
+export {
+  createGenericProfile,
+  createPixelBarProfile,
+  getColorMixing,
+  getMode,
+  getProfileKey,
+  normalizeProfileKey,
+  type ChannelAttribute,
+  type ColorMixing,
+  type FixtureMode,
+  type FixturePhysical,
+  type FixtureProfile,
+  type GenericProfileOptions,
+  type ProfileChannel,
+} from './FixtureProfile';
+export {
+  encodeChannels,
+  mixColor,
+  toDmxValue,
+  STAGE_PAN_RANGE,
+  STAGE_TILT_RANGE,
+} from './ProfileEncoder';
+export {
+  importOflFixture,
+  type OflCapability,
+  type OflChannel,
+  type OflFixture,
+  type OflImportOptions,
+  type OflMode,
+} from './OflImporter';
+export { ProfileLibrary } from './ProfileLibrary';
+export { type DmxSink, DMX_UNIVERSE_SIZE } from './DmxSink';
+export { ArtNetSink, buildArtDmxPacket, ARTNET_PORT, type ArtNetSinkConfig } from './ArtNetSink';
+export {
+  SacnSink,
+  buildSacnPacket,
+  sacnMulticastAddress,
+  SACN_PORT,
+  SACN_DEFAULT_PRIORITY,
+  type SacnMode,
+  type SacnSinkConfig,
+  type SacnPacketOptions,
+} from './SacnSink';
+export { createUdpSocket, type UdpSocket, type UdpSocketOptions } from './UdpSocket';
@@ -0,0 +1,272 @@
+/**
+ * FixtureSelector - Named groups and spatial selections of fixtures
+ *
+ * Targets used by LightingCommand.targetId, StyleAction.targets and
+ * LightingCue.targets are resolved here. A target is one of:
+ *
+ * - `all`, a fixture ID or a fixture type
+ * - `@name` - a named group (ordered list of targets)
+ * - `a,b,c` - an ordered selection
+ * - `<target>/<filter>/...` - a target narrowed or reordered by filters:
+ *   - `left`, `right`, `front`, `back`, `top`, `bottom` - half of the
+ *     selection by position (+z is downstage/front)
+ *   - `front_row`, `back_row` - fixtures at the front-most/back-most depth
+ *   - `odd`, `even` - alternate fixtures in the current order (1-based)
+ *   - `left_to_right`, `right_to_left`, `front_to_back`, `back_to_front`,
+ *     `center_out`, `reverse` - reorder the selection
+ *
+ * Order matters for chases and phase spread, so selections keep fixtures
+ * in the order they were listed or sorted.
+ */
+
+import { Fixture } from './types';
+
+/**
+ * Minimal fixture information needed to resolve selections
+ */
+export type SelectableFixture = Pick<Fixture, 'id' | 'type' | 'position'>;
+
+/**
+ * Fixture types accepted as targets
+ */
+const FIXTURE_TYPES = ['moving_head', 'strobe', 'wash', 'laser', 'par', 'pixel_bar'];
+
+/**
+ * Positions closer than this (meters) count as the same row
+ */
+const ROW_TOLERANCE = 0.5;
+
+/**
+ * Maximum depth of groups referencing other groups
+ */
+const MAX_GROUP_DEPTH = 8;
+
+/**
+ * Registry of named fixture groups
+ */
+export class FixtureGroups {
+  private groups: Map<string, string[]> = new Map();
+
+  /**
+   * Define or replace a group
+   * @param name - Group name (without the @ prefix)
+   * @param targets - Ordered targets (IDs, types, groups or selections)
+   */
+  define(name: string, targets: string[]): void {
+    if (!name || /[@,/]/.test(name)) {
+      throw new Error(`Invalid group name: ${name}`);
+    }
+    this.groups.set(name, [...targets]);
+  }
+
+  /**
+   * Remove a group
+   * @param name - Group name
+   */
+  remove(name: string): void {
+    this.groups.delete(name);
+  }
+
+  /**
+   * Get a group's targets
+   * @param name - Group name
+   * @returns Targets or undefined if not defined
+   */
+  get(name: string): string[] | undefined {
+    const targets = this.groups.get(name);
+    return targets ? [...targets] : undefined;
+  }
+
+  /**
+   * Check if a group exists
+   * @param name - Group name
+   */
+  has(name: string): boolean {
+    return this.groups.has(name);
+  }
+
+  /**
+   * List group names
+   */
+  list(): string[] {
+    return Array.from(this.groups.keys());
+  }
+
+  /**
+   * Remove every group
+   */
+  clear(): void {
+    this.groups.clear();
+  }
+}
+
+/**
+ * Resolves targets to an ordered, de-duplicated list of fixtures
+ * @param targets - Target string or list of targets
+ * @param fixtures - Fixtures on stage
+ * @param groups - Named groups
+ * @returns Selected fixtures in selection order
+ */
+export function selectFixtures<T extends SelectableFixture>(
+  targets: string | string[],
+  fixtures: T[],
+  groups?: FixtureGroups
+): T[] {
+  const list = Array.isArray(targets) ? targets : [targets];
+  return unique(list.flatMap((target) => resolveTarget(target, fixtures, groups, 0)));
+}
+
+/**
+ * Checks whether a target string uses selector syntax (groups, lists or filters)
+ * @param target - Target string
+ */
+export function isSelector(target: string): boolean {
+  return target.startsWith('@') || target.includes(',') || target.includes('/');
+}
+
+/**
+ * Resolves a single target
+ */
+function resolveTarget<T extends SelectableFixture>(
+  target: string,
+  fixtures: T[],
+  groups: FixtureGroups | undefined,
+  depth: number
+): T[] {
+  const trimmed = target.trim();
+
+  // Ordered selection
+  if (trimmed.includes(',')) {
+    return unique(
+      trimmed.split(',').flatMap((part) => resolveTarget(part, fixtures, groups, depth))
+    );
+  }
+
+  // Filters apply left to right
+  const [base, ...filters] = trimmed.split('/');
+  let selection = resolveBase(base, fixtures, groups, depth);
+  for (const filter of filters) {
+    selection = applyFilter(filter, selection);
+  }
+  return selection;
+}
+
+/**
+ * Resolves the base of a target (before any filters)
+ */
+function resolveBase<T extends SelectableFixture>(
+  base: string,
+  fixtures: T[],
+  groups: FixtureGroups | undefined,
+  depth: number
+): T[] {
+  if (base === 'all') {
+    return [...fixtures];
+  }
+
+  if (base.startsWith('@')) {
+    const members = groups?.get(base.slice(1));
+    if (!members) {
+      console.warn(`[FixtureSelector] Unknown group: ${base}`);
+      return [];
+    }
+    if (depth >= MAX_GROUP_DEPTH) {
+      console.warn(`[FixtureSelector] Group nesting too deep at ${base}`);
+      return [];
+    }
+    return unique(members.flatMap((t) => resolveTarget(t, fixtures, groups, depth + 1)));
+  }
+
+  const fixture = fixtures.find((f) => f.id === base);
+  if (fixture) {
+    return [fixture];
+  }
+
+  if (FIXTURE_TYPES.includes(base)) {
+    return fixtures.filter((f) => f.type === base);
+  }
+
+  return [];
+}
+
+/**
+ * Applies a filter to a selection
+ */
+function applyFilter<T extends SelectableFixture>(filter: string, selection: T[]): T[] {
+  if (selection.length === 0) {
+    return selection;
+  }
+
+  const xs = selection.map((f) => f.position.x);
+  const ys = selection.map((f) => f.position.y);
+  const zs = selection.map((f) => f.position.z);
+  const midX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const midY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const midZ = (Math.min(...zs) + Math.max(...zs)) / 2;
+
+  switch (filter) {
+    case 'left':
+      return selection.filter((f) => f.position.x < midX);
+    case 'right':
+      return selection.filter((f) => f.position.x > midX);
+    case 'front':
+      return selection.filter((f) => f.position.z > midZ);
+    case 'back':
+      return selection.filter((f) => f.position.z < midZ);
+    case 'top':
+      return selection.filter((f) => f.position.y > midY);
+    case 'bottom':
+      return selection.filter((f) => f.position.y < midY);
+    case 'front_row': {
+      const front = Math.max(...zs);
+      return selection.filter((f) => front - f.position.z <= ROW_TOLERANCE);
+    }
+    case 'back_row': {
+      const back = Math.min(...zs);
+      return selection.filter((f) => f.position.z - back <= ROW_TOLERANCE);
+    }
+    case 'odd':
+      return selection.filter((_, i) => i % 2 === 0);
+    case 'even':
+      return selection.filter((_, i) => i % 2 === 1);
+    case 'left_to_right':
+      return sortBy(selection, (f) => f.position.x);
+    case 'right_to_left':
+      return sortBy(selection, (f) => -f.position.x);
+    case 'front_to_back':
+      return sortBy(selection, (f) => -f.position.z);
+    case 'back_to_front':
+      return sortBy(selection, (f) => f.position.z);
+    case 'center_out':
+      return sortBy(selection, (f) => Math.abs(f.position.x - midX));
+    case 'reverse':
+      return [...selection].reverse();
+    default:
+      console.warn(`[FixtureSelector] Unknown filter: ${filter}`);
+      return selection;
+  }
+}
+
+/**
+ * Stable sort by a numeric key
+ */
+function sortBy<T>(items: T[], key: (item: T) => number): T[] {
+  return items
+    .map((item, index) => ({ item, index, value: key(item) }))
+    .sort((a, b) => a.value - b.value || a.index - b.index)
+    .map((entry) => entry.item);
+}
+
+/**
+ * Removes repeated fixtures, keeping the first occurrence
+ */
+function unique<T extends SelectableFixture>(fixtures: T[]): T[] {
+  const seen = new Set<string>();
+  return fixtures.filter((f) => {
+    if (seen.has(f.id)) {
+      return false;
+    }
+    seen.add(f.id);
+    return true;
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Random - Seedable random numbers for reproducible shows
+ *
+ * Every random choice in the mapping (rule probabilities, palette picks,
+ * variations, show plan looks) draws from a Random instead of Math.random,
+ * so the same seed and the same audio always produce the same show.
+ *
+ * Each component gets its own stream with `fork(name)`: the streams are
+ * derived from the seed and the name only, so one component drawing more
+ * numbers (say, more rules firing) does not change the choices of another.
+ */
+
+/**
+ * A seed: any number or string (a number and its decimal string, such as
+ * 42 and '42', give the same sequence)
+ */
+export type Seed = number | string;
+
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ */
+export class Random {
+  private readonly seed: Seed;
+  private state: number;
+
+  /**
+   * @param seed - Seed (default: a random one, see getSeed)
+   */
+  constructor(seed: Seed = Random.randomSeed()) {
+    this.seed = seed;
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * Create an unpredictable seed
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  getSeed(): Seed {
+    return this.seed;
+  }
+
+  /**
+   * Next number in [0, 1), like Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Random integer in [0, count)
+   */
+  int(count: number): number {
+    return Math.floor(this.next() * count);
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Create an independent stream derived from this seed and a name
+   */
+  fork(name: string): Random {
+    return new Random(`${this.seed}/${name}`);
+  }
+
+  /**
+   * Restart the sequence from the seed
+   */
+  reset(): void {
+    this.state = hashSeed(this.seed);
+  }
+}
+
+/**
+ * Hashes a seed to 32 bits (FNV-1a over its string form)
+ */
+function hashSeed(seed: Seed): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
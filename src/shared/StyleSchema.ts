@@ -0,0 +1,323 @@
+/**
+ * StyleSchema - Validation and migration of serialized style profiles
+ *
+ * Profiles come from localStorage, imported files and the style learner,
+ * so nothing about their shape can be assumed. `validateStyleProfile`
+ * checks every field and reports errors with the path to the bad value
+ * (such as `rules[2].action.durationMs`). `migrateStyleProfile` upgrades
+ * data written by older versions before it is validated.
+ *
+ * Versions:
+ * - 1: original format without `schemaVersion`
+ * - 2: adds `schemaVersion`; rules always carry `probability`, `priority`
+ *   and `action.targets`, and profiles always carry `modelType`
+ */
+
+/**
+ * Current version of the serialized style profile format
+ */
+export const STYLE_PROFILE_VERSION = 2;
+
+/**
+ * A schema violation at a path inside a profile
+ */
+export interface SchemaError {
+  /** Path to the value, such as 'palette.primary[1].g' */
+  path: string;
+  message: string;
+}
+
+/**
+ * Serialized data of unknown shape
+ */
+type Data = Record<string, unknown>;
+
+const ACTION_TYPES = ['strobe', 'color_change', 'intensity_pulse', 'movement', 'blackout', 'all_on'];
+
+const SECTIONS = ['intro', 'verse', 'chorus', 'drop', 'breakdown', 'buildup', 'bridge', 'outro'];
+
+const BANDS = ['low', 'mid', 'high'];
+
+const MODEL_TYPES = ['skip-bart', 'custom-nn', 'rules-only'];
+
+/**
+ * Upgrades data from the version in the key to the next version
+ */
+const MIGRATIONS: { [fromVersion: number]: (data: Data) => Data } = {
+  1: (data) => ({
+    ...data,
+    modelType: data.modelType ?? 'rules-only',
+    rules: Array.isArray(data.rules)
+      ? data.rules.map((rule: Data) =>
+          isObject(rule)
+            ? {
+                ...rule,
+                probability: rule.probability ?? 1,
+                priority: rule.priority ?? 0,
+                action: isObject(rule.action) ? { targets: [], ...rule.action } : rule.action,
+              }
+            : rule
+        )
+      : data.rules,
+  }),
+};
+
+/**
+ * Upgrade serialized profile data to the current version
+ * @param data Parsed profile JSON
+ * @returns Data at STYLE_PROFILE_VERSION (the input is not modified)
+ * @throws Error if the data is not an object or is from a newer version
+ */
+export function migrateStyleProfile(data: unknown): Data {
+  if (!isObject(data)) {
+    throw new Error('Style profile must be an object');
+  }
+
+  const version = data.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid style profile version: ${String(version)}`);
+  }
+  if (version > STYLE_PROFILE_VERSION) {
+    throw new Error(`Unsupported style profile version: ${version}`);
+  }
+
+  let migrated = data;
+  for (let from = version; from < STYLE_PROFILE_VERSION; from++) {
+    migrated = MIGRATIONS[from](migrated);
+  }
+  return { ...migrated, schemaVersion: STYLE_PROFILE_VERSION };
+}
+
+/**
+ * Check serialized profile data against the current schema
+ * @param data Profile data, with createdAt as an ISO string or Date
+ * @returns Every error found (empty if valid)
+ */
+export function validateStyleProfile(data: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  if (!isObject(data)) {
+    return [{ path: '', message: 'must be an object' }];
+  }
+
+  if (data.schemaVersion !== undefined && data.schemaVersion !== STYLE_PROFILE_VERSION) {
+    errors.push({ path: 'schemaVersion', message: `must be ${STYLE_PROFILE_VERSION}` });
+  }
+  checkString(data.name, 'name', errors, true);
+  checkString(data.source, 'source', errors);
+
+  const createdAt = data.createdAt instanceof Date ? data.createdAt.getTime() : Date.parse(String(data.createdAt));
+  if (isNaN(createdAt)) {
+    errors.push({ path: 'createdAt', message: 'must be a date' });
+  }
+
+  if (checkObject(data.palette, 'palette', errors)) {
+    const palette = data.palette as Data;
+    checkColors(palette.primary, 'palette.primary', errors, true);
+    checkColors(palette.accent, 'palette.accent', errors, false);
+    checkColor(palette.strobeColor, 'palette.strobeColor', errors);
+  }
+
+  if (!Array.isArray(data.rules)) {
+    errors.push({ path: 'rules', message: 'must be an array' });
+  } else {
+    const ids = new Set<string>();
+    data.rules.forEach((rule, i) => {
+      errors.push(...validateStyleRule(rule, `rules[${i}]`));
+      if (isObject(rule) && typeof rule.id === 'string') {
+        if (ids.has(rule.id)) {
+          errors.push({ path: `rules[${i}].id`, message: `duplicate id '${rule.id}'` });
+        }
+        ids.add(rule.id);
+      }
+    });
+  }
+
+  checkNumber(data.avgBrightness, 'avgBrightness', errors, 0, 1);
+  checkNumber(data.brightnessVariance, 'brightnessVariance', errors, 0);
+  checkNumber(data.colorChangeRate, 'colorChangeRate', errors, 0);
+  checkNumber(data.strobeRate, 'strobeRate', errors, 0);
+
+  if (data.modelType !== undefined) {
+    checkEnum(data.modelType, 'modelType', MODEL_TYPES, errors);
+  }
+  if (data.modelWeights !== undefined && typeof data.modelWeights !== 'string' && !(data.modelWeights instanceof ArrayBuffer)) {
+    errors.push({ path: 'modelWeights', message: 'must be a base64 string' });
+  }
+
+  return errors;
+}
+
+/**
+ * Check one style rule
+ * @param rule Rule data
+ * @param path Path of the rule, used as the prefix of error paths
+ * @returns Every error found (empty if valid)
+ */
+export function validateStyleRule(rule: unknown, path: string = 'rule'): SchemaError[] {
+  const errors: SchemaError[] = [];
+  if (!checkObject(rule, path, errors)) {
+    return errors;
+  }
+  const data = rule as Data;
+
+  checkString(data.id, `${path}.id`, errors, true);
+  checkString(data.name, `${path}.name`, errors, true);
+  checkNumber(data.probability, `${path}.probability`, errors, 0, 1);
+  checkNumber(data.priority, `${path}.priority`, errors);
+  if (data.exclusiveGroup !== undefined) {
+    checkString(data.exclusiveGroup, `${path}.exclusiveGroup`, errors, true);
+  }
+  if (data.cooldownBeats !== undefined) {
+    checkNumber(data.cooldownBeats, `${path}.cooldownBeats`, errors, 0);
+  }
+
+  if (checkObject(data.trigger, `${path}.trigger`, errors)) {
+    const trigger = data.trigger as Data;
+    const at = `${path}.trigger`;
+    checkOptional(trigger.onBeat, `${at}.onBeat`, 'boolean', errors);
+    checkOptional(trigger.onDownbeat, `${at}.onDownbeat`, 'boolean', errors);
+    if (trigger.energyThreshold !== undefined) {
+      checkNumber(trigger.energyThreshold, `${at}.energyThreshold`, errors, 0);
+    }
+    if (trigger.fluxThreshold !== undefined) {
+      checkNumber(trigger.fluxThreshold, `${at}.fluxThreshold`, errors, 0);
+    }
+    if (trigger.sections !== undefined) {
+      if (!Array.isArray(trigger.sections)) {
+        errors.push({ path: `${at}.sections`, message: 'must be an array' });
+      } else {
+        trigger.sections.forEach((section, i) => checkEnum(section, `${at}.sections[${i}]`, SECTIONS, errors));
+      }
+    }
+    if (trigger.frequencyBand !== undefined) {
+      checkEnum(trigger.frequencyBand, `${at}.frequencyBand`, BANDS, errors);
+    }
+    checkOptional(trigger.customCondition, `${at}.customCondition`, 'string', errors);
+  }
+
+  if (checkObject(data.action, `${path}.action`, errors)) {
+    const action = data.action as Data;
+    const at = `${path}.action`;
+    checkEnum(action.type, `${at}.type`, ACTION_TYPES, errors);
+    if (!Array.isArray(action.targets)) {
+      errors.push({ path: `${at}.targets`, message: 'must be an array' });
+    } else {
+      action.targets.forEach((target, i) => checkString(target, `${at}.targets[${i}]`, errors, true));
+    }
+    if (action.color !== undefined && action.color !== 'random_from_palette') {
+      checkColor(action.color, `${at}.color`, errors);
+    }
+    if (action.intensity !== undefined && action.intensity !== 'from_energy') {
+      checkNumber(action.intensity, `${at}.intensity`, errors, 0, 1);
+    }
+    if (action.movement !== undefined && checkObject(action.movement, `${at}.movement`, errors)) {
+      const movement = action.movement as Data;
+      for (const axis of ['pan', 'tilt']) {
+        if (movement[axis] !== undefined && movement[axis] !== 'random') {
+          checkNumber(movement[axis], `${at}.movement.${axis}`, errors, 0, 1);
+        }
+      }
+      if (movement.speed !== undefined) {
+        checkNumber(movement.speed, `${at}.movement.speed`, errors, 0, 1);
+      }
+    }
+    checkNumber(action.durationMs, `${at}.durationMs`, errors);
+    if (typeof action.durationMs === 'number' && action.durationMs <= 0) {
+      errors.push({ path: `${at}.durationMs`, message: 'must be greater than 0' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format schema errors as one line each
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((e) => (e.path ? `${e.path}: ${e.message}` : e.message)).join('\n');
+}
+
+/**
+ * Checks if a value is a plain object
+ */
+function isObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Records an error unless the value is an object
+ */
+function checkObject(value: unknown, path: string, errors: SchemaError[]): boolean {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'must be an object' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Records an error unless the value is a string (non-empty if required)
+ */
+function checkString(value: unknown, path: string, errors: SchemaError[], nonEmpty: boolean = false): void {
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'must be a string' });
+  } else if (nonEmpty && value === '') {
+    errors.push({ path, message: 'must not be empty' });
+  }
+}
+
+/**
+ * Records an error unless the value is a finite number within the range
+ */
+function checkNumber(value: unknown, path: string, errors: SchemaError[], min?: number, max?: number): void {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    errors.push({ path, message: 'must be a number' });
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    const range = max === undefined ? `at least ${min}` : `between ${min ?? '-Infinity'} and ${max}`;
+    errors.push({ path, message: `must be ${range} (got ${value})` });
+  }
+}
+
+/**
+ * Records an error unless the value is one of the allowed strings
+ */
+function checkEnum(value: unknown, path: string, allowed: string[], errors: SchemaError[]): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push({ path, message: `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})` });
+  }
+}
+
+/**
+ * Records an error if the value is present but of the wrong type
+ */
+function checkOptional(value: unknown, path: string, type: 'boolean' | 'string', errors: SchemaError[]): void {
+  if (value !== undefined && typeof value !== type) {
+    errors.push({ path, message: `must be a ${type}` });
+  }
+}
+
+/**
+ * Records errors unless the value is an RGB color with 0-1 channels
+ */
+function checkColor(value: unknown, path: string, errors: SchemaError[]): void {
+  if (!checkObject(value, path, errors)) {
+    return;
+  }
+  for (const channel of ['r', 'g', 'b']) {
+    checkNumber((value as Data)[channel], `${path}.${channel}`, errors, 0, 1);
+  }
+}
+
+/**
+ * Records errors unless the value is an array of colors
+ */
+function checkColors(value: unknown, path: string, errors: SchemaError[], nonEmpty: boolean): void {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array' });
+    return;
+  }
+  if (nonEmpty && value.length === 0) {
+    errors.push({ path, message: 'must not be empty' });
+  }
+  value.forEach((color, i) => checkColor(color, `${path}[${i}]`, errors));
+}
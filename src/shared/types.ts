@@ -123,7 +123,7 @@ export interface BaseFixture {
   enabled: boolean;
 }
 
-export type FixtureType = 'moving_head' | 'strobe' | 'wash' | 'laser' | 'par';
+export type FixtureType = 'moving_head' | 'strobe' | 'wash' | 'laser' | 'par' | 'pixel_bar';
 
 /**
  * Moving head fixture with pan/tilt capabilities
@@ -193,10 +193,69 @@ export interface Laser extends BaseFixture {
 
 export type LaserPattern = 'beam' | 'fan' | 'tunnel' | 'wave' | 'cone';
 
+/**
+ * PAR can with a fixed beam angle
+ */
+export interface Par extends BaseFixture {
+  type: 'par';
+  /** Light intensity, 0-1 */
+  intensity: number;
+  /** Light color */
+  color: RGB;
+  /** White emitter level, 0-1 (RGBW units, added on top of color) */
+  white?: number;
+  /** Amber emitter level, 0-1 (RGBA units, added on top of color) */
+  amber?: number;
+  /** Color emitters fitted to the unit */
+  emitters: ParEmitters;
+  /** Fixed beam angle in degrees */
+  beamAngle: number;
+  /** Response of the lamp to the intensity value */
+  dimmerCurve?: DimmerCurve;
+}
+
+export type ParEmitters = 'rgb' | 'rgbw' | 'rgba';
+
+export type DimmerCurve = 'linear' | 'square' | 's_curve';
+
+/**
+ * LED batten / pixel bar with individually controllable cells.
+ * Cells can be targeted as "<id>:<cell>" or "<id>:<first>-<last>" (1-based).
+ */
+export interface PixelBar extends BaseFixture {
+  type: 'pixel_bar';
+  /** Master intensity applied to every cell, 0-1 */
+  intensity: number;
+  /** Bar color; setting it recolors every cell */
+  color: RGB;
+  /** Per-cell state, left to right */
+  cells: PixelCell[];
+  /** Bar length in meters */
+  length: number;
+  /** Pixel effect rendered over the cells */
+  effect: PixelEffect;
+  /** Effect speed in cycles per second */
+  effectSpeed: number;
+  /** Second color used by the gradient effect */
+  secondaryColor?: RGB;
+}
+
+/**
+ * State of a single pixel bar cell
+ */
+export interface PixelCell {
+  /** Cell intensity, 0-1 (scaled by the bar's master intensity) */
+  intensity: number;
+  /** Cell color */
+  color: RGB;
+}
+
+export type PixelEffect = 'none' | 'chase' | 'gradient' | 'rainbow' | 'wave';
+
 /**
  * Union type for all fixtures
  */
-export type Fixture = MovingHead | Strobe | WashLight | Laser;
+export type Fixture = MovingHead | Strobe | WashLight | Laser | Par | PixelBar;
 
 /**
  * All possible fixture properties that can be updated
@@ -220,13 +279,21 @@ export interface FixtureUpdates {
   xPosition?: number;
   yPosition?: number;
   pattern?: LaserPattern;
+  // Par specific
+  white?: number;
+  amber?: number;
+  // PixelBar specific
+  cells?: Partial<PixelCell>[];
+  effect?: PixelEffect;
+  effectSpeed?: number;
+  secondaryColor?: RGB;
 }
 
 /**
  * Command to update fixture state
  */
 export interface LightingCommand {
-  /** Target fixture ID, or 'all' for broadcast, or fixture type */
+  /** Target fixture ID, 'all' for broadcast, fixture type, '@group' or selection (see FixtureSelector) */
   targetId: string | 'all' | FixtureType;
   /** Properties to update */
   updates: FixtureUpdates;
@@ -238,6 +305,51 @@ export interface LightingCommand {
 
 export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'snap';
 
+/**
+ * Continuously evaluated effect that modulates one attribute across an
+ * ordered group of fixtures
+ */
+export interface EffectDefinition {
+  /** Unique identifier; generated when omitted */
+  id?: string;
+  /** Human-readable name */
+  name?: string;
+  /** Fixture IDs, types, groups or selections, in the order the phase is spread over */
+  targets: string[];
+  /** Attribute being modulated */
+  attribute: EffectAttribute;
+  /** Shape of one cycle */
+  waveform: Waveform;
+  /** Cycle length in beats, synced to the current tempo */
+  beatsPerCycle?: number;
+  /** Free-running rate in cycles per second (used when beatsPerCycle is omitted) */
+  rateHz?: number;
+  /** Phase spread across the group in degrees (360 = one full cycle, negative reverses) */
+  phaseSpread: number;
+  /** Phase offset of the whole effect in degrees */
+  phaseOffset?: number;
+  /** Peak-to-peak amplitude, 0-1 */
+  size: number;
+  /** Center value, 0-1; ignored when relative */
+  offset: number;
+  /** Modulate around each fixture's value when the effect started */
+  relative?: boolean;
+  /** Colors blended by the waveform value (color attribute only) */
+  colors?: RGB[];
+}
+
+export type EffectAttribute =
+  | 'intensity'
+  | 'color'
+  | 'pan'
+  | 'tilt'
+  | 'beamWidth'
+  | 'spread'
+  | 'xPosition'
+  | 'yPosition';
+
+export type Waveform = 'sine' | 'cosine' | 'triangle' | 'square' | 'sawtooth' | 'ramp_down';
+
 /**
  * Stage configuration
  */
@@ -310,6 +422,8 @@ export interface LightingRegion {
  * A learned style profile that can be applied to new audio
  */
 export interface StyleProfile {
+  /** Serialized format version (see STYLE_PROFILE_VERSION) */
+  schemaVersion?: number;
   /** Name of this style profile */
   name: string;
   /** Source description (e.g., video URL or performance name) */
@@ -365,6 +479,10 @@ export interface StyleRule {
   probability: number;
   /** Priority for rule ordering (higher = evaluated first) */
   priority: number;
+  /** Rules sharing a group never overlap: the firing rule holds the group for its action duration */
+  exclusiveGroup?: string;
+  /** Minimum beats between triggers (default: 50ms) */
+  cooldownBeats?: number;
 }
 
 /**
@@ -393,7 +511,7 @@ export interface StyleTrigger {
 export interface StyleAction {
   /** Type of action */
   type: 'strobe' | 'color_change' | 'intensity_pulse' | 'movement' | 'blackout' | 'all_on';
-  /** Target fixtures (by type or specific IDs) */
+  /** Target fixtures (types, IDs, '@group' names or selections such as 'moving_head/left') */
   targets: FixtureType[] | string[];
   /** Color to apply (if applicable) */
   color?: RGB | 'random_from_palette';
@@ -427,8 +545,19 @@ export interface MappingConfig {
   beatSync: boolean;
   /** Minimum time between strobe triggers (ms) */
   strobeMinInterval: number;
+  /** Seed for every random choice; the same seed and audio give the same show (default: random) */
+  seed?: number | string;
+  /** How style rules firing together resolve each fixture attribute (default: 'priority') */
+  ruleConflicts?: { [attribute: string]: ConflictPolicy };
 }
 
+/**
+ * How a fixture attribute set by several style rules in the same frame is
+ * resolved: the highest-priority rule wins, the values are averaged, or the
+ * lower-priority values wait until the winning action ends
+ */
+export type ConflictPolicy = 'priority' | 'blend' | 'queue';
+
 /**
  * Interface for the mapping engine that connects audio to lighting
  */
@@ -457,6 +586,69 @@ export interface MappingState {
   commandsPerSecond: number;
 }
 
+/**
+ * One batch of commands captured from the mapping engine
+ */
+export interface RecordedFrame {
+  /** Playback position in ms (the audio frame's timestamp) */
+  time: number;
+  /** Audio frame that produced the commands */
+  frame: AudioFrame;
+  /** Commands generated for the frame (may be empty) */
+  commands: LightingCommand[];
+}
+
+/**
+ * Recorded lighting command stream of a show
+ */
+export interface ShowRecording {
+  /** Recording format version */
+  version: number;
+  /** Track title, if known */
+  title?: string;
+  /** ISO 8601 creation time */
+  createdAt: string;
+  /** Length in ms */
+  duration: number;
+  /** Frames in time order */
+  frames: RecordedFrame[];
+}
+
+/**
+ * Attribute values of one fixture across a rendered timeline
+ */
+export interface TimelineTrack {
+  /** Fixture ID */
+  id: string;
+  type: FixtureType;
+  /** State at the first frame; supplies everything attributes leave out */
+  base: Fixture;
+  /** Flattened attribute paths, e.g. "color.r" or "cells.3.intensity" */
+  attributes: string[];
+  /** Value kind of each attribute */
+  kinds: ('number' | 'boolean' | 'string')[];
+  /** String table indexed by the values of string attributes */
+  strings: string[];
+  /** Values, frame-major: data[frame * attributes.length + attribute] (NaN = unset) */
+  data: Float32Array;
+}
+
+/**
+ * Fixture states of a whole show, sampled at a fixed frame rate
+ */
+export interface ShowTimeline {
+  /** Timeline format version */
+  version: number;
+  /** Track title, if known */
+  title?: string;
+  /** Frames per second */
+  frameRate: number;
+  frameCount: number;
+  /** Length in ms */
+  duration: number;
+  tracks: TimelineTrack[];
+}
+
 // =============================================================================
 // EVENTS & CALLBACKS
 // =============================================================================
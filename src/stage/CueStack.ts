@@ -0,0 +1,317 @@
+/**
+ * CueStack - Traditional numbered cue list playback
+ *
+ * Cues store fixture states and are played back with GO, BACK and GOTO.
+ * Each cue fades in after its delay: intensities that rise use the up fade,
+ * intensities that fall use the down fade, every other attribute uses the
+ * up fade. A follow time makes the next cue GO automatically once the cue
+ * has completed. Playback writes through its own merge source, so cue
+ * output overrides audio-reactive mapping until the stack is released.
+ */
+
+import { EasingType, FixtureUpdates, LightingCommand } from '../shared/types';
+
+/**
+ * A numbered cue
+ */
+export interface StackCue {
+  /** Cue number; cues play in ascending order (point cues like 1.5 allowed) */
+  number: number;
+  /** Human-readable label */
+  name?: string;
+  /** Fixture states keyed by target (fixture ID, type, group or selection) */
+  states: Record<string, FixtureUpdates>;
+  /** Fade time for rising intensities and all other attributes in ms */
+  upFade: number;
+  /** Fade time for falling intensities in ms (defaults to upFade) */
+  downFade?: number;
+  /** Wait after GO before the fade starts in ms */
+  delay?: number;
+  /** Auto-GO the next cue this long after this cue completes, in ms */
+  follow?: number;
+  /** Easing for the fades */
+  easing?: EasingType;
+}
+
+/**
+ * Callbacks the stack uses to reach the fixtures
+ */
+export interface CueStackContext {
+  /** Resolve targets to ordered fixture IDs */
+  resolveTargets(targets: string[]): string[];
+  /** Get the current intensity of a fixture */
+  getIntensity(fixtureId: string): number | undefined;
+  /** Execute commands through the cue merge source */
+  execute(commands: LightingCommand[]): void;
+  /** Release the cue merge source */
+  release(transitionMs: number): void;
+}
+
+/**
+ * Playback state of the stack
+ */
+export interface CueStackState {
+  /** Number of the active cue, or null when released */
+  current: number | null;
+  /** Number of the cue GO will run, or null at the end of the list */
+  next: number | null;
+  /** Whether the active cue is still in its delay or fade */
+  running: boolean;
+  /** Progress of the active cue's delay plus fade, 0-1 */
+  progress: number;
+}
+
+/**
+ * Active cue being played
+ */
+interface ActiveCue {
+  cue: StackCue;
+  elapsed: number;
+  fired: boolean;
+  followed: boolean;
+  /** Fade time replacing the cue's own times (BACK/GOTO) */
+  fadeOverride?: number;
+}
+
+/**
+ * Numbered cue list with GO/BACK/GOTO, fades, delays and follow cues
+ */
+export class CueStack {
+  private cues: StackCue[] = [];
+  private active: ActiveCue | null = null;
+  private context: CueStackContext;
+
+  /**
+   * Creates a cue stack
+   * @param context Fixture lookups and command output
+   */
+  constructor(context: CueStackContext) {
+    this.context = context;
+  }
+
+  /**
+   * Add a cue, replacing any cue with the same number
+   * @param cue Cue to add
+   */
+  add(cue: StackCue): void {
+    if (!Number.isFinite(cue.number) || cue.number <= 0) {
+      throw new Error(`Invalid cue number: ${cue.number}`);
+    }
+
+    this.cues = this.cues.filter((c) => c.number !== cue.number);
+    this.cues.push({ ...cue, states: copyStates(cue.states) });
+    this.cues.sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Remove a cue
+   * @param number Cue number
+   */
+  remove(number: number): void {
+    this.cues = this.cues.filter((c) => c.number !== number);
+  }
+
+  /**
+   * Remove every cue and stop playback (fixtures keep their state)
+   */
+  clear(): void {
+    this.cues = [];
+    this.active = null;
+  }
+
+  /**
+   * Get a cue
+   * @param number Cue number
+   */
+  get(number: number): StackCue | undefined {
+    const cue = this.cues.find((c) => c.number === number);
+    return cue ? { ...cue, states: copyStates(cue.states) } : undefined;
+  }
+
+  /**
+   * List cue numbers in playback order
+   */
+  list(): number[] {
+    return this.cues.map((c) => c.number);
+  }
+
+  /**
+   * Run the next cue
+   * @returns Number of the cue started, or null at the end of the list
+   */
+  go(): number | null {
+    const index = this.getActiveIndex() + 1;
+    if (index >= this.cues.length) {
+      return null;
+    }
+    this.start(this.cues[index]);
+    return this.cues[index].number;
+  }
+
+  /**
+   * Return to the previous cue
+   * @param transitionMs Fade time, or the previous cue's own times when omitted
+   * @returns Number of the cue started, or null at the top of the list
+   */
+  back(transitionMs?: number): number | null {
+    const index = this.getActiveIndex() - 1;
+    if (index < 0) {
+      return null;
+    }
+    this.start(this.cues[index], transitionMs);
+    return this.cues[index].number;
+  }
+
+  /**
+   * Jump to a cue
+   * @param number Cue number
+   * @param transitionMs Fade time, or the cue's own times when omitted
+   */
+  goto(number: number, transitionMs?: number): void {
+    const cue = this.cues.find((c) => c.number === number);
+    if (!cue) {
+      throw new Error(`Unknown cue: ${number}`);
+    }
+    this.start(cue, transitionMs);
+  }
+
+  /**
+   * Stop playback and hand the fixtures back to lower-priority sources
+   * @param transitionMs Fade to the values underneath
+   */
+  release(transitionMs: number = 0): void {
+    this.active = null;
+    this.context.release(transitionMs);
+  }
+
+  /**
+   * Get the playback state
+   */
+  getState(): CueStackState {
+    const next = this.cues[this.getActiveIndex() + 1];
+    if (!this.active) {
+      return { current: null, next: next?.number ?? null, running: false, progress: 0 };
+    }
+
+    const total = this.getDelay(this.active) + this.getDuration(this.active);
+    const progress = total > 0 ? Math.min(1, this.active.elapsed / total) : 1;
+    return {
+      current: this.active.cue.number,
+      next: next?.number ?? null,
+      running: progress < 1,
+      progress,
+    };
+  }
+
+  /**
+   * Advance delays, fades and follow times
+   * @param deltaTime Time since last tick in milliseconds
+   */
+  update(deltaTime: number): void {
+    const active = this.active;
+    if (!active) {
+      return;
+    }
+    active.elapsed += deltaTime;
+
+    const delay = this.getDelay(active);
+    if (!active.fired && active.elapsed >= delay) {
+      active.fired = true;
+      this.fire(active);
+    }
+
+    // Follow cues count from the end of this cue's fade
+    const follow = active.cue.follow;
+    if (
+      active.fired &&
+      !active.followed &&
+      follow !== undefined &&
+      active.elapsed >= delay + this.getDuration(active) + follow
+    ) {
+      active.followed = true;
+      this.go();
+    }
+  }
+
+  /**
+   * Makes a cue active
+   */
+  private start(cue: StackCue, fadeOverride?: number): void {
+    this.active = { cue, elapsed: 0, fired: false, followed: false, fadeOverride };
+    this.update(0);
+  }
+
+  /**
+   * Sends a cue's fades
+   */
+  private fire(active: ActiveCue): void {
+    const { cue, fadeOverride } = active;
+    const upFade = fadeOverride ?? cue.upFade;
+    const downFade = fadeOverride ?? cue.downFade ?? cue.upFade;
+    const easing = cue.easing ?? 'linear';
+    const commands: LightingCommand[] = [];
+
+    for (const [target, states] of Object.entries(cue.states)) {
+      const { intensity, ...others } = states;
+      const fixtureIds = this.context.resolveTargets([target]);
+
+      // Targets the resolver does not know (e.g. pixel cells) pass through as-is
+      if (fixtureIds.length === 0) {
+        commands.push({ targetId: target, updates: { ...states }, transitionMs: upFade, easing });
+        continue;
+      }
+
+      for (const fixtureId of fixtureIds) {
+        if (Object.keys(others).length > 0) {
+          commands.push({ targetId: fixtureId, updates: { ...others }, transitionMs: upFade, easing });
+        }
+        if (intensity !== undefined) {
+          const current = this.context.getIntensity(fixtureId) ?? 0;
+          commands.push({
+            targetId: fixtureId,
+            updates: { intensity },
+            transitionMs: intensity >= current ? upFade : downFade,
+            easing,
+          });
+        }
+      }
+    }
+
+    this.context.execute(commands);
+  }
+
+  /**
+   * Gets the index of the active cue, or -1
+   */
+  private getActiveIndex(): number {
+    return this.active ? this.cues.findIndex((c) => c.number === this.active!.cue.number) : -1;
+  }
+
+  /**
+   * Gets the delay of the active cue
+   */
+  private getDelay(active: ActiveCue): number {
+    return active.fadeOverride !== undefined ? 0 : active.cue.delay ?? 0;
+  }
+
+  /**
+   * Gets the longest fade of the active cue
+   */
+  private getDuration(active: ActiveCue): number {
+    if (active.fadeOverride !== undefined) {
+      return active.fadeOverride;
+    }
+    return Math.max(active.cue.upFade, active.cue.downFade ?? active.cue.upFade);
+  }
+}
+
+/**
+ * Copies cue states so stored cues cannot be mutated from outside
+ */
+function copyStates(states: Record<string, FixtureUpdates>): Record<string, FixtureUpdates> {
+  const copy: Record<string, FixtureUpdates> = {};
+  for (const [target, updates] of Object.entries(states)) {
+    copy[target] = JSON.parse(JSON.stringify(updates));
+  }
+  return copy;
+}
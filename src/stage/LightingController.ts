@@ -9,12 +9,39 @@ import {
   MovingHead as IMovingHead,
   Strobe as IStrobe,
   WashLight as IWashLight,
+  Laser as ILaser,
+  Par as IPar,
+  PixelBar as IPixelBar,
+  PixelCell,
   EasingType,
+  EffectAttribute,
+  EffectDefinition,
+  FixtureUpdates,
+  RGB,
 } from '../shared/types';
 import { BaseFixtureImpl } from './fixtures/BaseFixture';
 import { MovingHead } from './fixtures/MovingHead';
 import { Strobe } from './fixtures/Strobe';
 import { WashLight } from './fixtures/WashLight';
+import { Laser } from './fixtures/Laser';
+import { Par } from './fixtures/Par';
+import { PixelBar } from './fixtures/PixelBar';
+import { DmxOutput } from '../output/DmxOutput';
+import { FixtureGroups, isSelector, selectFixtures } from '../shared/FixtureSelector';
+import { EffectContext, EffectEngine } from './effects/EffectEngine';
+import { AttributeOwner, MergeLayer } from './MergeLayer';
+import { Masters } from './Masters';
+import { CueStack } from './CueStack';
+
+/**
+ * Fade used when a source releases attributes back to lower priorities
+ */
+const RELEASE_FADE_MS = 300;
+
+/**
+ * Attributes a command can set on individual pixel bar cells
+ */
+const CELL_ATTRIBUTES: readonly string[] = ['intensity', 'color'] satisfies (keyof PixelCell)[];
 
 /**
  * Controller for managing lighting fixtures and executing commands
@@ -27,6 +54,29 @@ export class LightingController {
   private overrideEndTime: number = 0;
   private postEffectDimFactor: number = 1.0;
   private dimEndTime: number = 0;
+  private mappingLevel: number = 1.0;
+  private blackoutActive: boolean = false;
+  private outputs: DmxOutput[] = [];
+  private groups: FixtureGroups = new FixtureGroups();
+  private mergeLayer: MergeLayer = new MergeLayer();
+  private masters: Masters = new Masters();
+  private cueStack: CueStack = new CueStack({
+    resolveTargets: (targets) => this.resolveTargetIds(targets),
+    getIntensity: (fixtureId) => {
+      const state = this.fixtures.get(fixtureId)?.getState() as { intensity?: number } | undefined;
+      return state?.intensity;
+    },
+    execute: (commands) => this.executeCommands(commands, 'cue'),
+    release: (transitionMs) => this.releaseSource('cue', transitionMs),
+  });
+  private effectEngine: EffectEngine = new EffectEngine();
+  private effectContext: EffectContext = {
+    resolveTargets: (targets) => this.resolveTargetIds(targets),
+    getValue: (fixtureId, attribute) => {
+      const state = this.fixtures.get(fixtureId)?.getState();
+      return (state as Partial<Record<EffectAttribute, number | RGB>> | undefined)?.[attribute];
+    },
+  };
 
   /**
    * Creates a new lighting controller
@@ -61,6 +111,15 @@ export class LightingController {
       case 'wash':
         fixtureImpl = new WashLight(fixture as IWashLight);
         break;
+      case 'laser':
+        fixtureImpl = new Laser(fixture as ILaser);
+        break;
+      case 'par':
+        fixtureImpl = new Par(fixture as IPar);
+        break;
+      case 'pixel_bar':
+        fixtureImpl = new PixelBar(fixture as IPixelBar);
+        break;
       default:
         console.warn(`Unknown fixture type: ${(fixture as any).type}`);
         return;
@@ -72,6 +131,11 @@ export class LightingController {
 
     // Store fixture
     this.fixtures.set(fixture.id, fixtureImpl);
+
+    // Fixtures added during a blackout stay dark
+    if (this.blackoutActive) {
+      this.applyMerged(fixtureImpl, this.mergeLayer.write('blackout', fixture.id, { intensity: 0 }), 0, 'snap');
+    }
   }
 
   /**
@@ -93,6 +157,7 @@ export class LightingController {
 
     // Remove from map
     this.fixtures.delete(id);
+    this.mergeLayer.clear(id);
   }
 
   /**
@@ -116,6 +181,22 @@ export class LightingController {
     return fixtures;
   }
 
+  /**
+   * Gets the current state of every fixture
+   * @returns Array of fixture states
+   */
+  getFixtureStates(): Fixture[] {
+    return this.getAllFixtures().map((fixture) => fixture.getState() as Fixture);
+  }
+
+  /**
+   * Gets the output state of every fixture, with masters applied
+   * @returns Array of fixture states as sent to outputs
+   */
+  getOutputStates(): Fixture[] {
+    return this.getAllFixtures().map((fixture) => fixture.getOutputState() as Fixture);
+  }
+
   /**
    * Gets fixtures by type
    * @param type Fixture type
@@ -134,18 +215,45 @@ export class LightingController {
   /**
    * Executes lighting commands
    * @param commands Array of commands to execute
+   * @param source Merge source writing the commands
    */
-  executeCommands(commands: LightingCommand[]): void {
+  executeCommands(commands: LightingCommand[], source: string = 'mapping'): void {
     for (const command of commands) {
-      this.executeCommand(command);
+      this.executeCommand(command, source);
     }
   }
 
   /**
    * Executes a single lighting command
    * @param command Command to execute
+   * @param source Merge source writing the command
    */
-  private executeCommand(command: LightingCommand): void {
+  private executeCommand(command: LightingCommand, source: string): void {
+    // Cell targets address part of a pixel bar
+    const cellTarget = this.getTargetCells(command.targetId);
+    if (cellTarget) {
+      const cellUpdates: Record<string, unknown> = {};
+      for (const [attribute, value] of Object.entries(command.updates)) {
+        if (value === undefined) {
+          continue;
+        }
+        if (!CELL_ATTRIBUTES.includes(attribute)) {
+          console.warn(`Cell target ${command.targetId} does not support ${attribute}; ignoring it`);
+          continue;
+        }
+        for (const cell of cellTarget.cells) {
+          cellUpdates[`cells.${cell}.${attribute}`] = value;
+        }
+      }
+      this.applyMerged(
+        cellTarget.fixture,
+        this.mergeLayer.write(source, cellTarget.fixture.getId(), cellUpdates),
+        command.transitionMs,
+        command.easing
+      );
+      return;
+    }
+
     // Get target fixtures
     const targets = this.getTargetFixtures(command.targetId);
 
@@ -154,20 +262,104 @@ export class LightingController {
       return;
     }
 
-    // Apply updates to each target
+    // Merge with other sources and apply whatever changed
     for (const fixture of targets) {
-      fixture.applyState(
-        command.updates as any,
+      this.applyMerged(
+        fixture,
+        this.mergeLayer.write(source, fixture.getId(), command.updates),
         command.transitionMs,
         command.easing
       );
     }
   }
 
+  /**
+   * Applies merged attribute values to a fixture
+   * @param fixture Target fixture
+   * @param merged Merged values; "cells.N.attr" keys address pixel bar cells
+   * @param transitionMs Transition duration
+   * @param easing Easing type
+   */
+  private applyMerged(
+    fixture: BaseFixtureImpl,
+    merged: Record<string, unknown>,
+    transitionMs: number,
+    easing: string
+  ): void {
+    const state: Record<string, unknown> = {};
+    const cells = new Map<number, Partial<PixelCell>>();
+
+    for (const [key, value] of Object.entries(merged)) {
+      const match = /^cells\.(\d+)\.(\w+)$/.exec(key);
+      if (match && fixture instanceof PixelBar) {
+        const index = parseInt(match[1], 10);
+        cells.set(index, { ...cells.get(index), [match[2]]: value });
+      } else {
+        state[key] = value;
+      }
+    }
+
+    // Merge keys are the fixture attributes written by commands
+    if (Object.keys(state).length > 0) {
+      fixture.applyState(state as FixtureUpdates, transitionMs, easing);
+    }
+    cells.forEach((cell, index) => {
+      (fixture as PixelBar).applyCellState([index], cell, transitionMs, easing);
+    });
+  }
+
+  /**
+   * Applies merge results for several fixtures
+   * @param changes Merged values per fixture ID
+   * @param transitionMs Transition duration
+   */
+  private applyMergeChanges(changes: Map<string, Record<string, unknown>>, transitionMs: number): void {
+    changes.forEach((merged, id) => {
+      const fixture = this.fixtures.get(id);
+      if (fixture) {
+        this.applyMerged(fixture, merged, transitionMs, 'linear');
+      }
+    });
+  }
+
+  /**
+   * Registers a merge source or changes its priority
+   * @param name Source name
+   * @param priority Higher priorities override lower ones
+   */
+  registerSource(name: string, priority: number): void {
+    this.applyMergeChanges(this.mergeLayer.registerSource(name, priority), 0);
+  }
+
+  /**
+   * Releases everything a source wrote, handing control back to lower priorities
+   * @param source Source name
+   * @param transitionMs Fade to the values underneath
+   */
+  releaseSource(source: string, transitionMs: number = RELEASE_FADE_MS): void {
+    this.applyMergeChanges(this.mergeLayer.release(source), transitionMs);
+  }
+
+  /**
+   * Gets which source owns each attribute of a fixture
+   * @param fixtureId Fixture ID
+   * @returns Owners keyed by attribute
+   */
+  getAttributeOwners(fixtureId: string): Record<string, AttributeOwner> {
+    return this.mergeLayer.getOwners(fixtureId);
+  }
+
+  /**
+   * Gets the merge layer
+   */
+  getMergeLayer(): MergeLayer {
+    return this.mergeLayer;
+  }
+
   /**
    * Gets fixtures based on target ID
-   * @param targetId Target ID or 'all'
-   * @returns Array of target fixtures
+   * @param targetId Target ID, 'all', fixture type, group or selection
+   * @returns Array of target fixtures in selection order
    */
   private getTargetFixtures(targetId: string | 'all'): BaseFixtureImpl[] {
     if (targetId === 'all') {
@@ -180,6 +372,12 @@ export class LightingController {
       return [fixture];
     }
 
+    // Check if it's a group or spatial selection
+    if (isSelector(targetId)) {
+      return selectFixtures(targetId, this.getFixtureStates(), this.groups)
+        .map((f) => this.fixtures.get(f.id)!);
+    }
+
     // Check if it's a fixture type
     const fixturesByType = this.getFixturesByType(targetId);
     if (fixturesByType.length > 0) {
@@ -189,6 +387,59 @@ export class LightingController {
     return [];
   }
 
+  /**
+   * Defines a named fixture group, targetable as "@name"
+   * @param name Group name
+   * @param targets Ordered targets (IDs, types, groups or selections)
+   */
+  defineGroup(name: string, targets: string[]): void {
+    this.groups.define(name, targets);
+  }
+
+  /**
+   * Gets the fixture group registry
+   */
+  getGroups(): FixtureGroups {
+    return this.groups;
+  }
+
+  /**
+   * Resolves a pixel bar cell target such as "bar-1:3" or "bar-1:2-5"
+   * @param targetId Target ID
+   * @returns Pixel bar and 0-based cell indices, or null if not a cell target
+   */
+  private getTargetCells(targetId: string): { fixture: PixelBar; cells: number[] } | null {
+    if (this.fixtures.has(targetId)) {
+      return null;
+    }
+
+    const match = /^(.+):(\d+)(?:-(\d+))?$/.exec(targetId);
+    if (!match) {
+      return null;
+    }
+
+    const fixture = this.fixtures.get(match[1]);
+    if (!(fixture instanceof PixelBar)) {
+      return null;
+    }
+
+    // Cells are numbered from 1 like fixture IDs
+    const first = parseInt(match[2], 10);
+    const last = match[3] !== undefined ? parseInt(match[3], 10) : first;
+    const cells: number[] = [];
+    for (let cell = Math.min(first, last); cell <= Math.max(first, last); cell++) {
+      if (cell >= 1 && cell <= fixture.getCellCount()) {
+        cells.push(cell - 1);
+      }
+    }
+
+    if (cells.length === 0) {
+      console.warn(`No cells found for target: ${targetId}`);
+    }
+
+    return { fixture, cells };
+  }
+
   /**
    * Triggers a manual effect that temporarily overrides audio
    * @param durationMs How long the override lasts
@@ -211,6 +462,54 @@ export class LightingController {
     return this.postEffectDimFactor;
   }
 
+  /**
+   * Attaches a DMX output and starts streaming fixture states to it
+   * @param output DMX output
+   */
+  addOutput(output: DmxOutput): void {
+    if (this.outputs.includes(output)) {
+      return;
+    }
+    this.outputs.push(output);
+    output.start(() => this.getOutputStates());
+  }
+
+  /**
+   * Detaches a DMX output and stops streaming to it
+   * @param output DMX output
+   * @returns Resolves once the output's streams are terminated
+   */
+  async removeOutput(output: DmxOutput): Promise<void> {
+    this.outputs = this.outputs.filter((o) => o !== output);
+    await output.stop();
+  }
+
+  /**
+   * Resumes streaming to all attached DMX outputs
+   */
+  startOutputs(): void {
+    for (const output of this.outputs) {
+      if (!output.isRunning()) {
+        output.start(() => this.getOutputStates());
+      }
+    }
+  }
+
+  /**
+   * Stops streaming to all attached DMX outputs, terminating their streams
+   * @returns Resolves once every stream is terminated
+   */
+  async stopOutputs(): Promise<void> {
+    await Promise.all(this.outputs.map((output) => output.stop()));
+  }
+
+  /**
+   * Gets all attached DMX outputs
+   */
+  getOutputs(): DmxOutput[] {
+    return [...this.outputs];
+  }
+
   /**
    * Updates all fixtures
    * @param deltaTime Time since last frame in milliseconds
@@ -221,6 +520,7 @@ export class LightingController {
     // Check if manual override has ended
     if (this.manualOverrideActive && now > this.overrideEndTime) {
       this.manualOverrideActive = false;
+      this.releaseSource('manual');
     }
 
     // Handle post-effect dim fade back
@@ -231,10 +531,147 @@ export class LightingController {
       this.postEffectDimFactor = Math.min(1.0, this.postEffectDimFactor + deltaTime * 0.002);
     }
 
+    // Audio-driven output follows the dim factor; re-merging snaps the
+    // mapping's values, so only do it when the level actually moves
+    if (this.postEffectDimFactor !== this.mappingLevel) {
+      this.mappingLevel = this.postEffectDimFactor;
+      this.applyMergeChanges(this.mergeLayer.setSourceLevel('mapping', this.mappingLevel), 0);
+    }
+
+    // Advance cue stack delays, fades and follows
+    this.cueStack.update(deltaTime);
+
+    // Apply masters before fixtures render
+    this.masters
+      .computeLevels(Array.from(this.fixtures.keys()), (targets) => this.resolveTargetIds(targets))
+      .forEach(({ level, flash }, id) => {
+        this.fixtures.get(id)?.setMasterLevel(level, flash);
+      });
+
     // Update all fixtures
     this.fixtures.forEach((fixture) => {
       fixture.update(deltaTime);
     });
+
+    // Merge running effects over the commanded state
+    this.effectEngine.evaluate(deltaTime, this.effectContext).forEach((updates, id) => {
+      this.writeEffect(id, updates);
+    });
+  }
+
+  /**
+   * Starts a continuously evaluated effect
+   * @param effect Effect definition
+   * @returns Effect ID
+   */
+  addEffect(effect: EffectDefinition): string {
+    return this.effectEngine.add(effect);
+  }
+
+  /**
+   * Stops an effect, restoring the base values of relative effects
+   * @param id Effect ID
+   */
+  removeEffect(id: string): void {
+    const effect = this.effectEngine.get(id);
+    this.effectEngine.remove(id);
+    if (effect) {
+      this.releaseEffect(this.resolveTargetIds(effect.targets), [effect.attribute]);
+    }
+  }
+
+  /**
+   * Stops every effect
+   */
+  clearEffects(): void {
+    this.effectEngine.clear();
+    this.releaseEffect(Array.from(this.fixtures.keys()));
+  }
+
+  /**
+   * Writes effect output to a fixture through the 'effect' merge source
+   * @param fixtureId Fixture ID
+   * @param updates Effect values
+   */
+  private writeEffect(fixtureId: string, updates: FixtureUpdates): void {
+    const fixture = this.fixtures.get(fixtureId);
+    if (fixture) {
+      this.applyMerged(fixture, this.mergeLayer.write('effect', fixtureId, updates), 0, 'snap');
+    }
+  }
+
+  /**
+   * Hands attributes driven by effects back to the sources underneath
+   * @param fixtureIds Fixtures the effects ran on
+   * @param attributes Attributes to release, or every attribute when omitted
+   */
+  private releaseEffect(fixtureIds: string[], attributes?: string[]): void {
+    for (const id of fixtureIds) {
+      this.applyMergeChanges(this.mergeLayer.release('effect', id, attributes), 0);
+    }
+  }
+
+  /**
+   * Gets the effect engine
+   */
+  getEffectEngine(): EffectEngine {
+    return this.effectEngine;
+  }
+
+  /**
+   * Sets the tempo that beat-synced effects follow
+   * @param bpm Tempo in beats per minute
+   */
+  setTempo(bpm: number): void {
+    this.effectEngine.setTempo(bpm);
+  }
+
+  /**
+   * Gets the cue stack
+   */
+  getCueStack(): CueStack {
+    return this.cueStack;
+  }
+
+  /**
+   * Gets the grand master, submasters and group faders
+   */
+  getMasters(): Masters {
+    return this.masters;
+  }
+
+  /**
+   * Sets the grand master level
+   * @param level Level 0-1
+   */
+  setGrandMaster(level: number): void {
+    this.masters.setGrandMaster(level);
+  }
+
+  /**
+   * Engages or releases dead blackout (DBO)
+   * @param active Whether all output is forced to zero
+   */
+  setDeadBlackout(active: boolean): void {
+    this.masters.setBlackout(active);
+  }
+
+  /**
+   * Resolves targets to an ordered, de-duplicated list of fixture IDs
+   * @param targets Fixture IDs, types, groups or selections
+   * @returns Fixture IDs
+   */
+  private resolveTargetIds(targets: string[]): string[] {
+    const ids: string[] = [];
+    for (const target of targets) {
+      for (const fixture of this.getTargetFixtures(target)) {
+        const id = fixture.getId();
+        if (!ids.includes(id)) {
+          ids.push(id);
+        }
+      }
+    }
+    return ids;
   }
 
   /**
@@ -242,26 +679,48 @@ export class LightingController {
    * @param state State to apply to all fixtures
    * @param transitionMs Transition duration
    * @param easing Easing type
+   * @param source Merge source writing the state
    */
   setAllFixtures(
     state: Partial<Fixture>,
     transitionMs: number = 0,
-    easing: EasingType = 'linear'
+    easing: EasingType = 'linear',
+    source: string = 'mapping'
   ): void {
-    this.executeCommand({
-      targetId: 'all',
-      updates: state,
-      transitionMs,
-      easing,
-    });
+    this.executeCommand(
+      {
+        targetId: 'all',
+        updates: state,
+        transitionMs,
+        easing,
+      },
+      source
+    );
   }
 
   /**
-   * Creates a blackout (all lights off)
+   * Creates a blackout (all lights off) that holds until releaseBlackout
    * @param transitionMs Transition duration
    */
   blackout(transitionMs: number = 0): void {
-    this.setAllFixtures({ intensity: 0 } as any, transitionMs, 'easeOut');
+    this.blackoutActive = true;
+    this.setAllFixtures({ intensity: 0 }, transitionMs, 'easeOut', 'blackout');
+  }
+
+  /**
+   * Lifts a blackout, fading back to the values underneath
+   * @param transitionMs Transition duration
+   */
+  releaseBlackout(transitionMs: number = RELEASE_FADE_MS): void {
+    this.blackoutActive = false;
+    this.releaseSource('blackout', transitionMs);
+  }
+
+  /**
+   * Checks if a blackout is holding the fixtures dark
+   */
+  isBlackoutActive(): boolean {
+    return this.blackoutActive;
   }
 
   /**
@@ -276,7 +735,8 @@ export class LightingController {
         color: { r: 1, g: 1, b: 1 },
       } as any,
       transitionMs,
-      'easeIn'
+      'easeIn',
+      'manual'
     );
   }
 
@@ -286,6 +746,7 @@ export class LightingController {
    */
   flashStrobes(duration: number = 50): void {
     this.setManualOverride(duration, 1500); // 1.5s dim after flash
+    this.executeCommand({ targetId: 'strobe', updates: { intensity: 1 }, transitionMs: 0, easing: 'snap' }, 'manual');
     const strobes = this.getFixturesByType('strobe');
     for (const strobe of strobes) {
       if (strobe instanceof Strobe) {
@@ -377,6 +838,72 @@ export class LightingController {
         flashDuration: 50,
       });
     }
+
+    // Upstage lasers - 2 units
+    for (let i = 0; i < 2; i++) {
+      const x = -4 + i * 8;
+      this.addFixture({
+        id: `laser-${i + 1}`,
+        type: 'laser',
+        position: { x, y: 7, z: -9 },
+        enabled: true,
+        intensity: 0,
+        color: { r: 0, g: 1, b: 0 },
+        xPosition: 0.5,
+        yPosition: 0.5,
+        pattern: 'fan',
+      });
+    }
+
+    // Upstage floor PARs - 4 units
+    for (let i = 0; i < 4; i++) {
+      const x = -6 + i * 4;
+      this.addFixture({
+        id: `par-${i + 1}`,
+        type: 'par',
+        position: { x, y: 0.2, z: -9 },
+        enabled: true,
+        intensity: 0,
+        color: { r: 0.5, g: 0, b: 1 },
+        emitters: 'rgbw',
+        white: 0,
+        beamAngle: 25,
+        dimmerCurve: 'square',
+      });
+    }
+
+    // Downstage floor pixel bars - 4 units
+    for (let i = 0; i < 4; i++) {
+      const x = -6 + i * 4;
+      this.addFixture({
+        id: `bar-${i + 1}`,
+        type: 'pixel_bar',
+        position: { x, y: 0.1, z: 7 },
+        enabled: true,
+        intensity: 0,
+        color: { r: 1, g: 1, b: 1 },
+        cells: Array.from({ length: 12 }, () => ({
+          intensity: 1,
+          color: { r: 1, g: 1, b: 1 },
+        })),
+        length: 3,
+        effect: 'none',
+        effectSpeed: 1,
+      });
+    }
+
+    // Default groups
+    this.groups.define('upstage-heads', ['moving_head/back_row/left_to_right']);
+    this.groups.define('downstage-heads', ['moving_head/front_row/left_to_right']);
+    this.groups.define('upstage-left-heads', ['@upstage-heads/left']);
+    this.groups.define('upstage-right-heads', ['@upstage-heads/right']);
+    this.groups.define('side-washes', ['wash/left', 'wash/right']);
+    this.groups.define('floor', ['par/left_to_right', 'pixel_bar/left_to_right']);
+
+    // One fader per default group
+    for (const group of this.groups.list()) {
+      this.masters.setGroupFader(group, 1);
+    }
   }
 
   /**
@@ -387,12 +914,19 @@ export class LightingController {
     for (const id of ids) {
       this.removeFixture(id);
     }
+    this.mergeLayer.clear();
+    this.blackoutActive = false;
   }
 
   /**
    * Disposes of all resources
+   * @returns Resolves once the DMX outputs are stopped
    */
-  dispose(): void {
+  async dispose(): Promise<void> {
+    this.effectEngine.clear();
+    this.cueStack.clear();
+    await this.stopOutputs();
+    this.outputs = [];
     this.clearAll();
     this.scene.remove(this.fixtureGroup);
   }
@@ -0,0 +1,212 @@
+/**
+ * Masters - Grand master, submasters and group faders
+ *
+ * Masters scale output intensity without touching the commanded state, so
+ * pulling a fader down and back up restores the look exactly. The grand
+ * master scales everything, each submaster scales the fixtures it targets
+ * (fixtures in several submasters get the product), DBO (dead blackout)
+ * forces all output to zero and a held flash key drives a submaster's
+ * fixtures to full regardless of their commanded intensity.
+ */
+
+/**
+ * A fader scaling a set of fixtures
+ */
+export interface Submaster {
+  name: string;
+  /** Fixture IDs, types, groups or selections */
+  targets: string[];
+  /** Level 0-1 */
+  level: number;
+  /** Whether the flash key is held */
+  flash: boolean;
+}
+
+/**
+ * Master output of one fixture
+ */
+export interface MasterLevel {
+  /** Scale for the fixture's intensity, or its output when flashed */
+  level: number;
+  /** Whether a flash key drives the fixture to full */
+  flash: boolean;
+}
+
+/**
+ * Grand master, submasters and DBO shared by the stage and DMX outputs
+ */
+export class Masters {
+  private grandMaster: number = 1;
+  private blackout: boolean = false;
+  private submasters: Map<string, Submaster> = new Map();
+
+  /**
+   * Set the grand master level
+   * @param level Level 0-1
+   */
+  setGrandMaster(level: number): void {
+    this.grandMaster = clampLevel(level);
+  }
+
+  /**
+   * Get the grand master level
+   */
+  getGrandMaster(): number {
+    return this.grandMaster;
+  }
+
+  /**
+   * Engage or release dead blackout
+   * @param active Whether all output is forced to zero
+   */
+  setBlackout(active: boolean): void {
+    this.blackout = active;
+  }
+
+  /**
+   * Toggle dead blackout
+   * @returns Whether blackout is now active
+   */
+  toggleBlackout(): boolean {
+    this.blackout = !this.blackout;
+    return this.blackout;
+  }
+
+  /**
+   * Check if dead blackout is active
+   */
+  isBlackout(): boolean {
+    return this.blackout;
+  }
+
+  /**
+   * Define or replace a submaster
+   * @param name Submaster name
+   * @param targets Fixture IDs, types, groups or selections
+   * @param level Initial level 0-1
+   */
+  defineSubmaster(name: string, targets: string[], level: number = 1): void {
+    this.submasters.set(name, {
+      name,
+      targets: [...targets],
+      level: clampLevel(level),
+      flash: false,
+    });
+  }
+
+  /**
+   * Remove a submaster
+   * @param name Submaster name
+   */
+  removeSubmaster(name: string): void {
+    this.submasters.delete(name);
+  }
+
+  /**
+   * Set a submaster level
+   * @param name Submaster name
+   * @param level Level 0-1
+   */
+  setSubmaster(name: string, level: number): void {
+    this.getSubmasterEntry(name).level = clampLevel(level);
+  }
+
+  /**
+   * Set the fader of a fixture group, creating it on first use
+   * @param group Group name (without the @ prefix)
+   * @param level Level 0-1
+   */
+  setGroupFader(group: string, level: number): void {
+    const name = `@${group}`;
+    if (!this.submasters.has(name)) {
+      this.defineSubmaster(name, [name], level);
+      return;
+    }
+    this.setSubmaster(name, level);
+  }
+
+  /**
+   * Press or release a submaster's flash key
+   * @param name Submaster name
+   * @param active Whether the key is held
+   */
+  flash(name: string, active: boolean): void {
+    this.getSubmasterEntry(name).flash = active;
+  }
+
+  /**
+   * Get a submaster
+   * @param name Submaster name
+   */
+  getSubmaster(name: string): Submaster | undefined {
+    const submaster = this.submasters.get(name);
+    return submaster ? { ...submaster, targets: [...submaster.targets] } : undefined;
+  }
+
+  /**
+   * List submasters in definition order
+   */
+  listSubmasters(): Submaster[] {
+    return Array.from(this.submasters.keys()).map((name) => this.getSubmaster(name)!);
+  }
+
+  /**
+   * Compute the master output of every fixture
+   * @param fixtureIds Fixtures on stage
+   * @param resolveTargets Resolves submaster targets to fixture IDs
+   * @returns Master level per fixture ID
+   */
+  computeLevels(
+    fixtureIds: string[],
+    resolveTargets: (targets: string[]) => string[]
+  ): Map<string, MasterLevel> {
+    const levels = new Map<string, MasterLevel>();
+    for (const id of fixtureIds) {
+      levels.set(id, { level: this.blackout ? 0 : this.grandMaster, flash: false });
+    }
+    if (this.blackout) {
+      return levels;
+    }
+
+    this.submasters.forEach((submaster) => {
+      for (const id of resolveTargets(submaster.targets)) {
+        const entry = levels.get(id);
+        if (!entry) {
+          continue;
+        }
+        if (submaster.flash) {
+          entry.flash = true;
+        } else {
+          entry.level *= submaster.level;
+        }
+      }
+    });
+
+    // Flashed fixtures go to full under the grand master
+    levels.forEach((entry) => {
+      if (entry.flash) {
+        entry.level = this.grandMaster;
+      }
+    });
+
+    return levels;
+  }
+
+  /**
+   * Gets a submaster, throwing if it does not exist
+   */
+  private getSubmasterEntry(name: string): Submaster {
+    const submaster = this.submasters.get(name);
+    if (!submaster) {
+      throw new Error(`Unknown submaster: ${name}`);
+    }
+    return submaster;
+  }
+}
+
+/**
+ * Clamps a fader level to 0-1
+ */
+function clampLevel(level: number): number {
+  return Math.max(0, Math.min(1, level));
+}
@@ -0,0 +1,393 @@
+/**
+ * MergeLayer - Merges fixture attributes written by several sources
+ *
+ * Every source (mapping engine, cues, effects, manual buttons, ...) writes into its
+ * own layer. For each attribute the highest-priority sources holding a value
+ * compete: HTP attributes (intensity) take the highest value, LTP attributes
+ * (color, position, ...) take the latest write. A source's level scales its
+ * HTP values, which lets a whole source be dimmed without rewriting it.
+ */
+
+import { FixtureUpdates } from '../shared/types';
+
+/**
+ * How competing values of an attribute are merged
+ */
+export type MergeMode = 'htp' | 'ltp';
+
+/**
+ * A registered source
+ */
+export interface MergeSource {
+  name: string;
+  /** Higher priorities override lower ones */
+  priority: number;
+  /** Scale applied to HTP values (0-1) */
+  level: number;
+}
+
+/**
+ * The source currently owning an attribute
+ */
+export interface AttributeOwner {
+  source: string;
+  priority: number;
+  mode: MergeMode;
+  /** Merged value (after the source level) */
+  value: unknown;
+}
+
+/**
+ * Value written by one source
+ */
+interface LayerValue {
+  value: unknown;
+  /** Write order, for LTP */
+  stamp: number;
+}
+
+/**
+ * Sources registered by default, with their priorities
+ */
+export const DEFAULT_MERGE_SOURCES: Record<string, number> = {
+  mapping: 50,
+  cue: 75,
+  effect: 90,
+  manual: 100,
+  // Held by LightingController.blackout until released
+  blackout: 200,
+};
+
+/**
+ * Attributes merged highest-takes-precedence by default
+ */
+const DEFAULT_HTP_ATTRIBUTES = ['intensity'];
+
+/**
+ * Per-fixture, per-attribute merge of values written by prioritized sources
+ */
+export class MergeLayer {
+  private sources: Map<string, MergeSource> = new Map();
+  /** fixture ID -> attribute -> source -> value */
+  private layers: Map<string, Map<string, Map<string, LayerValue>>> = new Map();
+  /** Last merged output, to report only changes */
+  private output: Map<string, Map<string, unknown>> = new Map();
+  private htpAttributes: Set<string>;
+  private stamp: number = 0;
+
+  /**
+   * Creates a merge layer
+   * @param htpAttributes Attributes merged HTP; everything else is LTP.
+   *   Dotted keys (e.g. cells.3.intensity) match on their last segment.
+   */
+  constructor(htpAttributes: string[] = DEFAULT_HTP_ATTRIBUTES) {
+    this.htpAttributes = new Set(htpAttributes);
+    for (const [name, priority] of Object.entries(DEFAULT_MERGE_SOURCES)) {
+      this.registerSource(name, priority);
+    }
+  }
+
+  /**
+   * Registers a source or changes its priority
+   * @param name Source name
+   * @param priority Higher priorities override lower ones
+   * @returns Merged values that changed, per fixture ID
+   */
+  registerSource(name: string, priority: number): Map<string, Record<string, unknown>> {
+    const existing = this.sources.get(name);
+    this.sources.set(name, { name, priority, level: existing?.level ?? 1 });
+    return existing ? this.refresh(name) : new Map();
+  }
+
+  /**
+   * Gets the registered sources, highest priority first
+   */
+  getSources(): MergeSource[] {
+    return Array.from(this.sources.values())
+      .map((source) => ({ ...source }))
+      .sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Sets the level that scales a source's HTP values
+   * @param name Source name
+   * @param level Level 0-1
+   * @returns Merged values that changed, per fixture ID
+   */
+  setSourceLevel(name: string, level: number): Map<string, Record<string, unknown>> {
+    const source = this.getSource(name);
+    const clamped = Math.max(0, Math.min(1, level));
+    if (source.level === clamped) {
+      return new Map();
+    }
+    source.level = clamped;
+    return this.refresh(name);
+  }
+
+  /**
+   * Writes attributes for a source
+   * @param source Source name
+   * @param fixtureId Fixture ID
+   * @param updates Attribute values
+   * @returns Merged values of the written attributes that changed
+   */
+  write(
+    source: string,
+    fixtureId: string,
+    updates: FixtureUpdates | Record<string, unknown>
+  ): Record<string, unknown> {
+    this.getSource(source);
+
+    let attributes = this.layers.get(fixtureId);
+    if (!attributes) {
+      attributes = new Map();
+      this.layers.set(fixtureId, attributes);
+    }
+
+    const changed: string[] = [];
+    for (const [attribute, value] of Object.entries(updates)) {
+      if (value === undefined) {
+        continue;
+      }
+      let writers = attributes.get(attribute);
+      if (!writers) {
+        writers = new Map();
+        attributes.set(attribute, writers);
+      }
+      writers.set(source, { value: copyValue(value), stamp: ++this.stamp });
+      changed.push(attribute);
+    }
+
+    return this.mergeAttributes(fixtureId, changed);
+  }
+
+  /**
+   * Removes a source's values, handing attributes back to other sources
+   * @param source Source name
+   * @param fixtureId Fixture to release, or every fixture when omitted
+   * @param attributes Attributes to release, or every attribute when omitted
+   * @returns Merged values that changed, per fixture ID. Attributes no
+   *   source holds any more are left out.
+   */
+  release(
+    source: string,
+    fixtureId?: string,
+    attributes?: string[]
+  ): Map<string, Record<string, unknown>> {
+    const result = new Map<string, Record<string, unknown>>();
+    const fixtureIds = fixtureId !== undefined ? [fixtureId] : Array.from(this.layers.keys());
+
+    for (const id of fixtureIds) {
+      const layer = this.layers.get(id);
+      if (!layer) {
+        continue;
+      }
+
+      const released: string[] = [];
+      layer.forEach((writers, attribute) => {
+        if (attributes && !attributes.includes(attribute)) {
+          return;
+        }
+        if (writers.delete(source)) {
+          released.push(attribute);
+        }
+        if (writers.size === 0) {
+          layer.delete(attribute);
+        }
+      });
+
+      const merged = this.mergeAttributes(id, released);
+      if (Object.keys(merged).length > 0) {
+        result.set(id, merged);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Forgets everything written for a fixture, or for every fixture
+   * @param fixtureId Fixture ID
+   */
+  clear(fixtureId?: string): void {
+    if (fixtureId === undefined) {
+      this.layers.clear();
+      this.output.clear();
+      return;
+    }
+    this.layers.delete(fixtureId);
+    this.output.delete(fixtureId);
+  }
+
+  /**
+   * Gets the source that owns an attribute
+   * @param fixtureId Fixture ID
+   * @param attribute Attribute name
+   * @returns Owner, or undefined if no source holds the attribute
+   */
+  getOwner(fixtureId: string, attribute: string): AttributeOwner | undefined {
+    const writers = this.layers.get(fixtureId)?.get(attribute);
+    return writers ? this.resolve(attribute, writers) : undefined;
+  }
+
+  /**
+   * Gets the owner of every attribute held for a fixture
+   * @param fixtureId Fixture ID
+   * @returns Owners keyed by attribute
+   */
+  getOwners(fixtureId: string): Record<string, AttributeOwner> {
+    const owners: Record<string, AttributeOwner> = {};
+    this.layers.get(fixtureId)?.forEach((writers, attribute) => {
+      const owner = this.resolve(attribute, writers);
+      if (owner) {
+        owners[attribute] = owner;
+      }
+    });
+    return owners;
+  }
+
+  /**
+   * Gets how an attribute is merged
+   * @param attribute Attribute name (dotted keys match on their last segment)
+   */
+  getMergeMode(attribute: string): MergeMode {
+    const key = attribute.slice(attribute.lastIndexOf('.') + 1);
+    return this.htpAttributes.has(key) ? 'htp' : 'ltp';
+  }
+
+  /**
+   * Gets a source, throwing if it was never registered
+   */
+  private getSource(name: string): MergeSource {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`Unknown merge source: ${name}`);
+    }
+    return source;
+  }
+
+  /**
+   * Re-merges every attribute a source holds
+   */
+  private refresh(source: string): Map<string, Record<string, unknown>> {
+    const result = new Map<string, Record<string, unknown>>();
+    this.layers.forEach((attributes, fixtureId) => {
+      const held: string[] = [];
+      attributes.forEach((writers, attribute) => {
+        if (writers.has(source)) {
+          held.push(attribute);
+        }
+      });
+      const merged = this.mergeAttributes(fixtureId, held);
+      if (Object.keys(merged).length > 0) {
+        result.set(fixtureId, merged);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Merges attributes of a fixture and records the output
+   * @returns Merged values that differ from the previous output
+   */
+  private mergeAttributes(fixtureId: string, attributes: string[]): Record<string, unknown> {
+    let output = this.output.get(fixtureId);
+    if (!output) {
+      output = new Map();
+      this.output.set(fixtureId, output);
+    }
+
+    const changed: Record<string, unknown> = {};
+    for (const attribute of attributes) {
+      const writers = this.layers.get(fixtureId)?.get(attribute);
+      const owner = writers ? this.resolve(attribute, writers) : undefined;
+
+      if (!owner) {
+        output.delete(attribute);
+        continue;
+      }
+      if (!valuesEqual(output.get(attribute), owner.value)) {
+        output.set(attribute, owner.value);
+        changed[attribute] = copyValue(owner.value);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Picks the winning value of an attribute
+   */
+  private resolve(attribute: string, writers: Map<string, LayerValue>): AttributeOwner | undefined {
+    const mode = this.getMergeMode(attribute);
+    let best: { source: MergeSource; value: unknown; stamp: number } | undefined;
+
+    for (const [name, written] of writers) {
+      const source = this.sources.get(name);
+      if (!source) {
+        continue;
+      }
+
+      const value =
+        mode === 'htp' && typeof written.value === 'number'
+          ? written.value * source.level
+          : written.value;
+
+      if (!best || source.priority > best.source.priority) {
+        best = { source, value, stamp: written.stamp };
+        continue;
+      }
+      if (source.priority < best.source.priority) {
+        continue;
+      }
+
+      // Same priority: HTP keeps the highest value, LTP the latest write
+      const wins =
+        mode === 'htp' && typeof value === 'number' && typeof best.value === 'number'
+          ? value > best.value || (value === best.value && written.stamp > best.stamp)
+          : written.stamp > best.stamp;
+      if (wins) {
+        best = { source, value, stamp: written.stamp };
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+    return {
+      source: best.source.name,
+      priority: best.source.priority,
+      mode,
+      value: best.value,
+    };
+  }
+}
+
+/**
+ * Copies attribute values so callers cannot mutate merged state
+ */
+function copyValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(copyValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      copy[key] = copyValue(inner);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Compares attribute values structurally
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -18,6 +18,7 @@ import {
 import { LightingController } from './LightingController';
 import { LEDParticlePanel } from './LEDParticlePanel';
 import { FlakeLightController } from './FlakeLightController';
+import { DmxOutput } from '../output/DmxOutput';
 
 /**
  * Main stage class managing the 3D scene
@@ -785,8 +786,25 @@ export class Stage {
    */
   private setupEventListeners(): void {
     window.addEventListener('resize', this.onWindowResize.bind(this));
+    window.addEventListener('keydown', this.onFlashKey);
+    window.addEventListener('keyup', this.onFlashKey);
   }
 
+  /**
+   * Handles the flash keys: holding 1-9 flashes the matching submaster
+   */
+  private onFlashKey = (event: KeyboardEvent): void => {
+    if (event.repeat || !/^[1-9]$/.test(event.key) || event.target instanceof HTMLInputElement) {
+      return;
+    }
+
+    const masters = this.lightingController.getMasters();
+    const submaster = masters.listSubmasters()[parseInt(event.key, 10) - 1];
+    if (submaster) {
+      masters.flash(submaster.name, event.type === 'keydown');
+    }
+  };
+
   /**
    * Handles window resize
    */
@@ -840,10 +858,34 @@ export class Stage {
 
     // Lighting controls
     const lightingFolder = this.gui.addFolder('Lighting Controls');
-    lightingFolder.add({ blackout: () => this.lightingController.blackout(500) }, 'blackout');
+    lightingFolder.add({
+      blackout: () => this.lightingController.isBlackoutActive()
+        ? this.lightingController.releaseBlackout(500)
+        : this.lightingController.blackout(500),
+    }, 'blackout');
     lightingFolder.add({ whiteout: () => this.lightingController.whiteout(200) }, 'whiteout');
     lightingFolder.add({ flash: () => this.lightingController.flashStrobes(100) }, 'flash');
 
+    // Cue stack playback
+    const cueStack = this.lightingController.getCueStack();
+    const cueFolder = this.gui.addFolder('Cue Stack');
+    cueFolder.add({ go: () => cueStack.go() }, 'go').name('GO');
+    cueFolder.add({ back: () => cueStack.back(1000) }, 'back').name('Back');
+    cueFolder.add({ release: () => cueStack.release(2000) }, 'release').name('Release');
+
+    // Masters (number keys 1-9 flash the submasters in this order)
+    const masters = this.lightingController.getMasters();
+    const mastersFolder = this.gui.addFolder('Masters');
+    const masterState = { grandMaster: masters.getGrandMaster(), dbo: masters.isBlackout() };
+    mastersFolder.add(masterState, 'grandMaster', 0, 1, 0.01).name('Grand Master')
+      .onChange((value: number) => masters.setGrandMaster(value));
+    mastersFolder.add(masterState, 'dbo').name('DBO')
+      .onChange((value: boolean) => masters.setBlackout(value));
+    for (const submaster of masters.listSubmasters()) {
+      mastersFolder.add({ level: submaster.level }, 'level', 0, 1, 0.01).name(submaster.name)
+        .onChange((value: number) => masters.setSubmaster(submaster.name, value));
+    }
+
     // Light toggles
     const toggleFolder = this.gui.addFolder('Light Toggles');
 
@@ -871,6 +913,30 @@ export class Stage {
       });
     });
 
+    // PARs toggle
+    const parState = { enabled: true };
+    toggleFolder.add(parState, 'enabled').name('PARs').onChange((value: boolean) => {
+      this.lightingController.getFixturesByType('par').forEach(fixture => {
+        fixture.setEnabled(value);
+      });
+    });
+
+    // Pixel bars toggle
+    const pixelBarState = { enabled: true };
+    toggleFolder.add(pixelBarState, 'enabled').name('Pixel Bars').onChange((value: boolean) => {
+      this.lightingController.getFixturesByType('pixel_bar').forEach(fixture => {
+        fixture.setEnabled(value);
+      });
+    });
+
+    // Lasers toggle
+    const laserState = { enabled: true };
+    toggleFolder.add(laserState, 'enabled').name('Lasers').onChange((value: boolean) => {
+      this.lightingController.getFixturesByType('laser').forEach(fixture => {
+        fixture.setEnabled(value);
+      });
+    });
+
     // Flake lights toggle (uses FlakeLightController)
     const flakeState = { enabled: true };
     toggleFolder.add(flakeState, 'enabled').name('Flake Lights').onChange((value: boolean) => {
@@ -956,10 +1022,14 @@ export class Stage {
     ];
 
     const fixtures = this.lightingController.getAllFixtures();
-    fixtures.forEach((fixture, index) => {
-      const color = colors[index % colors.length];
-      fixture.applyState({ intensity: 1, color } as any, 1000, 'easeInOut');
-    });
+    this.lightingController.executeCommands(
+      fixtures.map((fixture, index) => ({
+        targetId: fixture.getId(),
+        updates: { intensity: 1, color: colors[index % colors.length] },
+        transitionMs: 1000,
+        easing: 'easeInOut',
+      }))
+    );
   }
 
   /**
@@ -969,16 +1039,19 @@ export class Stage {
     const movingHeads = this.lightingController.getFixturesByType('moving_head');
     movingHeads.forEach((fixture, index) => {
       setTimeout(() => {
-        fixture.applyState(
+        this.lightingController.executeCommands([
           {
-            pan: Math.random(),
-            tilt: 0.3 + Math.random() * 0.4,
-            intensity: 1,
-            color: { r: 0, g: 0.5, b: 1 },
-          } as any,
-          2000,
-          'easeInOut'
-        );
+            targetId: fixture.getId(),
+            updates: {
+              pan: Math.random(),
+              tilt: 0.3 + Math.random() * 0.4,
+              intensity: 1,
+              color: { r: 0, g: 0.5, b: 1 },
+            },
+            transitionMs: 2000,
+            easing: 'easeInOut',
+          },
+        ]);
       }, index * 100);
     });
   }
@@ -1152,12 +1225,39 @@ export class Stage {
     return this.lightingController.getAllFixtures().map((f) => f.getState() as Fixture);
   }
 
+  /**
+   * Defines a named fixture group, targetable as "@name"
+   * @param name Group name
+   * @param targets Ordered targets (IDs, types, groups or selections)
+   */
+  defineGroup(name: string, targets: string[]): void {
+    this.lightingController.defineGroup(name, targets);
+  }
+
   /**
    * Executes lighting commands
    * @param commands Array of commands to execute
+   * @param source Merge source writing the commands (e.g. 'mapping', 'cue', 'manual')
    */
-  executeCommands(commands: LightingCommand[]): void {
-    this.lightingController.executeCommands(commands);
+  executeCommands(commands: LightingCommand[], source?: string): void {
+    this.lightingController.executeCommands(commands, source);
+  }
+
+  /**
+   * Attaches a DMX output that mirrors the stage fixtures
+   * @param output DMX output
+   */
+  addOutput(output: DmxOutput): void {
+    this.lightingController.addOutput(output);
+  }
+
+  /**
+   * Detaches a DMX output
+   * @param output DMX output
+   * @returns Resolves once the output's streams are terminated
+   */
+  removeOutput(output: DmxOutput): Promise<void> {
+    return this.lightingController.removeOutput(output);
   }
 
   /**
@@ -1180,6 +1280,8 @@ export class Stage {
    * Starts the render loop
    */
   start(): void {
+    this.lightingController.startOutputs();
+
     const animate = () => {
       this.animationId = requestAnimationFrame(animate);
 
@@ -1192,22 +1294,27 @@ export class Stage {
 
   /**
    * Stops the render loop
+   * @returns Resolves once the DMX streams are terminated
    */
-  stop(): void {
+  async stop(): Promise<void> {
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
       this.animationId = undefined;
     }
+
+    // Terminate DMX streams so receivers release their universes
+    await this.lightingController.stopOutputs();
   }
 
   /**
    * Disposes of all resources
+   * @returns Resolves once the DMX outputs are stopped
    */
-  dispose(): void {
-    this.stop();
+  async dispose(): Promise<void> {
+    await this.stop();
 
     // Dispose lighting controller
-    this.lightingController.dispose();
+    await this.lightingController.dispose();
 
     // Dispose flake light controller
     if (this.flakeLightController) {
@@ -1243,5 +1350,7 @@ export class Stage {
 
     // Remove event listeners
     window.removeEventListener('resize', this.onWindowResize.bind(this));
+    window.removeEventListener('keydown', this.onFlashKey);
+    window.removeEventListener('keyup', this.onFlashKey);
   }
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+/**
+ * EffectEngine - Continuously evaluated parametric effects
+ *
+ * Each effect runs a waveform at a rate synced to the current tempo (or a
+ * free-running rate), spreads its phase across an ordered group of
+ * fixtures and outputs per-fixture updates every tick. Phase accumulates
+ * over time so tempo changes never make the effect jump.
+ */
+
+import {
+  EffectAttribute,
+  EffectDefinition,
+  FixtureUpdates,
+  RGB,
+  Waveform,
+} from '../../shared/types';
+
+/**
+ * Callbacks the engine uses to look up fixtures
+ */
+export interface EffectContext {
+  /** Resolve a target (fixture ID or type) to ordered fixture IDs */
+  resolveTargets(targets: string[]): string[];
+  /** Get the current value of an attribute on a fixture */
+  getValue(fixtureId: string, attribute: EffectAttribute): number | RGB | undefined;
+}
+
+/**
+ * Runtime state of an effect
+ */
+interface RunningEffect {
+  definition: EffectDefinition & { id: string };
+  /** Accumulated phase in cycles */
+  phase: number;
+  /** Per-fixture base values for relative effects */
+  bases: Map<string, number | RGB>;
+}
+
+/**
+ * Evaluates a waveform at a phase
+ * @param waveform Waveform shape
+ * @param phase Phase in cycles (wraps)
+ * @returns Value 0-1
+ */
+export function evaluateWaveform(waveform: Waveform, phase: number): number {
+  const p = ((phase % 1) + 1) % 1;
+
+  switch (waveform) {
+    case 'sine':
+      return 0.5 + 0.5 * Math.sin(p * Math.PI * 2);
+    case 'cosine':
+      return 0.5 + 0.5 * Math.cos(p * Math.PI * 2);
+    case 'triangle':
+      return 1 - Math.abs(p * 2 - 1);
+    case 'square':
+      return p < 0.5 ? 1 : 0;
+    case 'sawtooth':
+      return p;
+    case 'ramp_down':
+      return 1 - p;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Runs effects and computes their per-fixture output
+ */
+export class EffectEngine {
+  private effects: Map<string, RunningEffect> = new Map();
+  private tempo: number = 120;
+  private nextId: number = 1;
+
+  /**
+   * Set the tempo that beat-synced effects follow
+   * @param bpm Tempo in beats per minute
+   */
+  setTempo(bpm: number): void {
+    if (bpm > 0 && Number.isFinite(bpm)) {
+      this.tempo = bpm;
+    }
+  }
+
+  /**
+   * Get the current tempo
+   */
+  getTempo(): number {
+    return this.tempo;
+  }
+
+  /**
+   * Start an effect, replacing any effect with the same ID
+   * @param definition Effect definition
+   * @returns Effect ID
+   */
+  add(definition: EffectDefinition): string {
+    if (definition.beatsPerCycle === undefined && definition.rateHz === undefined) {
+      throw new Error('Effect needs either beatsPerCycle or rateHz');
+    }
+    if (definition.attribute === 'color' && !definition.colors?.length) {
+      throw new Error('Color effects need at least one color');
+    }
+
+    const id = definition.id ?? `effect-${this.nextId++}`;
+    this.effects.set(id, {
+      definition: { ...definition, id, targets: [...definition.targets] },
+      phase: (definition.phaseOffset ?? 0) / 360,
+      bases: new Map(),
+    });
+    return id;
+  }
+
+  /**
+   * Stop an effect
+   * @param id Effect ID
+   * @returns Updates restoring the base values of a relative effect
+   */
+  remove(id: string): Map<string, FixtureUpdates> {
+    const effect = this.effects.get(id);
+    const restore = new Map<string, FixtureUpdates>();
+    if (!effect) {
+      return restore;
+    }
+
+    effect.bases.forEach((base, fixtureId) => {
+      restore.set(fixtureId, { [effect.definition.attribute]: base });
+    });
+    this.effects.delete(id);
+    return restore;
+  }
+
+  /**
+   * Stop every effect
+   * @returns Updates restoring the base values of relative effects
+   */
+  clear(): Map<string, FixtureUpdates> {
+    const restore = new Map<string, FixtureUpdates>();
+    for (const id of Array.from(this.effects.keys())) {
+      this.remove(id).forEach((updates, fixtureId) => {
+        restore.set(fixtureId, { ...restore.get(fixtureId), ...updates });
+      });
+    }
+    return restore;
+  }
+
+  /**
+   * Get a running effect's definition
+   * @param id Effect ID
+   */
+  get(id: string): EffectDefinition | undefined {
+    const effect = this.effects.get(id);
+    return effect ? { ...effect.definition } : undefined;
+  }
+
+  /**
+   * Get the IDs of all running effects
+   */
+  list(): string[] {
+    return Array.from(this.effects.keys());
+  }
+
+  /**
+   * Advance every effect and compute its output
+   * @param deltaTime Time since last tick in milliseconds
+   * @param context Fixture lookups
+   * @returns Updates per fixture ID
+   */
+  evaluate(deltaTime: number, context: EffectContext): Map<string, FixtureUpdates> {
+    const output = new Map<string, FixtureUpdates>();
+
+    this.effects.forEach((effect) => {
+      const def = effect.definition;
+      effect.phase += deltaTime * this.getCyclesPerMs(def);
+
+      const fixtureIds = context.resolveTargets(def.targets);
+      const count = fixtureIds.length;
+
+      fixtureIds.forEach((fixtureId, index) => {
+        // Spread the phase evenly over the group
+        const spread = count > 0 ? (index / count) * (def.phaseSpread / 360) : 0;
+        const value = evaluateWaveform(def.waveform, effect.phase - spread);
+
+        if (def.relative && !effect.bases.has(fixtureId)) {
+          const base = context.getValue(fixtureId, def.attribute);
+          if (base !== undefined) {
+            effect.bases.set(fixtureId, typeof base === 'number' ? base : { ...base });
+          }
+        }
+
+        const updates = output.get(fixtureId) ?? {};
+        (updates as Record<string, number | RGB>)[def.attribute] = this.computeValue(
+          def,
+          value,
+          effect.bases.get(fixtureId)
+        );
+        output.set(fixtureId, updates);
+      });
+    });
+
+    return output;
+  }
+
+  /**
+   * Maps a waveform value to an attribute value
+   */
+  private computeValue(def: EffectDefinition, value: number, base?: number | RGB): number | RGB {
+    if (def.attribute === 'color') {
+      return blendColors(def.colors!, value);
+    }
+
+    const center = def.relative && typeof base === 'number' ? base : def.offset;
+    return Math.max(0, Math.min(1, center + (value - 0.5) * def.size));
+  }
+
+  /**
+   * Gets the effect rate in cycles per millisecond
+   */
+  private getCyclesPerMs(def: EffectDefinition): number {
+    if (def.beatsPerCycle !== undefined) {
+      return def.beatsPerCycle > 0 ? this.tempo / 60000 / def.beatsPerCycle : 0;
+    }
+    return (def.rateHz ?? 0) / 1000;
+  }
+}
+
+/**
+ * Blends along a list of colors
+ * @param colors Colors in order
+ * @param t Position 0-1
+ */
+function blendColors(colors: RGB[], t: number): RGB {
+  if (colors.length === 1) {
+    return { ...colors[0] };
+  }
+
+  const scaled = Math.max(0, Math.min(1, t)) * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  const local = scaled - index;
+  const a = colors[index];
+  const b = colors[index + 1];
+
+  return {
+    r: a.r + (b.r - a.r) * local,
+    g: a.g + (b.g - a.g) * local,
+    b: a.b + (b.b - a.b) * local,
+  };
+}
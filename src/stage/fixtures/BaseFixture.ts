@@ -15,6 +15,8 @@ export abstract class BaseFixtureImpl<T extends IBaseFixture = IBaseFixture> {
   protected mesh?: THREE.Mesh;
   protected targetState: Partial<T> = {};
   protected transitions: Map<string, Transition> = new Map();
+  protected masterLevel: number = 1;
+  protected masterFlash: boolean = false;
 
   /**
    * Creates a new fixture
@@ -72,6 +74,27 @@ export abstract class BaseFixtureImpl<T extends IBaseFixture = IBaseFixture> {
     return { ...this.state };
   }
 
+  /**
+   * Gets the state sent to outputs, with masters applied to the intensity
+   */
+  getOutputState(): T {
+    const state = this.getState() as T & { intensity?: number };
+    if (typeof state.intensity === 'number') {
+      state.intensity = this.scaleIntensity(state.intensity);
+    }
+    return state;
+  }
+
+  /**
+   * Sets the master level scaling this fixture's output
+   * @param level Level 0-1
+   * @param flash Whether a flash key drives the fixture to the level
+   */
+  setMasterLevel(level: number, flash: boolean = false): void {
+    this.masterLevel = level;
+    this.masterFlash = flash;
+  }
+
   /**
    * Gets the fixture ID
    */
@@ -100,6 +123,13 @@ export abstract class BaseFixtureImpl<T extends IBaseFixture = IBaseFixture> {
     }
   }
 
+  /**
+   * Applies the master level to an intensity
+   */
+  protected scaleIntensity(intensity: number): number {
+    return this.masterFlash ? this.masterLevel : intensity * this.masterLevel;
+  }
+
   /**
    * Converts RGB (0-1) to Three.js color
    */
@@ -215,6 +245,19 @@ export abstract class BaseFixtureImpl<T extends IBaseFixture = IBaseFixture> {
     }
   }
 
+  /**
+   * Cancels running transitions so instant updates are not overwritten.
+   * Without this a snap (a cue GOTO or BACK with no fade time, a merge
+   * source releasing with no fade) lands for one frame and the fade that
+   * was still running drags the attribute back to its old target.
+   * @param keys State keys being set
+   */
+  protected cancelTransitions(keys: string[]): void {
+    for (const key of keys) {
+      this.transitions.delete(key);
+    }
+  }
+
   /**
    * Starts a transition for a property
    */
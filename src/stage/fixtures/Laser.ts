@@ -0,0 +1,275 @@
+/**
+ * Laser projector fixture implementation
+ */
+
+import * as THREE from 'three';
+import { Laser as ILaser, LaserPattern } from '../../shared/types';
+import { BaseFixtureImpl } from './BaseFixture';
+
+/**
+ * Laser projector that renders scanned beam patterns
+ */
+export class Laser extends BaseFixtureImpl<ILaser> {
+  private housing!: THREE.Mesh;
+  private aperture!: THREE.Mesh;
+  private scanGroup!: THREE.Group;
+  private beams: THREE.Group[] = [];
+  private beamGeometry!: THREE.CylinderGeometry;
+  private beamMaterial!: THREE.MeshBasicMaterial;
+  private coneMesh!: THREE.Mesh;
+  private elapsed: number = 0;
+  private beamCount = 12;
+  private beamLength = 30;
+  private maxScanX = Math.PI / 3; // 60 degrees
+  private maxScanY = Math.PI / 4; // 45 degrees
+  private fanAngle = Math.PI / 3; // 60 degrees
+  private coneAngle = Math.PI / 16; // ~11 degrees half-angle
+
+  /**
+   * Creates the Three.js mesh for this fixture
+   */
+  createMesh(): THREE.Group {
+    // Create housing (projector box)
+    const housingGeometry = new THREE.BoxGeometry(0.5, 0.2, 0.4);
+    const housingMaterial = new THREE.MeshStandardMaterial({
+      color: 0x1a1a1a,
+      metalness: 0.9,
+      roughness: 0.2,
+    });
+    this.housing = new THREE.Mesh(housingGeometry, housingMaterial);
+    this.group.add(this.housing);
+
+    // Create output aperture
+    const apertureGeometry = new THREE.CircleGeometry(0.04, 16);
+    const apertureMaterial = new THREE.MeshBasicMaterial({ color: 0x000000 });
+    this.aperture = new THREE.Mesh(apertureGeometry, apertureMaterial);
+    this.aperture.position.z = 0.201;
+    this.group.add(this.aperture);
+
+    // Scan group is rotated by xPosition/yPosition; beams are children
+    this.scanGroup = new THREE.Group();
+    this.scanGroup.position.z = 0.2;
+    this.group.add(this.scanGroup);
+
+    // Thin beam shared by every pivot, pointing along +z
+    this.beamGeometry = new THREE.CylinderGeometry(0.01, 0.03, this.beamLength, 6, 1, true);
+    this.beamGeometry.rotateX(Math.PI / 2);
+    this.beamGeometry.translate(0, 0, this.beamLength / 2);
+    this.beamMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ff00,
+      transparent: true,
+      opacity: 0.8,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+    });
+
+    for (let i = 0; i < this.beamCount; i++) {
+      const pivot = new THREE.Group();
+      pivot.add(new THREE.Mesh(this.beamGeometry, this.beamMaterial));
+      this.scanGroup.add(pivot);
+      this.beams.push(pivot);
+    }
+
+    // Solid cone for the cone pattern
+    const coneRadius = Math.tan(this.coneAngle) * this.beamLength;
+    const coneGeometry = new THREE.ConeGeometry(coneRadius, this.beamLength, 48, 1, true);
+    coneGeometry.rotateX(-Math.PI / 2);
+    coneGeometry.translate(0, 0, this.beamLength / 2);
+    const coneMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ff00,
+      transparent: true,
+      opacity: 0.15,
+      blending: THREE.AdditiveBlending,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    this.coneMesh = new THREE.Mesh(coneGeometry, coneMaterial);
+    this.scanGroup.add(this.coneMesh);
+
+    // Apply initial state
+    this.updateFixtureFromState();
+
+    return this.group;
+  }
+
+  /**
+   * Updates the fixture state each frame
+   * @param deltaTime Time since last frame in milliseconds
+   */
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+
+    // Update transitions
+    this.updateTransitions(deltaTime);
+
+    // Update fixture visuals from state
+    this.updateFixtureFromState();
+  }
+
+  /**
+   * Updates fixture visuals based on current state
+   */
+  private updateFixtureFromState(): void {
+    const intensity = this.scaleIntensity(this.state.intensity);
+
+    // Scan position
+    this.scanGroup.rotation.y = (this.state.xPosition - 0.5) * this.maxScanX;
+    this.scanGroup.rotation.x = -(this.state.yPosition - 0.5) * this.maxScanY;
+
+    // Beam color and brightness, written into the materials' own colors to
+    // avoid allocating every frame
+    const { r, g, b } = this.state.color;
+    const isOn = this.state.enabled && intensity > 0;
+    this.beamMaterial.color.setRGB(r, g, b);
+    this.beamMaterial.opacity = 0.8 * intensity;
+    if (this.coneMesh.material instanceof THREE.MeshBasicMaterial) {
+      this.coneMesh.material.color.setRGB(r, g, b);
+      this.coneMesh.material.opacity = 0.15 * intensity;
+    }
+    if (this.aperture.material instanceof THREE.MeshBasicMaterial) {
+      if (isOn) {
+        this.aperture.material.color.setRGB(r, g, b);
+      } else {
+        this.aperture.material.color.setRGB(0, 0, 0);
+      }
+    }
+
+    this.layoutPattern(this.state.pattern, isOn);
+  }
+
+  /**
+   * Positions the beams for a pattern
+   * @param pattern Laser pattern
+   * @param isOn Whether the laser is emitting
+   */
+  private layoutPattern(pattern: LaserPattern, isOn: boolean): void {
+    const t = this.elapsed / 1000;
+    const count = this.beams.length;
+
+    this.coneMesh.visible = isOn && pattern === 'cone';
+
+    this.beams.forEach((pivot, i) => {
+      // Spread position of this beam, -0.5 to 0.5
+      const offset = count > 1 ? i / (count - 1) - 0.5 : 0;
+      const ringAngle = (i / count) * Math.PI * 2;
+
+      switch (pattern) {
+        case 'beam':
+          pivot.visible = isOn && i === 0;
+          pivot.rotation.set(0, 0, 0);
+          break;
+
+        case 'fan':
+          pivot.visible = isOn;
+          pivot.rotation.set(0, offset * this.fanAngle, 0);
+          break;
+
+        case 'wave':
+          // Fan whose beams rise and fall with a travelling phase offset
+          pivot.visible = isOn;
+          pivot.rotation.set(
+            Math.sin(t * Math.PI * 2 - offset * Math.PI * 2) * this.coneAngle,
+            offset * this.fanAngle,
+            0
+          );
+          break;
+
+        case 'tunnel': {
+          // Ring of beams rotating around the scan axis
+          const angle = ringAngle + t * Math.PI;
+          pivot.visible = isOn;
+          pivot.rotation.set(
+            Math.sin(angle) * this.coneAngle,
+            Math.cos(angle) * this.coneAngle,
+            0
+          );
+          break;
+        }
+
+        case 'cone':
+          // Outline the cone edge with static beams
+          pivot.visible = isOn;
+          pivot.rotation.set(
+            Math.sin(ringAngle) * this.coneAngle,
+            Math.cos(ringAngle) * this.coneAngle,
+            0
+          );
+          break;
+      }
+    });
+  }
+
+  /**
+   * Applies state changes to the fixture
+   * @param state Partial state to apply
+   * @param transitionMs Transition duration in milliseconds
+   * @param easing Easing type for the transition
+   */
+  applyState(
+    state: Partial<ILaser>,
+    transitionMs: number = 0,
+    easing: string = 'linear'
+  ): void {
+    // Handle instant updates
+    if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(state));
+      Object.assign(this.state, state);
+      this.updateFixtureFromState();
+      return;
+    }
+
+    // Start transitions for numeric properties
+    if (state.xPosition !== undefined) {
+      this.startTransition('xPosition', state.xPosition, transitionMs, easing);
+    }
+    if (state.yPosition !== undefined) {
+      this.startTransition('yPosition', state.yPosition, transitionMs, easing);
+    }
+    if (state.intensity !== undefined) {
+      this.startTransition('intensity', state.intensity, transitionMs, easing);
+    }
+    if (state.color !== undefined) {
+      this.startTransition('color', state.color, transitionMs, easing);
+    }
+
+    // Handle non-transitional properties
+    if (state.enabled !== undefined) {
+      this.state.enabled = state.enabled;
+    }
+    if (state.pattern !== undefined) {
+      // Pattern changes are instant
+      this.state.pattern = state.pattern;
+    }
+  }
+
+  /**
+   * Cleans up Three.js resources
+   */
+  dispose(): void {
+    // Dispose geometries
+    if (this.housing) {
+      this.housing.geometry.dispose();
+      if (this.housing.material instanceof THREE.Material) {
+        this.housing.material.dispose();
+      }
+    }
+    if (this.aperture) {
+      this.aperture.geometry.dispose();
+      if (this.aperture.material instanceof THREE.Material) {
+        this.aperture.material.dispose();
+      }
+    }
+    if (this.coneMesh) {
+      this.coneMesh.geometry.dispose();
+      if (this.coneMesh.material instanceof THREE.Material) {
+        this.coneMesh.material.dispose();
+      }
+    }
+    this.beamGeometry?.dispose();
+    this.beamMaterial?.dispose();
+
+    // Clear references
+    this.beams = [];
+    this.transitions.clear();
+  }
+}
@@ -208,6 +208,8 @@ export class MovingHead extends BaseFixtureImpl<IMovingHead> {
    * Updates fixture visuals based on current state
    */
   private updateFixtureFromState(): void {
+    const intensity = this.scaleIntensity(this.state.intensity);
+
     // Update pan and tilt
     const panAngle = (this.state.pan - 0.5) * this.maxPanAngle;
     const tiltAngle = (this.state.tilt - 0.5) * this.maxTiltAngle;
@@ -218,7 +220,7 @@ export class MovingHead extends BaseFixtureImpl<IMovingHead> {
     // Update light color and intensity
     const color = this.rgbToColor(this.state.color);
     this.spotlight.color = color;
-    this.spotlight.intensity = this.state.intensity * 200; // Increased for more dramatic lighting
+    this.spotlight.intensity = intensity * 200; // Increased for more dramatic lighting
 
     // Update beam width (spotlight angle)
     const minAngle = Math.PI / 32;
@@ -229,14 +231,14 @@ export class MovingHead extends BaseFixtureImpl<IMovingHead> {
     if (this.beamMesh && this.beamMesh.material instanceof THREE.ShaderMaterial) {
       const uniforms = this.beamMesh.material.uniforms;
       uniforms.color.value = color;
-      uniforms.intensity.value = this.state.intensity;
+      uniforms.intensity.value = intensity;
       uniforms.beamWidth.value = this.state.beamWidth;
-      uniforms.opacity.value = this.state.enabled ? 0.55 * this.state.intensity : 0;
+      uniforms.opacity.value = this.state.enabled ? 0.55 * intensity : 0;
     }
 
     // Update visibility
     this.spotlight.visible = this.state.enabled;
-    this.beamMesh.visible = this.state.enabled && this.state.intensity > 0;
+    this.beamMesh.visible = this.state.enabled && intensity > 0;
   }
 
   /**
@@ -252,6 +254,7 @@ export class MovingHead extends BaseFixtureImpl<IMovingHead> {
   ): void {
     // Handle instant updates
     if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(state));
       Object.assign(this.state, state);
       this.updateFixtureFromState();
       return;
@@ -0,0 +1,255 @@
+/**
+ * PAR can fixture implementation
+ */
+
+import * as THREE from 'three';
+import { DimmerCurve, Par as IPar, RGB } from '../../shared/types';
+import { BaseFixtureImpl } from './BaseFixture';
+
+/**
+ * Color contributed by a full amber emitter
+ */
+const AMBER: RGB = { r: 1, g: 0.5, b: 0 };
+
+/**
+ * Fixed-beam PAR uplight with RGB, RGBW or RGBA emitters
+ */
+export class Par extends BaseFixtureImpl<IPar> {
+  private spotlight!: THREE.SpotLight;
+  private housing!: THREE.Mesh;
+  private lens!: THREE.Mesh;
+  private glowMesh!: THREE.Mesh;
+  private glowLength = 8;
+
+  /**
+   * Creates the Three.js mesh and light for this fixture
+   */
+  createMesh(): THREE.Group {
+    // Create housing (short can pointing up)
+    const housingGeometry = new THREE.CylinderGeometry(0.15, 0.12, 0.25, 16);
+    const housingMaterial = new THREE.MeshStandardMaterial({
+      color: 0x1a1a1a,
+      metalness: 0.8,
+      roughness: 0.3,
+    });
+    this.housing = new THREE.Mesh(housingGeometry, housingMaterial);
+    this.group.add(this.housing);
+
+    // Create lens (top face)
+    const lensGeometry = new THREE.CircleGeometry(0.13, 24);
+    const lensMaterial = new THREE.MeshStandardMaterial({
+      color: 0x111111,
+      emissive: 0x000000,
+      metalness: 0,
+      roughness: 0.2,
+    });
+    this.lens = new THREE.Mesh(lensGeometry, lensMaterial);
+    this.lens.position.y = 0.126;
+    this.lens.rotation.x = -Math.PI / 2;
+    this.group.add(this.lens);
+
+    // Create spotlight with a fixed beam angle
+    this.spotlight = new THREE.SpotLight(0xffffff, 0, 30, this.getBeamHalfAngle(), 0.4, 1.5);
+    this.spotlight.position.set(0, 0.15, 0);
+    const target = new THREE.Object3D();
+    target.position.set(0, 5, 0);
+    this.group.add(target);
+    this.spotlight.target = target;
+    this.group.add(this.spotlight);
+
+    // Create glow cone (apex at the lens, opening upwards)
+    const glowRadius = Math.tan(this.getBeamHalfAngle()) * this.glowLength;
+    const glowGeometry = new THREE.ConeGeometry(glowRadius, this.glowLength, 32, 1, true);
+    const glowMaterial = new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0,
+      blending: THREE.AdditiveBlending,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+    });
+    this.glowMesh = new THREE.Mesh(glowGeometry, glowMaterial);
+    this.glowMesh.rotation.x = Math.PI;
+    this.glowMesh.position.y = 0.15 + this.glowLength / 2;
+    this.group.add(this.glowMesh);
+
+    // Apply initial state
+    this.updateFixtureFromState();
+
+    return this.group;
+  }
+
+  /**
+   * Updates the fixture state each frame
+   * @param deltaTime Time since last frame in milliseconds
+   */
+  update(deltaTime: number): void {
+    // Update transitions
+    this.updateTransitions(deltaTime);
+
+    // Update fixture visuals
+    this.updateFixtureFromState();
+  }
+
+  /**
+   * Updates fixture visuals based on current state
+   */
+  private updateFixtureFromState(): void {
+    const color = this.rgbToColor(this.getEmittedColor());
+    const output = applyDimmerCurve(this.scaleIntensity(this.state.intensity), this.state.dimmerCurve);
+
+    this.spotlight.color = color;
+    this.spotlight.intensity = output * 60;
+
+    // Update lens emissive to show light color
+    if (this.lens.material instanceof THREE.MeshStandardMaterial) {
+      this.lens.material.emissive = color;
+      this.lens.material.emissiveIntensity = this.state.enabled ? output : 0;
+    }
+
+    // Update glow cone
+    if (this.glowMesh.material instanceof THREE.MeshBasicMaterial) {
+      this.glowMesh.material.color = color;
+      this.glowMesh.material.opacity = output * 0.15;
+    }
+
+    // Update visibility
+    this.spotlight.visible = this.state.enabled;
+    this.glowMesh.visible = this.state.enabled && output > 0;
+  }
+
+  /**
+   * Mixes the color with the white/amber emitters the unit has fitted
+   */
+  private getEmittedColor(): RGB {
+    const { color, emitters } = this.state;
+    const white = emitters === 'rgbw' ? this.state.white ?? 0 : 0;
+    const amber = emitters === 'rgba' ? this.state.amber ?? 0 : 0;
+
+    return {
+      r: Math.min(1, color.r + white + AMBER.r * amber),
+      g: Math.min(1, color.g + white + AMBER.g * amber),
+      b: Math.min(1, color.b + white + AMBER.b * amber),
+    };
+  }
+
+  /**
+   * Gets half the beam angle in radians (Three.js spotlight angle)
+   */
+  private getBeamHalfAngle(): number {
+    const degrees = Math.max(1, Math.min(170, this.state.beamAngle));
+    return (degrees / 2) * (Math.PI / 180);
+  }
+
+  /**
+   * Applies state changes to the fixture
+   * @param state Partial state to apply
+   * @param transitionMs Transition duration in milliseconds
+   * @param easing Easing type for the transition
+   */
+  applyState(
+    state: Partial<IPar>,
+    transitionMs: number = 0,
+    easing: string = 'linear'
+  ): void {
+    // Beam angle is fixed by the lens
+    const { beamAngle: _beamAngle, ...updates } = state;
+
+    // Handle instant updates
+    if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(updates));
+      Object.assign(this.state, updates);
+      this.updateFixtureFromState();
+      return;
+    }
+
+    // Start transitions for numeric properties
+    if (updates.intensity !== undefined) {
+      this.startTransition('intensity', updates.intensity, transitionMs, easing);
+    }
+    if (updates.color !== undefined) {
+      this.startTransition('color', updates.color, transitionMs, easing);
+    }
+    if (updates.white !== undefined) {
+      this.state.white ??= 0;
+      this.startTransition('white', updates.white, transitionMs, easing);
+    }
+    if (updates.amber !== undefined) {
+      this.state.amber ??= 0;
+      this.startTransition('amber', updates.amber, transitionMs, easing);
+    }
+
+    // Handle non-transitional properties
+    if (updates.enabled !== undefined) {
+      this.state.enabled = updates.enabled;
+    }
+    if (updates.dimmerCurve !== undefined) {
+      this.state.dimmerCurve = updates.dimmerCurve;
+    }
+  }
+
+  /**
+   * Sets enabled state - override to properly handle light visibility
+   */
+  setEnabled(enabled: boolean): void {
+    this.state.enabled = enabled;
+    this.group.visible = enabled;
+    // Important: Must explicitly set light visibility because lights affect
+    // the scene globally even when their parent group is hidden
+    this.spotlight.visible = enabled;
+    this.glowMesh.visible = enabled;
+    if (!enabled) {
+      this.spotlight.intensity = 0;
+    }
+  }
+
+  /**
+   * Cleans up Three.js resources
+   */
+  dispose(): void {
+    // Dispose geometries
+    if (this.housing) {
+      this.housing.geometry.dispose();
+      if (this.housing.material instanceof THREE.Material) {
+        this.housing.material.dispose();
+      }
+    }
+    if (this.lens) {
+      this.lens.geometry.dispose();
+      if (this.lens.material instanceof THREE.Material) {
+        this.lens.material.dispose();
+      }
+    }
+    if (this.glowMesh) {
+      this.glowMesh.geometry.dispose();
+      if (this.glowMesh.material instanceof THREE.Material) {
+        this.glowMesh.material.dispose();
+      }
+    }
+
+    // Remove light
+    this.spotlight.dispose();
+
+    // Clear references
+    this.transitions.clear();
+  }
+}
+
+/**
+ * Maps an intensity value through a dimmer curve
+ * @param intensity Intensity 0-1
+ * @param curve Dimmer curve
+ * @returns Light output 0-1
+ */
+export function applyDimmerCurve(intensity: number, curve: DimmerCurve = 'linear'): number {
+  const x = Math.max(0, Math.min(1, intensity));
+
+  switch (curve) {
+    case 'square':
+      return x * x;
+    case 's_curve':
+      return x * x * (3 - 2 * x);
+    default:
+      return x;
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Pixel bar / LED batten fixture implementation
+ */
+
+import * as THREE from 'three';
+import { PixelBar as IPixelBar, PixelCell, RGB } from '../../shared/types';
+import { BaseFixtureImpl } from './BaseFixture';
+
+/**
+ * LED bar with individually controllable cells and pixel effects
+ */
+export class PixelBar extends BaseFixtureImpl<IPixelBar> {
+  private housing!: THREE.Mesh;
+  private cellGeometry!: THREE.BoxGeometry;
+  private cellMeshes: THREE.Mesh[] = [];
+  private pointLight!: THREE.PointLight;
+  private renderedCells: PixelCell[] = [];
+  private elapsed: number = 0;
+
+  /**
+   * Creates a new pixel bar
+   * @param initialState Initial fixture state
+   */
+  constructor(initialState: IPixelBar) {
+    super(initialState);
+    // Cells are mutated by transitions, so never share them with the caller
+    this.state.cells = initialState.cells.map(copyCell);
+    this.renderedCells = this.state.cells.map(copyCell);
+  }
+
+  /**
+   * Creates the Three.js mesh and light for this fixture
+   */
+  createMesh(): THREE.Group {
+    const length = this.state.length;
+    const count = this.state.cells.length;
+    const pitch = length / Math.max(1, count);
+
+    // Create housing (extrusion along x)
+    const housingGeometry = new THREE.BoxGeometry(length, 0.08, 0.1);
+    const housingMaterial = new THREE.MeshStandardMaterial({
+      color: 0x1a1a1a,
+      metalness: 0.8,
+      roughness: 0.3,
+    });
+    this.housing = new THREE.Mesh(housingGeometry, housingMaterial);
+    this.group.add(this.housing);
+
+    // Create one emissive segment per cell on the front face
+    this.cellGeometry = new THREE.BoxGeometry(pitch * 0.85, 0.05, 0.02);
+    for (let i = 0; i < count; i++) {
+      const material = new THREE.MeshBasicMaterial({ color: 0x000000 });
+      const cell = new THREE.Mesh(this.cellGeometry, material);
+      cell.position.set(-length / 2 + pitch * (i + 0.5), 0, 0.06);
+      this.group.add(cell);
+      this.cellMeshes.push(cell);
+    }
+
+    // Single light carrying the average output of the bar
+    this.pointLight = new THREE.PointLight(0xffffff, 0, 15, 1.5);
+    this.pointLight.position.z = 0.3;
+    this.group.add(this.pointLight);
+
+    // Apply initial state
+    this.updateFixtureFromState();
+
+    return this.group;
+  }
+
+  /**
+   * Updates the fixture state each frame
+   * @param deltaTime Time since last frame in milliseconds
+   */
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime;
+
+    // Update transitions
+    this.updateTransitions(deltaTime);
+
+    // Update fixture visuals
+    this.updateFixtureFromState();
+  }
+
+  /**
+   * Gets the current fixture state, with the pixel effect applied to the cells
+   */
+  getState(): IPixelBar {
+    return { ...this.state, cells: this.renderedCells.map(copyCell) };
+  }
+
+  /**
+   * Gets the number of cells
+   */
+  getCellCount(): number {
+    return this.state.cells.length;
+  }
+
+  /**
+   * Updates fixture visuals based on current state
+   */
+  private updateFixtureFromState(): void {
+    this.renderedCells = renderPixelCells(this.state, this.elapsed);
+
+    const master = this.state.enabled ? this.scaleIntensity(this.state.intensity) : 0;
+    const average = { r: 0, g: 0, b: 0 };
+
+    this.renderedCells.forEach((cell, i) => {
+      const level = cell.intensity * master;
+      const mesh = this.cellMeshes[i];
+      if (mesh && mesh.material instanceof THREE.MeshBasicMaterial) {
+        mesh.material.color.setRGB(cell.color.r * level, cell.color.g * level, cell.color.b * level);
+      }
+      average.r += cell.color.r * level;
+      average.g += cell.color.g * level;
+      average.b += cell.color.b * level;
+    });
+
+    // Drive the light from the average cell output
+    const count = Math.max(1, this.renderedCells.length);
+    const peak = Math.max(average.r, average.g, average.b) / count;
+    if (peak > 0) {
+      const scale = 1 / (count * peak);
+      this.pointLight.color.setRGB(average.r * scale, average.g * scale, average.b * scale);
+    }
+    this.pointLight.intensity = peak * 40;
+
+    // Update visibility
+    this.pointLight.visible = this.state.enabled;
+  }
+
+  /**
+   * Applies state changes to the whole bar
+   * @param state Partial state to apply
+   * @param transitionMs Transition duration in milliseconds
+   * @param easing Easing type for the transition
+   */
+  applyState(
+    state: Partial<IPixelBar>,
+    transitionMs: number = 0,
+    easing: string = 'linear'
+  ): void {
+    // Cell count and length are fixed by the hardware
+    const { cells, color, length: _length, ...updates } = state;
+
+    // Setting the bar color recolors every cell
+    if (color !== undefined) {
+      this.applyCellState(this.allCells(), { color }, transitionMs, easing);
+    }
+    cells?.forEach((cell, i) => {
+      if (cell && i < this.state.cells.length) {
+        this.applyCellState([i], cell, transitionMs, easing);
+      }
+    });
+
+    // Handle instant updates
+    if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(state));
+      Object.assign(this.state, updates);
+      if (color !== undefined) {
+        this.state.color = { ...color };
+      }
+      this.updateFixtureFromState();
+      return;
+    }
+
+    // Start transitions for numeric properties
+    if (updates.intensity !== undefined) {
+      this.startTransition('intensity', updates.intensity, transitionMs, easing);
+    }
+    if (updates.effectSpeed !== undefined) {
+      this.startTransition('effectSpeed', updates.effectSpeed, transitionMs, easing);
+    }
+    if (color !== undefined) {
+      this.startTransition('color', color, transitionMs, easing);
+    }
+    if (updates.secondaryColor !== undefined) {
+      this.state.secondaryColor ??= { r: 0, g: 0, b: 0 };
+      this.startTransition('secondaryColor', updates.secondaryColor, transitionMs, easing);
+    }
+
+    // Handle non-transitional properties
+    if (updates.enabled !== undefined) {
+      this.state.enabled = updates.enabled;
+    }
+    if (updates.effect !== undefined) {
+      this.state.effect = updates.effect;
+    }
+  }
+
+  /**
+   * Applies intensity/color changes to individual cells
+   * @param indices Cell indices (0-based)
+   * @param state Cell values to apply
+   * @param transitionMs Transition duration in milliseconds
+   * @param easing Easing type for the transition
+   */
+  applyCellState(
+    indices: number[],
+    state: Partial<PixelCell>,
+    transitionMs: number = 0,
+    easing: string = 'linear'
+  ): void {
+    const instant = transitionMs === 0 || easing === 'snap';
+
+    for (const index of indices) {
+      const cell = this.state.cells[index];
+      if (!cell) {
+        continue;
+      }
+
+      if (state.intensity !== undefined) {
+        if (instant) {
+          this.transitions.delete(`cells.${index}.intensity`);
+          cell.intensity = state.intensity;
+        } else {
+          this.startTransition(`cells.${index}.intensity`, state.intensity, transitionMs, easing);
+        }
+      }
+      if (state.color !== undefined) {
+        if (instant) {
+          this.transitions.delete(`cells.${index}.color`);
+          cell.color = { ...state.color };
+        } else {
+          this.startTransition(`cells.${index}.color`, state.color, transitionMs, easing);
+        }
+      }
+    }
+
+    if (instant) {
+      this.updateFixtureFromState();
+    }
+  }
+
+  /**
+   * Gets the indices of every cell
+   */
+  private allCells(): number[] {
+    return this.state.cells.map((_, i) => i);
+  }
+
+  /**
+   * Cleans up Three.js resources
+   */
+  dispose(): void {
+    // Dispose geometries
+    if (this.housing) {
+      this.housing.geometry.dispose();
+      if (this.housing.material instanceof THREE.Material) {
+        this.housing.material.dispose();
+      }
+    }
+    this.cellGeometry?.dispose();
+    for (const mesh of this.cellMeshes) {
+      if (mesh.material instanceof THREE.Material) {
+        mesh.material.dispose();
+      }
+    }
+
+    // Remove light
+    this.pointLight.dispose();
+
+    // Clear references
+    this.cellMeshes = [];
+    this.transitions.clear();
+  }
+}
+
+/**
+ * Renders the pixel effect of a bar over its cells
+ * @param bar Pixel bar state
+ * @param timeMs Effect time in milliseconds
+ * @returns Cell output (before the master intensity)
+ */
+export function renderPixelCells(bar: IPixelBar, timeMs: number): PixelCell[] {
+  const count = bar.cells.length;
+  const phase = (timeMs / 1000) * bar.effectSpeed;
+
+  return bar.cells.map((cell, i) => {
+    const position = count > 1 ? i / count : 0;
+
+    switch (bar.effect) {
+      case 'chase': {
+        // Lit head travelling left to right with a fading tail
+        const head = (phase % 1) * count;
+        const width = Math.max(1, count / 4);
+        const distance = (head - i + count) % count;
+        const level = distance < width ? 1 - distance / width : 0;
+        return { intensity: cell.intensity * level, color: { ...cell.color } };
+      }
+
+      case 'gradient': {
+        // Bar color to secondary color and back, scrolling with the phase
+        const t = 1 - Math.abs(((position + phase) % 1) * 2 - 1);
+        return {
+          intensity: cell.intensity,
+          color: lerpColor(bar.color, bar.secondaryColor ?? { r: 0, g: 0, b: 0 }, t),
+        };
+      }
+
+      case 'rainbow':
+        return { intensity: cell.intensity, color: hueToRgb(position + phase) };
+
+      case 'wave': {
+        const level = 0.5 + 0.5 * Math.sin((position - phase) * Math.PI * 2);
+        return { intensity: cell.intensity * level, color: { ...cell.color } };
+      }
+
+      default:
+        return copyCell(cell);
+    }
+  });
+}
+
+/**
+ * Copies a cell
+ */
+function copyCell(cell: PixelCell): PixelCell {
+  return { intensity: cell.intensity, color: { ...cell.color } };
+}
+
+/**
+ * Linearly interpolates between two colors
+ */
+function lerpColor(a: RGB, b: RGB, t: number): RGB {
+  return {
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+  };
+}
+
+/**
+ * Converts a hue (0-1, wrapping) to a fully saturated color
+ */
+function hueToRgb(hue: number): RGB {
+  const h = (((hue % 1) + 1) % 1) * 6;
+  const x = 1 - Math.abs((h % 2) - 1);
+
+  if (h < 1) return { r: 1, g: x, b: 0 };
+  if (h < 2) return { r: x, g: 1, b: 0 };
+  if (h < 3) return { r: 0, g: 1, b: x };
+  if (h < 4) return { r: 0, g: x, b: 1 };
+  if (h < 5) return { r: x, g: 0, b: 1 };
+  return { r: 1, g: 0, b: x };
+}
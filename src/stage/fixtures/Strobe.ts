@@ -94,6 +94,8 @@ export class Strobe extends BaseFixtureImpl<IStrobe> {
    * Updates fixture visuals based on current state
    */
   private updateFixtureFromState(): void {
+    const intensity = this.scaleIntensity(this.state.intensity);
+
     // Determine if light should be on
     const isOn = this.state.enabled && this.isFlashing;
 
@@ -102,12 +104,12 @@ export class Strobe extends BaseFixtureImpl<IStrobe> {
     this.pointLight.color = color;
 
     if (isOn) {
-      this.pointLight.intensity = this.state.intensity * 200; // Strong intensity for strobe
+      this.pointLight.intensity = intensity * 200; // Strong intensity for strobe
 
       // Update panel emissive
       if (this.panel.material instanceof THREE.MeshStandardMaterial) {
         this.panel.material.emissive = color;
-        this.panel.material.emissiveIntensity = this.state.intensity * 2;
+        this.panel.material.emissiveIntensity = intensity * 2;
       }
     } else {
       this.pointLight.intensity = 0;
@@ -135,6 +137,7 @@ export class Strobe extends BaseFixtureImpl<IStrobe> {
   ): void {
     // Strobe effects are typically instant, but we'll support transitions for intensity
     if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(state));
       Object.assign(this.state, state);
       this.updateFixtureFromState();
       return;
@@ -139,10 +139,12 @@ export class WashLight extends BaseFixtureImpl<IWashLight> {
    * Updates fixture visuals based on current state
    */
   private updateFixtureFromState(): void {
+    const intensity = this.scaleIntensity(this.state.intensity);
+
     // Update light color and intensity
     const color = this.rgbToColor(this.state.color);
     this.spotlight.color = color;
-    this.spotlight.intensity = this.state.intensity * 80;
+    this.spotlight.intensity = intensity * 80;
 
     // Update spread (beam angle)
     const minAngle = Math.PI / 8; // 22.5 degrees
@@ -152,20 +154,20 @@ export class WashLight extends BaseFixtureImpl<IWashLight> {
     // Update lens emissive to show light color
     if (this.lens.material instanceof THREE.MeshPhysicalMaterial) {
       this.lens.material.emissive = color;
-      this.lens.material.emissiveIntensity = this.state.enabled ? this.state.intensity * 0.5 : 0;
+      this.lens.material.emissiveIntensity = this.state.enabled ? intensity * 0.5 : 0;
     }
 
     // Update glow effect
     if (this.glowMesh && this.glowMesh.material instanceof THREE.ShaderMaterial) {
       const uniforms = this.glowMesh.material.uniforms;
       uniforms.color.value = color;
-      uniforms.intensity.value = this.state.intensity;
+      uniforms.intensity.value = intensity;
       uniforms.spread.value = this.state.spread;
     }
 
     // Update visibility
     this.spotlight.visible = this.state.enabled;
-    this.glowMesh.visible = this.state.enabled && this.state.intensity > 0;
+    this.glowMesh.visible = this.state.enabled && intensity > 0;
   }
 
   /**
@@ -181,6 +183,7 @@ export class WashLight extends BaseFixtureImpl<IWashLight> {
   ): void {
     // Handle instant updates
     if (transitionMs === 0 || easing === 'snap') {
+      this.cancelTransitions(Object.keys(state));
       Object.assign(this.state, state);
       this.updateFixtureFromState();
       return;
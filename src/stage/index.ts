@@ -6,6 +6,7 @@
  * - Lighting fixture implementations
  * - Volumetric lighting effects
  * - Executing lighting commands
+ * - Continuously evaluated effects (waveforms, chases)
  * - Contextual flake light system
  */
 
@@ -13,6 +14,13 @@ export { Stage } from './Stage';
 export { LightingController } from './LightingController';
 export { LEDParticlePanel } from './LEDParticlePanel';
 export { FlakeLightController, type FlakeConfig, type FlakePattern } from './FlakeLightController';
+export { EffectEngine, evaluateWaveform, type EffectContext } from './effects/EffectEngine';
+export { MergeLayer, DEFAULT_MERGE_SOURCES, type MergeMode, type MergeSource, type AttributeOwner } from './MergeLayer';
+export { Masters, type Submaster, type MasterLevel } from './Masters';
+export { CueStack, type StackCue, type CueStackContext, type CueStackState } from './CueStack';
 export { MovingHead } from './fixtures/MovingHead';
 export { Strobe } from './fixtures/Strobe';
 export { WashLight } from './fixtures/WashLight';
+export { Laser } from './fixtures/Laser';
+export { Par, applyDimmerCurve } from './fixtures/Par';
+export { PixelBar, renderPixelCells } from './fixtures/PixelBar';
@@ -6,6 +6,12 @@
  */
 
 import type { StyleProfile, StyleRule, RGB } from '../shared/types';
+import {
+  STYLE_PROFILE_VERSION,
+  formatSchemaErrors,
+  migrateStyleProfile,
+  validateStyleProfile
+} from '../shared/StyleSchema';
 
 /**
  * Manages style profiles with built-in presets and persistence
@@ -379,6 +385,7 @@ export class StyleProfileManager {
     // Convert ArrayBuffer to base64 if present
     const serializable = {
       ...profile,
+      schemaVersion: STYLE_PROFILE_VERSION,
       createdAt: profile.createdAt.toISOString(),
       modelWeights: profile.modelWeights
         ? this.arrayBufferToBase64(profile.modelWeights)
@@ -389,23 +396,13 @@ export class StyleProfileManager {
   }
 
   /**
-   * Deserialize a style profile from JSON
+   * Deserialize a style profile from JSON, upgrading older versions
    * @param json - JSON string
    * @returns Style profile
+   * @throws Error listing the path of every invalid field
    */
   static fromJSON(json: string): StyleProfile {
-    const parsed = JSON.parse(json);
-
-    // Convert base64 back to ArrayBuffer if present
-    const profile: StyleProfile = {
-      ...parsed,
-      createdAt: new Date(parsed.createdAt),
-      modelWeights: parsed.modelWeights
-        ? this.base64ToArrayBuffer(parsed.modelWeights)
-        : undefined
-    };
-
-    return profile;
+    return this.parse(json).profile;
   }
 
   /**
@@ -454,7 +451,12 @@ export class StyleProfileManager {
     }
 
     try {
-      return this.fromJSON(json);
+      const { profile, migrated } = this.parse(json);
+      if (migrated) {
+        // Store the upgraded profile so it is only migrated once
+        localStorage.setItem(key, this.toJSON(profile));
+      }
+      return profile;
     } catch (error) {
       console.error(`Failed to load style profile ${name}:`, error);
       return null;
@@ -565,6 +567,27 @@ export class StyleProfileManager {
 
   // === Private Helper Methods ===
 
+  private static parse(json: string): { profile: StyleProfile; migrated: boolean } {
+    const parsed = JSON.parse(json);
+    const data = migrateStyleProfile(parsed);
+
+    const errors = validateStyleProfile(data);
+    if (errors.length > 0) {
+      throw new Error(`Invalid style profile:\n${formatSchemaErrors(errors)}`);
+    }
+
+    // Convert base64 back to ArrayBuffer if present
+    const profile = {
+      ...data,
+      createdAt: new Date(data.createdAt as string),
+      modelWeights: data.modelWeights
+        ? this.base64ToArrayBuffer(data.modelWeights as string)
+        : undefined
+    } as StyleProfile;
+
+    return { profile, migrated: parsed.schemaVersion !== STYLE_PROFILE_VERSION };
+  }
+
   private static getStorageIndex(): string[] {
     const indexJson = localStorage.getItem('lightshow-style-index');
     if (!indexJson) return [];
@@ -5,8 +5,17 @@
  * - Analyzing video frames for lighting states
  * - Extracting style profiles from concert footage
  * - Generating rules from audio-visual correlations
+ * - Validating and migrating saved style profiles
  */
 
 export { StyleLearner } from './StyleLearner';
 export { VideoAnalyzer } from './VideoAnalyzer';
 export { StyleProfileManager, StyleProfile } from './StyleProfile';
+export {
+  STYLE_PROFILE_VERSION,
+  validateStyleProfile,
+  validateStyleRule,
+  migrateStyleProfile,
+  formatSchemaErrors,
+  type SchemaError,
+} from '../shared/StyleSchema';
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { BeatGrid } from '../../src/audio/BeatGrid';
+
+describe('BeatGrid', () => {
+  it('follows the local interval of unevenly spaced beats', () => {
+    // Speeds up from 120 to 150 BPM halfway through
+    const grid = new BeatGrid(120, [0, 0.5, 1, 1.5, 1.9, 2.3, 2.7], []);
+
+    expect(grid.getTempoAt(0.75)).toBeCloseTo(120);
+    expect(grid.getTempoAt(2)).toBeCloseTo(150);
+    expect(grid.getBeatAt(2.1)).toMatchObject({ beat: 4, phase: expect.closeTo(0.5) });
+    expect(grid.getBeatTime(4.5)).toBeCloseTo(2.1);
+    expect(grid.quantize(1.72)).toBeCloseTo(1.9);
+  });
+
+  it('extrapolates past the last beat with the final interval', () => {
+    const grid = new BeatGrid(120, [0, 0.5, 1, 1.4], [0]);
+
+    expect(grid.getBeatAt(2.3)).toMatchObject({ beat: 5, phase: expect.closeTo(0.25) });
+    expect(grid.getBeatTime(6)).toBeCloseTo(2.6);
+    expect(grid.getBeatsInRange(1.3, 2.3)).toEqual([1.4, expect.closeTo(1.8), expect.closeTo(2.2)]);
+    expect(grid.quantize(2.95)).toBeCloseTo(3);
+  });
+
+  it('counts beats before the first downbeat as a pickup bar', () => {
+    const beats = Array.from({ length: 12 }, (_, i) => i * 0.5);
+    const grid = new BeatGrid(120, beats, [1, 3, 5]);
+
+    expect(grid.getBarAt(0.6)).toBe(0);
+    expect(grid.getBarAt(1)).toBe(1);
+    expect(grid.getBarAt(2.9)).toBe(1);
+    expect(grid.getBarAt(3)).toBe(2);
+    expect(grid.getBeatAt(1).isDownbeat).toBe(true);
+    expect(grid.getBeatAt(0).isDownbeat).toBe(false);
+  });
+
+  it('counts bars of different lengths from the downbeats and keeps the last one', () => {
+    const beats = Array.from({ length: 14 }, (_, i) => i * 0.5);
+    // Two bars of 4/4, then 3/4
+    const grid = new BeatGrid(120, beats, [0, 2, 4, 5.5]);
+
+    expect(grid.getBeatsPerBarAt(1)).toBe(4);
+    expect(grid.getBeatsPerBarAt(4.2)).toBe(3);
+    expect(grid.getBarAt(5.4)).toBe(2);
+    expect(grid.getBarAt(5.5)).toBe(3);
+    // Extrapolated bars keep three beats: downbeats at beats 11, 14 and 17
+    expect(grid.getBarAt(7)).toBe(4);
+    expect(grid.getBeatAt(8.5).isDownbeat).toBe(true);
+  });
+
+  it('falls back to the nominal tempo and beatsPerBar without beats', () => {
+    const grid = new BeatGrid(120, [], [], 3);
+
+    expect(grid.getBeatAt(1.75)).toMatchObject({ beat: 3, phase: expect.closeTo(0.5), isDownbeat: true });
+    expect(grid.getBarAt(3.1)).toBe(2);
+    expect(grid.getBeatTime(3)).toBe(1.5);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { DropEvent, DropForecast, detectDrops } from '../../src/audio/DropDetector';
+import { FeatureTrack } from '../../src/audio/FrameSynthesizer';
+
+/**
+ * Feature frames per second
+ */
+const FRAME_RATE = 50;
+
+/**
+ * Beats every half second (120 BPM), 128 of them
+ */
+const BEATS = Array.from({ length: 128 }, (_, i) => i * 0.5);
+
+/**
+ * Downbeats on every fourth beat
+ */
+const DOWNBEATS = BEATS.filter((_, i) => i % 4 === 0);
+
+/**
+ * A verse, then a drop on beat 64 (32s)
+ */
+const SECTIONS = [
+  { start: 0, end: 32, type: 'verse' as const, energy: 0.3 },
+  { start: 32, end: 64, type: 'drop' as const, energy: 0.9 },
+];
+
+/**
+ * Feature track of a steady verse, a riser over the last 16 beats before
+ * the drop (the bass drops out while the highs climb) and a loud drop
+ */
+function createFeatures(): FeatureTrack {
+  const frames = 64 * FRAME_RATE;
+  const track: FeatureTrack = {
+    frameRate: FRAME_RATE,
+    rms: new Float32Array(frames),
+    peak: new Float32Array(frames),
+    low: new Float32Array(frames),
+    mid: new Float32Array(frames),
+    high: new Float32Array(frames),
+    flux: new Float32Array(frames),
+  };
+
+  for (let f = 0; f < frames; f++) {
+    const time = f / FRAME_RATE;
+    if (time < 24) {
+      track.low[f] = 0.3;
+      track.mid[f] = 0.2;
+      track.high[f] = 0.05;
+      track.rms[f] = 0.3;
+    } else if (time < 32) {
+      const progress = (time - 24) / 8;
+      track.low[f] = 0.02;
+      track.mid[f] = 0.2;
+      track.high[f] = 0.05 + progress * 0.75;
+      track.rms[f] = 0.2 + progress * 0.4;
+    } else {
+      track.low[f] = 0.9;
+      track.mid[f] = 0.3;
+      track.high[f] = 0.2;
+      track.rms[f] = 0.8;
+    }
+    track.peak[f] = track.rms[f];
+  }
+  return track;
+}
+
+/**
+ * A drop on beat 32 (16s) with a build-up from beat 16 (8s)
+ */
+const DROP: DropEvent = {
+  time: 16,
+  beatIndex: 32,
+  buildupStart: 8,
+  buildupBeatIndex: 16,
+  risers: ['brightness'],
+  strength: 0.5,
+};
+
+describe('detectDrops', () => {
+  it('finds the drop and the riser before it', () => {
+    const drops = detectDrops(createFeatures(), { beats: BEATS, downbeats: DOWNBEATS, sections: SECTIONS });
+
+    expect(drops).toHaveLength(1);
+    const [drop] = drops;
+    expect(drop.time).toBe(32);
+    expect(drop.beatIndex).toBe(64);
+    expect(drop.risers).toContain('brightness');
+    expect(drop.strength).toBeCloseTo(0.6);
+    // The build-up starts on a bar inside the riser
+    expect(drop.buildupBeatIndex).not.toBeNull();
+    expect(drop.buildupBeatIndex as number).toBeGreaterThanOrEqual(48);
+    expect(drop.buildupBeatIndex as number).toBeLessThanOrEqual(64 - 8);
+    expect((drop.buildupBeatIndex as number) % 4).toBe(0);
+    expect(drop.buildupStart).toBe(BEATS[drop.buildupBeatIndex as number]);
+  });
+
+  it('finds no drop in a track without an energy rise', () => {
+    const sections = [
+      { start: 0, end: 32, type: 'chorus' as const, energy: 0.8 },
+      { start: 32, end: 64, type: 'chorus' as const, energy: 0.8 },
+    ];
+
+    expect(detectDrops(createFeatures(), { beats: BEATS, downbeats: DOWNBEATS, sections })).toEqual([]);
+  });
+});
+
+describe('DropForecast', () => {
+  it('counts the beats to the drop', () => {
+    const forecast = new DropForecast([DROP], BEATS);
+
+    expect(forecast.getNextDrop(0)?.beatsToDrop).toBe(32);
+    expect(forecast.getNextDrop(14)?.beatsToDrop).toBe(4);
+    expect(forecast.getNextDrop(15.25)?.beatsToDrop).toBe(1.5);
+    expect(forecast.getNextDrop(15.25)?.timeToDrop).toBe(0.75);
+  });
+
+  it('tracks progress through the build-up', () => {
+    const forecast = new DropForecast([DROP], BEATS);
+
+    expect(forecast.getNextDrop(4)).toMatchObject({ inBuildup: false, buildupProgress: 0 });
+    expect(forecast.getNextDrop(8)).toMatchObject({ inBuildup: true, buildupProgress: 0 });
+    expect(forecast.getNextDrop(14)).toMatchObject({ inBuildup: true, buildupProgress: 0.75 });
+  });
+
+  it('ignores drops past the horizon and drops already landed', () => {
+    const forecast = new DropForecast([DROP], BEATS);
+
+    expect(forecast.getNextDrop(0, 16)).toBeNull();
+    expect(forecast.getNextDrop(10, 16)?.beatsToDrop).toBe(12);
+    expect(forecast.getNextDrop(16)).toBeNull();
+  });
+});
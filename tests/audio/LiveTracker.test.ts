@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { LiveSectionTracker, RollingBeatTracker } from '../../src/audio/LiveTracker';
+
+/**
+ * Frames per second fed to the trackers
+ */
+const FRAME_RATE = 100;
+
+/**
+ * Onset strength of a click track: a spike on every beat, silence between
+ */
+function clickOnset(time: number, bpm: number, firstBeat: number): number {
+  const period = 60 / bpm;
+  const sinceBeat = (((time - firstBeat) % period) + period) % period;
+  return sinceBeat < 1 / FRAME_RATE ? 1 : 0;
+}
+
+/**
+ * Feeds a click track to a beat tracker and collects the reported beat times
+ */
+function trackClicks(bpm: number, firstBeat: number, seconds: number): { tracker: RollingBeatTracker; beats: number[] } {
+  const tracker = new RollingBeatTracker();
+  const beats: number[] = [];
+  for (let frame = 0; frame < seconds * FRAME_RATE; frame++) {
+    const time = frame / FRAME_RATE;
+    if (tracker.process(time, clickOnset(time, bpm, firstBeat)).isBeat) {
+      beats.push(time);
+    }
+  }
+  return { tracker, beats };
+}
+
+/**
+ * Feeds a piecewise constant energy curve to a section tracker
+ */
+function trackEnergy(segments: [seconds: number, energy: number][]): LiveSectionTracker {
+  const tracker = new LiveSectionTracker();
+  let time = 0;
+  for (const [seconds, energy] of segments) {
+    for (let frame = 0; frame < seconds * 10; frame++) {
+      tracker.process(time, energy);
+      time += 0.1;
+    }
+  }
+  return tracker;
+}
+
+describe('RollingBeatTracker', () => {
+  it('locks to the tempo of a click track', () => {
+    const { tracker } = trackClicks(128, 0.2, 20);
+
+    expect(Math.abs(tracker.getTempo() - 128)).toBeLessThan(1);
+    expect(tracker.getConfidence()).toBeGreaterThan(0.5);
+  });
+
+  it('reports beats in phase with the clicks once locked', () => {
+    const period = 60 / 128;
+    const { beats } = trackClicks(128, 0.2, 20);
+    const late = beats.filter((time) => time > 10);
+
+    expect(late.length).toBeGreaterThan(15);
+    for (const time of late) {
+      const error = Math.abs(((time - 0.2 + period / 2) % period) - period / 2);
+      expect(error).toBeLessThan(0.05);
+    }
+  });
+
+  it('reports no beats in silence', () => {
+    const tracker = new RollingBeatTracker();
+    let beats = 0;
+    for (let frame = 0; frame < 10 * FRAME_RATE; frame++) {
+      beats += tracker.process(frame / FRAME_RATE, 0).isBeat ? 1 : 0;
+    }
+
+    expect(beats).toBe(0);
+  });
+});
+
+describe('LiveSectionTracker', () => {
+  it('labels the start as intro, then follows the energy', () => {
+    const tracker = trackEnergy([[30, 0.5], [30, 0.1], [30, 1]]);
+
+    const types = tracker.getSections().map((section) => section.type);
+
+    // Loud after the intro is a chorus, loud after a quiet section a drop
+    expect(types.slice(0, 2)).toEqual(['intro', 'chorus']);
+    expect(types).toContain('breakdown');
+    expect(types[types.length - 1]).toBe('drop');
+  });
+
+  it('keeps sections contiguous and at least the minimum length', () => {
+    const tracker = trackEnergy([[20, 0.5], [30, 1], [3, 0.1], [30, 1]]);
+    const sections = tracker.getSections();
+
+    for (let i = 1; i < sections.length; i++) {
+      expect(sections[i].start).toBeCloseTo(sections[i - 1].end);
+    }
+    // The three-second dip is too short to hold a new section
+    expect(sections.map((section) => section.type)).not.toContain('breakdown');
+  });
+
+  it('starts over after a reset', () => {
+    const tracker = trackEnergy([[30, 1]]);
+    tracker.reset();
+    tracker.process(0, 1);
+
+    expect(tracker.getSections()).toEqual([{ start: 0, end: 0, type: 'intro', energy: 1 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { detectMeter } from '../../src/audio/MeterDetector';
+import { FeatureTrack } from '../../src/audio/FrameSynthesizer';
+
+/**
+ * Feature frames per second
+ */
+const FRAME_RATE = 50;
+
+/**
+ * Beats every half second
+ */
+function createBeats(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => 0.3 + i * 0.5);
+}
+
+/**
+ * Feature track with an onset on every beat and a kick on the beats where
+ * accented() is true
+ */
+function createFeatures(beats: number[], accented: (beat: number) => boolean): FeatureTrack {
+  const frames = Math.ceil((beats[beats.length - 1] + 1) * FRAME_RATE);
+  const track: FeatureTrack = {
+    frameRate: FRAME_RATE,
+    rms: new Float32Array(frames).fill(0.3),
+    peak: new Float32Array(frames).fill(0.5),
+    low: new Float32Array(frames).fill(0.1),
+    mid: new Float32Array(frames).fill(0.3),
+    high: new Float32Array(frames).fill(0.2),
+    flux: new Float32Array(frames),
+  };
+
+  beats.forEach((time, i) => {
+    const frame = Math.round(time * FRAME_RATE);
+    const strong = accented(i);
+    track.flux[frame] = strong ? 1 : 0.4;
+    if (strong) {
+      track.low.fill(0.9, frame, frame + 5);
+    }
+  });
+  return track;
+}
+
+describe('detectMeter', () => {
+  it('reads a kick on every fourth beat as 4/4', () => {
+    const beats = createBeats(64);
+    const meter = detectMeter(createFeatures(beats, (i) => i % 4 === 0), beats);
+
+    expect(meter.timeSignature).toBe('4/4');
+    expect(meter.beatsPerBar).toBe(4);
+    expect(meter.downbeats).toEqual(beats.filter((_, i) => i % 4 === 0));
+  });
+
+  it('reads a kick on every third beat as 3/4', () => {
+    const beats = createBeats(63);
+    const meter = detectMeter(createFeatures(beats, (i) => i % 3 === 0), beats);
+
+    expect(meter.timeSignature).toBe('3/4');
+    expect(meter.beatsPerBar).toBe(3);
+    expect(meter.downbeats).toEqual(beats.filter((_, i) => i % 3 === 0));
+    expect(meter.confidence).toBeGreaterThan(0.2);
+  });
+
+  it('finds the bar phase after a pickup', () => {
+    const beats = createBeats(64);
+    const meter = detectMeter(createFeatures(beats, (i) => i % 4 === 1), beats);
+
+    expect(meter.downbeats[0]).toBe(beats[1]);
+    expect(meter.segments[0]).toMatchObject({ beatIndex: 1, timeSignature: '4/4' });
+  });
+
+  it('stays in 4/4 when every beat is accented alike', () => {
+    const beats = createBeats(64);
+    const meter = detectMeter(createFeatures(beats, () => true), beats);
+
+    expect(meter.timeSignature).toBe('4/4');
+    expect(meter.segments).toHaveLength(1);
+  });
+});
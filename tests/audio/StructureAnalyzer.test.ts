@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeStructure } from '../../src/audio/StructureAnalyzer';
+
+/**
+ * Sample rate of the synthetic songs
+ */
+const SAMPLE_RATE = 22050;
+
+/**
+ * Bar length in seconds
+ */
+const BAR = 2;
+
+/**
+ * Two contrasting parts: a quiet C major chord and a loud A minor chord with bright overtones
+ */
+const PARTS: Record<string, { frequencies: number[]; amplitude: number }> = {
+  A: { frequencies: [261.6, 329.6, 392], amplitude: 0.1 },
+  B: { frequencies: [220, 261.6, 329.6, 1760, 2637], amplitude: 0.25 },
+};
+
+/**
+ * Renders a song from a form string such as "ABAB", eight bars per letter
+ */
+function createSong(form: string): { samples: Float32Array; downbeats: number[] } {
+  const partSamples = 8 * BAR * SAMPLE_RATE;
+  const samples = new Float32Array(form.length * partSamples);
+
+  [...form].forEach((letter, index) => {
+    const { frequencies, amplitude } = PARTS[letter];
+    for (let i = 0; i < partSamples; i++) {
+      const time = i / SAMPLE_RATE;
+      let value = 0;
+      for (const frequency of frequencies) {
+        value += Math.sin(2 * Math.PI * frequency * time);
+      }
+      samples[index * partSamples + i] = (value / frequencies.length) * amplitude;
+    }
+  });
+
+  const bars = samples.length / SAMPLE_RATE / BAR;
+  return { samples, downbeats: Array.from({ length: bars }, (_, i) => i * BAR) };
+}
+
+describe('analyzeStructure', () => {
+  it('splits ABAB at the part changes and labels the repeats alike', () => {
+    const { samples, downbeats } = createSong('ABAB');
+
+    const sections = analyzeStructure(samples, SAMPLE_RATE, downbeats);
+
+    expect(sections.map((section) => section.label)).toEqual(['A', 'B', 'A', 'B']);
+    expect(sections.map((section) => section.start)).toEqual([0, 16, 32, 48]);
+    expect(sections[sections.length - 1].end).toBe(64);
+    // The loudest repeated part is the chorus
+    expect(sections[1].energy).toBeGreaterThan(sections[0].energy);
+    expect(sections[1].type).toBe(sections[3].type);
+    expect(['chorus', 'drop']).toContain(sections[1].type);
+  });
+
+  it('returns one section for a track shorter than two sections', () => {
+    const { samples, downbeats } = createSong('A');
+    const sixBars = samples.subarray(0, 6 * BAR * SAMPLE_RATE);
+
+    expect(analyzeStructure(sixBars, SAMPLE_RATE, downbeats.slice(0, 6))).toEqual([
+      { start: 0, end: 12, type: 'verse', energy: 1, label: 'A' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { trackBeatGrid, trackBeats } from '../../src/audio/TrackAnalysis';
+
+/**
+ * Onset envelope frames per second
+ */
+const RATE = 100;
+
+/**
+ * Onset envelope with a spike at each beat time, mean removed
+ */
+function createEnvelope(beatTimes: number[], seconds: number): Float32Array {
+  const envelope = new Float32Array(seconds * RATE);
+  for (const time of beatTimes) {
+    envelope[Math.round(time * RATE)] = 1;
+  }
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / envelope.length;
+  return envelope.map((v) => v - mean);
+}
+
+/**
+ * Beat times at a steady tempo
+ */
+function steadyBeats(bpm: number, firstBeat: number, seconds: number): number[] {
+  const beats: number[] = [];
+  for (let time = firstBeat; time < seconds; time += 60 / bpm) {
+    beats.push(time);
+  }
+  return beats;
+}
+
+/**
+ * Mono audio with a short noise burst on every beat
+ */
+function createClickTrack(bpm: number, firstBeat: number, seconds: number, sampleRate: number): Float32Array {
+  const samples = new Float32Array(seconds * sampleRate);
+  let seed = 1;
+  for (const time of steadyBeats(bpm, firstBeat, seconds)) {
+    const start = Math.round(time * sampleRate);
+    for (let i = 0; i < sampleRate * 0.01 && start + i < samples.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      samples[start + i] = (seed / 2147483647) * 2 - 1;
+    }
+  }
+  return samples;
+}
+
+describe('trackBeats', () => {
+  it('finds the tempo and phase of a steady pulse', () => {
+    const expected = steadyBeats(120, 0.13, 20);
+    const result = trackBeats(createEnvelope(expected, 20), RATE)!;
+
+    expect(result.bpm).toBeCloseTo(120, 0);
+    expect(result.beats).toHaveLength(expected.length);
+    result.beats.forEach((time, i) => expect(time).toBeCloseTo(expected[i], 2));
+    expect(result.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('follows tempo drift instead of a fixed grid', () => {
+    // Accelerates steadily from 110 to 130 BPM
+    const expected: number[] = [];
+    for (let time = 0.2, bpm = 110; time < 30; time += 60 / bpm, bpm += 0.35) {
+      expected.push(time);
+    }
+    const result = trackBeats(createEnvelope(expected, 30), RATE, 120)!;
+
+    expect(result.beats).toHaveLength(expected.length);
+    result.beats.forEach((time, i) => expect(Math.abs(time - expected[i])).toBeLessThan(0.02));
+  });
+
+  it('returns null for silence', () => {
+    expect(trackBeats(new Float32Array(1000), RATE, 120)).toBeNull();
+  });
+});
+
+describe('trackBeatGrid', () => {
+  it('tracks the beats of a click track with a known tempo', () => {
+    const sampleRate = 22050;
+    const result = trackBeatGrid(createClickTrack(100, 0.3, 12, sampleRate), sampleRate, 100);
+    const expected = steadyBeats(100, 0.3, 12);
+
+    expect(result.bpm).toBeCloseTo(100, 0);
+    expect(result.beats.length).toBeGreaterThanOrEqual(expected.length - 1);
+    for (const time of result.beats) {
+      const nearest = Math.min(...expected.map((beat) => Math.abs(beat - time)));
+      expect(nearest).toBeLessThan(0.03);
+    }
+  });
+
+  it('falls back to a fixed grid at the known tempo for silence', () => {
+    const result = trackBeatGrid(new Float32Array(22050 * 4), 22050, 90);
+
+    expect(result.confidence).toBe(0);
+    expect(result.beats.slice(0, 3)).toEqual([0, expect.closeTo(60 / 90), expect.closeTo(120 / 90)]);
+  });
+});
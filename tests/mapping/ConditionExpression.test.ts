@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { ConditionContext, compileCondition } from '../../src/mapping/rules/ConditionExpression';
+import { AudioFrame } from '../../src/shared/types';
+
+/**
+ * Context for a frame with the given fields
+ */
+function createContext(fields: Partial<AudioFrame>, previous?: Partial<AudioFrame>): ConditionContext {
+  return {
+    frame: { timestamp: 0, isBeat: false, isDownbeat: false, energy: 0, ...fields } as AudioFrame,
+    previous: previous as AudioFrame | undefined,
+    barPos: 0,
+    sectionTime: 0,
+  };
+}
+
+describe('compileCondition', () => {
+  it('evaluates fields, helpers and operators', () => {
+    const condition = compileCondition('lowEnergy > 0.7 && beatNumber % 8 == 0 && rising(energy)');
+
+    expect(condition(createContext({ lowEnergy: 0.8, beatNumber: 16, energy: 0.6 }, { energy: 0.5 }))).toBe(true);
+    expect(condition(createContext({ lowEnergy: 0.8, beatNumber: 16, energy: 0.4 }, { energy: 0.5 }))).toBe(false);
+    expect(compileCondition("section == 'drop' || clamp(energy, 0, 0.5) >= 0.5")(createContext({ energy: 0.9 }))).toBe(true);
+  });
+
+  it('reports type errors and unknown names at compile time', () => {
+    expect(() => compileCondition('energy')).toThrow(/true or false/);
+    expect(() => compileCondition('loudness > 1')).toThrow(/Unknown name 'loudness'/);
+    expect(() => compileCondition('abs > 1')).toThrow(/is a function/);
+    expect(() => compileCondition('min(energy) > 1')).toThrow(/takes 2 argument/);
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__', 'valueOf'])(
+    "rejects the inherited name '%s'",
+    (name) => {
+      expect(() => compileCondition(`${name} > 0`)).toThrow(/Unknown name/);
+      expect(() => compileCondition(`${name}(energy) > 0`)).toThrow(/Unknown function/);
+      expect(() => compileCondition(`prev(${name}) > 0`)).toThrow(/numeric frame field/);
+    }
+  );
+});
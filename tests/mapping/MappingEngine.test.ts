@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { MappingEngine } from '../../src/mapping/MappingEngine';
+import { getDefaultRules } from '../../src/mapping/rules/DefaultRules';
+import { StyleProfileManager } from '../../src/style/StyleProfile';
+import { AudioFrame, Fixture, LightingCommand, StyleRule } from '../../src/shared/types';
+
+/**
+ * Engine with the default rules and a few fixtures of each targeted type
+ */
+function createEngine(seed: number): MappingEngine {
+  const profile = { ...StyleProfileManager.create('test', 'test'), rules: getDefaultRules() };
+  const engine = new MappingEngine({ seed, styleProfile: profile });
+  const types = ['moving_head', 'strobe', 'wash', 'par'] as const;
+  engine.registerFixtures(types.map((type) => ({ id: `${type}-1`, type }) as unknown as Fixture));
+  return engine;
+}
+
+/**
+ * Eight bars at 120 BPM, four frames per beat, with rising energy
+ */
+function createFrames(): AudioFrame[] {
+  return Array.from({ length: 128 }, (_, i) => {
+    const energy = (i % 32) / 32;
+    return {
+      timestamp: i * 125,
+      isBeat: i % 4 === 0,
+      isDownbeat: i % 16 === 0,
+      tempo: 120,
+      beatPhase: (i % 4) / 4,
+      beatNumber: Math.floor(i / 4),
+      rms: energy,
+      energy,
+      peak: energy,
+      spectralCentroid: 2000,
+      spectralFlux: energy,
+      lowEnergy: energy,
+      midEnergy: energy,
+      highEnergy: energy,
+      section: i < 64 ? 'chorus' : 'drop',
+    };
+  });
+}
+
+/**
+ * Commands the engine produces for the test frames
+ */
+function render(engine: MappingEngine): LightingCommand[][] {
+  return createFrames().map((frame) => engine.process(frame));
+}
+
+describe('MappingEngine', () => {
+  it('gives the same output for the same seed, also after a reset', () => {
+    const engine = createEngine(42);
+    const first = render(engine);
+
+    expect(render(createEngine(42))).toEqual(first);
+
+    engine.reset();
+    expect(render(engine)).toEqual(first);
+  });
+
+  it('gives a different output after a reroll', () => {
+    const engine = createEngine(42);
+    const first = render(engine);
+
+    const seed = engine.reroll();
+    const rerolled = render(engine);
+    expect(rerolled).not.toEqual(first);
+
+    expect(render(createEngine(seed as number))).toEqual(rerolled);
+  });
+
+  it('runs the style rules over a loaded show plan', () => {
+    const engine = createEngine(42);
+    const planner = engine.getShowPlanner();
+    engine.loadShowPlan(planner.createPlan({
+      bpm: 120,
+      beats: Array.from({ length: 32 }, (_, i) => i * 0.5),
+      downbeats: Array.from({ length: 8 }, (_, i) => i * 2),
+      sections: [{ start: 0, end: 16, type: 'chorus', energy: 0.8 }],
+      averageEnergy: 0.8,
+    }));
+
+    const rule: StyleRule = {
+      id: 'beat-pulse',
+      name: 'Beat Pulse',
+      trigger: { onBeat: true },
+      action: { type: 'intensity_pulse', targets: ['wash'], intensity: 0.5, durationMs: 200 },
+      probability: 1,
+      priority: 0,
+    };
+    engine.loadStyle({ ...StyleProfileManager.create('loaded', 'test'), rules: [rule] });
+
+    const [frame] = createFrames();
+    expect(engine.process(frame).length).toBeGreaterThan(0);
+    expect(engine.getRuleTrace()?.entries).toEqual([expect.objectContaining({ ruleId: 'beat-pulse', outcome: 'fired' })]);
+  });
+});
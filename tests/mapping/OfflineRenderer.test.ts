@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { timelineFromJSON, timelineToJSON } from '../../src/mapping/OfflineRenderer';
+import { Fixture, ShowTimeline } from '../../src/shared/types';
+
+describe('timelineToJSON', () => {
+  it('round-trips samples and timing without loss', () => {
+    const timeline: ShowTimeline = {
+      version: 1,
+      title: 'Precision',
+      frameRate: 29.97,
+      frameCount: 2,
+      duration: 66.733400067,
+      tracks: [
+        {
+          id: 'mh-1',
+          type: 'moving_head',
+          base: { id: 'mh-1', type: 'moving_head', pan: 0.123456789 } as unknown as Fixture,
+          attributes: ['pan', 'intensity'],
+          kinds: ['number', 'number'],
+          strings: [],
+          // 16-bit pan steps need more than four decimals
+          data: Float32Array.from([1 / 65535, 0.3, 12345 / 65535, NaN]),
+        },
+      ],
+    };
+
+    const json = timelineToJSON(timeline);
+    const parsed = timelineFromJSON(json);
+
+    expect(parsed.duration).toBe(timeline.duration);
+    expect(parsed.frameRate).toBe(timeline.frameRate);
+    expect(parsed.tracks[0].base).toEqual(timeline.tracks[0].base);
+    expect(Array.from(parsed.tracks[0].data)).toEqual(Array.from(timeline.tracks[0].data));
+    expect(json).toContain('0.3,');
+  });
+});
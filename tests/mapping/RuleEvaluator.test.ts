@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { RuleEvaluator } from '../../src/mapping/rules/RuleEvaluator';
+import { AudioFrame, StyleRule } from '../../src/shared/types';
+
+/**
+ * A beat frame at the given beat number
+ */
+function createFrame(beatNumber: number): AudioFrame {
+  return {
+    timestamp: beatNumber * 500,
+    isBeat: true,
+    isDownbeat: false,
+    energy: 1,
+    beatNumber,
+    beatPhase: 0,
+  } as AudioFrame;
+}
+
+const rule: StyleRule = {
+  id: 'pulse',
+  name: 'pulse',
+  trigger: { onBeat: true },
+  action: { type: 'intensity_pulse', targets: [], durationMs: 200 },
+  probability: 1,
+  priority: 0,
+  cooldownBeats: 4,
+};
+
+describe('RuleEvaluator', () => {
+  it('starts a cooldown only when the trigger is recorded', () => {
+    const evaluator = new RuleEvaluator();
+
+    // Evaluated but not fired (lost its claim): still free to fire
+    expect(evaluator.evaluate(rule, createFrame(0))).toBe(true);
+    expect(evaluator.evaluate(rule, createFrame(1))).toBe(true);
+
+    evaluator.recordTrigger(rule, createFrame(1));
+    expect(evaluator.evaluate(rule, createFrame(2))).toBe(false);
+    expect(evaluator.evaluate(rule, createFrame(5))).toBe(true);
+  });
+
+  it('applies the minimum interval to rules without a cooldown', () => {
+    const evaluator = new RuleEvaluator();
+    const free = { ...rule, cooldownBeats: undefined };
+    const frame = createFrame(0);
+
+    expect(evaluator.evaluate(free, frame)).toBe(true);
+    evaluator.recordTrigger(free, frame);
+    expect(evaluator.evaluate(free, { ...frame, timestamp: 20 })).toBe(false);
+    expect(evaluator.evaluate(free, { ...frame, timestamp: 60 })).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { formatRules, parseRules } from '../../src/mapping/rules/RuleText';
+import { getDefaultRules } from '../../src/mapping/rules/DefaultRules';
+import { StyleRule, StyleTrigger } from '../../src/shared/types';
+
+/**
+ * A single-rule set with the given trigger and action overrides
+ */
+function createRule(trigger: StyleTrigger, overrides: Partial<StyleRule['action']> = {}): StyleRule {
+  return {
+    id: 'test',
+    name: 'test',
+    trigger,
+    action: { type: 'intensity_pulse', targets: [], durationMs: 200, ...overrides },
+    probability: 1,
+    priority: 0,
+  };
+}
+
+describe('parseRules', () => {
+  it('takes thresholds only from a plain conjunction', () => {
+    const [rule] = parseRules('t: on beat when isDownbeat || isBeat && energy >= .7 => strobe all 100ms');
+    expect(rule.trigger.energyThreshold).toBeUndefined();
+    expect(rule.trigger.customCondition).toBe('isDownbeat || isBeat && energy >= .7');
+
+    const [grouped] = parseRules('t: when energy >= .7 && (isDownbeat || lowEnergy > .5) => strobe all 100ms');
+    expect(grouped.trigger.energyThreshold).toBe(0.7);
+    expect(grouped.trigger.customCondition).toBe('isDownbeat || lowEnergy > .5');
+  });
+
+  it('keeps strict comparisons in the custom condition', () => {
+    const [rule] = parseRules('t: when energy > .7 && flux >= .2 => strobe all 100ms');
+    expect(rule.trigger.energyThreshold).toBeUndefined();
+    expect(rule.trigger.fluxThreshold).toBe(0.2);
+    expect(rule.trigger.customCondition).toBe('energy > .7');
+  });
+
+  it('accepts numbers in exponent form', () => {
+    const [rule] = parseRules('t: when energy >= 1e-7 => movement all pan -2.5e-3 1e+21ms p=5e-1');
+    expect(rule.trigger.energyThreshold).toBe(1e-7);
+    expect(rule.action.movement?.pan).toBe(-2.5e-3);
+    expect(rule.action.durationMs).toBe(1e21);
+    expect(rule.probability).toBe(0.5);
+  });
+
+  it('still requires a duration', () => {
+    expect(() => parseRules('t: on beat => strobe all')).toThrow(/Missing duration/);
+  });
+});
+
+describe('formatRules', () => {
+  it('parses back to the default rules', () => {
+    const rules = getDefaultRules();
+    expect(parseRules(formatRules(rules))).toEqual(rules);
+  });
+
+  it.each<[string, StyleRule]>([
+    ['zero duration', createRule({ onBeat: true }, { durationMs: 0 })],
+    ['tiny numbers', createRule({ energyThreshold: 1e-7 }, { intensity: 1e-7, durationMs: 1e-7, color: { r: 1e-7, g: 0, b: 1 } })],
+    ['a disjunction after thresholds', createRule({ energyThreshold: 0.5, customCondition: 'isDownbeat || isBeat' })],
+    ['a threshold-like custom condition', createRule({ customCondition: 'energy >= 0.3' })],
+    ['a second threshold-like part', createRule({ energyThreshold: 0.1, customCondition: 'isBeat && energy >= 0.3' })],
+    ['a parenthesized custom condition', createRule({ customCondition: '(isBeat || isDownbeat)' })],
+  ])('round-trips %s', (_, rule) => {
+    expect(parseRules(formatRules([rule]))).toEqual([rule]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { ShowPlanner } from '../../src/mapping/ShowPlanner';
+import { PreAnalysisResult } from '../../src/audio/CueScheduler';
+import { DropEvent } from '../../src/audio/DropDetector';
+import { Random } from '../../src/shared/Random';
+
+/**
+ * Beats every half second (120 BPM) for 80 seconds
+ */
+const BEATS = Array.from({ length: 160 }, (_, i) => i * 0.5);
+
+/**
+ * A drop at a time with a build-up from another
+ */
+function createDrop(time: number, buildupStart: number): DropEvent {
+  return {
+    time,
+    beatIndex: time * 2,
+    buildupStart,
+    buildupBeatIndex: buildupStart * 2,
+    risers: ['brightness'],
+    strength: 0.6,
+  };
+}
+
+/**
+ * An intro, a verse and a drop section, with the given drops
+ */
+function createAnalysis(drops: DropEvent[]): PreAnalysisResult {
+  return {
+    bpm: 120,
+    beats: BEATS,
+    downbeats: BEATS.filter((_, i) => i % 4 === 0),
+    sections: [
+      { start: 0, end: 16, type: 'intro', energy: 0.2 },
+      { start: 16, end: 48, type: 'verse', energy: 0.4 },
+      { start: 48, end: 80, type: 'drop', energy: 0.9 },
+    ],
+    drops,
+    averageEnergy: 0.5,
+  };
+}
+
+/**
+ * Start, end and type of every planned scene
+ */
+function describeScenes(planner: ShowPlanner): [number, number, string][] {
+  return (planner.getCurrentPlan()?.scenes ?? []).map((scene) => [scene.startTime, scene.endTime, scene.sectionType]);
+}
+
+describe('ShowPlanner', () => {
+  it('plans a build-up scene that ends on a drop at a section start', () => {
+    const planner = new ShowPlanner(new Random(1));
+    planner.createPlan(createAnalysis([createDrop(48, 40)]));
+
+    expect(describeScenes(planner)).toEqual([
+      [0, 16, 'intro'],
+      [16, 40, 'verse'],
+      [40, 48, 'buildup'],
+      [48, 80, 'drop'],
+    ]);
+  });
+
+  it('splits the scene running through a drop at the drop time', () => {
+    const planner = new ShowPlanner(new Random(1));
+    const plan = planner.createPlan(createAnalysis([createDrop(44, 36)]));
+
+    expect(describeScenes(planner)).toEqual([
+      [0, 16, 'intro'],
+      [16, 36, 'verse'],
+      [36, 44, 'buildup'],
+      [44, 48, 'verse'],
+      [48, 80, 'drop'],
+    ]);
+    // The verse carries on after the drop with the look it had
+    expect(plan.scenes[3].look).toBe(plan.scenes[1].look);
+    expect(plan.transitions.map((t) => [t.fromSceneIndex, t.toSceneIndex])).toEqual([[0, 1], [1, 2], [2, 3], [3, 4]]);
+  });
+
+  it('looks ahead to the drop', () => {
+    const planner = new ShowPlanner(new Random(1));
+    planner.createPlan(createAnalysis([createDrop(48, 40)]));
+
+    expect(planner.getDropAhead(44)).toMatchObject({ beatsToDrop: 8, inBuildup: true, buildupProgress: 0.5 });
+    expect(planner.getDropAhead(20, 16)).toBeNull();
+    expect(planner.getDropAhead(48)).toBeNull();
+  });
+
+  it('extends a plan with build-ups by the sections found since', () => {
+    const planner = new ShowPlanner(new Random(1));
+    const analysis = createAnalysis([createDrop(44, 36)]);
+    planner.createPlan(analysis);
+
+    analysis.sections[2].end = 96;
+    analysis.sections.push({ start: 96, end: 104, type: 'breakdown', energy: 0.2 });
+    const plan = planner.extendPlan(analysis);
+
+    expect(describeScenes(planner)).toEqual([
+      [0, 16, 'intro'],
+      [16, 36, 'verse'],
+      [36, 44, 'buildup'],
+      [44, 48, 'verse'],
+      [48, 96, 'drop'],
+      [96, 104, 'breakdown'],
+    ]);
+    expect(plan.transitions.map((t) => [t.fromSceneIndex, t.toSceneIndex])).toContainEqual([4, 5]);
+  });
+});
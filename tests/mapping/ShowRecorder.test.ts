@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { decodeRecording, encodeRecording } from '../../src/mapping/ShowRecorder';
+import { AudioFrame, ShowRecording } from '../../src/shared/types';
+
+describe('encodeRecording', () => {
+  it('keeps recorded values at full precision', async () => {
+    const frame = {
+      timestamp: 1234.56789,
+      isBeat: true,
+      isDownbeat: false,
+      tempo: 128.00001,
+      beatPhase: 0.123456789,
+      beatNumber: 17,
+      rms: 0.1 + 0.2,
+      energy: 1 / 3,
+      peak: 0.99999,
+      spectralCentroid: 2345.6789,
+      spectralFlux: 1e-7,
+      lowEnergy: Math.PI / 4,
+      midEnergy: 0.5,
+      highEnergy: 0.25,
+      section: 'chorus',
+      sectionConfidence: 0.87654321,
+    } as AudioFrame;
+    const recording: ShowRecording = {
+      version: 1,
+      title: 'Precision',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      duration: 1234.56789,
+      frames: [
+        {
+          time: 1234.56789,
+          frame,
+          commands: [
+            {
+              targetId: 'par-1',
+              updates: { intensity: 2 / 3, color: { r: 0.123456789, g: 1e-9, b: 1 } },
+              transitionMs: 33.333333,
+              easing: 'linear',
+            },
+          ],
+        },
+      ],
+    };
+
+    const decoded = await decodeRecording(await encodeRecording(recording));
+
+    expect(decoded.duration).toBe(recording.duration);
+    expect(decoded.frames[0].commands).toEqual(recording.frames[0].commands);
+    expect(decoded.frames[0].frame).toEqual(frame);
+  });
+});
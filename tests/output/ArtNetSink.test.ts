@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ArtNetSink, buildArtDmxPacket } from '../../src/output/ArtNetSink';
+import { UdpSocket, createUdpSocket } from '../../src/output/UdpSocket';
+
+vi.mock('../../src/output/UdpSocket', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/output/UdpSocket')>()),
+  createUdpSocket: vi.fn(),
+}));
+
+/**
+ * Socket that records the packets sent through it
+ */
+function createFakeSocket(): UdpSocket & { packets: Uint8Array[] } {
+  const packets: Uint8Array[] = [];
+  return {
+    packets,
+    send: async (data) => {
+      packets.push(data);
+    },
+    close: async () => {},
+  };
+}
+
+describe('buildArtDmxPacket', () => {
+  it('writes the ArtDmx header', () => {
+    const packet = buildArtDmxPacket(0, new Uint8Array([1, 2, 3]), 7, 2);
+
+    expect(Array.from(packet.subarray(0, 8))).toEqual([0x41, 0x72, 0x74, 0x2d, 0x4e, 0x65, 0x74, 0x00]);
+    expect(packet[8]).toBe(0x00); // OpCode low byte
+    expect(packet[9]).toBe(0x50); // OpCode high byte
+    expect(packet[10]).toBe(0); // ProtVer high byte
+    expect(packet[11]).toBe(14); // ProtVer low byte
+    expect(packet[12]).toBe(7); // Sequence
+    expect(packet[13]).toBe(2); // Physical
+  });
+
+  it('splits the universe into SubUni and Net', () => {
+    const packet = buildArtDmxPacket(0x1234, new Uint8Array(2));
+
+    expect(packet[14]).toBe(0x34);
+    expect(packet[15]).toBe(0x12);
+  });
+
+  it('pads channel data to an even length', () => {
+    const packet = buildArtDmxPacket(0, new Uint8Array([10, 20, 30]));
+
+    expect(packet[16]).toBe(0);
+    expect(packet[17]).toBe(4);
+    expect(Array.from(packet.subarray(18))).toEqual([10, 20, 30, 0]);
+  });
+
+  it('rejects universes outside the 15-bit Port-Address', () => {
+    expect(() => buildArtDmxPacket(-1, new Uint8Array(2))).toThrow();
+    expect(() => buildArtDmxPacket(0x8000, new Uint8Array(2))).toThrow();
+  });
+});
+
+describe('ArtNetSink', () => {
+  afterEach(() => {
+    vi.mocked(createUdpSocket).mockReset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('numbers packets per universe from 1 to 255, skipping 0', async () => {
+    const socket = createFakeSocket();
+    const sink = new ArtNetSink({ socket });
+
+    for (let i = 0; i < 256; i++) {
+      sink.send(1, new Uint8Array(2));
+    }
+    sink.send(2, new Uint8Array(2));
+    await vi.waitFor(() => expect(socket.packets).toHaveLength(257));
+
+    const sequences = socket.packets.map((packet) => packet[12]);
+    expect(sequences.slice(0, 3)).toEqual([1, 2, 3]);
+    expect(sequences[254]).toBe(255);
+    expect(sequences[255]).toBe(1);
+    expect(sequences[256]).toBe(1);
+  });
+
+  it('backs off after the socket fails to open, then retries', async () => {
+    vi.useFakeTimers();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const socket = createFakeSocket();
+    vi.mocked(createUdpSocket).mockRejectedValueOnce(new Error('no dgram')).mockResolvedValue(socket);
+    const sink = new ArtNetSink();
+
+    sink.send(0, new Uint8Array(2));
+    sink.send(0, new Uint8Array(2));
+    await vi.waitFor(() => expect(error).toHaveBeenCalledTimes(1));
+
+    // Frames during the back-off are dropped without reopening or logging
+    sink.send(0, new Uint8Array(2));
+    expect(createUdpSocket).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    sink.send(0, new Uint8Array(2));
+    await vi.waitFor(() => expect(socket.packets).toHaveLength(1));
+    expect(createUdpSocket).toHaveBeenCalledTimes(2);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
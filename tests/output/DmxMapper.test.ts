@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DmxMapper } from '../../src/output/DmxMapper';
+import { Fixture } from '../../src/shared/types';
+
+describe('DmxMapper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses an assignment that runs past the end of the universe', () => {
+    const mapper = new DmxMapper();
+
+    expect(() => mapper.assign('par-1', { universe: 0, address: 510 }, 4)).toThrow(/does not fit/);
+    expect(mapper.getAddress('par-1')).toBeUndefined();
+    expect(() => mapper.assign('par-1', { universe: 0, address: 509 }, 4)).not.toThrow();
+  });
+
+  it('skips a fixture whose channels cross the universe end instead of truncating it', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const mapper = new DmxMapper();
+    mapper.assign('par-1', { universe: 0, address: 511 });
+    const fixture = { id: 'par-1', type: 'par', intensity: 1, color: { r: 1, g: 1, b: 1 } } as unknown as Fixture;
+
+    const first = mapper.render([fixture]).get(0)!;
+    mapper.render([fixture]);
+
+    expect(first.every((value) => value === 0)).toBe(true);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DmxOutput } from '../../src/output/DmxOutput';
+import { DmxMapper } from '../../src/output/DmxMapper';
+import { DmxSink } from '../../src/output/DmxSink';
+import { SacnSink } from '../../src/output/SacnSink';
+import { UdpSocket } from '../../src/output/UdpSocket';
+
+/**
+ * Mapper that renders the given universes with blank data
+ */
+function createMapper(universes: number[]): DmxMapper {
+  return {
+    render: () => new Map(universes.map((universe) => [universe, new Uint8Array(512)])),
+  } as unknown as DmxMapper;
+}
+
+/**
+ * Socket that records sends and closes in order, sending asynchronously
+ */
+function createLoggingSocket(log: string[]): UdpSocket {
+  return {
+    send: async (data) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      log.push(data[112] & 0x40 ? 'terminate' : 'data');
+    },
+    close: async () => {
+      log.push('close');
+    },
+  };
+}
+
+describe('DmxOutput', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends sACN termination packets before closing the socket', async () => {
+    const log: string[] = [];
+    const output = new DmxOutput(createMapper([1]), { refreshRate: 1 });
+    output.addSink(new SacnSink({ socket: createLoggingSocket(log) }));
+
+    output.start(() => []);
+    output.transmit();
+    await output.dispose();
+
+    expect(log).toEqual(['data', 'terminate', 'terminate', 'terminate', 'close']);
+  });
+
+  it('keeps transmitting when a sink rejects a universe', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const sent: number[] = [];
+    const failing: DmxSink = {
+      name: 'failing',
+      send: () => {
+        throw new Error('bad universe');
+      },
+      close: async () => {},
+    };
+    const working: DmxSink = { name: 'working', send: (universe) => sent.push(universe), close: async () => {} };
+    const output = new DmxOutput(createMapper([0, 1]));
+    output.addSink(failing);
+    output.addSink(working);
+
+    output.start(() => []);
+    output.transmit();
+    output.transmit();
+    output.stop();
+
+    expect(sent).toEqual([0, 1, 0, 1]);
+    expect(error).toHaveBeenCalledTimes(2); // Once per universe
+  });
+
+  it('maps patch universe 0 to sACN universe 1 by default', async () => {
+    const packets: Uint8Array[] = [];
+    const socket: UdpSocket = { send: async (data) => void packets.push(data), close: async () => {} };
+
+    new SacnSink({ socket }).send(0, new Uint8Array(512));
+    await vi.waitFor(() => expect(packets).toHaveLength(1));
+    expect((packets[0][113] << 8) | packets[0][114]).toBe(1);
+  });
+
+  it('skips sACN universe 0 when the offset leaves it out of range', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const packets: Uint8Array[] = [];
+    const socket: UdpSocket = { send: async (data) => void packets.push(data), close: async () => {} };
+
+    const unmapped = new SacnSink({ socket, universeOffset: 0 });
+    expect(() => unmapped.send(0, new Uint8Array(512))).not.toThrow();
+    unmapped.send(0, new Uint8Array(512));
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(packets).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DmxPatch } from '../../src/output/DmxPatch';
+import { DmxMapper } from '../../src/output/DmxMapper';
+
+describe('DmxPatch', () => {
+  it('round-trips through JSON', () => {
+    const patch = new DmxPatch(new DmxMapper());
+    patch.patch('par-1', 'par', { universe: 0, address: 1 });
+    patch.patch('par-2', 'par', { universe: 1, address: 100 });
+
+    const copy = new DmxPatch(new DmxMapper());
+    copy.fromJSON(patch.toJSON());
+
+    expect(copy.getEntries()).toEqual(patch.getEntries());
+  });
+
+  it('keeps the current patch when a serialized entry is invalid', () => {
+    const mapper = new DmxMapper();
+    const patch = new DmxPatch(mapper);
+    patch.patch('par-1', 'par', { universe: 0, address: 1 });
+    const before = patch.getEntries();
+
+    const json = JSON.stringify({
+      version: 1,
+      entries: [
+        { fixtureId: 'par-2', fixtureType: 'par', universe: 0, address: 10 },
+        { fixtureId: 'par-3', fixtureType: 'par', universe: 0, address: 600 },
+      ],
+    });
+
+    expect(() => patch.fromJSON(json)).toThrow(/does not fit/);
+    expect(patch.getEntries()).toEqual(before);
+    expect(mapper.getAddress('par-1')).toEqual({ universe: 0, address: 1 });
+    expect(mapper.getAddress('par-2')).toBeUndefined();
+  });
+
+  it('rejects unknown fixture types and missing profiles without clearing', () => {
+    const patch = new DmxPatch(new DmxMapper());
+    patch.patch('par-1', 'par', { universe: 0, address: 1 });
+
+    const unknownType = { version: 1, entries: [{ fixtureId: 'x', fixtureType: 'fog', universe: 0, address: 1 }] };
+    const missingProfile = {
+      version: 1,
+      entries: [{ fixtureId: 'x', fixtureType: 'par', universe: 0, address: 1, profile: 'acme/nothing' }],
+    };
+
+    expect(() => patch.fromJSON(JSON.stringify(unknownType))).toThrow(/Unknown fixture type/);
+    expect(() => patch.fromJSON(JSON.stringify(missingProfile))).toThrow(/not found/);
+    expect(patch.getEntries().map((e) => e.fixtureId)).toEqual(['par-1']);
+  });
+
+  it('rejects payloads that are not a patch object', () => {
+    const patch = new DmxPatch(new DmxMapper());
+
+    expect(() => patch.fromJSON('null')).toThrow(/Invalid patch/);
+    expect(() => patch.fromJSON('42')).toThrow(/Invalid patch/);
+    expect(() => patch.fromJSON('[]')).toThrow(/Invalid patch/);
+    expect(() => patch.fromJSON('{"version":1}')).toThrow(/entries must be an array/);
+    expect(() => patch.fromJSON('{"version":1,"entries":[{"fixtureId":"x","fixtureType":"par","universe":0,"address":1,"profile":7}]}'))
+      .toThrow(/Invalid patch entry at index 0/);
+  });
+
+  it('rejects overlapping address ranges', () => {
+    const patch = new DmxPatch(new DmxMapper());
+    patch.patch('par-1', 'par', { universe: 0, address: 1 });
+
+    expect(() => patch.patch('par-2', 'par', { universe: 0, address: 4 })).toThrow(/par-2 overlaps par-1 at 0.4-4/);
+    expect(patch.getEntry('par-2')).toBeUndefined();
+
+    // Moving a fixture within its own range is not a conflict
+    expect(() => patch.patch('par-1', 'par', { universe: 0, address: 2 })).not.toThrow();
+    expect(() => patch.patch('par-2', 'par', { universe: 1, address: 4 })).not.toThrow();
+
+    const overlapping = {
+      version: 1,
+      entries: [
+        { fixtureId: 'a', fixtureType: 'par', universe: 0, address: 1 },
+        { fixtureId: 'b', fixtureType: 'par', universe: 0, address: 3 },
+      ],
+    };
+    expect(() => patch.fromJSON(JSON.stringify(overlapping))).toThrow(/b overlaps a/);
+    expect(patch.getEntries().map((e) => e.fixtureId)).toEqual(['par-1', 'par-2']);
+  });
+});
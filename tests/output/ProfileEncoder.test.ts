@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { encodeChannels } from '../../src/output/ProfileEncoder';
+import { FixtureMode } from '../../src/output/FixtureProfile';
+
+/**
+ * CMY mode with no dimmer channel
+ */
+const CMY_MODE: FixtureMode = {
+  name: '3ch',
+  channels: [
+    { name: 'cyan', attribute: 'cyan' },
+    { name: 'magenta', attribute: 'magenta' },
+    { name: 'yellow', attribute: 'yellow' },
+  ],
+};
+
+describe('encodeChannels', () => {
+  it('closes CMY filters with intensity when there is no dimmer', () => {
+    const white = { r: 1, g: 1, b: 1 };
+
+    expect(Array.from(encodeChannels({ color: white, intensity: 1 }, CMY_MODE))).toEqual([0, 0, 0]);
+    expect(Array.from(encodeChannels({ color: white, intensity: 0.5 }, CMY_MODE))).toEqual([128, 128, 128]);
+    expect(Array.from(encodeChannels({ color: white, intensity: 0 }, CMY_MODE))).toEqual([255, 255, 255]);
+  });
+
+  it('scales a colored CMY mix like the additive engines', () => {
+    const bytes = encodeChannels({ color: { r: 1, g: 0, b: 0 }, intensity: 0.5 }, CMY_MODE);
+
+    expect(Array.from(bytes)).toEqual([128, 255, 255]);
+  });
+});
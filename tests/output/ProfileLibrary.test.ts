@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ProfileLibrary } from '../../src/output/ProfileLibrary';
+import { FixtureProfile } from '../../src/output/FixtureProfile';
+
+/**
+ * Single-channel profile with spaces and capitals in its model name
+ */
+function createProfile(): FixtureProfile {
+  return {
+    manufacturer: 'Generic',
+    model: 'Pixel Bar 8',
+    categories: [],
+    physical: {},
+    modes: [{ name: '1ch', channels: [{ name: 'dimmer', attribute: 'dimmer' }] }],
+  };
+}
+
+describe('ProfileLibrary', () => {
+  it('finds profiles by keys typed with different case and spacing', () => {
+    const library = new ProfileLibrary([createProfile()]);
+
+    expect(library.list()).toEqual(['generic/pixel-bar-8']);
+    expect(library.get('generic/pixel-bar-8')).toBeDefined();
+    expect(library.get('Generic/Pixel Bar 8')).toBeDefined();
+    expect(library.get('  GENERIC / Pixel   Bar 8 ')).toBeDefined();
+  });
+
+  it('removes profiles by normalized key', () => {
+    const library = new ProfileLibrary([createProfile()]);
+
+    library.remove(' Generic/Pixel Bar 8');
+    expect(library.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FixtureGroups, SelectableFixture, isSelector, selectFixtures } from '../../src/shared/FixtureSelector';
+
+/**
+ * Four PARs across the front row and two moving heads upstage, listed
+ * out of stage order
+ */
+const FIXTURES: SelectableFixture[] = [
+  { id: 'par-3', type: 'par', position: { x: 1, y: 0, z: 4 } },
+  { id: 'par-1', type: 'par', position: { x: -3, y: 0, z: 4 } },
+  { id: 'par-4', type: 'par', position: { x: 3, y: 0, z: 4.2 } },
+  { id: 'par-2', type: 'par', position: { x: -1, y: 0, z: 4 } },
+  { id: 'mh-1', type: 'moving_head', position: { x: -2, y: 5, z: -2 } },
+  { id: 'mh-2', type: 'moving_head', position: { x: 2, y: 5, z: -2 } },
+];
+
+/**
+ * Resolves targets to fixture IDs
+ */
+function select(targets: string | string[], groups?: FixtureGroups): string[] {
+  return selectFixtures(targets, FIXTURES, groups).map((fixture) => fixture.id);
+}
+
+describe('selectFixtures', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves IDs, types and all', () => {
+    expect(select('par-2')).toEqual(['par-2']);
+    expect(select('moving_head')).toEqual(['mh-1', 'mh-2']);
+    expect(select('all')).toHaveLength(6);
+    expect(select('fog')).toEqual([]);
+  });
+
+  it('keeps list order and drops repeats', () => {
+    expect(select('mh-2,par-1,mh-2')).toEqual(['mh-2', 'par-1']);
+    expect(select(['par', 'par-1'])).toEqual(['par-3', 'par-1', 'par-4', 'par-2']);
+  });
+
+  it('splits selections by position', () => {
+    expect(select('par/left')).toEqual(['par-1', 'par-2']);
+    expect(select('all/top')).toEqual(['mh-1', 'mh-2']);
+    expect(select('all/front_row')).toEqual(['par-3', 'par-1', 'par-4', 'par-2']);
+    expect(select('all/back_row')).toEqual(['mh-1', 'mh-2']);
+  });
+
+  it('applies filters left to right', () => {
+    expect(select('par/left_to_right')).toEqual(['par-1', 'par-2', 'par-3', 'par-4']);
+    expect(select('par/left_to_right/odd')).toEqual(['par-1', 'par-3']);
+    expect(select('par/left_to_right/even/reverse')).toEqual(['par-4', 'par-2']);
+    expect(select('par/center_out')).toEqual(['par-3', 'par-2', 'par-1', 'par-4']);
+  });
+
+  it('resolves nested groups and stops at cycles', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const groups = new FixtureGroups();
+    groups.define('heads', ['moving_head/right_to_left']);
+    groups.define('rig', ['@heads', 'par-1']);
+    groups.define('loop', ['@loop']);
+
+    expect(select('@rig', groups)).toEqual(['mh-2', 'mh-1', 'par-1']);
+    expect(select('@loop', groups)).toEqual([]);
+    expect(select('@missing', groups)).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FixtureGroups', () => {
+  it('rejects names that would parse as selectors', () => {
+    const groups = new FixtureGroups();
+
+    expect(() => groups.define('', ['par'])).toThrow();
+    expect(() => groups.define('a/b', ['par'])).toThrow();
+    expect(() => groups.define('a,b', ['par'])).toThrow();
+  });
+
+  it('copies targets in and out', () => {
+    const groups = new FixtureGroups();
+    const targets = ['par-1'];
+    groups.define('front', targets);
+    targets.push('par-2');
+
+    groups.get('front')!.push('par-3');
+
+    expect(groups.get('front')).toEqual(['par-1']);
+  });
+});
+
+describe('isSelector', () => {
+  it('recognizes groups, lists and filters', () => {
+    expect(isSelector('@front')).toBe(true);
+    expect(isSelector('par-1,par-2')).toBe(true);
+    expect(isSelector('par/left')).toBe(true);
+    expect(isSelector('par-1')).toBe(false);
+  });
+});
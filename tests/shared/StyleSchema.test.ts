@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+  STYLE_PROFILE_VERSION,
+  formatSchemaErrors,
+  migrateStyleProfile,
+  validateStyleProfile,
+  validateStyleRule,
+} from '../../src/shared/StyleSchema';
+import { StyleProfileManager } from '../../src/style/StyleProfile';
+import { getDefaultRules } from '../../src/mapping/rules/DefaultRules';
+
+/**
+ * A valid serialized profile with the default rules, as toJSON writes it
+ */
+function createProfileData(): Record<string, unknown> {
+  const profile = { ...StyleProfileManager.create('test', 'test.mp4'), rules: getDefaultRules() };
+  return JSON.parse(StyleProfileManager.toJSON(profile));
+}
+
+/**
+ * A profile written before schema versions, with rules lacking the fields
+ * version 2 requires
+ */
+function createVersion1Data(): Record<string, unknown> {
+  const { schemaVersion: _, modelType: __, ...data } = createProfileData();
+  return {
+    ...data,
+    rules: [
+      {
+        id: 'old-strobe',
+        name: 'Old Strobe',
+        trigger: { onBeat: true },
+        action: { type: 'strobe', durationMs: 100 },
+      },
+    ],
+  };
+}
+
+/**
+ * Paths of the errors found in a profile
+ */
+function errorPaths(data: unknown): string[] {
+  return validateStyleProfile(data).map((error) => error.path);
+}
+
+describe('validateStyleProfile', () => {
+  it('accepts a profile as toJSON writes it', () => {
+    expect(validateStyleProfile(createProfileData())).toEqual([]);
+  });
+
+  it('reports every bad value with its path', () => {
+    const data = createProfileData();
+    const rules = data.rules as { probability: number; trigger: Record<string, unknown>; action: Record<string, unknown> }[];
+    data.name = '';
+    data.createdAt = 'yesterday';
+    (data.palette as { primary: unknown[] }).primary[1] = { r: 0, g: 2, b: 0 };
+    rules[0].probability = 1.5;
+    rules[1].action.durationMs = 0;
+    rules[2].trigger.sections = ['chorus', 'hook'];
+
+    expect(errorPaths(data)).toEqual([
+      'name',
+      'createdAt',
+      'palette.primary[1].g',
+      'rules[0].probability',
+      'rules[1].action.durationMs',
+      'rules[2].trigger.sections[1]',
+    ]);
+  });
+
+  it('reports duplicate rule ids', () => {
+    const data = createProfileData();
+    const rules = data.rules as { id: string }[];
+    rules[1].id = rules[0].id;
+
+    expect(validateStyleProfile(data)).toEqual([{ path: 'rules[1].id', message: `duplicate id '${rules[0].id}'` }]);
+  });
+
+  it('rejects data that is not a profile', () => {
+    expect(validateStyleProfile(null)).toEqual([{ path: '', message: 'must be an object' }]);
+    expect(errorPaths({ schemaVersion: STYLE_PROFILE_VERSION })).toEqual(
+      expect.arrayContaining(['name', 'source', 'createdAt', 'palette', 'rules', 'avgBrightness'])
+    );
+  });
+
+  it('accepts a Date as createdAt', () => {
+    expect(validateStyleProfile({ ...createProfileData(), createdAt: new Date() })).toEqual([]);
+  });
+});
+
+describe('validateStyleRule', () => {
+  it('prefixes errors with the given path', () => {
+    const [rule] = getDefaultRules();
+
+    expect(validateStyleRule(rule)).toEqual([]);
+    expect(validateStyleRule({ ...rule, action: { ...rule.action, type: 'laser_show' } }, 'rules[4]')).toEqual([
+      expect.objectContaining({ path: 'rules[4].action.type' }),
+    ]);
+  });
+
+  it('allows the symbolic action values', () => {
+    const [rule] = getDefaultRules();
+    const action = { ...rule.action, color: 'random_from_palette', intensity: 'from_energy', movement: { pan: 'random' } };
+
+    expect(validateStyleRule({ ...rule, action })).toEqual([]);
+  });
+});
+
+describe('migrateStyleProfile', () => {
+  it('upgrades a version 1 profile to a valid current one', () => {
+    const migrated = migrateStyleProfile(createVersion1Data());
+
+    expect(migrated.schemaVersion).toBe(STYLE_PROFILE_VERSION);
+    expect(migrated.modelType).toBe('rules-only');
+    expect(migrated.rules).toEqual([
+      expect.objectContaining({ probability: 1, priority: 0, action: { type: 'strobe', durationMs: 100, targets: [] } }),
+    ]);
+    expect(validateStyleProfile(migrated)).toEqual([]);
+  });
+
+  it('keeps values a version 1 profile already has', () => {
+    const data = createVersion1Data();
+    data.modelType = 'custom-nn';
+    const [rule] = data.rules as Record<string, unknown>[];
+    rule.probability = 0.5;
+    rule.action = { type: 'strobe', targets: ['strobe'], durationMs: 100 };
+
+    const migrated = migrateStyleProfile(data);
+    expect(migrated.modelType).toBe('custom-nn');
+    expect(migrated.rules).toEqual([expect.objectContaining({ probability: 0.5, action: rule.action })]);
+  });
+
+  it('does not modify its input', () => {
+    const data = createVersion1Data();
+    const copy = structuredClone(data);
+
+    migrateStyleProfile(data);
+    expect(data).toEqual(copy);
+  });
+
+  it('leaves a current profile unchanged', () => {
+    const data = createProfileData();
+
+    expect(migrateStyleProfile(data)).toEqual(data);
+  });
+
+  it('refuses unknown versions', () => {
+    expect(() => migrateStyleProfile({ schemaVersion: STYLE_PROFILE_VERSION + 1 })).toThrow(/Unsupported style profile version/);
+    expect(() => migrateStyleProfile({ schemaVersion: 0 })).toThrow(/Invalid style profile version/);
+    expect(() => migrateStyleProfile({ schemaVersion: '2' })).toThrow(/Invalid style profile version/);
+    expect(() => migrateStyleProfile([])).toThrow(/must be an object/);
+  });
+});
+
+describe('formatSchemaErrors', () => {
+  it('puts each error on its own line', () => {
+    expect(formatSchemaErrors([
+      { path: '', message: 'must be an object' },
+      { path: 'rules[0].id', message: 'must be a string' },
+    ])).toBe('must be an object\nrules[0].id: must be a string');
+  });
+});
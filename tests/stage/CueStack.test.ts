@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { LightingController } from '../../src/stage/LightingController';
+import { WashLight } from '../../src/shared/types';
+
+describe('CueStack', () => {
+  it('snaps to a cue jumped to mid-fade without the old fade taking over', () => {
+    const controller = new LightingController(new THREE.Scene());
+    controller.addFixture({
+      id: 'wash-1',
+      type: 'wash',
+      position: { x: 0, y: 0, z: 0 },
+      enabled: true,
+      intensity: 0,
+      color: { r: 1, g: 1, b: 1 },
+      spread: 0.5,
+    });
+    const cueStack = controller.getCueStack();
+    cueStack.add({ number: 1, states: { 'wash-1': { intensity: 1 } }, upFade: 2000 });
+    cueStack.add({ number: 2, states: { 'wash-1': { intensity: 0.3 } }, upFade: 2000 });
+
+    cueStack.go();
+    controller.update(500);
+    cueStack.goto(2, 0);
+    controller.update(500);
+    controller.update(500);
+
+    const state = controller.getFixture('wash-1')?.getState() as WashLight;
+    expect(state.intensity).toBe(0.3);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { LightingController } from '../../src/stage/LightingController';
+import { DmxOutput } from '../../src/output/DmxOutput';
+import { DmxMapper } from '../../src/output/DmxMapper';
+import { PixelBar } from '../../src/shared/types';
+
+/**
+ * Controller with one PAR at the given intensity
+ */
+function createController(intensity: number): LightingController {
+  const controller = new LightingController(new THREE.Scene());
+  controller.addFixture({
+    id: 'par-1',
+    type: 'par',
+    position: { x: 0, y: 0, z: 0 },
+    enabled: true,
+    intensity: 0,
+    color: { r: 1, g: 1, b: 1 },
+    emitters: 'rgb',
+    white: 0,
+    beamAngle: 25,
+    dimmerCurve: 'linear',
+  });
+  controller.executeCommands([{ targetId: 'par-1', updates: { intensity }, transitionMs: 0, easing: 'snap' }]);
+  return controller;
+}
+
+/**
+ * Current intensity of the PAR
+ */
+function getIntensity(controller: LightingController): number | undefined {
+  return (controller.getFixture('par-1')?.getState() as { intensity?: number }).intensity;
+}
+
+describe('LightingController', () => {
+  it('holds a blackout until it is released', () => {
+    const controller = createController(0.8);
+
+    controller.blackout();
+    controller.update(16);
+    controller.update(5000);
+    expect(getIntensity(controller)).toBe(0);
+
+    // Mapping writes stay underneath the blackout
+    controller.executeCommands([{ targetId: 'par-1', updates: { intensity: 0.6 }, transitionMs: 0, easing: 'snap' }]);
+    expect(getIntensity(controller)).toBe(0);
+
+    controller.releaseBlackout(0);
+    expect(getIntensity(controller)).toBe(0.6);
+  });
+
+  it('does not cut mapping fades short while the dim level is steady', () => {
+    const controller = createController(0);
+
+    controller.executeCommands([{ targetId: 'par-1', updates: { intensity: 1 }, transitionMs: 1000, easing: 'linear' }]);
+    controller.update(100);
+    controller.update(100);
+    const intensity = getIntensity(controller) ?? 0;
+
+    expect(intensity).toBeGreaterThan(0);
+    expect(intensity).toBeLessThan(1);
+  });
+
+  it('merges effects over the commanded state and hands it back when removed', () => {
+    const controller = createController(0.4);
+
+    const id = controller.addEffect({
+      targets: ['par-1'],
+      attribute: 'intensity',
+      waveform: 'square',
+      rateHz: 1,
+      phaseSpread: 0,
+      size: 1,
+      offset: 0.5,
+    });
+    controller.update(16);
+    expect(controller.getAttributeOwners('par-1').intensity.source).toBe('effect');
+
+    controller.removeEffect(id);
+    expect(controller.getAttributeOwners('par-1').intensity.source).toBe('mapping');
+    expect(getIntensity(controller)).toBe(0.4);
+  });
+
+  it('waits for DMX streams to terminate before disposing', async () => {
+    const controller = createController(0);
+    const log: string[] = [];
+    const mapper = { render: () => new Map([[1, new Uint8Array(512)]]) } as unknown as DmxMapper;
+    const output = new DmxOutput(mapper, { refreshRate: 1 });
+    output.addSink({
+      name: 'slow',
+      send: () => {},
+      terminate: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        log.push('terminated');
+      },
+      close: async () => {},
+    });
+
+    controller.addOutput(output);
+    output.transmit();
+    await controller.dispose();
+
+    expect(log).toEqual(['terminated']);
+    expect(controller.getOutputs()).toEqual([]);
+  });
+
+  it('applies the cell attributes a command sets and warns about the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new LightingController(new THREE.Scene());
+    controller.addFixture({
+      id: 'bar-1',
+      type: 'pixel_bar',
+      position: { x: 0, y: 0, z: 0 },
+      enabled: true,
+      intensity: 1,
+      color: { r: 1, g: 1, b: 1 },
+      cells: Array.from({ length: 4 }, () => ({ intensity: 0.5, color: { r: 1, g: 1, b: 1 } })),
+      length: 1,
+      effect: 'none',
+      effectSpeed: 1,
+    });
+
+    controller.executeCommands([
+      { targetId: 'bar-1:2-3', updates: { color: { r: 0, g: 0, b: 1 }, pan: 0.5 }, transitionMs: 0, easing: 'snap' },
+    ]);
+
+    const cells = (controller.getFixture('bar-1')?.getState() as PixelBar).cells;
+    expect(cells.map((cell) => cell.color.b === 1 && cell.color.r === 0)).toEqual([false, true, true, false]);
+    // Attributes the command leaves out keep their values
+    expect(cells.map((cell) => cell.intensity)).toEqual([0.5, 0.5, 0.5, 0.5]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/pan/);
+    warn.mockRestore();
+  });
+});
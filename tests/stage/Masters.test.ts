@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { MasterLevel, Masters } from '../../src/stage/Masters';
+
+/**
+ * Resolves "front" and "back" to two fixtures each and anything else to itself
+ */
+function resolveTargets(targets: string[]): string[] {
+  return targets.flatMap((target) => {
+    switch (target) {
+      case 'front':
+        return ['par-1', 'par-2'];
+      case 'back':
+        return ['par-2', 'par-3'];
+      default:
+        return [target];
+    }
+  });
+}
+
+/**
+ * Computes the master output of par-1 to par-3
+ */
+function computeLevels(masters: Masters): Record<string, MasterLevel> {
+  return Object.fromEntries(masters.computeLevels(['par-1', 'par-2', 'par-3'], resolveTargets));
+}
+
+describe('Masters', () => {
+  it('scales every fixture by the grand master', () => {
+    const masters = new Masters();
+    masters.setGrandMaster(0.5);
+
+    expect(Object.values(computeLevels(masters)).map((entry) => entry.level)).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('multiplies the submasters a fixture belongs to', () => {
+    const masters = new Masters();
+    masters.setGrandMaster(0.8);
+    masters.defineSubmaster('front', ['front'], 0.5);
+    masters.defineSubmaster('back', ['back'], 0.5);
+
+    const levels = computeLevels(masters);
+
+    expect(levels['par-1'].level).toBeCloseTo(0.4);
+    expect(levels['par-2'].level).toBeCloseTo(0.2);
+    expect(levels['par-3'].level).toBeCloseTo(0.4);
+  });
+
+  it('drives flashed fixtures to the grand master level', () => {
+    const masters = new Masters();
+    masters.setGrandMaster(0.8);
+    masters.defineSubmaster('front', ['front'], 0);
+    masters.defineSubmaster('back', ['back'], 0.5);
+    masters.flash('back', true);
+
+    const levels = computeLevels(masters);
+
+    expect(levels['par-1']).toEqual({ level: 0, flash: false });
+    // The flash wins over the pulled-down front submaster
+    expect(levels['par-2']).toEqual({ level: 0.8, flash: true });
+    expect(levels['par-3']).toEqual({ level: 0.8, flash: true });
+
+    masters.flash('back', false);
+    expect(computeLevels(masters)['par-3']).toEqual({ level: 0.4, flash: false });
+  });
+
+  it('forces everything to zero in dead blackout, flashes included', () => {
+    const masters = new Masters();
+    masters.defineSubmaster('front', ['front']);
+    masters.flash('front', true);
+
+    expect(masters.toggleBlackout()).toBe(true);
+    expect(Object.values(computeLevels(masters))).toEqual([
+      { level: 0, flash: false },
+      { level: 0, flash: false },
+      { level: 0, flash: false },
+    ]);
+
+    masters.setBlackout(false);
+    expect(computeLevels(masters)['par-1']).toEqual({ level: 1, flash: true });
+  });
+
+  it('creates group faders on first use', () => {
+    const masters = new Masters();
+
+    masters.setGroupFader('front', 0.3);
+    masters.setGroupFader('front', 1.5);
+
+    expect(masters.getSubmaster('@front')).toEqual({ name: '@front', targets: ['@front'], level: 1, flash: false });
+  });
+
+  it('clamps levels and rejects unknown submasters', () => {
+    const masters = new Masters();
+    masters.setGrandMaster(-1);
+
+    expect(masters.getGrandMaster()).toBe(0);
+    expect(() => masters.setSubmaster('missing', 0.5)).toThrow(/Unknown submaster/);
+    expect(() => masters.flash('missing', true)).toThrow(/Unknown submaster/);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MergeLayer } from '../../src/stage/MergeLayer';
+
+describe('MergeLayer', () => {
+  it('lets effects override mapping and hands attributes back on release', () => {
+    const layer = new MergeLayer();
+    layer.write('mapping', 'par-1', { intensity: 0.5, pan: 0.2 });
+    layer.write('effect', 'par-1', { intensity: 0.9, pan: 0.8 });
+
+    expect(layer.getOwner('par-1', 'intensity')?.source).toBe('effect');
+
+    const changes = layer.release('effect', 'par-1', ['pan']);
+    expect(changes.get('par-1')).toEqual({ pan: 0.2 });
+    expect(layer.getOwner('par-1', 'intensity')?.value).toBe(0.9);
+  });
+
+  it('reports only values that changed', () => {
+    const layer = new MergeLayer();
+
+    expect(layer.write('mapping', 'par-1', { intensity: 0.5 })).toEqual({ intensity: 0.5 });
+    expect(layer.write('mapping', 'par-1', { intensity: 0.5 })).toEqual({});
+    expect(layer.setSourceLevel('mapping', 0.5).get('par-1')).toEqual({ intensity: 0.25 });
+    expect(layer.setSourceLevel('mapping', 0.5).size).toBe(0);
+  });
+});
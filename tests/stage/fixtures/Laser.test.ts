@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Laser } from '../../../src/stage/fixtures/Laser';
+import { Laser as LaserState } from '../../../src/shared/types';
+
+/**
+ * Laser with its mesh built, emitting a green beam at scan center
+ */
+function createLaser(overrides: Partial<LaserState> = {}): Laser {
+  const laser = new Laser({
+    id: 'laser-1',
+    type: 'laser',
+    position: { x: 0, y: 5, z: 0 },
+    enabled: true,
+    intensity: 1,
+    color: { r: 0, g: 1, b: 0 },
+    xPosition: 0.5,
+    yPosition: 0.5,
+    pattern: 'fan',
+    ...overrides,
+  });
+  laser.createMesh();
+  return laser;
+}
+
+/**
+ * Gets the beam pivots of a laser's scan group
+ */
+function getBeams(laser: Laser): THREE.Object3D[] {
+  const scanGroup = laser.getGroup().children[2];
+  return scanGroup.children.filter((child) => child instanceof THREE.Group);
+}
+
+describe('Laser', () => {
+  it('applies snapped state immediately', () => {
+    const laser = createLaser();
+
+    laser.applyState({ xPosition: 1, color: { r: 1, g: 0, b: 0 }, pattern: 'beam' });
+
+    expect(laser.getState()).toMatchObject({ xPosition: 1, color: { r: 1, g: 0, b: 0 }, pattern: 'beam' });
+    expect(getBeams(laser).filter((beam) => beam.visible)).toHaveLength(1);
+  });
+
+  it('moves the scan position over a transition but switches patterns instantly', () => {
+    const laser = createLaser();
+
+    laser.applyState({ xPosition: 1, pattern: 'tunnel' }, 1000);
+    expect(laser.getState().pattern).toBe('tunnel');
+
+    laser.update(500);
+    expect(laser.getState().xPosition).toBeCloseTo(0.75);
+
+    laser.update(500);
+    expect(laser.getState().xPosition).toBe(1);
+  });
+
+  it('hides every beam when disabled or dark', () => {
+    const laser = createLaser();
+    expect(getBeams(laser).every((beam) => beam.visible)).toBe(true);
+
+    laser.applyState({ intensity: 0 });
+    expect(getBeams(laser).some((beam) => beam.visible)).toBe(false);
+
+    laser.applyState({ intensity: 1, enabled: false });
+    expect(getBeams(laser).some((beam) => beam.visible)).toBe(false);
+  });
+
+  it('scales the output intensity by the master level', () => {
+    const laser = createLaser({ intensity: 0.8 });
+
+    laser.setMasterLevel(0.5);
+    expect(laser.getOutputState().intensity).toBeCloseTo(0.4);
+    expect(laser.getState().intensity).toBe(0.8);
+
+    laser.setMasterLevel(0.5, true);
+    expect(laser.getOutputState().intensity).toBe(0.5);
+  });
+});
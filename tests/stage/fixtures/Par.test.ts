@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Par, applyDimmerCurve } from '../../../src/stage/fixtures/Par';
+import { Par as ParState } from '../../../src/shared/types';
+
+/**
+ * PAR with its mesh built, at full intensity with the color emitters off
+ */
+function createPar(overrides: Partial<ParState> = {}): Par {
+  const par = new Par({
+    id: 'par-1',
+    type: 'par',
+    position: { x: 0, y: 0, z: 0 },
+    enabled: true,
+    intensity: 1,
+    color: { r: 0, g: 0, b: 0 },
+    emitters: 'rgbw',
+    beamAngle: 25,
+    ...overrides,
+  });
+  par.createMesh();
+  return par;
+}
+
+/**
+ * Gets the spotlight a PAR renders with
+ */
+function getSpotlight(par: Par): THREE.SpotLight {
+  return par.getGroup().children.find((child) => child instanceof THREE.SpotLight) as THREE.SpotLight;
+}
+
+describe('applyDimmerCurve', () => {
+  it('maps intensity through each curve', () => {
+    expect(applyDimmerCurve(0.5)).toBe(0.5);
+    expect(applyDimmerCurve(0.5, 'square')).toBe(0.25);
+    expect(applyDimmerCurve(0.25, 's_curve')).toBeCloseTo(0.15625);
+    expect(applyDimmerCurve(0.5, 's_curve')).toBe(0.5);
+  });
+
+  it('clamps out-of-range intensities', () => {
+    expect(applyDimmerCurve(-1, 'square')).toBe(0);
+    expect(applyDimmerCurve(2, 's_curve')).toBe(1);
+  });
+});
+
+describe('Par', () => {
+  it('only emits white and amber from units that have those emitters', () => {
+    const rgbw = createPar({ white: 0.5, amber: 1 });
+    expect(getSpotlight(rgbw).color.toArray()).toEqual([0.5, 0.5, 0.5]);
+
+    const rgba = createPar({ emitters: 'rgba', white: 0.5, amber: 1 });
+    const [r, g, b] = getSpotlight(rgba).color.toArray();
+    expect(r).toBe(1);
+    expect(g).toBeGreaterThan(0);
+    expect(g).toBeLessThan(1);
+    expect(b).toBe(0);
+  });
+
+  it('ignores beam angle changes', () => {
+    const par = createPar();
+
+    par.applyState({ beamAngle: 60, intensity: 0.5 });
+
+    expect(par.getState()).toMatchObject({ beamAngle: 25, intensity: 0.5 });
+  });
+
+  it('fades the white emitter in from zero when it was never set', () => {
+    const par = createPar();
+
+    par.applyState({ white: 1 }, 1000);
+    par.update(500);
+
+    expect(par.getState().white).toBeCloseTo(0.5);
+  });
+
+  it('applies the dimmer curve and masters to the light output', () => {
+    const par = createPar({ intensity: 0.5, dimmerCurve: 'square' });
+    const full = getSpotlight(createPar()).intensity;
+
+    expect(getSpotlight(par).intensity).toBeCloseTo(full * 0.25);
+
+    par.setMasterLevel(0.5);
+    par.update(0);
+    expect(getSpotlight(par).intensity).toBeCloseTo(full * 0.0625);
+  });
+});
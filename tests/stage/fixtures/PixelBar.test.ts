@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PixelBar, renderPixelCells } from '../../../src/stage/fixtures/PixelBar';
+import { PixelBar as PixelBarState } from '../../../src/shared/types';
+
+/**
+ * Four-cell bar state with every cell dark
+ */
+function createState(overrides: Partial<PixelBarState> = {}): PixelBarState {
+  return {
+    id: 'bar-1',
+    type: 'pixel_bar',
+    position: { x: 0, y: 0, z: 0 },
+    enabled: true,
+    intensity: 1,
+    color: { r: 1, g: 1, b: 1 },
+    cells: Array.from({ length: 4 }, () => ({ intensity: 0, color: { r: 1, g: 1, b: 1 } })),
+    length: 1,
+    effect: 'none',
+    effectSpeed: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Pixel bar with its mesh built
+ */
+function createBar(overrides: Partial<PixelBarState> = {}): PixelBar {
+  const bar = new PixelBar(createState(overrides));
+  bar.createMesh();
+  return bar;
+}
+
+describe('PixelBar', () => {
+  it('does not share cells with the initial state', () => {
+    const state = createState();
+    const bar = createBar(state);
+
+    bar.applyCellState([0], { intensity: 1 });
+
+    expect(state.cells[0].intensity).toBe(0);
+    expect(bar.getState().cells[0].intensity).toBe(1);
+  });
+
+  it('fades individual cells and leaves the others alone', () => {
+    const bar = createBar();
+
+    bar.applyCellState([1, 2], { intensity: 1 }, 1000);
+    bar.update(500);
+
+    expect(bar.getState().cells.map((cell) => cell.intensity)).toEqual([0, 0.5, 0.5, 0]);
+  });
+
+  it('recolors every cell when the bar color is set', () => {
+    const bar = createBar();
+
+    bar.applyState({ color: { r: 1, g: 0, b: 0 } });
+
+    expect(bar.getState().cells.every((cell) => cell.color.g === 0 && cell.color.r === 1)).toBe(true);
+  });
+
+  it('keeps its cell count and length', () => {
+    const bar = createBar();
+
+    bar.applyState({ length: 3, cells: [] });
+
+    expect(bar.getCellCount()).toBe(4);
+    expect(bar.getState().length).toBe(1);
+  });
+});
+
+describe('renderPixelCells', () => {
+  it('passes cells through without an effect', () => {
+    const state = createState();
+    state.cells[2].intensity = 0.7;
+
+    expect(renderPixelCells(state, 1234)).toEqual(state.cells);
+  });
+
+  it('moves the chase head along the bar over one cycle', () => {
+    const cells = Array.from({ length: 4 }, () => ({ intensity: 1, color: { r: 1, g: 1, b: 1 } }));
+    const state = createState({ cells, effect: 'chase' });
+
+    const brightest = (timeMs: number) => {
+      const levels = renderPixelCells(state, timeMs).map((cell) => cell.intensity);
+      return levels.indexOf(Math.max(...levels));
+    };
+
+    expect(brightest(0)).toBe(0);
+    expect(brightest(250)).toBe(1);
+    expect(brightest(750)).toBe(3);
+  });
+});
@@ -55,6 +55,12 @@ export function consoleStreamPlugin(): Plugin {
       });
     },
 
+    // Servers that never listen (e.g. vite-node scripts) only close the plugin container
+    closeBundle() {
+      wss?.close();
+      wss = null;
+    },
+
     // Inject the client-side console interceptor
     transformIndexHtml() {
       return [
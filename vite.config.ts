@@ -13,6 +13,7 @@ export default defineConfig({
       '@stage': resolve(__dirname, 'src/stage'),
       '@style': resolve(__dirname, 'src/style'),
       '@mapping': resolve(__dirname, 'src/mapping'),
+      '@output': resolve(__dirname, 'src/output'),
       '@shared': resolve(__dirname, 'src/shared'),
     },
   },